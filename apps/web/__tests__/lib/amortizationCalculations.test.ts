@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculatePMT,
+  generateAmortizationSchedule,
+} from "../../lib/amortization/amortizationCalculations";
+
+describe("calculatePMT", () => {
+  it("calculates the standard payment", () => {
+    expect(calculatePMT(200000, 4, 360)).toBeCloseTo(954.83, 2);
+  });
+
+  it("returns the principal for a zero term", () => {
+    expect(calculatePMT(5000, 6, 0)).toBe(5000);
+  });
+});
+
+describe("generateAmortizationSchedule", () => {
+  it("amortizes the loan over its term", () => {
+    const result = generateAmortizationSchedule(10000, 6, 12, calculatePMT(10000, 6, 12), "2024-01-01");
+
+    expect(result.schedule).toHaveLength(12);
+    expect(result.schedule[0]).toMatchObject({ month: 1, date: "2024-01", interest: 50 });
+    expect(result.payoffDate).toBe("2024-12");
+    expect(result.totalPrincipal).toBeCloseTo(10000, 0);
+    expect(result.totalPayments).toBeCloseTo(result.totalPrincipal + result.totalInterest, 2);
+  });
+
+  it("pays off early with a larger payment", () => {
+    const result = generateAmortizationSchedule(10000, 6, 12, 2000, "2024-01-01T00:00:00.000Z");
+
+    expect(result.schedule.length).toBeLessThan(12);
+    expect(result.schedule[result.schedule.length - 1].balance).toBe(0);
+  });
+});
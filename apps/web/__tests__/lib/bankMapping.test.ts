@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildHeaderFingerprint,
+  detectDateFormat,
+  detectHeaderRow,
+  getSignedAmount,
+  parseDateWithFormat,
+} from "../../lib/csv/bankMapping";
+import { parseAmount, parseCSV, previewCSVRows } from "../../lib/csv-parser";
+
+const BANK_EXPORT = `Account Name:,Everyday Checking
+Account Number:,****1234
+Posting Date,Description,Debit,Credit,Balance
+03/02/2026,WHOLE FOODS,84.12,,1915.88
+03/15/2026,PAYROLL,,3200.00,5115.88
+03/18/2026,REFUND AMAZON,,12.50,5128.38`;
+
+describe("detectHeaderRow", () => {
+  it("skips account details above the headers", () => {
+    expect(detectHeaderRow(previewCSVRows(BANK_EXPORT, 20))).toBe(2);
+  });
+
+  it("keeps the first row for a plain CSV", () => {
+    expect(detectHeaderRow(previewCSVRows("date,payee,amount\n2026-01-01,Rent,-1500", 20))).toBe(0);
+  });
+});
+
+describe("parseCSV with a header row offset", () => {
+  it("reads headers and rows from the offset", () => {
+    const result = parseCSV(BANK_EXPORT, { headerRow: 2 });
+
+    expect(result.headers).toEqual(["Posting Date", "Description", "Debit", "Credit", "Balance"]);
+    expect(result.rows).toHaveLength(3);
+    expect(result.errors).toEqual([]);
+  });
+});
+
+describe("buildHeaderFingerprint", () => {
+  it("ignores case and punctuation", () => {
+    expect(buildHeaderFingerprint(["Posting Date", "Description"])).toBe(
+      buildHeaderFingerprint(["posting_date", "DESCRIPTION"])
+    );
+    expect(buildHeaderFingerprint(["Date", "Amount"])).not.toBe(
+      buildHeaderFingerprint(["Amount", "Date"])
+    );
+  });
+});
+
+describe("date formats", () => {
+  it("prefers month-first unless a value rules it out", () => {
+    expect(detectDateFormat(["03/02/2026", "03/15/2026"])).toBe("MDY");
+    expect(detectDateFormat(["03/02/2026", "25/02/2026"])).toBe("DMY");
+    expect(detectDateFormat(["2026-03-02", ""])).toBe("YMD");
+    expect(detectDateFormat(["Mar 2, 2026"])).toBeNull();
+  });
+
+  it("parses with any separator, short years and trailing times", () => {
+    expect(parseDateWithFormat("02.03.26", "DMY")).toBe("2026-03-02");
+    expect(parseDateWithFormat("2026/3/2 14:05", "YMD")).toBe("2026-03-02");
+    expect(parseDateWithFormat("02/30/2026", "MDY")).toBeNull();
+  });
+});
+
+describe("getSignedAmount", () => {
+  it("applies each sign convention", () => {
+    expect(getSignedAmount({ amount: "-84.12" }, "NEGATIVE_OUTFLOW", parseAmount)).toBe(-84.12);
+    expect(getSignedAmount({ amount: "84.12" }, "POSITIVE_OUTFLOW", parseAmount)).toBe(-84.12);
+    expect(getSignedAmount({ debit: "84.12", credit: "" }, "DEBIT_CREDIT", parseAmount)).toBe(-84.12);
+    expect(getSignedAmount({ debit: "-84.12" }, "DEBIT_CREDIT", parseAmount)).toBe(-84.12);
+    expect(getSignedAmount({ debit: "", credit: "3,200.00" }, "DEBIT_CREDIT", parseAmount)).toBe(3200);
+    expect(getSignedAmount({ debit: "", credit: "" }, "DEBIT_CREDIT", parseAmount)).toBeNull();
+  });
+});
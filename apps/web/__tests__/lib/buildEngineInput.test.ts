@@ -0,0 +1,254 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildEngineInput,
+  mapAccountType,
+  mapContributionPlan,
+  mapContribution,
+  mapIncomeType,
+  mapLoanType,
+  mapRealAssets,
+} from "../../lib/engine/buildEngineInput";
+
+describe("mapAccountType", () => {
+  it("maps pre-tax accounts to TRADITIONAL", () => {
+    expect(mapAccountType("TRADITIONAL_401K")).toBe("TRADITIONAL");
+    expect(mapAccountType("TRADITIONAL_IRA")).toBe("TRADITIONAL");
+    expect(mapAccountType("HSA")).toBe("TRADITIONAL");
+  });
+
+  it("maps Roth accounts to ROTH and everything else to TAXABLE", () => {
+    expect(mapAccountType("ROTH_401K")).toBe("ROTH");
+    expect(mapAccountType("ROTH_IRA")).toBe("ROTH");
+    expect(mapAccountType("BROKERAGE")).toBe("TAXABLE");
+    expect(mapAccountType("529")).toBe("TAXABLE");
+  });
+});
+
+describe("mapIncomeType", () => {
+  it("defaults to earned income", () => {
+    expect(mapIncomeType("SOCIAL_SECURITY")).toBe("SOCIAL_SECURITY");
+    expect(mapIncomeType("PENSION")).toBe("PENSION");
+    expect(mapIncomeType(undefined)).toBe("EARNED");
+  });
+});
+
+describe("mapLoanType", () => {
+  it("keeps loan types the engine models and falls back to OTHER", () => {
+    expect(mapLoanType("MORTGAGE")).toBe("MORTGAGE");
+    expect(mapLoanType("HELOC")).toBe("HELOC");
+    expect(mapLoanType("AUTO")).toBe("AUTO");
+    expect(mapLoanType("BOAT")).toBe("OTHER");
+  });
+});
+
+describe("mapContributionPlan", () => {
+  it("groups traditional and Roth accounts under one limit", () => {
+    expect(mapContributionPlan("TRADITIONAL_401K")).toBe("401K");
+    expect(mapContributionPlan("ROTH_401K")).toBe("401K");
+    expect(mapContributionPlan("ROTH_IRA")).toBe("IRA");
+    expect(mapContributionPlan("HSA")).toBe("HSA");
+    expect(mapContributionPlan("BROKERAGE")).toBeUndefined();
+  });
+});
+
+describe("mapContribution", () => {
+  const base = {
+    amount: 1000,
+    frequency: "BIWEEKLY",
+    startDate: new Date("2025-01-15T00:00:00Z"),
+    endDate: null,
+    employerMatch: 50,
+    employerMatchLimit: 6000,
+  };
+
+  it("converts the contribution frequency to a monthly amount", () => {
+    const rule = mapContribution("acct1", base);
+    expect(rule.amountMonthly).toBeCloseTo(2166.67, 2);
+    expect(rule.startDate).toBe("2025-01-15");
+    expect(rule.endDate).toBeUndefined();
+  });
+
+  it("carries the employer match and its annual limit", () => {
+    const rule = mapContribution("acct1", base);
+    expect(rule.employerMatchPct).toBe(50);
+    expect(rule.employerMatchLimitAnnual).toBe(6000);
+  });
+
+  it("deposits one-time contributions in their start month only", () => {
+    const rule = mapContribution("acct1", { ...base, frequency: "ONE_TIME", employerMatch: null });
+    expect(rule.amountMonthly).toBe(1000);
+    expect(rule.endDate).toBe("2025-01-15");
+    expect(rule.employerMatchPct).toBeUndefined();
+  });
+});
+
+describe("mapRealAssets", () => {
+  const mortgage = {
+    id: "loan1",
+    name: "Mortgage",
+    startDate: new Date("2020-06-01T00:00:00Z"),
+    propertyValue: 450000,
+  };
+
+  it("converts rates and annual carrying costs to engine units", () => {
+    const [car] = mapRealAssets(
+      [
+        {
+          id: "car1",
+          name: "Car",
+          type: "VEHICLE",
+          value: 30000,
+          purchaseDate: new Date("2023-01-10T00:00:00Z"),
+          appreciationRate: -0.15,
+          annualCarryingCost: 2400,
+          loanId: null,
+        },
+      ],
+      []
+    );
+
+    expect(car.appreciationPct).toBeCloseTo(-15);
+    expect(car.carryingCostMonthly).toBe(200);
+    expect(car.purchaseDate).toBe("2023-01-10");
+    expect(car.linkedLoanId).toBeUndefined();
+  });
+
+  it("treats a loan's property value as a financed home", () => {
+    const [home] = mapRealAssets([], [mortgage]);
+
+    expect(home).toMatchObject({
+      id: "loan1",
+      type: "HOME",
+      value: 450000,
+      purchaseDate: "2020-06-01",
+      linkedLoanId: "loan1",
+    });
+  });
+
+  it("prefers a real asset already linked to the loan", () => {
+    const assets = mapRealAssets(
+      [
+        {
+          id: "home1",
+          name: "House",
+          type: "HOME",
+          value: 500000,
+          purchaseDate: new Date("2020-06-01T00:00:00Z"),
+          appreciationRate: null,
+          annualCarryingCost: null,
+          loanId: "loan1",
+        },
+      ],
+      [mortgage, { ...mortgage, id: "loan2", propertyValue: null }]
+    );
+
+    expect(assets).toHaveLength(1);
+    expect(assets[0].id).toBe("home1");
+    expect(assets[0].appreciationPct).toBeUndefined();
+  });
+});
+
+describe("buildEngineInput", () => {
+  const scenario = {
+    id: "scenario1",
+    assumptions: { projectionYears: 10, inflationRate: 0.03, defaultGrowthRate: 0.06 },
+    taxProfile: {
+      filingStatus: "HOH",
+      state: "TX",
+      taxYear: 2024,
+      includePayrollTaxes: false,
+      advancedOverridesEnabled: false,
+    },
+    household: { members: [] },
+    incomes: [],
+    expenses: [],
+    accounts: [
+      { id: "a1", name: "Roth", type: "ROTH_IRA", growthRate: 0.08, memberId: null, holdings: [], contributions: [] },
+      { id: "a2", name: "Brokerage", type: "BROKERAGE", growthRate: null, memberId: null, holdings: [], contributions: [] },
+    ],
+    loans: [],
+    goals: [],
+  };
+
+  it("reads the horizon, inflation and tax profile from scenario settings", () => {
+    const input = buildEngineInput(scenario);
+
+    expect(input.household.endDate.slice(0, 4)).toBe(String(new Date().getFullYear() + 10));
+    expect(input.assumptions.inflationRatePct).toBeCloseTo(3);
+    expect(input.taxProfile).toMatchObject({
+      stateCode: "TX",
+      filingStatus: "HOH",
+      includePayrollTaxes: false,
+    });
+  });
+
+  it("uses each account's growth rate, falling back to the default", () => {
+    const input = buildEngineInput(scenario);
+
+    expect(input.accounts[0].expectedReturnPct).toBeCloseTo(8);
+    expect(input.accounts[0].type).toBe("ROTH");
+    expect(input.accounts[1].expectedReturnPct).toBeCloseTo(6);
+  });
+
+  it("falls back to defaults when settings were never saved", () => {
+    const input = buildEngineInput({ ...scenario, assumptions: null, taxProfile: null });
+
+    expect(input.assumptions.inflationRatePct).toBeCloseTo(2.5);
+    // The profile projections used before settings could be saved
+    expect(input.taxProfile).toMatchObject({ stateCode: "CA", filingStatus: "MFJ" });
+    expect(input.assumptions.taxableDividendYieldPct).toBe(2);
+    expect(input.accounts[1].expectedReturnPct).toBeCloseTo(7);
+  });
+
+  it("maps Social Security and pensions, skipping benefits without a birth date", () => {
+    const benefit = {
+      id: "ss1",
+      memberId: "m1",
+      name: "Social Security",
+      amount: 2500,
+      frequency: "MONTHLY",
+      startDate: new Date("2024-01-01T00:00:00Z"),
+      endDate: null,
+      growthRule: "NONE",
+      growthRate: null,
+      type: "SOCIAL_SECURITY",
+      claimingAge: 68,
+      survivorRate: null,
+    };
+    const input = buildEngineInput({
+      ...scenario,
+      household: {
+        members: [
+          { id: "m1", name: "Pat", birthDate: new Date("1965-04-01T00:00:00Z") },
+          { id: "m2", name: "Sam", birthDate: null },
+        ],
+      },
+      incomes: [
+        benefit,
+        { ...benefit, id: "ss2", memberId: "m2" },
+        { ...benefit, id: "pension1", type: "PENSION", claimingAge: null, survivorRate: 0.5 },
+      ],
+    });
+
+    expect(input.incomes.map((income) => income.id)).toEqual(["ss1", "pension1"]);
+    expect(input.incomes[0]).toMatchObject({ type: "SOCIAL_SECURITY", socialSecurity: { claimingAge: 68 } });
+    expect(input.incomes[1]).toMatchObject({ type: "PENSION", pension: { survivorPct: 50 } });
+  });
+
+  it("maps member sex and life expectancy for the life table", () => {
+    const input = buildEngineInput({
+      ...scenario,
+      household: {
+        members: [
+          { id: "m1", name: "Pat", birthDate: null, sex: "FEMALE", lifeExpectancy: 92 },
+          { id: "m2", name: "Sam", birthDate: null, sex: "OTHER", lifeExpectancy: null },
+        ],
+      },
+    });
+
+    expect(input.members).toEqual([
+      { id: "m1", name: "Pat", birthDate: undefined, sex: "FEMALE", lifeExpectancy: 92 },
+      { id: "m2", name: "Sam", birthDate: undefined, sex: undefined, lifeExpectancy: undefined },
+    ]);
+  });
+});
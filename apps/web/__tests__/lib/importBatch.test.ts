@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { tx } = vi.hoisted(() => {
+  const model = () => ({
+    findMany: vi.fn().mockResolvedValue([]),
+    findUnique: vi.fn(),
+    update: vi.fn(),
+    deleteMany: vi.fn(),
+  });
+  return {
+    tx: {
+      income: model(),
+      expense: model(),
+      account: model(),
+      loan: model(),
+      transaction: model(),
+      importLog: { findUnique: vi.fn(), update: vi.fn() },
+    },
+  };
+});
+
+vi.mock("@/lib/db/prisma", () => ({
+  prisma: { $transaction: (fn: (client: typeof tx) => unknown) => fn(tx) },
+}));
+
+import { isEditedSinceImport, recordOverwrite, undoImport } from "../../lib/import/batch";
+
+const created = new Date("2026-05-01T12:00:00.000Z");
+const at = (ms: number) => new Date(created.getTime() + ms);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  for (const model of [tx.income, tx.expense, tx.account, tx.loan, tx.transaction]) {
+    model.findMany.mockResolvedValue([]);
+  }
+  tx.importLog.findUnique.mockResolvedValue({ previousValues: null });
+});
+
+const withOverwrites = (...overwrites: object[]) =>
+  tx.importLog.findUnique.mockResolvedValue({ previousValues: JSON.stringify(overwrites) });
+
+describe("isEditedSinceImport", () => {
+  it("allows for the create stamping its timestamps a moment apart", () => {
+    expect(isEditedSinceImport({ createdAt: created, updatedAt: at(3) })).toBe(false);
+    expect(isEditedSinceImport({ createdAt: created, updatedAt: at(60_000) })).toBe(true);
+  });
+});
+
+describe("undoImport", () => {
+  it("refuses to delete edited records unless confirmed", async () => {
+    tx.income.findMany.mockResolvedValue([
+      { id: "inc-1", name: "Salary", createdAt: created, updatedAt: created },
+      { id: "inc-2", name: "Bonus", createdAt: created, updatedAt: at(86_400_000) },
+    ]);
+
+    const result = await undoImport("scn-1", "log-1");
+
+    expect(result).toEqual({
+      status: "edited",
+      edited: [{ type: "income", id: "inc-2", name: "Bonus", action: "created", edited: true }],
+    });
+    expect(tx.income.deleteMany).not.toHaveBeenCalled();
+    expect(tx.importLog.update).not.toHaveBeenCalled();
+  });
+
+  it("deletes only the batch's records and marks the import undone", async () => {
+    tx.transaction.findMany.mockImplementation(({ select }: { select: Record<string, boolean> }) =>
+      Promise.resolve(
+        select.date
+          ? [{ date: new Date("2026-03-05T00:00:00Z") }, { date: new Date("2026-04-02T00:00:00Z") }]
+          : [
+              { id: "t-1", payee: "Grocer", createdAt: created, updatedAt: created },
+              { id: "t-2", payee: "Rent", createdAt: created, updatedAt: at(86_400_000) },
+            ]
+      )
+    );
+
+    const result = await undoImport("scn-1", "log-1", { confirmEdited: true });
+
+    expect(result).toEqual({ status: "undone", deleted: 2, restored: 0, months: ["2026-03", "2026-04"] });
+    expect(tx.transaction.deleteMany).toHaveBeenCalledWith({
+      where: { scenarioId: "scn-1", importLogId: "log-1" },
+    });
+    expect(tx.importLog.update).toHaveBeenCalledWith({
+      where: { id: "log-1" },
+      data: { status: "undone" },
+    });
+  });
+
+  it("restores an account balance the import replaced", async () => {
+    withOverwrites({
+      type: "account",
+      id: "acc-1",
+      name: "Checking",
+      previous: { balance: 1250.5 },
+      at: created.toISOString(),
+    });
+    tx.account.findUnique.mockResolvedValue({ updatedAt: at(5) });
+
+    const result = await undoImport("scn-1", "log-1");
+
+    expect(result).toEqual({ status: "undone", deleted: 0, restored: 1, months: [] });
+    expect(tx.account.update).toHaveBeenCalledWith({ where: { id: "acc-1" }, data: { balance: 1250.5 } });
+  });
+
+  it("restores merged fields once confirmed if edited since", async () => {
+    withOverwrites({
+      type: "income",
+      id: "inc-1",
+      name: "Salary",
+      previous: { amount: 90000, startDate: "2025-01-01T00:00:00.000Z" },
+      at: created.toISOString(),
+    });
+    tx.income.findUnique.mockResolvedValue({ updatedAt: at(86_400_000) });
+
+    expect(await undoImport("scn-1", "log-1")).toEqual({
+      status: "edited",
+      edited: [{ type: "income", id: "inc-1", name: "Salary", action: "updated", edited: true }],
+    });
+    expect(tx.income.update).not.toHaveBeenCalled();
+
+    await undoImport("scn-1", "log-1", { confirmEdited: true });
+
+    expect(tx.income.update).toHaveBeenCalledWith({
+      where: { id: "inc-1" },
+      data: { amount: 90000, startDate: new Date("2025-01-01T00:00:00.000Z") },
+    });
+  });
+
+  it("skips overwritten records that have since been deleted", async () => {
+    withOverwrites({
+      type: "loan",
+      id: "loan-1",
+      name: "Car",
+      previous: { principal: 20000 },
+      at: created.toISOString(),
+    });
+    tx.loan.findUnique.mockResolvedValue(null);
+
+    expect(await undoImport("scn-1", "log-1")).toEqual({ status: "empty" });
+  });
+
+  it("reports an import with no remaining records", async () => {
+    expect(await undoImport("scn-1", "log-1")).toEqual({ status: "empty" });
+  });
+});
+
+describe("recordOverwrite", () => {
+  it("keeps the values from before the first overwrite", async () => {
+    withOverwrites({
+      type: "income",
+      id: "inc-1",
+      name: "Salary",
+      previous: { amount: 90000 },
+      at: created.toISOString(),
+    });
+
+    await recordOverwrite(
+      tx as never,
+      "log-1",
+      "income",
+      { id: "inc-1", name: "Salary", amount: 95000, frequency: "MONTHLY" },
+      ["amount", "frequency"]
+    );
+
+    const [{ data }] = tx.importLog.update.mock.calls[0];
+    expect(JSON.parse(data.previousValues)).toEqual([
+      expect.objectContaining({ id: "inc-1", previous: { amount: 90000, frequency: "MONTHLY" } }),
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  amountSimilarity,
+  dateSimilarity,
+  findDuplicates,
+  nameSimilarity,
+  scoreDuplicate,
+} from "../../lib/csv/dedupe";
+
+describe("nameSimilarity", () => {
+  it("ignores case and punctuation", () => {
+    expect(nameSimilarity("Acme Corp. Salary", "ACME corp salary")).toBe(1);
+  });
+
+  it("scores near-misses above unrelated names", () => {
+    const close = nameSimilarity("Netflix subscription", "Netflix subscriptions");
+    const far = nameSimilarity("Netflix subscription", "Car insurance");
+
+    expect(close).toBeGreaterThan(0.9);
+    expect(far).toBeLessThan(0.3);
+    expect(nameSimilarity("", "Rent")).toBe(0);
+  });
+});
+
+describe("amount and date similarity", () => {
+  it("falls off across the tolerance and window", () => {
+    expect(amountSimilarity(1000, 1000)).toBe(1);
+    expect(amountSimilarity(1000, 950)).toBeCloseTo(0.5);
+    expect(amountSimilarity(1000, 800)).toBe(0);
+
+    expect(dateSimilarity("2026-01-01", "2026-01-01")).toBe(1);
+    expect(dateSimilarity("2026-01-01", "2026-01-31", 60)).toBeCloseTo(0.5);
+    expect(dateSimilarity("2026-01-01", "2026-06-01")).toBeNull();
+  });
+});
+
+describe("scoreDuplicate", () => {
+  const existing = { name: "Mortgage", amount: 400000, startDate: "2024-06-01", scope: "MORTGAGE" };
+
+  it("rules out records with a different scope or far-off start date", () => {
+    expect(scoreDuplicate({ ...existing, scope: "AUTO" }, existing)).toBeNull();
+    expect(scoreDuplicate({ ...existing, startDate: "2025-06-01" }, existing)).toBeNull();
+    expect(scoreDuplicate({ ...existing, scope: "mortgage" }, existing)?.score).toBe(1);
+  });
+
+  it("rescales the weights when the row has no amount or date", () => {
+    const result = scoreDuplicate({ name: "Mortgage", amount: null, startDate: null, scope: null }, existing);
+
+    expect(result).toEqual({ score: 1, scores: { name: 1, amount: null, date: null } });
+  });
+});
+
+describe("findDuplicates", () => {
+  const existing = [
+    { id: "inc-1", name: "Acme Salary", amount: 120000, startDate: "2026-01-01", scope: null },
+    { id: "inc-2", name: "Rental income", amount: 1800, startDate: "2026-01-01", scope: null },
+  ];
+
+  it("flags matching rows and leaves new ones alone", () => {
+    const matches = findDuplicates(
+      [
+        { name: "Freelance design", amount: 5000, startDate: "2026-01-01", scope: null },
+        { name: "ACME salary", amount: 120000, startDate: "2026-01-15", scope: null },
+        { name: "Rental Income", amount: 1850, startDate: null, scope: null },
+      ],
+      existing
+    );
+
+    expect(matches.map((m) => [m.row, m.existingId])).toEqual([
+      [1, "inc-1"],
+      [2, "inc-2"],
+    ]);
+    expect(matches[0].scores.name).toBe(1);
+    expect(matches[1].scores.date).toBeNull();
+  });
+
+  it("matches each existing record to only its best row", () => {
+    const matches = findDuplicates(
+      [
+        { name: "Acme Salary", amount: 118000, startDate: "2026-01-01", scope: null },
+        { name: "Acme Salary", amount: 120000, startDate: "2026-01-01", scope: null },
+      ],
+      existing
+    );
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ row: 1, existingId: "inc-1", score: 1 });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseLifeEventEffects,
+  remapLifeEventEffects,
+  mapLifeEventEffects,
+} from "../../lib/engine/lifeEventEffects";
+
+describe("parseLifeEventEffects", () => {
+  it("parses stored effects", () => {
+    const effects = parseLifeEventEffects(
+      JSON.stringify([{ type: "INCOME_CHANGE", incomeId: "inc1", action: "STOP" }])
+    );
+    expect(effects).toEqual([{ type: "INCOME_CHANGE", incomeId: "inc1", action: "STOP" }]);
+  });
+
+  it("returns no effects for missing or malformed JSON", () => {
+    expect(parseLifeEventEffects(null)).toEqual([]);
+    expect(parseLifeEventEffects("not json")).toEqual([]);
+    expect(parseLifeEventEffects(JSON.stringify([{ type: "UNKNOWN" }]))).toEqual([]);
+  });
+});
+
+describe("remapLifeEventEffects", () => {
+  it("points effects at cloned records", () => {
+    const idMap = new Map([
+      ["loan1", "loan1-copy"],
+      ["acct1", "acct1-copy"],
+    ]);
+    const [payoff] = remapLifeEventEffects(
+      [{ type: "LOAN_PAYOFF", loanId: "loan1", fromAccountId: "acct1" }],
+      idMap
+    );
+    expect(payoff).toEqual({ type: "LOAN_PAYOFF", loanId: "loan1-copy", fromAccountId: "acct1-copy" });
+  });
+});
+
+describe("mapLifeEventEffects", () => {
+  const lifeEvent = {
+    id: "le1",
+    name: "Retire early",
+    targetDate: new Date("2035-06-01T00:00:00Z"),
+    effects: JSON.stringify([
+      { type: "INCOME_CHANGE", incomeId: "inc1", action: "STOP" },
+      { type: "LUMP_SUM", amount: -20000 },
+    ]),
+  };
+
+  it("schedules each effect on the life event's date", () => {
+    const events = mapLifeEventEffects([lifeEvent], new Set(["inc1"]));
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      id: "le1:0",
+      name: "Retire early",
+      date: "2035-06-01",
+      type: "INCOME_CHANGE",
+      incomeId: "inc1",
+    });
+    expect(events[1]).toMatchObject({ id: "le1:1", type: "LUMP_SUM", amount: -20000 });
+  });
+
+  it("skips effects whose records no longer exist", () => {
+    const events = mapLifeEventEffects([lifeEvent], new Set());
+
+    expect(events.map((event) => event.type)).toEqual(["LUMP_SUM"]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ENGINE_VERSION, getInputHash } from "@finatlas/engine";
+import type { ScenarioInputDTO } from "@finatlas/engine/src/types";
+
+const cache = vi.hoisted(() => ({
+  findUnique: vi.fn(),
+  upsert: vi.fn(),
+  deleteMany: vi.fn(),
+}));
+
+vi.mock("@/lib/db/prisma", () => ({ prisma: { engineResultCache: cache } }));
+
+import { buildConfigKey, getOrComputeEngineResult } from "../../lib/engine/resultCache";
+
+const input = { scenarioId: "s1" } as ScenarioInputDTO;
+
+describe("buildConfigKey", () => {
+  it("ignores key order and undefined values", () => {
+    expect(buildConfigKey({ volatilityPct: 15, simulations: 500, sampleLongevity: undefined })).toBe(
+      buildConfigKey({ simulations: 500, volatilityPct: 15 })
+    );
+  });
+
+  it("distinguishes different configs", () => {
+    expect(buildConfigKey({ dollars: "REAL" })).not.toBe(buildConfigKey({ dollars: "NOMINAL" }));
+  });
+});
+
+describe("getOrComputeEngineResult", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns a stored result when the hash and engine version match", async () => {
+    cache.findUnique.mockResolvedValue({
+      engineVersion: ENGINE_VERSION,
+      inputHash: getInputHash(input),
+      resultsJson: JSON.stringify({ cached: true }),
+    });
+    const compute = vi.fn();
+
+    const { result, hit } = await getOrComputeEngineResult("s1", "PROJECTION", input, {}, compute);
+
+    expect(hit).toBe(true);
+    expect(result).toEqual({ cached: true });
+    expect(compute).not.toHaveBeenCalled();
+  });
+
+  it("recomputes and stores the result for a stale engine version", async () => {
+    cache.findUnique.mockResolvedValue({
+      engineVersion: "0.0.0",
+      inputHash: getInputHash(input),
+      resultsJson: "{}",
+    });
+
+    const { result, hit } = await getOrComputeEngineResult(
+      "s1",
+      "MONTE_CARLO",
+      input,
+      { simulations: 500 },
+      () => ({ fresh: true })
+    );
+
+    expect(hit).toBe(false);
+    expect(result).toEqual({ fresh: true });
+    expect(cache.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          scenarioId_kind_configKey: {
+            scenarioId: "s1",
+            kind: "MONTE_CARLO",
+            configKey: '{"simulations":500}',
+          },
+        },
+      })
+    );
+  });
+});
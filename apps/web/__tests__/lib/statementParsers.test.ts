@@ -0,0 +1,186 @@
+import { describe, it, expect } from "vitest";
+import { parseOFX } from "../../lib/statements/ofx";
+import { parseQIF, parseQIFDate } from "../../lib/statements/qif";
+import { detectStatementFormat } from "../../lib/statements/parseStatement";
+
+const SGML_OFX = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<STMTRS>
+<CURDEF>USD
+<BANKACCTFROM>
+<BANKID>121000248
+<ACCTID>1234567890
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20260305120000[-5:EST]
+<TRNAMT>-42.17
+<FITID>2026030501
+<NAME>WHOLE FOODS &amp; MARKET
+<MEMO>POS PURCHASE
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260315
+<TRNAMT>2500,00
+<FITID>2026031502
+<NAME>PAYROLL
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>5123.45
+<DTASOF>20260331
+</LEDGERBAL>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>`;
+
+const XML_OFX = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX>
+  <CREDITCARDMSGSRSV1>
+    <CCSTMTTRNRS>
+      <CCSTMTRS>
+        <CCACCTFROM><ACCTID>4111</ACCTID></CCACCTFROM>
+        <BANKTRANLIST>
+          <STMTTRN>
+            <DTPOSTED>20260402</DTPOSTED>
+            <TRNAMT>-15.99</TRNAMT>
+            <FITID>CC-1</FITID>
+            <PAYEE><NAME>NETFLIX</NAME></PAYEE>
+          </STMTTRN>
+        </BANKTRANLIST>
+        <LEDGERBAL><BALAMT>-815.99</BALAMT><DTASOF>20260430</DTASOF></LEDGERBAL>
+      </CCSTMTRS>
+    </CCSTMTTRNRS>
+  </CREDITCARDMSGSRSV1>
+</OFX>`;
+
+const QIF = `!Type:Bank
+D1/ 1'26
+T1,000.00
+POpening Balance
+L[Checking]
+^
+D1/05'26
+T-64.20
+PCity Electric
+MJanuary bill
+LUtilities:Electric
+^
+D01/09/2026
+T-64.20
+PCity Electric
+LUtilities
+^
+D1/12/26
+T-200.00
+PTransfer to savings
+L[Savings]
+^
+`;
+
+describe("parseOFX", () => {
+  it("reads an SGML statement's transactions and ledger balance", () => {
+    const result = parseOFX(SGML_OFX);
+
+    expect(result.errors).toEqual([]);
+    expect(result.accounts).toHaveLength(1);
+    const [account] = result.accounts;
+    expect(account).toMatchObject({
+      accountKey: "1234567890",
+      accountType: "CHECKING",
+      balance: 5123.45,
+      balanceDate: "2026-03-31",
+    });
+    expect(account.transactions).toEqual([
+      {
+        date: "2026-03-05",
+        payee: "WHOLE FOODS & MARKET",
+        amount: -42.17,
+        memo: "POS PURCHASE",
+        category: null,
+        externalId: "2026030501",
+      },
+      {
+        date: "2026-03-15",
+        payee: "PAYROLL",
+        amount: 2500,
+        memo: null,
+        category: null,
+        externalId: "2026031502",
+      },
+    ]);
+  });
+
+  it("reads an XML credit card statement", () => {
+    const result = parseOFX(XML_OFX);
+
+    expect(result.accounts[0]).toMatchObject({
+      accountKey: "4111",
+      accountType: "CREDITCARD",
+      balance: -815.99,
+      balanceDate: "2026-04-30",
+    });
+    expect(result.accounts[0].transactions[0]).toMatchObject({
+      date: "2026-04-02",
+      payee: "NETFLIX",
+      amount: -15.99,
+      externalId: "CC-1",
+    });
+  });
+
+  it("rejects files that are not OFX", () => {
+    expect(parseOFX("Date,Amount\n2026-01-01,5").errors).toEqual(["Not an OFX file"]);
+  });
+});
+
+describe("parseQIF", () => {
+  it("reads a bank register and carries the opening balance forward", () => {
+    const result = parseQIF(QIF);
+
+    expect(result.errors).toEqual([]);
+    const [account] = result.accounts;
+    expect(account.accountType).toBe("Bank");
+    expect(account.balance).toBe(671.6);
+    expect(account.balanceDate).toBe("2026-01-12");
+    expect(account.transactions.map((t) => [t.date, t.payee, t.amount, t.category])).toEqual([
+      ["2026-01-05", "City Electric", -64.2, "Utilities"],
+      ["2026-01-09", "City Electric", -64.2, "Utilities"],
+      ["2026-01-12", "Transfer to savings", -200, "Transfer"],
+    ]);
+  });
+
+  it("gives re-imported records the same identifiers", () => {
+    const first = parseQIF(QIF).accounts[0].transactions.map((t) => t.externalId);
+    const second = parseQIF(QIF).accounts[0].transactions.map((t) => t.externalId);
+
+    expect(second).toEqual(first);
+    expect(new Set(first).size).toBe(first.length);
+  });
+
+  it("parses Quicken date styles", () => {
+    expect(parseQIFDate("12/31'99")).toBe("2099-12-31");
+    expect(parseQIFDate("12/31/99")).toBe("1999-12-31");
+    expect(parseQIFDate(" 3/ 7/2026")).toBe("2026-03-07");
+    expect(parseQIFDate("2/30/2026")).toBeNull();
+  });
+});
+
+describe("detectStatementFormat", () => {
+  it("uses the extension, then the content", () => {
+    expect(detectStatementFormat("march.QFX", "")).toBe("OFX");
+    expect(detectStatementFormat("export.qif", "")).toBe("QIF");
+    expect(detectStatementFormat("download.txt", SGML_OFX)).toBe("OFX");
+    expect(detectStatementFormat("download.txt", QIF)).toBe("QIF");
+    expect(detectStatementFormat("data.csv", "a,b")).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/db/prisma", () => ({ prisma: {} }));
+
+import {
+  getMonthRange,
+  summarizeTransactions,
+  toMonthKey,
+  UNCATEGORIZED,
+} from "../../lib/transactions/actuals";
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe("summarizeTransactions", () => {
+  it("totals outflows per month and category", () => {
+    const spending = summarizeTransactions([
+      { date: day("2026-03-02"), amount: -42.5, category: "Groceries" },
+      { date: day("2026-03-20"), amount: -17.25, category: "Groceries" },
+      { date: day("2026-04-01"), amount: -1200, category: "Housing" },
+    ]);
+
+    expect(spending).toEqual({
+      "2026-03": { Groceries: 59.75 },
+      "2026-04": { Housing: 1200 },
+    });
+  });
+
+  it("nets refunds and drops categories with no net outflow", () => {
+    const spending = summarizeTransactions([
+      { date: day("2026-03-02"), amount: -100, category: "Shopping" },
+      { date: day("2026-03-09"), amount: 30, category: "Shopping" },
+      { date: day("2026-03-15"), amount: 4000, category: "Salary" },
+    ]);
+
+    expect(spending).toEqual({ "2026-03": { Shopping: 70 } });
+  });
+
+  it("does not let deposits offset a month's spending", () => {
+    const spending = summarizeTransactions([
+      { date: day("2026-03-01"), amount: 5200, category: null },
+      { date: day("2026-03-02"), amount: -80, category: null },
+      { date: day("2026-03-03"), amount: -1500, category: "Housing" },
+      { date: day("2026-03-05"), amount: 2000, category: "Housing" },
+      { date: day("2026-03-10"), amount: -60, category: "Food" },
+      { date: day("2026-03-15"), amount: 20, category: "Food" },
+      { date: day("2026-03-20"), amount: 500, category: "Transfer" },
+      { date: day("2026-03-21"), amount: -500, category: "transfers" },
+      { date: day("2026-03-28"), amount: 3.1, category: "Interest" },
+    ]);
+
+    // Refunds stop at a category's outflows; the paycheck and transfers are ignored
+    expect(spending).toEqual({ "2026-03": { Uncategorized: 80, Food: 40 } });
+  });
+
+  it("counts budget adjustments that lower uncategorized spending", () => {
+    const spending = summarizeTransactions([
+      { date: day("2026-03-02"), amount: -120, category: null },
+      { date: day("2026-03-01"), amount: 20, category: UNCATEGORIZED, source: "BUDGET" },
+    ]);
+
+    expect(spending).toEqual({ "2026-03": { Uncategorized: 100 } });
+  });
+
+  it("groups transactions without a category as Uncategorized", () => {
+    const spending = summarizeTransactions([
+      { date: day("2026-03-02"), amount: -12, category: null },
+    ]);
+
+    expect(spending).toEqual({ "2026-03": { Uncategorized: 12 } });
+  });
+});
+
+describe("month helpers", () => {
+  it("round-trips a month through its date range", () => {
+    const { start, end } = getMonthRange("2026-12");
+
+    expect(start.toISOString()).toBe("2026-12-01T00:00:00.000Z");
+    expect(end.toISOString()).toBe("2027-01-01T00:00:00.000Z");
+    expect(toMonthKey(start)).toBe("2026-12");
+  });
+});
@@ -135,7 +135,7 @@ export default function ChartsPage() {
         </div>
         <div className="rounded-2xl border border-zinc-800 bg-zinc-950/60 p-6 shadow-lg shadow-black/20">
           <h2 className="text-lg font-medium mb-4">Projected Cash Balance</h2>
-          <CashBalanceChart series={projection.series?.cashflowNet || []} height={300} />
+          <CashBalanceChart series={projection.series?.cashBalance || []} height={300} />
         </div>
       </div>
 
@@ -2,11 +2,13 @@
 
 import { useCallback, useEffect, useState } from "react";
 import { useScenario } from "@/contexts/ScenarioContext";
+import { usePreferences } from "@/contexts/PreferencesContext";
 import type { ProjectionResultDTO } from "@finatlas/engine/src/types";
 import ScenarioComparisonPicker from "@/components/compare/ScenarioComparisonPicker";
 import ComparisonChart from "@/components/compare/ComparisonChart";
 import DeltaSummary from "@/components/compare/DeltaSummary";
 import ComparisonTable from "@/components/compare/ComparisonTable";
+import DollarToggle from "@/components/charts/DollarToggle";
 import { PageSkeleton } from "@/components/ui/Skeleton";
 import { useToast } from "@/components/ui/Toast";
 
@@ -17,6 +19,8 @@ interface ProjectionResult {
 
 export default function ComparePage() {
   const { scenarios, isLoading: scenarioLoading } = useScenario();
+  const { preferences } = usePreferences();
+  const { dollars } = preferences;
   const toast = useToast();
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [projections, setProjections] = useState<Map<string, ProjectionResult>>(new Map());
@@ -42,14 +46,15 @@ export default function ComparePage() {
       return;
     }
 
-    const idsToFetch = selectedIds.filter((id) => !projections.has(id));
+    // Refetch projections held in the other dollar basis
+    const idsToFetch = selectedIds.filter((id) => projections.get(id)?.result.dollars !== dollars);
     if (idsToFetch.length === 0) return;
 
     setLoading(true);
 
     Promise.all(
       idsToFetch.map(async (id) => {
-        const res = await fetch(`/api/projections?scenarioId=${id}`);
+        const res = await fetch(`/api/projections?scenarioId=${id}&dollars=${dollars}`);
         if (!res.ok) throw new Error(`Failed to fetch projection for scenario`);
         const result: ProjectionResultDTO = await res.json();
         const scenario = scenarios.find((s) => s.id === id);
@@ -73,7 +78,7 @@ export default function ComparePage() {
         toast.error(err instanceof Error ? err.message : "Failed to load projections");
       })
       .finally(() => setLoading(false));
-  }, [selectedIds, scenarios]);
+  }, [selectedIds, scenarios, dollars]);
 
   // Clean up projections for deselected scenarios
   useEffect(() => {
@@ -136,7 +141,10 @@ export default function ComparePage() {
       {/* Chart */}
       {selectedProjections.length > 0 && (
         <div className="rounded-2xl border border-zinc-800 bg-zinc-950/60 p-6 shadow-lg shadow-black/20">
-          <h2 className="text-lg font-medium mb-4">Net Worth Comparison</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-medium">Net Worth Comparison</h2>
+            <DollarToggle />
+          </div>
           <ComparisonChart scenarios={chartScenarios} />
         </div>
       )}
@@ -7,11 +7,14 @@ import { GoalForm, type GoalFormData } from "@/components/forms/GoalForm";
 
 type Goal = {
   id: string;
+  scenarioId: string;
   name: string;
   type: string;
   targetAmount: number;
   targetDate: string | null;
   priority: number;
+  earmarkPct: number | null;
+  linkedAccounts: Array<{ id: string; name: string }>;
 };
 
 export default function EditGoalPage() {
@@ -23,6 +26,7 @@ export default function EditGoalPage() {
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingGoal, setLoadingGoal] = useState(true);
+  const [accounts, setAccounts] = useState<Array<{ id: string; name: string }>>([]);
 
   // Fetch goal data
   useEffect(() => {
@@ -46,6 +50,16 @@ export default function EditGoalPage() {
     fetchGoal();
   }, [goalId]);
 
+  // Fetch accounts the goal can be linked to
+  useEffect(() => {
+    if (!goal?.scenarioId) return;
+
+    fetch(`/api/accounts?scenarioId=${goal.scenarioId}`)
+      .then((res) => (res.ok ? res.json() : { accounts: [] }))
+      .then((data) => setAccounts(data.accounts ?? []))
+      .catch(() => setAccounts([]));
+  }, [goal?.scenarioId]);
+
   async function handleSubmit(data: GoalFormData) {
     setIsLoading(true);
     setError(null);
@@ -59,6 +73,7 @@ export default function EditGoalPage() {
           targetDate: data.targetDate
             ? new Date(data.targetDate).toISOString()
             : null,
+          earmarkPct: data.earmarkPct ?? null,
         }),
       });
 
@@ -133,7 +148,10 @@ export default function EditGoalPage() {
               targetAmount: goal.targetAmount,
               targetDate: formattedTargetDate,
               priority: goal.priority,
+              linkedAccountIds: goal.linkedAccounts.map((a) => a.id),
+              earmarkPct: goal.earmarkPct ?? undefined,
             }}
+            accounts={accounts}
             onSubmit={handleSubmit}
             isLoading={isLoading}
             submitLabel="Update Goal"
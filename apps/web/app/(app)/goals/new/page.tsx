@@ -14,6 +14,7 @@ function NewGoalContent() {
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingScenario, setLoadingScenario] = useState(!scenarioIdFromUrl);
+  const [accounts, setAccounts] = useState<Array<{ id: string; name: string }>>([]);
 
   // Fetch scenario ID if not provided in URL
   useEffect(() => {
@@ -41,6 +42,16 @@ function NewGoalContent() {
     fetchScenarioId();
   }, [scenarioIdFromUrl]);
 
+  // Fetch accounts the goal can be linked to
+  useEffect(() => {
+    if (!scenarioId) return;
+
+    fetch(`/api/accounts?scenarioId=${scenarioId}`)
+      .then((res) => (res.ok ? res.json() : { accounts: [] }))
+      .then((data) => setAccounts(data.accounts ?? []))
+      .catch(() => setAccounts([]));
+  }, [scenarioId]);
+
   async function handleSubmit(data: GoalFormData) {
     if (!scenarioId) {
       setError("No scenario selected");
@@ -122,6 +133,7 @@ function NewGoalContent() {
           </div>
         )}
         <GoalForm
+          accounts={accounts}
           onSubmit={handleSubmit}
           isLoading={isLoading}
           submitLabel="Create Goal"
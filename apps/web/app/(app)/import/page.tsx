@@ -5,10 +5,12 @@ import { useScenario } from "@/contexts/ScenarioContext";
 import { useToast } from "@/components/ui/Toast";
 import { PageSkeleton } from "@/components/ui/Skeleton";
 import EmptyState from "@/components/ui/EmptyState";
+import ConfirmDialog from "@/components/ui/ConfirmDialog";
 import CSVImportWizard from "@/components/import/CSVImportWizard";
+import StatementImportWizard from "@/components/import/StatementImportWizard";
 import { generateTemplate } from "@/lib/csv/templates";
 
-type ImportType = "income" | "expense" | "account" | "loan";
+type ImportType = "income" | "expense" | "account" | "loan" | "transaction";
 
 type ImportLog = {
   id: string;
@@ -18,6 +20,17 @@ type ImportLog = {
   status: string;
   errorDetails: string | null;
   createdAt: string;
+  /** Records from this import that still exist */
+  recordCount: number;
+};
+
+type UndoTarget = {
+  log: ImportLog;
+  /** Records the import created */
+  recordCount: number;
+  /** Existing records the import overwrote */
+  updatedCount: number;
+  editedNames: string[];
 };
 
 const TYPE_CARDS: {
@@ -106,6 +119,26 @@ const TYPE_CARDS: {
       </svg>
     ),
   },
+  {
+    type: "transaction",
+    title: "Bank Statement",
+    description: "OFX, QFX, QIF or CSV downloads from your bank or Quicken",
+    icon: (
+      <svg
+        className="w-6 h-6"
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+        strokeWidth={1.5}
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          d="M3.75 12h16.5m-16.5 3.75h16.5M3.75 19.5h16.5M5.625 4.5h12.75a1.875 1.875 0 010 3.75H5.625a1.875 1.875 0 010-3.75z"
+        />
+      </svg>
+    ),
+  },
 ];
 
 const TYPE_BADGE_COLORS: Record<string, string> = {
@@ -113,12 +146,15 @@ const TYPE_BADGE_COLORS: Record<string, string> = {
   expense: "bg-rose-950 text-rose-300 border-rose-800",
   account: "bg-blue-950 text-blue-300 border-blue-800",
   loan: "bg-amber-950 text-amber-300 border-amber-800",
+  transaction: "bg-violet-950 text-violet-300 border-violet-800",
 };
 
 const STATUS_BADGE_COLORS: Record<string, string> = {
   success: "bg-emerald-950 text-emerald-300 border-emerald-800",
   partial: "bg-amber-950 text-amber-300 border-amber-800",
   error: "bg-red-950 text-red-300 border-red-800",
+  pending: "bg-sky-950 text-sky-300 border-sky-800",
+  undone: "bg-zinc-800 text-zinc-400 border-zinc-700",
 };
 
 function formatDate(dateString: string): string {
@@ -152,8 +188,11 @@ export default function ImportPage() {
   const toast = useToast();
 
   const [selectedType, setSelectedType] = useState<ImportType | null>(null);
+  const [statementFormat, setStatementFormat] = useState<"STATEMENT" | "CSV">("STATEMENT");
   const [logs, setLogs] = useState<ImportLog[]>([]);
   const [loadingLogs, setLoadingLogs] = useState(true);
+  const [undoTarget, setUndoTarget] = useState<UndoTarget | null>(null);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
 
   const fetchHistory = useCallback(async () => {
     if (!selectedScenarioId) return;
@@ -190,6 +229,84 @@ export default function ImportPage() {
     setSelectedType(null);
   }, []);
 
+  // Look up the import's records first so edits since the import can be
+  // called out before anything is deleted
+  const handleUndoClick = async (log: ImportLog) => {
+    setUndoingId(log.id);
+    try {
+      const res = await fetch(`/api/import/history/${log.id}`);
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to load import");
+        return;
+      }
+      const records: { name: string; action: "created" | "updated"; edited: boolean }[] =
+        data.records || [];
+      if (records.length === 0) {
+        toast.error("No records from this import remain");
+        fetchHistory();
+        return;
+      }
+      setUndoTarget({
+        log,
+        recordCount: records.filter((r) => r.action === "created").length,
+        updatedCount: records.filter((r) => r.action === "updated").length,
+        editedNames: records.filter((r) => r.edited).map((r) => r.name),
+      });
+    } catch {
+      toast.error("Failed to load import");
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  const handleUndoConfirm = async () => {
+    if (!undoTarget) return;
+    const { log, editedNames } = undoTarget;
+    setUndoTarget(null);
+    setUndoingId(log.id);
+    try {
+      const res = await fetch(`/api/import/history/${log.id}/undo`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ confirmEdited: editedNames.length > 0 }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(
+          `Removed ${data.deleted} record${data.deleted !== 1 ? "s" : ""}` +
+            (data.restored > 0 ? ` and restored ${data.restored}` : "") +
+            ` from ${log.fileName}`
+        );
+      } else {
+        toast.error(data.error || "Failed to undo import");
+      }
+      fetchHistory();
+    } catch {
+      toast.error("Failed to undo import");
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  const undoDescription = undoTarget
+    ? `This deletes the ${undoTarget.recordCount} record${undoTarget.recordCount !== 1 ? "s" : ""} created by ${
+        undoTarget.log.fileName
+      }` +
+      (undoTarget.updatedCount > 0
+        ? ` and restores the previous values of ${undoTarget.updatedCount} existing record${
+            undoTarget.updatedCount !== 1 ? "s" : ""
+          } it updated.`
+        : ".") +
+      (undoTarget.editedNames.length > 0
+        ? ` ${undoTarget.editedNames.length} of them ${
+            undoTarget.editedNames.length === 1 ? "has" : "have"
+          } been edited since the import and will lose those changes: ${undoTarget.editedNames
+            .slice(0, 5)
+            .join(", ")}${undoTarget.editedNames.length > 5 ? ", ..." : ""}.`
+        : "")
+    : "";
+
   if (scenarioLoading) {
     return <PageSkeleton />;
   }
@@ -213,13 +330,13 @@ export default function ImportPage() {
       <div>
         <h1 className="text-2xl font-bold">Import Data</h1>
         <p className="text-zinc-400 text-sm mt-1">
-          Import your financial data from CSV files. Choose a data type to get started.
+          Import your financial data from CSV files or bank statements. Choose a data type to get started.
         </p>
       </div>
 
       {/* Type Selector Cards */}
       {!selectedType && (
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
           {TYPE_CARDS.map((card) => (
             <button
               key={card.type}
@@ -266,44 +383,77 @@ export default function ImportPage() {
             </h2>
           </div>
 
-          <div className="rounded-2xl border border-zinc-800 bg-zinc-950/60 p-5">
-            <div className="flex items-center justify-between">
-              <div>
-                <h3 className="text-sm font-medium text-zinc-200">
-                  Need a template?
-                </h3>
-                <p className="text-xs text-zinc-500 mt-0.5">
-                  Download a CSV template with the correct headers and example data.
-                </p>
-              </div>
-              <button
-                onClick={() => downloadTemplate(selectedType)}
-                className="rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-700 transition-colors flex items-center gap-2"
-              >
-                <svg
-                  className="w-4 h-4"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                  strokeWidth={2}
+          {selectedType === "transaction" && (
+            <div className="inline-flex rounded-lg border border-zinc-700 bg-zinc-900 p-0.5 text-sm">
+              {([
+                { value: "STATEMENT", label: "OFX / QFX / QIF" },
+                { value: "CSV", label: "Bank CSV" },
+              ] as const).map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  aria-pressed={statementFormat === option.value}
+                  onClick={() => setStatementFormat(option.value)}
+                  className={`px-3 py-1.5 rounded-md transition-colors ${
+                    statementFormat === option.value
+                      ? "bg-zinc-700 text-zinc-100"
+                      : "text-zinc-400 hover:text-zinc-200"
+                  }`}
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3"
-                  />
-                </svg>
-                Download Template
-              </button>
+                  {option.label}
+                </button>
+              ))}
             </div>
-          </div>
+          )}
 
-          <CSVImportWizard
-            type={selectedType}
-            scenarioId={selectedScenarioId}
-            onComplete={handleComplete}
-            onCancel={handleCancel}
-          />
+          {selectedType === "transaction" && statementFormat === "STATEMENT" ? (
+            <StatementImportWizard
+              scenarioId={selectedScenarioId}
+              onComplete={handleComplete}
+              onCancel={handleCancel}
+            />
+          ) : (
+            <>
+              <div className="rounded-2xl border border-zinc-800 bg-zinc-950/60 p-5">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-sm font-medium text-zinc-200">
+                      Need a template?
+                    </h3>
+                    <p className="text-xs text-zinc-500 mt-0.5">
+                      Download a CSV template with the correct headers and example data.
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => downloadTemplate(selectedType)}
+                    className="rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-700 transition-colors flex items-center gap-2"
+                  >
+                    <svg
+                      className="w-4 h-4"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                      strokeWidth={2}
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3"
+                      />
+                    </svg>
+                    Download Template
+                  </button>
+                </div>
+              </div>
+
+              <CSVImportWizard
+                type={selectedType}
+                scenarioId={selectedScenarioId}
+                onComplete={handleComplete}
+                onCancel={handleCancel}
+              />
+            </>
+          )}
         </div>
       )}
 
@@ -343,7 +493,7 @@ export default function ImportPage() {
               </svg>
             }
             title="No import history yet"
-            description="Import data from CSV files to see your history here."
+            description="Import data from CSV files or bank statements to see your history here."
           />
         ) : (
           <div className="rounded-2xl border border-zinc-800 bg-zinc-950/60 overflow-hidden">
@@ -366,6 +516,7 @@ export default function ImportPage() {
                     <th className="text-left py-3 px-4 text-zinc-400 font-medium">
                       Status
                     </th>
+                    <th className="py-3 px-4" />
                   </tr>
                 </thead>
                 <tbody>
@@ -403,6 +554,17 @@ export default function ImportPage() {
                           {log.status.charAt(0).toUpperCase() + log.status.slice(1)}
                         </span>
                       </td>
+                      <td className="py-3 px-4 text-right">
+                        {log.recordCount > 0 && log.status !== "undone" && (
+                          <button
+                            onClick={() => handleUndoClick(log)}
+                            disabled={undoingId === log.id}
+                            className="text-xs text-zinc-400 hover:text-red-400 transition-colors disabled:opacity-50"
+                          >
+                            {undoingId === log.id ? "Working..." : "Undo import"}
+                          </button>
+                        )}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -411,6 +573,16 @@ export default function ImportPage() {
           </div>
         )}
       </div>
+
+      <ConfirmDialog
+        open={!!undoTarget}
+        title="Undo Import"
+        description={undoDescription}
+        confirmLabel="Undo import"
+        destructive
+        onConfirm={handleUndoConfirm}
+        onCancel={() => setUndoTarget(null)}
+      />
     </div>
   );
 }
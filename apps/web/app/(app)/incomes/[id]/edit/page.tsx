@@ -21,6 +21,9 @@ type Income = {
   growthRate: number | null;
   memberId: string | null;
   isTaxable: boolean;
+  type: "EARNED" | "SOCIAL_SECURITY" | "PENSION";
+  claimingAge: number | null;
+  survivorRate: number | null;
   scenarioId: string;
 };
 
@@ -73,6 +76,9 @@ export default function EditIncomePage() {
     growthRate: number | null;
     memberId: string | null;
     isTaxable: boolean;
+    type: string;
+    claimingAge: number | null;
+    survivorRate: number | null;
   }) {
     setSaving(true);
     try {
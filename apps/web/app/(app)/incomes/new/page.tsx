@@ -58,6 +58,9 @@ export default function NewIncomePage() {
     growthRate: number | null;
     memberId: string | null;
     isTaxable: boolean;
+    type: string;
+    claimingAge: number | null;
+    survivorRate: number | null;
   }) {
     if (!scenarioId) {
       throw new Error("No scenario selected");
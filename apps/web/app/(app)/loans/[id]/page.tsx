@@ -5,6 +5,7 @@ import Link from "next/link";
 
 type Loan = {
   id: string;
+  scenarioId: string;
   name: string;
   type: string;
   principal: number;
@@ -28,8 +29,13 @@ type Loan = {
   monthlyPMI?: number;
   insuranceProvider?: string;
   hoaName?: string;
+
+  // Home, vehicle or other asset this loan financed
+  realAsset?: { id: string; name: string } | null;
 };
 
+type SeriesPoint = { t: string; v: number };
+
 type AmortizationRow = {
   month: number;
   date: string;
@@ -160,6 +166,7 @@ export default function LoanDetailPage({ params }: { params: Promise<{ id: strin
   const [error, setError] = useState<string | null>(null);
   const [showFullSchedule, setShowFullSchedule] = useState(false);
   const [extraPayment, setExtraPayment] = useState("");
+  const [assetValues, setAssetValues] = useState<SeriesPoint[] | null>(null);
 
   useEffect(() => {
     async function fetchLoan() {
@@ -186,6 +193,26 @@ export default function LoanDetailPage({ params }: { params: Promise<{ id: strin
     fetchLoan();
   }, [id]);
 
+  // Projected value of the financed asset; loans with a property value
+  // and no asset of their own are projected under the loan's id
+  useEffect(() => {
+    if (!loan || (!loan.realAsset && !loan.propertyValue)) return;
+    const assetId = loan.realAsset?.id ?? loan.id;
+
+    async function fetchAssetValues() {
+      try {
+        const res = await fetch(`/api/projections?scenarioId=${loan!.scenarioId}`);
+        if (!res.ok) return;
+        const data = await res.json();
+        setAssetValues(data.series?.realAssetValues?.[assetId] ?? null);
+      } catch {
+        // Equity is supplementary; the rest of the page still renders
+      }
+    }
+
+    fetchAssetValues();
+  }, [loan]);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -249,6 +276,11 @@ export default function LoanDetailPage({ params }: { params: Promise<{ id: strin
   const paidOff = loan.principal - loan.currentBalance;
   const percentPaid = loan.principal > 0 ? (paidOff / loan.principal) * 100 : 0;
 
+  // Equity: projected asset value less the scheduled balance
+  const currentValue = assetValues?.find((p) => p.v > 0)?.v ?? null;
+  const payoffKey = payoffDate.toISOString().slice(0, 7);
+  const valueAtPayoff = assetValues?.find((p) => p.t.slice(0, 7) === payoffKey)?.v ?? null;
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -322,6 +354,34 @@ export default function LoanDetailPage({ params }: { params: Promise<{ id: strin
         </div>
       </div>
 
+      {/* Equity */}
+      {currentValue !== null && (
+        <div className="rounded-2xl border border-zinc-800 bg-zinc-950/60 p-6">
+          <h2 className="font-semibold mb-4">Equity</h2>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <div className="text-xs text-zinc-400">{loan.realAsset?.name ?? "Property"} Value</div>
+              <div className="font-medium">{formatCurrency(currentValue)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-zinc-400">Current Equity</div>
+              <div className="font-medium">
+                {formatCurrency(currentValue - loan.currentBalance)}
+                <span className="text-xs text-zinc-500 ml-1">
+                  ({(((currentValue - loan.currentBalance) / currentValue) * 100).toFixed(1)}%)
+                </span>
+              </div>
+            </div>
+            {valueAtPayoff !== null && (
+              <div>
+                <div className="text-xs text-zinc-400">Equity at Payoff</div>
+                <div className="font-medium text-emerald-400">{formatCurrency(valueAtPayoff)}</div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Extra Payment Calculator */}
       <div className="rounded-2xl border border-zinc-800 bg-zinc-950/60 p-6">
         <h2 className="font-semibold mb-4">Extra Payment Calculator</h2>
@@ -12,19 +12,25 @@ interface Member {
   birthDate: string | null;
   retirementAge: number | null;
   roleTag: string | null;
+  sex: string | null;
+  lifeExpectancy: number | null;
 }
 
+const emptyForm = {
+  name: "",
+  birthDate: "",
+  retirementAge: "",
+  roleTag: "",
+  sex: "",
+  lifeExpectancy: "",
+};
+
 export default function MembersPage() {
   const [members, setMembers] = useState<Member[]>([]);
   const [loading, setLoading] = useState(true);
   const [isAddingMember, setIsAddingMember] = useState(false);
   const [editingMemberId, setEditingMemberId] = useState<string | null>(null);
-  const [formData, setFormData] = useState({
-    name: "",
-    birthDate: "",
-    retirementAge: "",
-    roleTag: "",
-  });
+  const [formData, setFormData] = useState(emptyForm);
   const router = useRouter();
   const toast = useToast();
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
@@ -60,13 +66,19 @@ export default function MembersPage() {
       }
 
       const householdId = scenariosData.scenarios[0].householdId;
+      const payload = {
+        ...formData,
+        retirementAge: formData.retirementAge ? parseInt(formData.retirementAge, 10) : null,
+        sex: formData.sex || null,
+        lifeExpectancy: formData.lifeExpectancy ? parseFloat(formData.lifeExpectancy) : null,
+      };
 
       if (editingMemberId) {
         // Update existing member
         const response = await fetch(`/api/members/${editingMemberId}`, {
           method: "PUT",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(formData),
+          body: JSON.stringify(payload),
         });
 
         if (!response.ok) throw new Error("Failed to update member");
@@ -75,14 +87,14 @@ export default function MembersPage() {
         const response = await fetch("/api/members", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ ...formData, householdId }),
+          body: JSON.stringify({ ...payload, householdId }),
         });
 
         if (!response.ok) throw new Error("Failed to create member");
       }
 
       // Reset form and refresh list
-      setFormData({ name: "", birthDate: "", retirementAge: "", roleTag: "" });
+      setFormData(emptyForm);
       setIsAddingMember(false);
       setEditingMemberId(null);
       fetchMembers();
@@ -116,6 +128,8 @@ export default function MembersPage() {
       birthDate: member.birthDate?.split("T")[0] || "",
       retirementAge: member.retirementAge?.toString() || "",
       roleTag: member.roleTag || "",
+      sex: member.sex || "",
+      lifeExpectancy: member.lifeExpectancy?.toString() || "",
     });
     setIsAddingMember(true);
   }
@@ -123,7 +137,7 @@ export default function MembersPage() {
   function handleCancelForm() {
     setIsAddingMember(false);
     setEditingMemberId(null);
-    setFormData({ name: "", birthDate: "", retirementAge: "", roleTag: "" });
+    setFormData(emptyForm);
   }
 
   if (loading) {
@@ -195,6 +209,37 @@ export default function MembersPage() {
               />
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-1">
+                  Sex
+                </label>
+                <select
+                  value={formData.sex}
+                  onChange={(e) => setFormData({ ...formData, sex: e.target.value })}
+                  className="w-full px-3 py-2 rounded-lg bg-zinc-800 border border-zinc-700 text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                >
+                  <option value="">Not set</option>
+                  <option value="MALE">Male</option>
+                  <option value="FEMALE">Female</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-1">
+                  Life Expectancy
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max="119"
+                  value={formData.lifeExpectancy}
+                  onChange={(e) => setFormData({ ...formData, lifeExpectancy: e.target.value })}
+                  className="w-full px-3 py-2 rounded-lg bg-zinc-800 border border-zinc-700 text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  placeholder={formData.sex ? "From life table" : "e.g., 90"}
+                />
+              </div>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-zinc-300 mb-1">
                 Role/Tag
@@ -258,6 +303,9 @@ export default function MembersPage() {
                   {member.retirementAge && (
                     <span>Retirement Age: {member.retirementAge}</span>
                   )}
+                  {member.lifeExpectancy && (
+                    <span>Plan Through Age: {member.lifeExpectancy}</span>
+                  )}
                   {member.roleTag && (
                     <span className="px-2 py-0.5 rounded bg-zinc-800 text-zinc-300">
                       {member.roleTag}
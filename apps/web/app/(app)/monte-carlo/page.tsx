@@ -2,21 +2,42 @@
 
 import { useEffect, useState, useCallback } from "react";
 import { useScenario } from "@/contexts/ScenarioContext";
+import { usePreferences, type DollarBasis } from "@/contexts/PreferencesContext";
 import { PageSkeleton } from "@/components/ui/Skeleton";
 import MonteCarloChart from "@/components/charts/MonteCarloChart";
+import TornadoChart from "@/components/charts/TornadoChart";
+import DollarToggle from "@/components/charts/DollarToggle";
 import { formatCurrency, formatPercent } from "@/lib/format";
 import type { PercentileBands } from "@finatlas/engine/src/internal/montecarlo";
+import type {
+  SensitivityMetric,
+  SensitivityResultDTO,
+} from "@finatlas/engine/src/internal/sensitivity";
 
 interface MonteCarloResult {
   bands: PercentileBands[];
   successRate: number;
   goalSuccessRates: Record<string, number>;
   simulations: number;
+  dollars: DollarBasis;
   medianFinalNetWorth: number;
   p10FinalNetWorth: number;
   p90FinalNetWorth: number;
 }
 
+const SENSITIVITY_METRICS: Array<{ value: SensitivityMetric; label: string }> = [
+  { value: "END_NET_WORTH", label: "Ending net worth" },
+  { value: "YEARS_TO_FI", label: "Years to FI" },
+  { value: "SUCCESS_RATE", label: "Success rate" },
+];
+
+function formatSensitivityDelta(metric: SensitivityMetric, value: number): string {
+  const sign = value > 0 ? "+" : "";
+  if (metric === "YEARS_TO_FI") return `${sign}${value.toFixed(1)} yrs`;
+  if (metric === "SUCCESS_RATE") return `${sign}${value.toFixed(1)} pts`;
+  return `${sign}${formatCurrency(value)}`;
+}
+
 interface GoalInfo {
   id: string;
   name: string;
@@ -25,13 +46,18 @@ interface GoalInfo {
 
 export default function MonteCarloPage() {
   const { selectedScenarioId } = useScenario();
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<MonteCarloResult | null>(null);
   const [goals, setGoals] = useState<GoalInfo[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [simulations, setSimulations] = useState(500);
   const [volatility, setVolatility] = useState(15);
+  const [sampleLongevity, setSampleLongevity] = useState(false);
   const [hasRun, setHasRun] = useState(false);
+  const [sensitivity, setSensitivity] = useState<SensitivityResultDTO | null>(null);
+  const [sensitivityMetric, setSensitivityMetric] = useState<SensitivityMetric>("END_NET_WORTH");
+  const [sensitivityLoading, setSensitivityLoading] = useState(false);
 
   const runSimulation = useCallback(async () => {
     if (!selectedScenarioId) return;
@@ -39,7 +65,7 @@ export default function MonteCarloPage() {
     setError(null);
     try {
       const res = await fetch(
-        `/api/projections/monte-carlo?scenarioId=${selectedScenarioId}&simulations=${simulations}&volatility=${volatility}`
+        `/api/projections/monte-carlo?scenarioId=${selectedScenarioId}&simulations=${simulations}&volatility=${volatility}&longevity=${sampleLongevity}&dollars=${preferences.dollars}`
       );
       if (!res.ok) throw new Error("Failed to run simulation");
       const data = await res.json();
@@ -50,7 +76,24 @@ export default function MonteCarloPage() {
     } finally {
       setLoading(false);
     }
-  }, [selectedScenarioId, simulations, volatility]);
+  }, [selectedScenarioId, simulations, volatility, sampleLongevity, preferences.dollars]);
+
+  const runSensitivity = useCallback(async () => {
+    if (!selectedScenarioId) return;
+    setSensitivityLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/projections/sensitivity?scenarioId=${selectedScenarioId}&metrics=${sensitivityMetric}&volatility=${volatility}`
+      );
+      if (!res.ok) throw new Error("Failed to run sensitivity analysis");
+      setSensitivity(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sensitivity analysis failed");
+    } finally {
+      setSensitivityLoading(false);
+    }
+  }, [selectedScenarioId, sensitivityMetric, volatility]);
 
   // Fetch goals for goal success table
   useEffect(() => {
@@ -68,6 +111,13 @@ export default function MonteCarloPage() {
     }
   }, [selectedScenarioId, hasRun, runSimulation]);
 
+  // Re-run when the dollar preference no longer matches the result
+  useEffect(() => {
+    if (result && result.dollars !== preferences.dollars && !loading && !error) {
+      runSimulation();
+    }
+  }, [result, preferences.dollars, loading, error, runSimulation]);
+
   if (!selectedScenarioId) return <PageSkeleton />;
 
   const successColor =
@@ -133,6 +183,15 @@ export default function MonteCarloPage() {
               <span>5% (Conservative)</span>
               <span>30% (Aggressive)</span>
             </div>
+            <label className="flex items-center gap-2 text-xs text-zinc-400 mt-3">
+              <input
+                type="checkbox"
+                checked={sampleLongevity}
+                onChange={(e) => setSampleLongevity(e.target.checked)}
+                className="accent-emerald-500"
+              />
+              Sample lifespans from the life table
+            </label>
           </div>
           <div className="flex items-end">
             <button
@@ -195,7 +254,10 @@ export default function MonteCarloPage() {
 
           {/* Chart */}
           <div className="rounded-2xl border border-zinc-800 bg-zinc-950/60 p-6">
-            <h2 className="text-lg font-medium mb-4">Net Worth Confidence Bands</h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-medium">Net Worth Confidence Bands</h2>
+              <DollarToggle />
+            </div>
             <div className="mb-3 flex items-center gap-4 text-xs text-zinc-500">
               <div className="flex items-center gap-1.5">
                 <div className="w-3 h-3 rounded-sm bg-emerald-500 opacity-15" />
@@ -246,11 +308,58 @@ export default function MonteCarloPage() {
             </div>
           )}
 
+          {/* Sensitivity */}
+          <div className="rounded-2xl border border-zinc-800 bg-zinc-950/60 p-6">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <div>
+                <h2 className="text-lg font-medium">Which Assumptions Matter Most</h2>
+                <p className="text-xs text-zinc-500 mt-1">
+                  Each assumption is moved down and up while the others stay fixed
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={sensitivityMetric}
+                  onChange={(e) => setSensitivityMetric(e.target.value as SensitivityMetric)}
+                  className="px-3 py-2 rounded-lg bg-zinc-900 border border-zinc-700 text-sm text-zinc-200"
+                >
+                  {SENSITIVITY_METRICS.map((m) => (
+                    <option key={m.value} value={m.value}>
+                      {m.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={runSensitivity}
+                  disabled={sensitivityLoading}
+                  className="px-4 py-2 bg-zinc-800 text-zinc-100 rounded-xl text-sm font-medium hover:bg-zinc-700 transition-colors disabled:opacity-50"
+                >
+                  {sensitivityLoading ? "Analyzing..." : "Analyze"}
+                </button>
+              </div>
+            </div>
+            {sensitivity && sensitivity.metrics.includes(sensitivityMetric) ? (
+              <TornadoChart
+                bars={sensitivity.bars}
+                metric={sensitivityMetric}
+                formatDelta={(value) => formatSensitivityDelta(sensitivityMetric, value)}
+              />
+            ) : (
+              <div className="text-sm text-zinc-500">
+                Run the analysis to rank assumptions by their effect on the chosen metric.
+              </div>
+            )}
+          </div>
+
           {/* Methodology Note */}
           <div className="text-xs text-zinc-600 pb-4">
             Simulation uses normal distribution with mean return of 7% and {volatility}% annual
             volatility. Each simulation randomizes investment returns while keeping income, expenses,
             and loan payments fixed.
+            {result.dollars === "REAL" &&
+              " Net worth is shown in today's dollars, deflated by each run's inflation."}
+            {sampleLongevity &&
+              " Lifespans are drawn for members with a sex set and no fixed life expectancy, and success is judged when the last member's plan ends."}
           </div>
         </>
       )}
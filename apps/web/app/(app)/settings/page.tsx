@@ -1,3 +1,4 @@
+import Link from "next/link";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
 import { AnthropicKeyManager } from "@/components/settings/AnthropicKeyManager";
@@ -100,6 +101,22 @@ export default async function SettingsPage() {
         }))}
       />
 
+      {/* Scenario Settings */}
+      <div className="rounded-2xl border border-zinc-800 bg-zinc-900/50 p-6 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium">Scenario Settings</h2>
+          <p className="text-sm text-zinc-400 mt-1">
+            Projection horizon, inflation, growth and tax profile
+          </p>
+        </div>
+        <Link
+          href="/settings/scenario"
+          className="rounded-xl border border-zinc-700 px-4 py-2 text-sm hover:bg-zinc-800"
+        >
+          Edit
+        </Link>
+      </div>
+
       {/* Preferences */}
       <PreferencesSection />
 
@@ -0,0 +1,42 @@
+import Link from "next/link";
+import { getCurrentUser } from "@/lib/auth/session";
+import { prisma } from "@/lib/db/prisma";
+import { ScenarioSettingsSection } from "@/components/settings/ScenarioSettingsSection";
+
+export default async function ScenarioSettingsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ scenarioId?: string }>;
+}) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return null;
+  }
+
+  const { scenarioId } = await searchParams;
+
+  const scenarios = await prisma.scenario.findMany({
+    where: { household: { ownerUserId: user.id } },
+    select: { id: true, name: true, isBaseline: true },
+    orderBy: [{ isBaseline: "desc" }, { createdAt: "asc" }],
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link href="/settings" className="text-sm text-zinc-400 hover:text-zinc-200">
+          &larr; Back to Settings
+        </Link>
+        <h1 className="text-2xl font-semibold mt-2">Scenario Settings</h1>
+        <p className="text-zinc-400 mt-1">Projection assumptions and tax profile for each scenario</p>
+      </div>
+
+      <ScenarioSettingsSection
+        scenarios={scenarios}
+        initialScenarioId={scenarios.some((s) => s.id === scenarioId) ? scenarioId : undefined}
+      />
+    </div>
+  );
+}
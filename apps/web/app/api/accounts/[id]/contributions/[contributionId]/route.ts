@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
 
 type RouteParams = { params: Promise<{ id: string; contributionId: string }> };
 
@@ -88,6 +89,7 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
       employerMatchLimit: employerMatchLimit !== undefined ? employerMatchLimit : undefined,
     },
   });
+  await invalidateEngineCache(account.scenarioId);
 
   return NextResponse.json({ contribution });
 }
@@ -129,6 +131,7 @@ export async function DELETE(req: NextRequest, { params }: RouteParams) {
   await prisma.contribution.delete({
     where: { id: contributionId },
   });
+  await invalidateEngineCache(account.scenarioId);
 
   return NextResponse.json({ success: true });
 }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
 
 type RouteParams = { params: Promise<{ id: string }> };
 
@@ -84,6 +85,7 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         employerMatchLimit: employerMatchLimit ?? null,
       },
     });
+    await invalidateEngineCache(account.scenarioId);
 
     return NextResponse.json({ contribution }, { status: 201 });
   } catch (error) {
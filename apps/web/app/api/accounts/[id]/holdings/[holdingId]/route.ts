@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
 
 type RouteParams = { params: Promise<{ id: string; holdingId: string }> };
 
@@ -92,6 +93,7 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
         costBasis: costBasis !== undefined ? costBasis : undefined,
       },
     });
+    await invalidateEngineCache(account.scenarioId);
 
     return NextResponse.json({ holding });
   } catch (error) {
@@ -138,6 +140,7 @@ export async function DELETE(req: NextRequest, { params }: RouteParams) {
     await prisma.holding.delete({
       where: { id: holdingId },
     });
+    await invalidateEngineCache(account.scenarioId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
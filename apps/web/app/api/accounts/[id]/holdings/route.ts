@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
 import { z } from "zod";
 
 type RouteParams = { params: Promise<{ id: string }> };
@@ -98,6 +99,7 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         costBasis: data.costBasis ?? null,
       },
     });
+    await invalidateEngineCache(account.scenarioId);
 
     return NextResponse.json({ holding }, { status: 201 });
   } catch (error) {
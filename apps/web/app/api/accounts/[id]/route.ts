@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
 import { z } from "zod";
+import { isOpenImport, recordOverwrite } from "@/lib/import/batch";
 
 type RouteParams = { params: Promise<{ id: string }> };
 
@@ -12,6 +14,8 @@ const updateAccountSchema = z.object({
   balance: z.number().min(0).optional(),
   growthRule: z.string().optional(),
   growthRate: z.number().nullable().optional(),
+  // Import merging a row into this record; what it replaces is kept for undo
+  importLogId: z.string().optional(),
 });
 
 // GET /api/accounts/[id] - Get single account with holdings and contributions
@@ -114,16 +118,29 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
       }
     }
 
+    const updateData = {
+      memberId: data.memberId !== undefined ? (data.memberId || null) : undefined,
+      name: data.name !== undefined ? data.name : undefined,
+      type: data.type !== undefined ? data.type : undefined,
+      balance: data.balance !== undefined ? data.balance : undefined,
+      growthRule: data.growthRule !== undefined ? data.growthRule : undefined,
+      growthRate: data.growthRate !== undefined ? data.growthRate : undefined,
+    };
+
+    // Keep what a merged import row replaces so the import can be undone
+    if (data.importLogId) {
+      if (!(await isOpenImport(existingAccount.scenarioId, data.importLogId))) {
+        return NextResponse.json({ error: "Import not found" }, { status: 404 });
+      }
+      const fields = Object.keys(updateData).filter(
+        (field) => updateData[field as keyof typeof updateData] !== undefined
+      );
+      await recordOverwrite(prisma, data.importLogId, "account", existingAccount, fields);
+    }
+
     const account = await prisma.account.update({
       where: { id },
-      data: {
-        memberId: data.memberId !== undefined ? (data.memberId || null) : undefined,
-        name: data.name !== undefined ? data.name : undefined,
-        type: data.type !== undefined ? data.type : undefined,
-        balance: data.balance !== undefined ? data.balance : undefined,
-        growthRule: data.growthRule !== undefined ? data.growthRule : undefined,
-        growthRate: data.growthRate !== undefined ? data.growthRate : undefined,
-      },
+      data: updateData,
       include: {
         holdings: true,
         contributions: true,
@@ -132,6 +149,7 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
         },
       },
     });
+    await invalidateEngineCache(existingAccount.scenarioId);
 
     return NextResponse.json({ account });
   } catch (error) {
@@ -167,6 +185,7 @@ export async function DELETE(req: NextRequest, { params }: RouteParams) {
     await prisma.account.delete({
       where: { id },
     });
+    await invalidateEngineCache(existingAccount.scenarioId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
+import { isOpenImport } from "@/lib/import/batch";
 import { z } from "zod";
 
 const createAccountSchema = z.object({
@@ -11,6 +13,7 @@ const createAccountSchema = z.object({
   balance: z.number().min(0),
   growthRule: z.string().optional().default("MARKET"),
   growthRate: z.number().optional().nullable(),
+  importLogId: z.string().nullable().optional(),
 });
 
 // GET /api/accounts - List accounts for a scenario
@@ -108,6 +111,11 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    // Records created by a CSV import are tagged with its log
+    if (data.importLogId && !(await isOpenImport(data.scenarioId, data.importLogId))) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
     const account = await prisma.account.create({
       data: {
         scenarioId: data.scenarioId,
@@ -117,6 +125,7 @@ export async function POST(req: NextRequest) {
         balance: data.balance ?? 0,
         growthRule: data.growthRule ?? "FIXED",
         growthRate: data.growthRate ?? null,
+        importLogId: data.importLogId ?? null,
       },
       include: {
         holdings: true,
@@ -126,6 +135,7 @@ export async function POST(req: NextRequest) {
         },
       },
     });
+    await invalidateEngineCache(data.scenarioId);
 
     return NextResponse.json({ account }, { status: 201 });
   } catch (error) {
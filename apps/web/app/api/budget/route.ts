@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
+import {
+  BUDGET_ADJUSTMENT_PAYEE,
+  getMonthRange,
+  getSpendingAmount,
+  summarizeTransactions,
+  syncActualExpenses,
+  UNCATEGORIZED,
+} from "@/lib/transactions/actuals";
 
 // Frequency multipliers to normalize to monthly amounts
 function toMonthly(amount: number, frequency: string): number {
@@ -72,14 +80,34 @@ export async function GET(req: NextRequest) {
       plannedByCategory[cat].names.push(exp.name);
     }
 
-    // Get actual expenses for this month
+    // Actual spending for this month comes from the transaction ledger
+    const { start, end } = getMonthRange(month);
+    const transactions = await prisma.transaction.findMany({
+      where: { scenarioId, date: { gte: start, lt: end } },
+      select: { date: true, amount: true, category: true, source: true },
+    });
+    const spending = summarizeTransactions(transactions)[month] ?? {};
+
+    const transactionCounts: Record<string, number> = {};
+    for (const t of transactions) {
+      const cat = t.category || UNCATEGORIZED;
+      transactionCounts[cat] = (transactionCounts[cat] ?? 0) + 1;
+    }
+
+    // Notes are kept on the derived monthly totals
     const actuals = await prisma.actualExpense.findMany({
       where: { scenarioId, month },
     });
 
-    const actualByCategory: Record<string, { actual: number; notes: string | null; id: string }> = {};
+    const actualByCategory: Record<string, { actual: number; notes: string | null; id: string | null }> = {};
+    for (const [category, actual] of Object.entries(spending)) {
+      actualByCategory[category] = { actual, notes: null, id: null };
+    }
     for (const a of actuals) {
-      actualByCategory[a.category] = { actual: a.amount, notes: a.notes, id: a.id };
+      if (actualByCategory[a.category]) {
+        actualByCategory[a.category].notes = a.notes;
+        actualByCategory[a.category].id = a.id;
+      }
     }
 
     // Merge into rows
@@ -96,6 +124,7 @@ export async function GET(req: NextRequest) {
         names: plannedByCategory[category]?.names ?? [],
         notes: actualByCategory[category]?.notes ?? null,
         actualId: actualByCategory[category]?.id ?? null,
+        transactionCount: transactionCounts[category] ?? 0,
       };
     });
 
@@ -106,7 +135,7 @@ export async function GET(req: NextRequest) {
   }
 }
 
-// POST /api/budget - Bulk upsert actual expenses
+// POST /api/budget - Set actual spending totals for a month
 export async function POST(req: NextRequest) {
   try {
     const user = await getCurrentUser();
@@ -143,46 +172,78 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Scenario not found" }, { status: 404 });
     }
 
-    // Bulk upsert
+    // Each entry sets a category's total for the month. The difference from
+    // the category's other transactions is held in one budget adjustment
+    // transaction, so itemized spending is never overwritten.
+    const { start, end } = getMonthRange(month);
+    await prisma.$transaction(async (tx) => {
+      for (const entry of entries) {
+        const category = entry.category;
+        const existing = await tx.transaction.findMany({
+          where: {
+            scenarioId,
+            date: { gte: start, lt: end },
+            // Uncategorized spending also covers transactions with no category
+            ...(category === UNCATEGORIZED
+              ? { OR: [{ category }, { category: null }] }
+              : { category }),
+          },
+          select: { id: true, amount: true, category: true, source: true },
+        });
+        let adjustment: { id: string } | null = null;
+        let otherSpending = 0;
+        for (const t of existing) {
+          if (t.source === "BUDGET" && !adjustment) {
+            adjustment = t;
+          } else {
+            otherSpending += getSpendingAmount(t);
+          }
+        }
+        const difference = Math.round((entry.amount - otherSpending) * 100) / 100;
+
+        // A zero entry clears the manual adjustment only
+        if (entry.amount <= 0 || difference === 0) {
+          if (adjustment) {
+            await tx.transaction.delete({ where: { id: adjustment.id } });
+          }
+          continue;
+        }
+
+        if (adjustment) {
+          await tx.transaction.update({
+            where: { id: adjustment.id },
+            data: { amount: -difference, memo: entry.notes ?? null },
+          });
+        } else {
+          await tx.transaction.create({
+            data: {
+              scenarioId,
+              date: start,
+              payee: BUDGET_ADJUSTMENT_PAYEE,
+              amount: -difference,
+              category,
+              memo: entry.notes ?? null,
+              source: "BUDGET",
+            },
+          });
+        }
+      }
+    });
+
+    await syncActualExpenses(scenarioId, [month]);
+
+    // Keep notes on the derived totals
     await prisma.$transaction(
       entries
         .filter((e) => e.amount > 0)
         .map((entry) =>
-          prisma.actualExpense.upsert({
-            where: {
-              scenarioId_category_month: {
-                scenarioId,
-                category: entry.category,
-                month,
-              },
-            },
-            create: {
-              scenarioId,
-              category: entry.category,
-              amount: entry.amount,
-              month,
-              notes: entry.notes ?? null,
-            },
-            update: {
-              amount: entry.amount,
-              notes: entry.notes ?? null,
-            },
+          prisma.actualExpense.updateMany({
+            where: { scenarioId, category: entry.category, month },
+            data: { notes: entry.notes ?? null },
           })
         )
     );
 
-    // Delete entries with 0 amount
-    const zeroCategories = entries.filter((e) => e.amount <= 0).map((e) => e.category);
-    if (zeroCategories.length > 0) {
-      await prisma.actualExpense.deleteMany({
-        where: {
-          scenarioId,
-          month,
-          category: { in: zeroCategories },
-        },
-      });
-    }
-
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error saving budget data:", error);
@@ -1,7 +1,9 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
 import { getCurrentUser } from "@/lib/auth/session";
 import { z } from "zod";
+import { isOpenImport, recordOverwrite } from "@/lib/import/batch";
 
 const updateExpenseSchema = z.object({
   name: z.string().min(1, "Name is required").optional(),
@@ -13,6 +15,8 @@ const updateExpenseSchema = z.object({
   growthRate: z.number().nullable().optional(),
   category: z.string().nullable().optional(),
   isDiscretionary: z.boolean().optional(),
+  // Import merging a row into this record; what it replaces is kept for undo
+  importLogId: z.string().optional(),
 });
 
 type RouteContext = { params: Promise<{ id: string }> };
@@ -70,7 +74,7 @@ export async function PUT(req: Request, context: RouteContext) {
     }
 
     const { id } = await context.params;
-    const { error, status } = await verifyOwnership(id, user.id);
+    const { error, status, expense: existing } = await verifyOwnership(id, user.id);
 
     if (error) {
       return NextResponse.json({ error }, { status });
@@ -90,21 +94,31 @@ export async function PUT(req: Request, context: RouteContext) {
     }
 
     const data = parsed.data;
+    const updateData = {
+      ...(data.name !== undefined && { name: data.name }),
+      ...(data.amount !== undefined && { amount: data.amount }),
+      ...(data.frequency !== undefined && { frequency: data.frequency }),
+      ...(data.startDate !== undefined && { startDate: data.startDate }),
+      ...(data.endDate !== undefined && { endDate: data.endDate }),
+      ...(data.growthRule !== undefined && { growthRule: data.growthRule }),
+      ...(data.growthRate !== undefined && { growthRate: data.growthRate }),
+      ...(data.category !== undefined && { category: data.category }),
+      ...(data.isDiscretionary !== undefined && { isDiscretionary: data.isDiscretionary }),
+    };
+
+    // Keep what a merged import row replaces so the import can be undone
+    if (data.importLogId) {
+      if (!(await isOpenImport(existing!.scenarioId, data.importLogId))) {
+        return NextResponse.json({ error: "Import not found" }, { status: 404 });
+      }
+      await recordOverwrite(prisma, data.importLogId, "expense", existing!, Object.keys(updateData));
+    }
 
     const expense = await prisma.expense.update({
       where: { id },
-      data: {
-        ...(data.name !== undefined && { name: data.name }),
-        ...(data.amount !== undefined && { amount: data.amount }),
-        ...(data.frequency !== undefined && { frequency: data.frequency }),
-        ...(data.startDate !== undefined && { startDate: data.startDate }),
-        ...(data.endDate !== undefined && { endDate: data.endDate }),
-        ...(data.growthRule !== undefined && { growthRule: data.growthRule }),
-        ...(data.growthRate !== undefined && { growthRate: data.growthRate }),
-        ...(data.category !== undefined && { category: data.category }),
-        ...(data.isDiscretionary !== undefined && { isDiscretionary: data.isDiscretionary }),
-      },
+      data: updateData,
     });
+    await invalidateEngineCache(expense.scenarioId);
 
     return NextResponse.json({ expense });
   } catch (error) {
@@ -128,7 +142,8 @@ export async function DELETE(req: Request, context: RouteContext) {
       return NextResponse.json({ error }, { status });
     }
 
-    await prisma.expense.delete({ where: { id } });
+    const expense = await prisma.expense.delete({ where: { id } });
+    await invalidateEngineCache(expense.scenarioId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
 import { getCurrentUser } from "@/lib/auth/session";
 import { z } from "zod";
 import { categorizeExpense } from "@/lib/categorization/matchRule";
@@ -88,6 +89,10 @@ export async function POST(req: Request) {
       }
     }
 
+    if (categorizedCount > 0) {
+      await invalidateEngineCache(scenarioId);
+    }
+
     return NextResponse.json({ categorizedCount });
   } catch (error) {
     console.error("Error auto-categorizing expenses:", error);
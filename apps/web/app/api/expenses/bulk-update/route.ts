@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
 import { getCurrentUser } from "@/lib/auth/session";
 import { z } from "zod";
 import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
@@ -72,6 +73,7 @@ export async function POST(req: Request) {
         },
       });
     });
+    await invalidateEngineCache(scenarioId);
 
     return NextResponse.json({ updatedCount: result.count });
   } catch (error) {
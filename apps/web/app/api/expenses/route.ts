@@ -1,8 +1,10 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
 import { getCurrentUser } from "@/lib/auth/session";
 import { z } from "zod";
 import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { isOpenImport } from "@/lib/import/batch";
 
 const createExpenseSchema = z.object({
   scenarioId: z.string().min(1, "Scenario ID is required"),
@@ -15,6 +17,7 @@ const createExpenseSchema = z.object({
   growthRate: z.number().nullable().optional(),
   category: z.string().nullable().optional(),
   isDiscretionary: z.boolean().default(false),
+  importLogId: z.string().nullable().optional(),
 });
 
 // GET /api/expenses?scenarioId=xxx - List all expenses for a scenario
@@ -99,6 +102,11 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
+    // Records created by a CSV import are tagged with its log
+    if (data.importLogId && !(await isOpenImport(data.scenarioId, data.importLogId))) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
     const expense = await prisma.expense.create({
       data: {
         scenarioId: data.scenarioId,
@@ -111,8 +119,10 @@ export async function POST(req: Request) {
         growthRate: data.growthRate,
         category: data.category,
         isDiscretionary: data.isDiscretionary,
+        importLogId: data.importLogId ?? null,
       },
     });
+    await invalidateEngineCache(data.scenarioId);
 
     return NextResponse.json({ expense }, { status: 201 });
   } catch (error) {
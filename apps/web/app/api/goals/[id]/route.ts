@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
 import { z } from "zod";
 
 const GoalType = z.enum([
@@ -17,6 +18,8 @@ const updateGoalSchema = z.object({
   targetAmount: z.number().positive("Target amount must be positive").optional(),
   targetDate: z.string().datetime().optional().nullable(),
   priority: z.number().int().min(1).max(3).optional(),
+  linkedAccountIds: z.array(z.string()).optional(),
+  earmarkPct: z.number().gt(0).max(100).optional().nullable(),
 });
 
 type RouteParams = { params: Promise<{ id: string }> };
@@ -32,6 +35,7 @@ async function getGoalWithAccess(goalId: string, userId: string) {
         },
       },
     },
+    include: { linkedAccounts: { select: { id: true, name: true } } },
   });
 }
 
@@ -93,7 +97,21 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const { name, type, targetAmount, targetDate, priority } = parsed.data;
+    const { name, type, targetAmount, targetDate, priority, linkedAccountIds, earmarkPct } =
+      parsed.data;
+
+    // Linked accounts must belong to the goal's scenario
+    if (linkedAccountIds && linkedAccountIds.length > 0) {
+      const accountCount = await prisma.account.count({
+        where: { id: { in: linkedAccountIds }, scenarioId: existingGoal.scenarioId },
+      });
+      if (accountCount !== new Set(linkedAccountIds).size) {
+        return NextResponse.json(
+          { error: "Linked accounts must belong to the goal's scenario" },
+          { status: 400 }
+        );
+      }
+    }
 
     const goal = await prisma.goal.update({
       where: { id },
@@ -105,8 +123,14 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
           targetDate: targetDate ? new Date(targetDate) : null,
         }),
         ...(priority !== undefined && { priority }),
+        ...(earmarkPct !== undefined && { earmarkPct }),
+        ...(linkedAccountIds !== undefined && {
+          linkedAccounts: { set: linkedAccountIds.map((accountId) => ({ id: accountId })) },
+        }),
       },
+      include: { linkedAccounts: { select: { id: true, name: true } } },
     });
+    await invalidateEngineCache(existingGoal.scenarioId);
 
     return NextResponse.json({ goal });
   } catch (error) {
@@ -134,6 +158,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     }
 
     await prisma.goal.delete({ where: { id } });
+    await invalidateEngineCache(existingGoal.scenarioId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
 import { z } from "zod";
 
 const GoalType = z.enum([
@@ -18,6 +19,8 @@ const createGoalSchema = z.object({
   targetAmount: z.number().positive("Target amount must be positive"),
   targetDate: z.string().datetime().optional().nullable(),
   priority: z.number().int().min(1).max(3).default(2),
+  linkedAccountIds: z.array(z.string()).default([]),
+  earmarkPct: z.number().gt(0).max(100).optional().nullable(),
 });
 
 // GET /api/goals - List all goals for a scenario
@@ -57,6 +60,7 @@ export async function GET(request: NextRequest) {
 
     const goals = await prisma.goal.findMany({
       where: { scenarioId },
+      include: { linkedAccounts: { select: { id: true, name: true } } },
       orderBy: [{ priority: "asc" }, { targetDate: "asc" }],
     });
 
@@ -90,8 +94,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { scenarioId, name, type, targetAmount, targetDate, priority } =
-      parsed.data;
+    const {
+      scenarioId,
+      name,
+      type,
+      targetAmount,
+      targetDate,
+      priority,
+      linkedAccountIds,
+      earmarkPct,
+    } = parsed.data;
 
     // Verify user has access to this scenario through household ownership
     const scenario = await prisma.scenario.findFirst({
@@ -110,6 +122,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Linked accounts must belong to the same scenario
+    if (linkedAccountIds.length > 0) {
+      const accountCount = await prisma.account.count({
+        where: { id: { in: linkedAccountIds }, scenarioId },
+      });
+      if (accountCount !== new Set(linkedAccountIds).size) {
+        return NextResponse.json(
+          { error: "Linked accounts must belong to the goal's scenario" },
+          { status: 400 }
+        );
+      }
+    }
+
     const goal = await prisma.goal.create({
       data: {
         scenarioId,
@@ -118,8 +143,12 @@ export async function POST(request: NextRequest) {
         targetAmount,
         targetDate: targetDate ? new Date(targetDate) : null,
         priority,
+        earmarkPct: earmarkPct ?? null,
+        linkedAccounts: { connect: linkedAccountIds.map((id) => ({ id })) },
       },
+      include: { linkedAccounts: { select: { id: true, name: true } } },
     });
+    await invalidateEngineCache(scenarioId);
 
     return NextResponse.json({ goal }, { status: 201 });
   } catch (error) {
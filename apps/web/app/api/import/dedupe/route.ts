@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { getCurrentUser } from "@/lib/auth/session";
+import { z } from "zod";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { findDuplicates, type ExistingRecord } from "@/lib/csv/dedupe";
+
+const MAX_ROWS = 5000;
+
+const dedupeSchema = z.object({
+  scenarioId: z.string().min(1, "Scenario ID is required"),
+  type: z.enum(["income", "expense", "loan"]),
+  rows: z
+    .array(
+      z.object({
+        name: z.string(),
+        // Income or expense amount, or loan principal
+        amount: z.number().nullable(),
+        startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").nullable(),
+        // Member for incomes, category for expenses, type for loans
+        scope: z.string().nullable(),
+      })
+    )
+    .max(MAX_ROWS, `Maximum ${MAX_ROWS} rows per import`),
+});
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// POST /api/import/dedupe - Find CSV rows that duplicate existing incomes, expenses or loans
+export async function POST(req: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Rate limit: 15 imports per minute
+    const rateLimit = checkRateLimit(`import:${user.id}`, { maxRequests: 15, windowMs: 60000 });
+    if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+    const body = await req.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+
+    const parsed = dedupeSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { scenarioId, type, rows } = parsed.data;
+
+    // Verify user owns the scenario's household
+    const scenario = await prisma.scenario.findUnique({
+      where: { id: scenarioId },
+      include: { household: true },
+    });
+
+    if (!scenario) {
+      return NextResponse.json({ error: "Scenario not found" }, { status: 404 });
+    }
+
+    if (scenario.household.ownerUserId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const existing: ExistingRecord[] = [];
+    if (type === "income") {
+      const incomes = await prisma.income.findMany({ where: { scenarioId } });
+      for (const income of incomes) {
+        existing.push({
+          id: income.id,
+          name: income.name,
+          amount: income.amount,
+          startDate: toDateString(income.startDate),
+          scope: income.memberId,
+        });
+      }
+    } else if (type === "expense") {
+      const expenses = await prisma.expense.findMany({ where: { scenarioId } });
+      for (const expense of expenses) {
+        existing.push({
+          id: expense.id,
+          name: expense.name,
+          amount: expense.amount,
+          startDate: toDateString(expense.startDate),
+          scope: expense.category,
+        });
+      }
+    } else {
+      const loans = await prisma.loan.findMany({ where: { scenarioId } });
+      for (const loan of loans) {
+        existing.push({
+          id: loan.id,
+          name: loan.name,
+          amount: loan.principal,
+          startDate: toDateString(loan.startDate),
+          scope: loan.type,
+        });
+      }
+    }
+
+    return NextResponse.json({ matches: findDuplicates(rows, existing) });
+  } catch (error) {
+    console.error("Error checking import duplicates:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
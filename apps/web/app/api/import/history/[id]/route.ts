@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { getCurrentUser } from "@/lib/auth/session";
+import { z } from "zod";
+import { getImportBatch } from "@/lib/import/batch";
+
+const completeImportSchema = z.object({
+  rowsImported: z.number().int().min(0),
+  errors: z.array(z.string()).default([]),
+  // Rows flagged as duplicates of existing records and what was done with them
+  duplicates: z
+    .array(
+      z.object({
+        row: z.number().int().min(0),
+        action: z.enum(["skip", "merge", "keep"]),
+        existingId: z.string(),
+        existingName: z.string(),
+        score: z.number(),
+        scores: z.object({
+          name: z.number(),
+          amount: z.number().nullable(),
+          date: z.number().nullable(),
+        }),
+      })
+    )
+    .default([]),
+});
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Helper to verify import log ownership
+async function verifyOwnership(importLogId: string, userId: string) {
+  const log = await prisma.importLog.findUnique({
+    where: { id: importLogId },
+    include: {
+      scenario: {
+        include: { household: true },
+      },
+    },
+  });
+
+  if (!log) {
+    return { error: "Import not found", status: 404, log: null };
+  }
+
+  if (log.scenario.household.ownerUserId !== userId) {
+    return { error: "Forbidden", status: 403, log: null };
+  }
+
+  return { error: null, status: 200, log };
+}
+
+// GET /api/import/history/[id] - Get an import and the records it created
+// Each record is flagged if it has been edited since the import.
+export async function GET(req: Request, context: RouteContext) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const { error, status, log } = await verifyOwnership(id, user.id);
+
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { scenario: _scenario, ...rest } = log!;
+    const records = await getImportBatch(prisma, rest.scenarioId, id);
+
+    return NextResponse.json({ log: rest, records });
+  } catch (error) {
+    console.error("Error fetching import:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// PUT /api/import/history/[id] - Record the outcome of a pending CSV import
+// Duplicate decisions and their match scores are kept in errorDetails.
+export async function PUT(req: Request, context: RouteContext) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const { error, status, log: existing } = await verifyOwnership(id, user.id);
+
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    if (existing!.status !== "pending") {
+      return NextResponse.json({ error: "Import is already complete" }, { status: 409 });
+    }
+
+    const body = await req.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+
+    const parsed = completeImportSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { rowsImported, errors, duplicates } = parsed.data;
+
+    const log = await prisma.importLog.update({
+      where: { id },
+      data: {
+        rowsImported,
+        status: errors.length === 0 ? "success" : rowsImported > 0 ? "partial" : "error",
+        errorDetails: JSON.stringify({
+          errors,
+          duplicatesSkipped: duplicates.filter((d) => d.action === "skip").length,
+          duplicates,
+        }),
+      },
+    });
+
+    return NextResponse.json({ log });
+  } catch (error) {
+    console.error("Error completing import:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
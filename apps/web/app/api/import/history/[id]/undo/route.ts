@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { getCurrentUser } from "@/lib/auth/session";
+import { z } from "zod";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
+import { syncActualExpenses } from "@/lib/transactions/actuals";
+import { undoImport } from "@/lib/import/batch";
+
+const undoImportSchema = z.object({
+  // Also delete records edited since the import
+  confirmEdited: z.boolean().default(false),
+});
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/import/history/[id]/undo - Delete every record an import created
+// and restore the values it overwrote on existing records
+// Refuses with 409 and the edited records unless confirmEdited is set.
+export async function POST(req: Request, context: RouteContext) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Rate limit: 15 bulk operations per minute
+    const rateLimit = checkRateLimit(`bulk-delete:${user.id}`, { maxRequests: 15, windowMs: 60000 });
+    if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+    const body = await req.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+
+    const parsed = undoImportSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await context.params;
+    const log = await prisma.importLog.findUnique({
+      where: { id },
+      include: {
+        scenario: {
+          include: { household: true },
+        },
+      },
+    });
+
+    if (!log) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
+    if (log.scenario.household.ownerUserId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (log.status === "undone") {
+      return NextResponse.json({ error: "Import has already been undone" }, { status: 409 });
+    }
+
+    const result = await undoImport(log.scenarioId, id, { confirmEdited: parsed.data.confirmEdited });
+
+    if (result.status === "empty") {
+      return NextResponse.json({ error: "No records from this import remain" }, { status: 404 });
+    }
+
+    if (result.status === "edited") {
+      return NextResponse.json(
+        { error: "Some records have been edited since the import", edited: result.edited },
+        { status: 409 }
+      );
+    }
+
+    await syncActualExpenses(log.scenarioId, result.months);
+    await invalidateEngineCache(log.scenarioId);
+
+    return NextResponse.json({ deleted: result.deleted, restored: result.restored });
+  } catch (error) {
+    console.error("Error undoing import:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
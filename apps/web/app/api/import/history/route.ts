@@ -1,7 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
 import { getCurrentUser } from "@/lib/auth/session";
+import { z } from "zod";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { countImportRecords } from "@/lib/import/batch";
 
+const importLogSchema = z.object({
+  scenarioId: z.string().min(1, "Scenario ID is required"),
+  type: z.enum(["income", "expense", "account", "loan"]),
+  fileName: z.string().min(1, "File name is required"),
+});
+
+// GET /api/import/history - List a scenario's imports, newest first
 export async function GET(req: NextRequest) {
   const user = await getCurrentUser();
   if (!user) {
@@ -30,6 +40,63 @@ export async function GET(req: NextRequest) {
     where: { scenarioId },
     orderBy: { createdAt: "desc" },
   });
+  const recordCounts = await countImportRecords(scenarioId);
+
+  return NextResponse.json({
+    // Records from each import still present, for offering an undo
+    logs: logs.map((log) => ({ ...log, recordCount: recordCounts.get(log.id) ?? 0 })),
+  });
+}
+
+// POST /api/import/history - Start a CSV import of incomes, expenses, accounts or loans
+// Records created for the import are tagged with the returned log's id; the
+// log stays pending until PUT /api/import/history/[id] records the outcome.
+export async function POST(req: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const rateLimit = checkRateLimit(`crud:${user.id}`, { maxRequests: 100, windowMs: 60000 });
+    if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+    const body = await req.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
 
-  return NextResponse.json({ logs });
+    const parsed = importLogSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { scenarioId, type, fileName } = parsed.data;
+
+    // Verify user owns the scenario's household
+    const scenario = await prisma.scenario.findUnique({
+      where: { id: scenarioId },
+      include: { household: true },
+    });
+
+    if (!scenario) {
+      return NextResponse.json({ error: "Scenario not found" }, { status: 404 });
+    }
+
+    if (scenario.household.ownerUserId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const log = await prisma.importLog.create({
+      data: { scenarioId, type, fileName, rowsImported: 0, status: "pending" },
+    });
+
+    return NextResponse.json({ log }, { status: 201 });
+  } catch (error) {
+    console.error("Error starting import:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
 }
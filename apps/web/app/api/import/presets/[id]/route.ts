@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { getCurrentUser } from "@/lib/auth/session";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// DELETE /api/import/presets/[id] - Delete a saved column mapping
+export async function DELETE(req: Request, context: RouteContext) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+
+    const { count } = await prisma.importPreset.deleteMany({
+      where: { id, userId: user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Preset not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting import preset:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { getCurrentUser } from "@/lib/auth/session";
+import { z } from "zod";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+
+const IMPORT_TYPES = ["income", "expense", "account", "loan", "transaction"] as const;
+
+const savePresetSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  importType: z.enum(IMPORT_TYPES),
+  headerFingerprint: z.string().min(1, "Header fingerprint is required"),
+  headerRow: z.number().int().min(0).max(50).default(0),
+  mapping: z.record(z.string(), z.string().nullable()),
+  dateFormat: z.enum(["YMD", "MDY", "DMY"]).nullable().optional(),
+  signConvention: z.enum(["NEGATIVE_OUTFLOW", "POSITIVE_OUTFLOW", "DEBIT_CREDIT"]).nullable().optional(),
+});
+
+// Presets store their mapping as a JSON string
+function serializePreset(preset: { mapping: string } & Record<string, unknown>) {
+  return { ...preset, mapping: JSON.parse(preset.mapping) as Record<string, string | null> };
+}
+
+// GET /api/import/presets?type=transaction - List the user's saved column mappings
+export async function GET(req: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const type = searchParams.get("type");
+
+    const presets = await prisma.importPreset.findMany({
+      where: {
+        userId: user.id,
+        ...(type && { importType: type }),
+      },
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json({ presets: presets.map(serializePreset) });
+  } catch (error) {
+    console.error("Error fetching import presets:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/import/presets - Save a column mapping; saving an existing name replaces it
+export async function POST(req: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Rate limit: 100 requests per minute for standard CRUD operations
+    const rateLimit = checkRateLimit(`crud:${user.id}`, { maxRequests: 100, windowMs: 60000 });
+    if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+    const body = await req.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+
+    const parsed = savePresetSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { name, importType, ...data } = parsed.data;
+    const fields = {
+      headerFingerprint: data.headerFingerprint,
+      headerRow: data.headerRow,
+      mapping: JSON.stringify(data.mapping),
+      dateFormat: data.dateFormat ?? null,
+      signConvention: data.signConvention ?? null,
+    };
+
+    const preset = await prisma.importPreset.upsert({
+      where: { userId_importType_name: { userId: user.id, importType, name } },
+      create: { userId: user.id, name, importType, ...fields },
+      update: fields,
+    });
+
+    return NextResponse.json({ preset: serializePreset(preset) }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving import preset:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
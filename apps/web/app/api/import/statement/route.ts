@@ -0,0 +1,219 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { getCurrentUser } from "@/lib/auth/session";
+import { z } from "zod";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
+import { categorizeExpense } from "@/lib/categorization/matchRule";
+import { DEFAULT_RULES } from "@/lib/categorization/defaultRules";
+import { syncActualExpenses } from "@/lib/transactions/actuals";
+import { recordOverwrite } from "@/lib/import/batch";
+
+const MAX_TRANSACTIONS = 5000;
+
+const statementTransactionSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  payee: z.string().min(1),
+  amount: z.number(),
+  memo: z.string().nullable(),
+  category: z.string().nullable(),
+  externalId: z.string().min(1),
+});
+
+type StatementTransactionInput = z.infer<typeof statementTransactionSchema>;
+
+const statementImportSchema = z.object({
+  scenarioId: z.string().min(1, "Scenario ID is required"),
+  fileName: z.string().min(1, "File name is required"),
+  format: z.enum(["OFX", "QIF", "CSV"]),
+  // Preview only: report duplicates without writing anything
+  dryRun: z.boolean().default(false),
+  parseErrors: z.array(z.string()).default([]),
+  accounts: z
+    .array(
+      z.object({
+        accountKey: z.string(),
+        // Scenario account the statement is imported into, if any
+        accountId: z.string().nullable(),
+        balance: z.number().nullable(),
+        updateBalance: z.boolean().default(false),
+        transactions: z.array(statementTransactionSchema),
+      })
+    )
+    .min(1, "At least one account is required"),
+});
+
+// POST /api/import/statement - Preview or import parsed OFX/QFX/QIF or bank CSV transactions
+// Transactions already imported (same FITID, or QIF/CSV fingerprint) are skipped.
+export async function POST(req: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Rate limit: 15 imports per minute
+    const rateLimit = checkRateLimit(`import:${user.id}`, { maxRequests: 15, windowMs: 60000 });
+    if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+    const body = await req.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+
+    const parsed = statementImportSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { scenarioId, fileName, format, dryRun, parseErrors, accounts } = parsed.data;
+
+    const transactionCount = accounts.reduce((sum, a) => sum + a.transactions.length, 0);
+    if (transactionCount > MAX_TRANSACTIONS) {
+      return NextResponse.json(
+        { error: `Too many transactions. Maximum ${MAX_TRANSACTIONS} per import.` },
+        { status: 400 }
+      );
+    }
+
+    // Verify user owns the scenario's household
+    const scenario = await prisma.scenario.findUnique({
+      where: { id: scenarioId },
+      include: { household: true },
+    });
+
+    if (!scenario) {
+      return NextResponse.json({ error: "Scenario not found" }, { status: 404 });
+    }
+
+    if (scenario.household.ownerUserId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const accountIds = accounts.flatMap((a) => (a.accountId ? [a.accountId] : []));
+    if (accountIds.length > 0) {
+      const owned = await prisma.account.count({
+        where: { id: { in: accountIds }, scenarioId },
+      });
+      if (owned !== new Set(accountIds).size) {
+        return NextResponse.json({ error: "Account not found" }, { status: 404 });
+      }
+    }
+
+    // Split each account's transactions into new ones and duplicates
+    const plans: {
+      account: (typeof accounts)[number];
+      fresh: StatementTransactionInput[];
+      duplicateIds: string[];
+    }[] = [];
+    for (const account of accounts) {
+      const existing = await prisma.transaction.findMany({
+        where: {
+          scenarioId,
+          accountId: account.accountId,
+          externalId: { in: account.transactions.map((t) => t.externalId) },
+        },
+        select: { externalId: true },
+      });
+      const seen = new Set<string>(existing.map((t) => t.externalId));
+
+      const fresh: StatementTransactionInput[] = [];
+      const duplicateIds: string[] = [];
+      for (const transaction of account.transactions) {
+        if (seen.has(transaction.externalId)) {
+          duplicateIds.push(transaction.externalId);
+        } else {
+          seen.add(transaction.externalId);
+          fresh.push(transaction);
+        }
+      }
+      plans.push({ account, fresh, duplicateIds });
+    }
+
+    if (dryRun) {
+      return NextResponse.json({
+        accounts: plans.map(({ account, fresh, duplicateIds }) => ({
+          accountKey: account.accountKey,
+          newCount: fresh.length,
+          duplicateIds,
+        })),
+      });
+    }
+
+    const importedCount = plans.reduce((sum, p) => sum + p.fresh.length, 0);
+    const duplicateCount = plans.reduce((sum, p) => sum + p.duplicateIds.length, 0);
+    const balanceUpdates = plans.filter(
+      ({ account }) => account.updateBalance && account.accountId && account.balance !== null
+    );
+
+    const importLog = await prisma.$transaction(async (tx) => {
+      // The log is written first so each transaction can be tagged with it
+      const log = await tx.importLog.create({
+        data: {
+          scenarioId,
+          type: "transaction",
+          fileName,
+          rowsImported: importedCount,
+          status: parseErrors.length === 0 ? "success" : importedCount > 0 ? "partial" : "error",
+          errorDetails: JSON.stringify({
+            errors: parseErrors,
+            duplicatesSkipped: duplicateCount,
+            balancesUpdated: balanceUpdates.map(({ account }) => account.accountKey),
+          }),
+        },
+      });
+
+      for (const { account, fresh } of plans) {
+        if (fresh.length === 0) continue;
+        await tx.transaction.createMany({
+          data: fresh.map((t) => ({
+            scenarioId,
+            accountId: account.accountId,
+            date: new Date(`${t.date}T00:00:00Z`),
+            payee: t.payee,
+            amount: t.amount,
+            category: t.category ?? categorizeExpense(t.payee, DEFAULT_RULES),
+            memo: t.memo,
+            source: format,
+            externalId: t.externalId,
+            importLogId: log.id,
+          })),
+        });
+      }
+
+      // Keep the balances being replaced so undo can restore them
+      for (const { account } of balanceUpdates) {
+        const existing = await tx.account.findUniqueOrThrow({ where: { id: account.accountId! } });
+        await recordOverwrite(tx, log.id, "account", existing, ["balance"]);
+        await tx.account.update({
+          where: { id: account.accountId! },
+          data: { balance: account.balance! },
+        });
+      }
+
+      return log;
+    });
+
+    const months = plans.flatMap(({ fresh }) => fresh.map((t) => t.date.slice(0, 7)));
+    await syncActualExpenses(scenarioId, months);
+    if (balanceUpdates.length > 0) {
+      await invalidateEngineCache(scenarioId);
+    }
+
+    return NextResponse.json(
+      {
+        importLogId: importLog.id,
+        imported: importedCount,
+        duplicates: duplicateCount,
+        balancesUpdated: balanceUpdates.length,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error importing statement:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
 import { getCurrentUser } from "@/lib/auth/session";
+import { isOpenImport, recordOverwrite } from "@/lib/import/batch";
 
 const FrequencyEnum = z.enum(["MONTHLY", "BIWEEKLY", "WEEKLY", "ANNUAL", "ONE_TIME"]);
 const GrowthRuleEnum = z.enum(["NONE", "FIXED", "INFLATION", "INFLATION_PLUS"]);
+const IncomeTypeEnum = z.enum(["EARNED", "SOCIAL_SECURITY", "PENSION"]);
 
 const UpdateIncomeSchema = z.object({
   memberId: z.string().nullable().optional(),
@@ -23,6 +26,11 @@ const UpdateIncomeSchema = z.object({
   growthRule: GrowthRuleEnum.optional(),
   growthRate: z.number().nullable().optional(),
   isTaxable: z.boolean().optional(),
+  type: IncomeTypeEnum.optional(),
+  claimingAge: z.number().min(62).max(70).nullable().optional(),
+  survivorRate: z.number().min(0).max(1).nullable().optional(),
+  // Import merging a row into this record; what it replaces is kept for undo
+  importLogId: z.string().optional(),
 });
 
 async function getIncomeWithOwnership(userId: string, incomeId: string) {
@@ -106,6 +114,9 @@ export async function PUT(
     if (data.growthRule !== undefined) updateData.growthRule = data.growthRule;
     if (data.growthRate !== undefined) updateData.growthRate = data.growthRate;
     if (data.isTaxable !== undefined) updateData.isTaxable = data.isTaxable;
+    if (data.type !== undefined) updateData.type = data.type;
+    if (data.claimingAge !== undefined) updateData.claimingAge = data.claimingAge;
+    if (data.survivorRate !== undefined) updateData.survivorRate = data.survivorRate;
 
     // Handle memberId specially - can be set to null
     if ("memberId" in data) {
@@ -124,6 +135,28 @@ export async function PUT(
       updateData.memberId = data.memberId ?? null;
     }
 
+    // Benefits are claimed at an age, so the engine needs a birth date
+    if ((data.type ?? existingIncome.type) === "SOCIAL_SECURITY") {
+      const memberId = "memberId" in data ? data.memberId : existingIncome.memberId;
+      const member = memberId
+        ? await prisma.householdMember.findUnique({ where: { id: memberId }, select: { birthDate: true } })
+        : null;
+      if (!member?.birthDate) {
+        return NextResponse.json(
+          { error: "Social Security income requires a member with a birth date" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Keep what a merged import row replaces so the import can be undone
+    if (data.importLogId) {
+      if (!(await isOpenImport(existingIncome.scenarioId, data.importLogId))) {
+        return NextResponse.json({ error: "Import not found" }, { status: 404 });
+      }
+      await recordOverwrite(prisma, data.importLogId, "income", existingIncome, Object.keys(updateData));
+    }
+
     const income = await prisma.income.update({
       where: { id },
       data: updateData,
@@ -131,6 +164,7 @@ export async function PUT(
         member: { select: { id: true, name: true } },
       },
     });
+    await invalidateEngineCache(existingIncome.scenarioId);
 
     return NextResponse.json({ income });
   } catch (error) {
@@ -157,6 +191,7 @@ export async function DELETE(
     }
 
     await prisma.income.delete({ where: { id } });
+    await invalidateEngineCache(existingIncome.scenarioId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
 import { getCurrentUser } from "@/lib/auth/session";
+import { isOpenImport } from "@/lib/import/batch";
 
 const FrequencyEnum = z.enum(["MONTHLY", "BIWEEKLY", "WEEKLY", "ANNUAL", "ONE_TIME"]);
 const GrowthRuleEnum = z.enum(["NONE", "FIXED", "INFLATION", "INFLATION_PLUS"]);
+const IncomeTypeEnum = z.enum(["EARNED", "SOCIAL_SECURITY", "PENSION"]);
 
 const CreateIncomeSchema = z.object({
   scenarioId: z.string().min(1),
@@ -21,7 +24,14 @@ const CreateIncomeSchema = z.object({
   growthRule: GrowthRuleEnum.default("NONE"),
   growthRate: z.number().nullable().optional(),
   isTaxable: z.boolean().default(true),
-});
+  type: IncomeTypeEnum.default("EARNED"),
+  claimingAge: z.number().min(62).max(70).nullable().optional(),
+  survivorRate: z.number().min(0).max(1).nullable().optional(),
+  importLogId: z.string().nullable().optional(),
+}).refine(
+  (data) => data.type !== "SOCIAL_SECURITY" || (!!data.memberId && data.claimingAge != null),
+  { message: "Social Security income requires a household member and claiming age", path: ["claimingAge"] }
+);
 
 async function verifyScenarioOwnership(userId: string, scenarioId: string) {
   const scenario = await prisma.scenario.findFirst({
@@ -93,6 +103,11 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Scenario not found" }, { status: 404 });
     }
 
+    // Records created by a CSV import are tagged with its log
+    if (incomeData.importLogId && !(await isOpenImport(scenarioId, incomeData.importLogId))) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
     // Verify member belongs to the household if provided
     if (memberId) {
       const member = await prisma.householdMember.findFirst({
@@ -104,6 +119,13 @@ export async function POST(req: NextRequest) {
       if (!member) {
         return NextResponse.json({ error: "Member not found" }, { status: 400 });
       }
+      // Benefits are claimed at an age, so the engine needs a birth date
+      if (incomeData.type === "SOCIAL_SECURITY" && !member.birthDate) {
+        return NextResponse.json(
+          { error: "Social Security income requires a member with a birth date" },
+          { status: 400 }
+        );
+      }
     }
 
     const income = await prisma.income.create({
@@ -116,6 +138,7 @@ export async function POST(req: NextRequest) {
         member: { select: { id: true, name: true } },
       },
     });
+    await invalidateEngineCache(scenarioId);
 
     return NextResponse.json({ income }, { status: 201 });
   } catch (error) {
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
 import { z } from "zod";
+import { lifeEventEffectSchema, withParsedEffects } from "@/lib/engine/lifeEventEffects";
 
 const LifeEventType = z.enum([
   "BUY_HOUSE",
@@ -18,6 +20,7 @@ const updateLifeEventSchema = z.object({
   description: z.string().max(500).optional().nullable(),
   color: z.string().optional(),
   icon: z.string().optional().nullable(),
+  effects: z.array(lifeEventEffectSchema).optional().nullable(),
 });
 
 type RouteParams = { params: Promise<{ id: string }> };
@@ -51,7 +54,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    return NextResponse.json({ lifeEvent });
+    return NextResponse.json({ lifeEvent: withParsedEffects(lifeEvent) });
   } catch (error) {
     console.error("Error fetching life event:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -91,7 +94,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const { name, type, targetDate, description, color, icon } = parsed.data;
+    const { name, type, targetDate, description, color, icon, effects } = parsed.data;
 
     const lifeEvent = await prisma.lifeEvent.update({
       where: { id },
@@ -102,10 +105,12 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         ...(description !== undefined && { description }),
         ...(color !== undefined && { color }),
         ...(icon !== undefined && { icon }),
+        ...(effects !== undefined && { effects: effects ? JSON.stringify(effects) : null }),
       },
     });
+    await invalidateEngineCache(existing.scenarioId);
 
-    return NextResponse.json({ lifeEvent });
+    return NextResponse.json({ lifeEvent: withParsedEffects(lifeEvent) });
   } catch (error) {
     console.error("Error updating life event:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -131,6 +136,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     }
 
     await prisma.lifeEvent.delete({ where: { id } });
+    await invalidateEngineCache(existing.scenarioId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
 import { z } from "zod";
+import { lifeEventEffectSchema, withParsedEffects } from "@/lib/engine/lifeEventEffects";
 
 const LifeEventType = z.enum([
   "BUY_HOUSE",
@@ -19,6 +21,7 @@ const createLifeEventSchema = z.object({
   description: z.string().max(500).optional().nullable(),
   color: z.string().default("#10b981"),
   icon: z.string().optional().nullable(),
+  effects: z.array(lifeEventEffectSchema).optional().nullable(),
 });
 
 // GET /api/life-events - List all life events for a scenario
@@ -58,7 +61,7 @@ export async function GET(request: NextRequest) {
       orderBy: { targetDate: "asc" },
     });
 
-    return NextResponse.json({ lifeEvents });
+    return NextResponse.json({ lifeEvents: lifeEvents.map(withParsedEffects) });
   } catch (error) {
     console.error("Error fetching life events:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -88,7 +91,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { scenarioId, name, type, targetDate, description, color, icon } =
+    const { scenarioId, name, type, targetDate, description, color, icon, effects } =
       parsed.data;
 
     const scenario = await prisma.scenario.findFirst({
@@ -114,10 +117,12 @@ export async function POST(request: NextRequest) {
         description: description ?? null,
         color,
         icon: icon ?? null,
+        effects: effects ? JSON.stringify(effects) : null,
       },
     });
+    await invalidateEngineCache(scenarioId);
 
-    return NextResponse.json({ lifeEvent }, { status: 201 });
+    return NextResponse.json({ lifeEvent: withParsedEffects(lifeEvent) }, { status: 201 });
   } catch (error) {
     console.error("Error creating life event:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
 import { z } from "zod";
+import { isOpenImport, recordOverwrite } from "@/lib/import/batch";
 
 const LoanTypeEnum = z.enum(["MORTGAGE", "AUTO", "STUDENT", "PERSONAL", "HELOC", "OTHER"]);
 
@@ -15,6 +17,8 @@ const updateLoanSchema = z.object({
   monthlyPayment: z.number().min(0, "Monthly payment cannot be negative").optional(),
   startDate: z.string().datetime().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).optional(),
   termMonths: z.number().int().positive("Term must be positive").optional(),
+  // Import merging a row into this record; what it replaces is kept for undo
+  importLogId: z.string().optional(),
 });
 
 function calculateMonthlyPayment(principal: number, annualRate: number, termMonths: number): number {
@@ -41,6 +45,9 @@ async function getLoanWithOwnerCheck(loanId: string, userId: string) {
       scenario: {
         select: { householdId: true },
       },
+      realAsset: {
+        select: { id: true, name: true },
+      },
     },
   });
   return loan;
@@ -141,6 +148,14 @@ export async function PUT(
     if (data.startDate !== undefined) updateData.startDate = new Date(data.startDate);
     if (data.termMonths !== undefined) updateData.termMonths = data.termMonths;
 
+    // Keep what a merged import row replaces so the import can be undone
+    if (data.importLogId) {
+      if (!(await isOpenImport(existingLoan.scenarioId, data.importLogId))) {
+        return NextResponse.json({ error: "Import not found" }, { status: 404 });
+      }
+      await recordOverwrite(prisma, data.importLogId, "loan", existingLoan, Object.keys(updateData));
+    }
+
     const loan = await prisma.loan.update({
       where: { id },
       data: updateData,
@@ -150,6 +165,7 @@ export async function PUT(
         },
       },
     });
+    await invalidateEngineCache(existingLoan.scenarioId);
 
     return NextResponse.json({ loan });
   } catch (error) {
@@ -178,6 +194,7 @@ export async function DELETE(
     await prisma.loan.delete({
       where: { id },
     });
+    await invalidateEngineCache(existingLoan.scenarioId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
+import { isOpenImport } from "@/lib/import/batch";
 import { z } from "zod";
 
 const LoanTypeEnum = z.enum(["MORTGAGE", "AUTO", "STUDENT", "PERSONAL", "HELOC", "OTHER"]);
@@ -16,6 +18,7 @@ const createLoanSchema = z.object({
   monthlyPayment: z.number().min(0, "Monthly payment cannot be negative").optional(),
   startDate: z.string().datetime().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
   termMonths: z.number().int().positive("Term must be positive"),
+  importLogId: z.string().nullable().optional(),
 });
 
 function calculateMonthlyPayment(principal: number, annualRate: number, termMonths: number): number {
@@ -121,6 +124,11 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Records created by a CSV import are tagged with its log
+    if (data.importLogId && !(await isOpenImport(data.scenarioId, data.importLogId))) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
     // Calculate monthly payment if not provided
     const monthlyPayment = data.monthlyPayment ??
       calculateMonthlyPayment(data.principal, data.interestRate, data.termMonths);
@@ -137,6 +145,7 @@ export async function POST(request: NextRequest) {
         monthlyPayment,
         startDate: new Date(data.startDate),
         termMonths: data.termMonths,
+        importLogId: data.importLogId ?? null,
       },
       include: {
         member: {
@@ -144,6 +153,7 @@ export async function POST(request: NextRequest) {
         },
       },
     });
+    await invalidateEngineCache(data.scenarioId);
 
     return NextResponse.json({ loan }, { status: 201 });
   } catch (error) {
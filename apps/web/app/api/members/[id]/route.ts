@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateHouseholdEngineCache } from "@/lib/engine/resultCache";
 import { z } from "zod";
 
 const updateMemberSchema = z.object({
@@ -8,6 +9,8 @@ const updateMemberSchema = z.object({
   birthDate: z.string().nullable().optional(),
   retirementAge: z.number().int().min(40).max(100).nullable().optional(),
   roleTag: z.string().nullable().optional(),
+  sex: z.enum(["MALE", "FEMALE"]).nullable().optional(),
+  lifeExpectancy: z.number().min(1).max(119).nullable().optional(),
 });
 
 // GET /api/members/[id]
@@ -63,13 +66,28 @@ export async function PUT(
     }
 
     const data = parsed.data;
+
+    // Social Security incomes need their member's birth date
+    if (data.birthDate !== undefined && !data.birthDate) {
+      const benefits = await prisma.income.count({ where: { memberId: id, type: "SOCIAL_SECURITY" } });
+      if (benefits > 0) {
+        return NextResponse.json(
+          { error: "Birth date is required while the member has Social Security income" },
+          { status: 400 }
+        );
+      }
+    }
+
     const updateData: Record<string, unknown> = {};
     if (data.name !== undefined) updateData.name = data.name;
     if (data.birthDate !== undefined) updateData.birthDate = data.birthDate ? new Date(data.birthDate) : null;
     if (data.retirementAge !== undefined) updateData.retirementAge = data.retirementAge;
     if (data.roleTag !== undefined) updateData.roleTag = data.roleTag;
+    if (data.sex !== undefined) updateData.sex = data.sex;
+    if (data.lifeExpectancy !== undefined) updateData.lifeExpectancy = data.lifeExpectancy;
 
     const member = await prisma.householdMember.update({ where: { id }, data: updateData });
+    await invalidateHouseholdEngineCache(existing.householdId);
     return NextResponse.json({ member });
   } catch (error) {
     console.error("Error updating member:", error);
@@ -93,6 +111,7 @@ export async function DELETE(
     if (!existing) return NextResponse.json({ error: "Member not found" }, { status: 404 });
 
     await prisma.householdMember.delete({ where: { id } });
+    await invalidateHouseholdEngineCache(existing.householdId);
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting member:", error);
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
+import { invalidateHouseholdEngineCache } from "@/lib/engine/resultCache";
 import { getCurrentUser } from "@/lib/auth/session";
 import { z } from "zod";
 
@@ -9,6 +10,8 @@ const createMemberSchema = z.object({
   birthDate: z.string().optional().nullable(),
   retirementAge: z.number().int().min(40).max(100).optional().nullable(),
   roleTag: z.string().optional().nullable(),
+  sex: z.enum(["MALE", "FEMALE"]).optional().nullable(),
+  lifeExpectancy: z.number().min(1).max(119).optional().nullable(),
 });
 
 // GET /api/members?householdId=xxx - List all members for a household
@@ -106,8 +109,11 @@ export async function POST(req: NextRequest) {
         birthDate: data.birthDate ? new Date(data.birthDate) : null,
         retirementAge: data.retirementAge ?? null,
         roleTag: data.roleTag || null,
+        sex: data.sex ?? null,
+        lifeExpectancy: data.lifeExpectancy ?? null,
       },
     });
+    await invalidateHouseholdEngineCache(data.householdId);
 
     return NextResponse.json(member);
   } catch (error) {
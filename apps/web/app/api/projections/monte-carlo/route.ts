@@ -3,7 +3,8 @@ import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
 import { runMonteCarlo } from "@finatlas/engine";
 import type { MonteCarloConfig } from "@finatlas/engine";
-import { buildEngineInput } from "@/lib/engine/buildEngineInput";
+import { buildEngineInput, scenarioEngineInclude } from "@/lib/engine/buildEngineInput";
+import { ENGINE_CACHE_HEADER, getOrComputeEngineResult } from "@/lib/engine/resultCache";
 import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
 
 export async function GET(req: NextRequest) {
@@ -20,6 +21,8 @@ export async function GET(req: NextRequest) {
   const scenarioId = searchParams.get("scenarioId");
   const simulations = parseInt(searchParams.get("simulations") ?? "500", 10);
   const volatility = parseFloat(searchParams.get("volatility") ?? "15");
+  const sampleLongevity = searchParams.get("longevity") === "true";
+  const dollars = searchParams.get("dollars") === "REAL" ? "REAL" : "NOMINAL";
 
   if (!scenarioId) {
     return NextResponse.json({ error: "scenarioId is required" }, { status: 400 });
@@ -32,26 +35,7 @@ export async function GET(req: NextRequest) {
         ownerUserId: user.id,
       },
     },
-    include: {
-      household: {
-        include: {
-          members: true,
-        },
-      },
-      incomes: {
-        include: {
-          member: true,
-        },
-      },
-      expenses: true,
-      accounts: {
-        include: {
-          holdings: true,
-        },
-      },
-      loans: true,
-      goals: true,
-    },
+    include: scenarioEngineInclude,
   });
 
   if (!scenario) {
@@ -63,11 +47,21 @@ export async function GET(req: NextRequest) {
   const config: MonteCarloConfig = {
     simulations: Math.min(Math.max(simulations, 50), 2000),
     volatilityPct: Math.min(Math.max(volatility, 1), 50),
+    sampleLongevity,
+    dollars,
   };
 
   try {
-    const result = runMonteCarlo(engineInput, config);
-    return NextResponse.json(result);
+    const { result, hit } = await getOrComputeEngineResult(
+      scenarioId,
+      "MONTE_CARLO",
+      engineInput,
+      config,
+      () => runMonteCarlo(engineInput, config)
+    );
+    return NextResponse.json(result, {
+      headers: { [ENGINE_CACHE_HEADER]: hit ? "HIT" : "MISS" },
+    });
   } catch (error) {
     console.error("Monte Carlo engine error:", error);
     return NextResponse.json(
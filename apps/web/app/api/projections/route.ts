@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
 import { runEngine } from "@finatlas/engine";
-import { buildEngineInput } from "@/lib/engine/buildEngineInput";
+import { buildEngineInput, scenarioEngineInclude } from "@/lib/engine/buildEngineInput";
+import { ENGINE_CACHE_HEADER, getOrComputeEngineResult } from "@/lib/engine/resultCache";
 import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
 
 export async function GET(req: NextRequest) {
@@ -17,6 +18,7 @@ export async function GET(req: NextRequest) {
 
     const { searchParams } = new URL(req.url);
     const scenarioId = searchParams.get("scenarioId");
+    const dollars = searchParams.get("dollars") === "REAL" ? "REAL" : "NOMINAL";
 
     if (!scenarioId) {
       return NextResponse.json({ error: "scenarioId is required" }, { status: 400 });
@@ -30,26 +32,7 @@ export async function GET(req: NextRequest) {
           ownerUserId: user.id,
         },
       },
-      include: {
-        household: {
-          include: {
-            members: true,
-          },
-        },
-        incomes: {
-          include: {
-            member: true,
-          },
-        },
-        expenses: true,
-        accounts: {
-          include: {
-            holdings: true,
-          },
-        },
-        loans: true,
-        goals: true,
-      },
+      include: scenarioEngineInclude,
     });
 
     if (!scenario) {
@@ -58,8 +41,16 @@ export async function GET(req: NextRequest) {
 
     const engineInput = buildEngineInput(scenario);
 
-    const result = runEngine(engineInput);
-    return NextResponse.json(result);
+    const { result, hit } = await getOrComputeEngineResult(
+      scenarioId,
+      "PROJECTION",
+      engineInput,
+      { dollars },
+      () => runEngine(engineInput, { dollars })
+    );
+    return NextResponse.json(result, {
+      headers: { [ENGINE_CACHE_HEADER]: hit ? "HIT" : "MISS" },
+    });
   } catch (error) {
     console.error("Error generating projection:", error);
     return NextResponse.json(
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth/session";
+import { prisma } from "@/lib/db/prisma";
+import { runSensitivityAnalysis } from "@finatlas/engine";
+import type { SensitivityConfig, SensitivityMetric } from "@finatlas/engine";
+import { buildEngineInput, scenarioEngineInclude } from "@/lib/engine/buildEngineInput";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+
+const METRICS: SensitivityMetric[] = ["END_NET_WORTH", "YEARS_TO_FI", "SUCCESS_RATE"];
+
+export async function GET(req: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Rate limit: 5 analyses per minute (each runs two projections per assumption)
+  const rateLimit = checkRateLimit(`sensitivity:${user.id}`, { maxRequests: 5, windowMs: 60000 });
+  if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+  const { searchParams } = new URL(req.url);
+  const scenarioId = searchParams.get("scenarioId");
+  const metrics = (searchParams.get("metrics") ?? "END_NET_WORTH,YEARS_TO_FI").split(
+    ","
+  ) as SensitivityMetric[];
+  const simulations = parseInt(searchParams.get("simulations") ?? "200", 10);
+  const volatility = parseFloat(searchParams.get("volatility") ?? "15");
+
+  if (!scenarioId) {
+    return NextResponse.json({ error: "scenarioId is required" }, { status: 400 });
+  }
+  if (metrics.some((metric) => !METRICS.includes(metric))) {
+    return NextResponse.json(
+      { error: `metrics must be a comma-separated list of ${METRICS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const scenario = await prisma.scenario.findFirst({
+    where: {
+      id: scenarioId,
+      household: {
+        ownerUserId: user.id,
+      },
+    },
+    include: scenarioEngineInclude,
+  });
+
+  if (!scenario) {
+    return NextResponse.json({ error: "Scenario not found" }, { status: 404 });
+  }
+
+  const engineInput = buildEngineInput(scenario);
+
+  // Success rates re-run the simulation for every shift, so keep runs small
+  const config: SensitivityConfig = {
+    metrics,
+    monteCarlo: {
+      simulations: Math.min(Math.max(simulations, 50), 200),
+      volatilityPct: Math.min(Math.max(volatility, 1), 50),
+    },
+  };
+
+  try {
+    const result = runSensitivityAnalysis(engineInput, config);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Sensitivity engine error:", error);
+    return NextResponse.json(
+      { error: "Failed to run sensitivity analysis" },
+      { status: 500 }
+    );
+  }
+}
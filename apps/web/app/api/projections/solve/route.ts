@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth/session";
+import { prisma } from "@/lib/db/prisma";
+import { solve } from "@finatlas/engine";
+import type { SolveConfig } from "@finatlas/engine";
+import { buildEngineInput, scenarioEngineInclude } from "@/lib/engine/buildEngineInput";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { z } from "zod";
+
+const solveSchema = z.object({
+  scenarioId: z.string().min(1),
+  variable: z.discriminatedUnion("type", [
+    z.object({
+      type: z.literal("RETIREMENT_DATE"),
+      incomeIds: z.array(z.string().min(1)).optional(),
+    }),
+    z.object({
+      type: z.literal("EXTRA_SAVINGS"),
+      accountId: z.string().min(1),
+    }),
+    z.object({
+      type: z.literal("ANNUAL_SPENDING"),
+      expenseIds: z.array(z.string().min(1)).optional(),
+    }),
+    z.object({
+      type: z.literal("CONTRIBUTION"),
+      accountId: z.string().min(1),
+    }),
+  ]),
+  target: z.discriminatedUnion("type", [
+    z.object({
+      type: z.literal("ENDING_NET_WORTH"),
+      minimum: z.number(),
+    }),
+    z.object({
+      type: z.literal("SUCCESS_RATE"),
+      minimumPct: z.number().min(0).max(100),
+      // Each search step runs a full simulation, so keep runs small
+      simulations: z.number().int().min(50).max(1000).default(200),
+      volatility: z.number().min(1).max(50).default(15),
+      sampleLongevity: z.boolean().optional(),
+    }),
+    z.object({
+      type: z.literal("GOAL_FUNDED"),
+      goalId: z.string().min(1),
+    }),
+  ]),
+  min: z.number().min(0).optional(),
+  max: z.number().positive().optional(),
+  tolerance: z.number().positive().optional(),
+});
+
+// POST /api/projections/solve - Solve for the value of one decision variable that meets a target
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Rate limit: 5 solves per minute (each runs many projections)
+    const rateLimit = checkRateLimit(`solve:${user.id}`, { maxRequests: 5, windowMs: 60000 });
+    if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = solveSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { scenarioId, variable, target, min, max, tolerance } = parsed.data;
+
+    const scenario = await prisma.scenario.findFirst({
+      where: {
+        id: scenarioId,
+        household: {
+          ownerUserId: user.id,
+        },
+      },
+      include: scenarioEngineInclude,
+    });
+
+    if (!scenario) {
+      return NextResponse.json({ error: "Scenario not found" }, { status: 404 });
+    }
+
+    const config: SolveConfig = {
+      variable,
+      target:
+        target.type === "SUCCESS_RATE"
+          ? {
+              type: "SUCCESS_RATE",
+              minimumPct: target.minimumPct,
+              monteCarlo: {
+                simulations: target.simulations,
+                volatilityPct: target.volatility,
+                sampleLongevity: target.sampleLongevity,
+              },
+            }
+          : target,
+      min,
+      max,
+      tolerance,
+    };
+
+    let result;
+    try {
+      result = solve(buildEngineInput(scenario), config);
+    } catch (error) {
+      // Unknown accounts, goals or expenses in the request
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Failed to solve" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error solving projection:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth/session";
+import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
+import { z } from "zod";
+
+const RealAssetTypeEnum = z.enum(["HOME", "VEHICLE", "COLLECTIBLE"]);
+
+const updateRealAssetSchema = z.object({
+  loanId: z.string().optional().nullable(),
+  name: z.string().min(1, "Name is required").optional(),
+  type: RealAssetTypeEnum.optional(),
+  value: z.number().min(0, "Value cannot be negative").optional(),
+  purchaseDate: z.string().datetime().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).optional(),
+  appreciationRate: z.number().gt(-1, "Depreciation must be less than 100%").max(1).optional().nullable(),
+  annualCarryingCost: z.number().min(0, "Carrying cost cannot be negative").optional().nullable(),
+});
+
+async function getRealAssetWithOwnerCheck(realAssetId: string, userId: string) {
+  const realAsset = await prisma.realAsset.findFirst({
+    where: {
+      id: realAssetId,
+      scenario: {
+        household: {
+          ownerUserId: userId,
+        },
+      },
+    },
+    include: {
+      loan: {
+        select: { id: true, name: true, currentBalance: true },
+      },
+    },
+  });
+  return realAsset;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const realAsset = await getRealAssetWithOwnerCheck(id, user.id);
+
+    if (!realAsset) {
+      return NextResponse.json({ error: "Real asset not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ realAsset });
+  } catch (error) {
+    console.error("Error fetching real asset:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const existingAsset = await getRealAssetWithOwnerCheck(id, user.id);
+
+    if (!existingAsset) {
+      return NextResponse.json({ error: "Real asset not found" }, { status: 404 });
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const parsed = updateRealAssetSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const data = parsed.data;
+
+    // If loanId provided, verify the loan belongs to the same scenario
+    if (data.loanId !== undefined && data.loanId !== null) {
+      const loan = await prisma.loan.findFirst({
+        where: {
+          id: data.loanId,
+          scenarioId: existingAsset.scenarioId,
+        },
+      });
+      if (!loan) {
+        return NextResponse.json({ error: "Loan not found in scenario" }, { status: 404 });
+      }
+    }
+
+    const updateData: Record<string, unknown> = {};
+    if (data.loanId !== undefined) updateData.loanId = data.loanId;
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.type !== undefined) updateData.type = data.type;
+    if (data.value !== undefined) updateData.value = data.value;
+    if (data.purchaseDate !== undefined) updateData.purchaseDate = new Date(data.purchaseDate);
+    if (data.appreciationRate !== undefined) updateData.appreciationRate = data.appreciationRate;
+    if (data.annualCarryingCost !== undefined) updateData.annualCarryingCost = data.annualCarryingCost;
+
+    const realAsset = await prisma.realAsset.update({
+      where: { id },
+      data: updateData,
+      include: {
+        loan: {
+          select: { id: true, name: true, currentBalance: true },
+        },
+      },
+    });
+    await invalidateEngineCache(existingAsset.scenarioId);
+
+    return NextResponse.json({ realAsset });
+  } catch (error) {
+    console.error("Error updating real asset:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const existingAsset = await getRealAssetWithOwnerCheck(id, user.id);
+
+    if (!existingAsset) {
+      return NextResponse.json({ error: "Real asset not found" }, { status: 404 });
+    }
+
+    await prisma.realAsset.delete({
+      where: { id },
+    });
+    await invalidateEngineCache(existingAsset.scenarioId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting real asset:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
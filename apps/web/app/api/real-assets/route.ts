@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth/session";
+import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
+import { z } from "zod";
+
+const RealAssetTypeEnum = z.enum(["HOME", "VEHICLE", "COLLECTIBLE"]);
+
+const createRealAssetSchema = z.object({
+  scenarioId: z.string().min(1, "Scenario is required"),
+  loanId: z.string().optional().nullable(),
+  name: z.string().min(1, "Name is required"),
+  type: RealAssetTypeEnum.default("HOME"),
+  value: z.number().min(0, "Value cannot be negative"),
+  purchaseDate: z.string().datetime().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  appreciationRate: z.number().gt(-1, "Depreciation must be less than 100%").max(1).optional().nullable(),
+  annualCarryingCost: z.number().min(0, "Carrying cost cannot be negative").optional().nullable(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scenarioId = searchParams.get("scenarioId");
+
+    if (!scenarioId) {
+      return NextResponse.json({ error: "scenarioId is required" }, { status: 400 });
+    }
+
+    // Verify user owns the scenario
+    const scenario = await prisma.scenario.findFirst({
+      where: {
+        id: scenarioId,
+        household: {
+          ownerUserId: user.id,
+        },
+      },
+    });
+
+    if (!scenario) {
+      return NextResponse.json({ error: "Scenario not found" }, { status: 404 });
+    }
+
+    const realAssets = await prisma.realAsset.findMany({
+      where: { scenarioId },
+      include: {
+        loan: {
+          select: { id: true, name: true, currentBalance: true },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ realAssets });
+  } catch (error) {
+    console.error("Error fetching real assets:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const parsed = createRealAssetSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const data = parsed.data;
+
+    // Verify user owns the scenario
+    const scenario = await prisma.scenario.findFirst({
+      where: {
+        id: data.scenarioId,
+        household: {
+          ownerUserId: user.id,
+        },
+      },
+    });
+
+    if (!scenario) {
+      return NextResponse.json({ error: "Scenario not found" }, { status: 404 });
+    }
+
+    // If loanId provided, verify the loan belongs to the same scenario
+    if (data.loanId) {
+      const loan = await prisma.loan.findFirst({
+        where: {
+          id: data.loanId,
+          scenarioId: data.scenarioId,
+        },
+      });
+      if (!loan) {
+        return NextResponse.json({ error: "Loan not found in scenario" }, { status: 404 });
+      }
+    }
+
+    const realAsset = await prisma.realAsset.create({
+      data: {
+        scenarioId: data.scenarioId,
+        loanId: data.loanId ?? null,
+        name: data.name,
+        type: data.type,
+        value: data.value,
+        purchaseDate: new Date(data.purchaseDate),
+        appreciationRate: data.appreciationRate ?? null,
+        annualCarryingCost: data.annualCarryingCost ?? null,
+      },
+      include: {
+        loan: {
+          select: { id: true, name: true, currentBalance: true },
+        },
+      },
+    });
+    await invalidateEngineCache(data.scenarioId);
+
+    return NextResponse.json({ realAsset }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating real asset:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
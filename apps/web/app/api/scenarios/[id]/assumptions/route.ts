@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth/session";
+import { prisma } from "@/lib/db/prisma";
+import { invalidateEngineCache } from "@/lib/engine/resultCache";
+import { DEFAULT_ASSUMPTIONS, DEFAULT_TAX_PROFILE } from "@/lib/constants";
+import { z } from "zod";
+
+const updateAssumptionsSchema = z.object({
+  assumptions: z
+    .object({
+      projectionYears: z.number().int().min(1).max(100).optional(),
+      inflationRate: z.number().min(-0.05).max(0.2).optional(),
+      defaultGrowthRate: z.number().min(-0.5).max(0.5).optional(),
+      retirementWithdrawalRate: z.number().min(0).max(0.2).optional(),
+    })
+    .optional(),
+  taxProfile: z
+    .object({
+      filingStatus: z.enum(["SINGLE", "MFJ", "HOH"]).optional(),
+      state: z
+        .string()
+        .regex(/^[A-Z]{2}$/, "State must be a two-letter code")
+        .nullable()
+        .optional(),
+      taxYear: z.number().int().min(2000).max(2100).optional(),
+      includePayrollTaxes: z.boolean().optional(),
+    })
+    .optional(),
+});
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Helper to load a scenario's settings if the user owns it
+async function getScenarioWithAccess(scenarioId: string, userId: string) {
+  return prisma.scenario.findFirst({
+    where: {
+      id: scenarioId,
+      household: { ownerUserId: userId },
+    },
+    include: { assumptions: true, taxProfile: true },
+  });
+}
+
+// Fill in defaults for scenarios created before settings existed
+function toSettingsResponse(scenario: NonNullable<Awaited<ReturnType<typeof getScenarioWithAccess>>>) {
+  return {
+    assumptions: {
+      projectionYears: scenario.assumptions?.projectionYears ?? DEFAULT_ASSUMPTIONS.projectionYears,
+      inflationRate: scenario.assumptions?.inflationRate ?? DEFAULT_ASSUMPTIONS.inflationRate,
+      defaultGrowthRate:
+        scenario.assumptions?.defaultGrowthRate ?? DEFAULT_ASSUMPTIONS.defaultGrowthRate,
+      retirementWithdrawalRate:
+        scenario.assumptions?.retirementWithdrawalRate ??
+        DEFAULT_ASSUMPTIONS.retirementWithdrawalRate,
+    },
+    taxProfile: {
+      filingStatus: scenario.taxProfile?.filingStatus ?? DEFAULT_TAX_PROFILE.filingStatus,
+      state: scenario.taxProfile ? scenario.taxProfile.state : DEFAULT_TAX_PROFILE.state,
+      taxYear: scenario.taxProfile?.taxYear ?? DEFAULT_TAX_PROFILE.taxYear,
+      includePayrollTaxes:
+        scenario.taxProfile?.includePayrollTaxes ?? DEFAULT_TAX_PROFILE.includePayrollTaxes,
+    },
+  };
+}
+
+// GET /api/scenarios/[id]/assumptions - Get projection assumptions and tax profile
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const scenario = await getScenarioWithAccess(id, user.id);
+
+    if (!scenario) {
+      return NextResponse.json(
+        { error: "Scenario not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toSettingsResponse(scenario));
+  } catch (error) {
+    console.error("Error fetching scenario assumptions:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// PUT /api/scenarios/[id]/assumptions - Update projection assumptions and tax profile
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const existing = await getScenarioWithAccess(id, user.id);
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Scenario not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = updateAssumptionsSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { assumptions, taxProfile } = parsed.data;
+
+    await prisma.$transaction(async (tx) => {
+      if (assumptions) {
+        await tx.scenarioAssumption.upsert({
+          where: { scenarioId: id },
+          create: { scenarioId: id, ...DEFAULT_ASSUMPTIONS, ...assumptions },
+          update: assumptions,
+        });
+      }
+
+      if (taxProfile) {
+        await tx.taxProfile.upsert({
+          where: { scenarioId: id },
+          create: { scenarioId: id, ...DEFAULT_TAX_PROFILE, ...taxProfile },
+          update: taxProfile,
+        });
+      }
+    });
+    await invalidateEngineCache(id);
+
+    const scenario = await getScenarioWithAccess(id, user.id);
+    return NextResponse.json(toSettingsResponse(scenario!));
+  } catch (error) {
+    console.error("Error updating scenario assumptions:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
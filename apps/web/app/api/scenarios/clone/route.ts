@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
 import { z } from "zod";
+import { parseLifeEventEffects, remapLifeEventEffects } from "@/lib/engine/lifeEventEffects";
 
 const cloneSchema = z.object({
   sourceScenarioId: z.string().min(1),
@@ -60,7 +61,8 @@ export async function POST(request: NextRequest) {
         expenses: true,
         accounts: { include: { holdings: true, contributions: true } },
         loans: true,
-        goals: true,
+        realAssets: true,
+        goals: { include: { linkedAccounts: { select: { id: true } } } },
         lifeEvents: true,
       },
     });
@@ -124,10 +126,13 @@ export async function POST(request: NextRequest) {
         }
       }
 
+      // Old-to-new IDs of records that life event effects can reference
+      const idMap = new Map<string, string>();
+
       // Clone incomes
-      if (source.incomes.length > 0) {
-        await tx.income.createMany({
-          data: source.incomes.map((i) => ({
+      for (const i of source.incomes) {
+        const newIncome = await tx.income.create({
+          data: {
             scenarioId: scenario.id,
             memberId: i.memberId,
             name: i.name,
@@ -138,8 +143,12 @@ export async function POST(request: NextRequest) {
             growthRule: i.growthRule,
             growthRate: i.growthRate,
             isTaxable: i.isTaxable,
-          })),
+            type: i.type,
+            claimingAge: i.claimingAge,
+            survivorRate: i.survivorRate,
+          },
         });
+        idMap.set(i.id, newIncome.id);
       }
 
       // Clone expenses
@@ -161,6 +170,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Clone accounts with holdings and contributions
+      const accountIdMap = new Map<string, string>();
       for (const acc of source.accounts) {
         const newAcc = await tx.account.create({
           data: {
@@ -173,6 +183,8 @@ export async function POST(request: NextRequest) {
             growthRate: acc.growthRate,
           },
         });
+        accountIdMap.set(acc.id, newAcc.id);
+        idMap.set(acc.id, newAcc.id);
 
         if (acc.holdings.length > 0) {
           await tx.holding.createMany({
@@ -202,9 +214,10 @@ export async function POST(request: NextRequest) {
       }
 
       // Clone loans
-      if (source.loans.length > 0) {
-        await tx.loan.createMany({
-          data: source.loans.map((l) => ({
+      const loanIdMap = new Map<string, string>();
+      for (const l of source.loans) {
+        const newLoan = await tx.loan.create({
+          data: {
             scenarioId: scenario.id,
             memberId: l.memberId,
             name: l.name,
@@ -228,21 +241,46 @@ export async function POST(request: NextRequest) {
             pmiRequired: l.pmiRequired,
             insuranceProvider: l.insuranceProvider,
             hoaName: l.hoaName,
-          })),
+          },
+        });
+        loanIdMap.set(l.id, newLoan.id);
+        idMap.set(l.id, newLoan.id);
+      }
+
+      // Clone real assets, relinking them to the cloned loans
+      for (const a of source.realAssets) {
+        const newAsset = await tx.realAsset.create({
+          data: {
+            scenarioId: scenario.id,
+            loanId: a.loanId ? loanIdMap.get(a.loanId) ?? null : null,
+            name: a.name,
+            type: a.type,
+            value: a.value,
+            purchaseDate: a.purchaseDate,
+            appreciationRate: a.appreciationRate,
+            annualCarryingCost: a.annualCarryingCost,
+          },
         });
+        idMap.set(a.id, newAsset.id);
       }
 
-      // Clone goals
-      if (source.goals.length > 0) {
-        await tx.goal.createMany({
-          data: source.goals.map((g) => ({
+      // Clone goals, relinking them to the cloned accounts
+      for (const g of source.goals) {
+        await tx.goal.create({
+          data: {
             scenarioId: scenario.id,
             name: g.name,
             type: g.type,
             targetAmount: g.targetAmount,
             targetDate: g.targetDate,
             priority: g.priority,
-          })),
+            earmarkPct: g.earmarkPct,
+            linkedAccounts: {
+              connect: g.linkedAccounts
+                .filter((a) => accountIdMap.has(a.id))
+                .map((a) => ({ id: accountIdMap.get(a.id)! })),
+            },
+          },
         });
       }
 
@@ -257,6 +295,9 @@ export async function POST(request: NextRequest) {
             description: le.description,
             color: le.color,
             icon: le.icon,
+            effects: le.effects
+              ? JSON.stringify(remapLifeEventEffects(parseLifeEventEffects(le.effects), idMap))
+              : null,
           })),
         });
       }
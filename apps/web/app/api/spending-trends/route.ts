@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
+import { getMonthRange, summarizeTransactions } from "@/lib/transactions/actuals";
 
 // GET /api/spending-trends?scenarioId=X&months=12
 export async function GET(req: NextRequest) {
@@ -41,34 +42,36 @@ export async function GET(req: NextRequest) {
     monthList.push(monthStr);
   }
 
-  // Query ActualExpense for all those months
-  const actuals = await prisma.actualExpense.findMany({
+  // Total the transaction ledger for all those months
+  const transactions = await prisma.transaction.findMany({
     where: {
       scenarioId,
-      month: { in: monthList },
+      date: {
+        gte: getMonthRange(monthList[0]).start,
+        lt: getMonthRange(monthList[monthList.length - 1]).end,
+      },
     },
-    orderBy: [{ month: "asc" }, { category: "asc" }],
+    select: { date: true, amount: true, category: true, source: true },
   });
+  const spending = summarizeTransactions(transactions);
 
   // Group by month, then by category
   const monthsData: Array<{ month: string; categories: Record<string, number>; total: number }> = [];
   const categoryAccumulator: Record<string, { total: number; monthlyValues: number[] }> = {};
 
   for (const monthStr of monthList) {
-    const monthActuals = actuals.filter((a) => a.month === monthStr);
-    const categories: Record<string, number> = {};
+    const categories = spending[monthStr] ?? {};
     let total = 0;
 
-    for (const actual of monthActuals) {
-      categories[actual.category] = actual.amount;
-      total += actual.amount;
+    for (const [category, amount] of Object.entries(categories)) {
+      total += amount;
 
       // Accumulate for category totals
-      if (!categoryAccumulator[actual.category]) {
-        categoryAccumulator[actual.category] = { total: 0, monthlyValues: [] };
+      if (!categoryAccumulator[category]) {
+        categoryAccumulator[category] = { total: 0, monthlyValues: [] };
       }
-      categoryAccumulator[actual.category].total += actual.amount;
-      categoryAccumulator[actual.category].monthlyValues.push(actual.amount);
+      categoryAccumulator[category].total += amount;
+      categoryAccumulator[category].monthlyValues.push(amount);
     }
 
     monthsData.push({ month: monthStr, categories, total });
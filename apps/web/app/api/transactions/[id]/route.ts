@@ -0,0 +1,151 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { getCurrentUser } from "@/lib/auth/session";
+import { z } from "zod";
+import { syncActualExpenses, toMonthKey } from "@/lib/transactions/actuals";
+import { isoDateSchema } from "@/lib/validation";
+
+const updateTransactionSchema = z.object({
+  accountId: z.string().nullable().optional(),
+  date: isoDateSchema.transform((s) => new Date(s)).optional(),
+  payee: z.string().min(1, "Payee is required").optional(),
+  amount: z.number().refine((n) => n !== 0, "Amount must not be zero").optional(),
+  category: z.string().nullable().optional(),
+  memo: z.string().nullable().optional(),
+});
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Helper to verify transaction ownership
+async function verifyOwnership(transactionId: string, userId: string) {
+  const transaction = await prisma.transaction.findUnique({
+    where: { id: transactionId },
+    include: {
+      scenario: {
+        include: { household: true },
+      },
+    },
+  });
+
+  if (!transaction) {
+    return { error: "Transaction not found", status: 404, transaction: null };
+  }
+
+  if (transaction.scenario.household.ownerUserId !== userId) {
+    return { error: "Forbidden", status: 403, transaction: null };
+  }
+
+  return { error: null, status: 200, transaction };
+}
+
+// GET /api/transactions/[id] - Get a single transaction
+export async function GET(req: Request, context: RouteContext) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const { error, status, transaction } = await verifyOwnership(id, user.id);
+
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { scenario: _scenario, ...rest } = transaction!;
+    return NextResponse.json({ transaction: rest });
+  } catch (error) {
+    console.error("Error fetching transaction:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// PUT /api/transactions/[id] - Update a transaction
+export async function PUT(req: Request, context: RouteContext) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const { error, status, transaction: existing } = await verifyOwnership(id, user.id);
+
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await req.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+
+    const parsed = updateTransactionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const data = parsed.data;
+
+    if (data.accountId) {
+      const account = await prisma.account.findFirst({
+        where: { id: data.accountId, scenarioId: existing!.scenarioId },
+        select: { id: true },
+      });
+      if (!account) {
+        return NextResponse.json({ error: "Account not found" }, { status: 404 });
+      }
+    }
+
+    const transaction = await prisma.transaction.update({
+      where: { id },
+      data: {
+        ...(data.accountId !== undefined && { accountId: data.accountId }),
+        ...(data.date !== undefined && { date: data.date }),
+        ...(data.payee !== undefined && { payee: data.payee }),
+        ...(data.amount !== undefined && { amount: data.amount }),
+        ...(data.category !== undefined && { category: data.category }),
+        ...(data.memo !== undefined && { memo: data.memo }),
+      },
+    });
+    // A date change can move the transaction between months
+    await syncActualExpenses(transaction.scenarioId, [
+      toMonthKey(existing!.date),
+      toMonthKey(transaction.date),
+    ]);
+
+    return NextResponse.json({ transaction });
+  } catch (error) {
+    console.error("Error updating transaction:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/transactions/[id] - Delete a transaction
+export async function DELETE(req: Request, context: RouteContext) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const { error, status } = await verifyOwnership(id, user.id);
+
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const transaction = await prisma.transaction.delete({ where: { id } });
+    await syncActualExpenses(transaction.scenarioId, [toMonthKey(transaction.date)]);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting transaction:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,186 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { getCurrentUser } from "@/lib/auth/session";
+import { z } from "zod";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { isoDateSchema, validatePagination } from "@/lib/validation";
+import { syncActualExpenses, toMonthKey, UNCATEGORIZED } from "@/lib/transactions/actuals";
+
+const TRANSACTION_SOURCES = ["MANUAL", "CSV", "OFX", "QIF", "BUDGET"] as const;
+
+const createTransactionSchema = z.object({
+  scenarioId: z.string().min(1, "Scenario ID is required"),
+  accountId: z.string().nullable().optional(),
+  date: isoDateSchema.transform((s) => new Date(s)),
+  payee: z.string().min(1, "Payee is required"),
+  amount: z.number().refine((n) => n !== 0, "Amount must not be zero"),
+  category: z.string().nullable().optional(),
+  memo: z.string().nullable().optional(),
+  source: z.enum(TRANSACTION_SOURCES).default("MANUAL"),
+  externalId: z.string().nullable().optional(),
+});
+
+const listTransactionsSchema = z.object({
+  scenarioId: z.string().min(1, "scenarioId is required"),
+  page: z.coerce.number().default(1),
+  limit: z.coerce.number().default(50),
+  accountId: z.string().optional(),
+  category: z.string().optional(),
+  source: z.enum(TRANSACTION_SOURCES).optional(),
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+  search: z.string().optional(),
+});
+
+// GET /api/transactions?scenarioId=xxx&page=1&limit=50 - List transactions, newest first
+// Filters: accountId, category, source, from/to (YYYY-MM-DD, inclusive), search (payee or memo)
+export async function GET(req: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const parsed = listTransactionsSchema.safeParse(
+      Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ""))
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { scenarioId, accountId, category, source, from, to, search } = parsed.data;
+    const { page, limit, skip } = validatePagination(parsed.data.page, parsed.data.limit);
+
+    // Verify user owns the scenario's household
+    const scenario = await prisma.scenario.findUnique({
+      where: { id: scenarioId },
+      include: { household: true },
+    });
+
+    if (!scenario) {
+      return NextResponse.json({ error: "Scenario not found" }, { status: 404 });
+    }
+
+    if (scenario.household.ownerUserId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    let toDate: Date | undefined;
+    if (to) {
+      // Include the whole "to" day
+      toDate = new Date(to);
+      toDate.setUTCDate(toDate.getUTCDate() + 1);
+    }
+
+    const where = {
+      scenarioId,
+      ...(accountId && { accountId }),
+      ...(category &&
+        (category === UNCATEGORIZED
+          ? { OR: [{ category }, { category: null }] }
+          : { category })),
+      ...(source && { source }),
+      ...((from || toDate) && {
+        date: {
+          ...(from && { gte: new Date(from) }),
+          ...(toDate && { lt: toDate }),
+        },
+      }),
+      ...(search && {
+        AND: [{ OR: [{ payee: { contains: search } }, { memo: { contains: search } }] }],
+      }),
+    };
+
+    const [transactions, total] = await Promise.all([
+      prisma.transaction.findMany({
+        where,
+        orderBy: [{ date: "desc" }, { createdAt: "desc" }],
+        skip,
+        take: limit,
+      }),
+      prisma.transaction.count({ where }),
+    ]);
+
+    return NextResponse.json({ transactions, total, page, limit });
+  } catch (error) {
+    console.error("Error fetching transactions:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/transactions - Create a transaction
+export async function POST(req: Request) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Rate limit: 100 requests per minute for standard CRUD operations
+    const rateLimit = checkRateLimit(`crud:${user.id}`, { maxRequests: 100, windowMs: 60000 });
+    if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+
+    const body = await req.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+
+    const parsed = createTransactionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const data = parsed.data;
+
+    // Verify user owns the scenario's household
+    const scenario = await prisma.scenario.findUnique({
+      where: { id: data.scenarioId },
+      include: { household: true },
+    });
+
+    if (!scenario) {
+      return NextResponse.json({ error: "Scenario not found" }, { status: 404 });
+    }
+
+    if (scenario.household.ownerUserId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (data.accountId) {
+      const account = await prisma.account.findFirst({
+        where: { id: data.accountId, scenarioId: data.scenarioId },
+        select: { id: true },
+      });
+      if (!account) {
+        return NextResponse.json({ error: "Account not found" }, { status: 404 });
+      }
+    }
+
+    const transaction = await prisma.transaction.create({
+      data: {
+        scenarioId: data.scenarioId,
+        accountId: data.accountId ?? null,
+        date: data.date,
+        payee: data.payee,
+        amount: data.amount,
+        category: data.category ?? null,
+        memo: data.memo ?? null,
+        source: data.source,
+        externalId: data.externalId ?? null,
+      },
+    });
+    await syncActualExpenses(data.scenarioId, [toMonthKey(transaction.date)]);
+
+    return NextResponse.json({ transaction }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating transaction:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
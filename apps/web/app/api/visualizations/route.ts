@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCurrentUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db/prisma";
+import {
+  getMonthRange,
+  summarizeSpending,
+  summarizeTransactions,
+  toMonthKey,
+  type TransactionAmount,
+} from "@/lib/transactions/actuals";
 
 // Frequency multipliers convert TO annual amounts
 const FREQUENCY_MULTIPLIERS: Record<string, number> = {
@@ -116,18 +123,29 @@ async function handleSankey(scenarioId: string) {
 }
 
 async function handleHeatmap(scenarioId: string) {
-  // Get actual expenses for last 12 weeks
+  // Get transactions for last 12 weeks
   const now = new Date();
   const twelveWeeksAgo = new Date(now);
   twelveWeeksAgo.setDate(twelveWeeksAgo.getDate() - 84); // 12 weeks * 7 days
 
-  const actuals = await prisma.actualExpense.findMany({
-    where: { scenarioId },
-    orderBy: { month: "asc" },
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      scenarioId,
+      date: { gte: getMonthRange(toMonthKey(twelveWeeksAgo)).start },
+    },
+    select: { date: true, amount: true, category: true, source: true },
   });
 
-  // Build a map of daily spending from monthly data
-  // Since ActualExpense stores monthly aggregates, distribute across the month
+  // Itemized transactions land on their own day. Budget adjustments are
+  // monthly totals with no real day, so they are spread across the month.
+  const itemized: TransactionAmount[] = [];
+  const adjustments: TransactionAmount[] = [];
+  for (const t of transactions) {
+    (t.source === "BUDGET" ? adjustments : itemized).push(t);
+  }
+  const daily = summarizeSpending(itemized, (t) => t.date.toISOString().split("T")[0]);
+  const monthlyAdjustments = summarizeTransactions(adjustments);
+
   const cells: Array<{ date: string; amount: number }> = [];
 
   // Generate last 12 weeks of dates
@@ -135,17 +153,16 @@ async function handleHeatmap(scenarioId: string) {
     const date = new Date(now);
     date.setDate(date.getDate() - i);
     const dateStr = date.toISOString().split("T")[0];
-    const monthStr = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+    const monthStr = toMonthKey(date);
 
-    // Find matching month's expenses and distribute daily
-    const monthActuals = actuals.filter((a) => a.month === monthStr);
-    const monthTotal = monthActuals.reduce((s, a) => s + a.amount, 0);
-    const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
-    const dailyAmount = monthTotal / daysInMonth;
+    const monthTotal = Object.values(monthlyAdjustments[monthStr] ?? {}).reduce((s, a) => s + a, 0);
+    const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    const dayTotal = Object.values(daily[dateStr] ?? {}).reduce((s, a) => s + a, 0);
+    const amount = dayTotal + monthTotal / daysInMonth;
 
     cells.push({
       date: dateStr,
-      amount: Math.round(dailyAmount * 100) / 100,
+      amount: Math.round(amount * 100) / 100,
     });
   }
 
@@ -14,18 +14,9 @@ export default function CashBalanceChart({ series, height = 300 }: CashBalanceCh
   const chartData = useMemo(() => {
     if (!series || series.length === 0) return null;
 
-    // Calculate cumulative cash balance from cashflow
-    const cumulativeData: { date: string; balance: number }[] = [];
-    let balance = 0;
-    for (const point of series) {
-      balance += point.v;
-      cumulativeData.push({
-        date: point.t,
-        balance,
-      });
-    }
-
-    const values = cumulativeData.map((d) => d.balance);
+    const balanceData = series.map((point) => ({ date: point.t, balance: point.v }));
+
+    const values = balanceData.map((d) => d.balance);
     const minValue = Math.min(...values, 0);
     const maxValue = Math.max(...values, 0);
     const range = maxValue - minValue || 1;
@@ -38,8 +29,8 @@ export default function CashBalanceChart({ series, height = 300 }: CashBalanceCh
     const chartHeight = 100;
 
     // Generate path points
-    const points = cumulativeData.map((d, i) => {
-      const x = (i / (cumulativeData.length - 1)) * width;
+    const points = balanceData.map((d, i) => {
+      const x = (i / (balanceData.length - 1)) * width;
       const y = chartHeight - ((d.balance - adjustedMin) / adjustedRange) * chartHeight;
       return { x, y, value: d.balance };
     });
@@ -59,7 +50,7 @@ export default function CashBalanceChart({ series, height = 300 }: CashBalanceCh
     // Zero line
     const zeroY = chartHeight - ((0 - adjustedMin) / adjustedRange) * chartHeight;
 
-    return { points, linePath, areaPath, ticks, zeroY, cumulativeData };
+    return { points, linePath, areaPath, ticks, zeroY, balanceData };
   }, [series]);
 
   if (!chartData || series.length < 2) {
@@ -73,7 +64,7 @@ export default function CashBalanceChart({ series, height = 300 }: CashBalanceCh
     );
   }
 
-  const tooltipData = chartData.cumulativeData.map((d) => ({
+  const tooltipData = chartData.balanceData.map((d) => ({
     date: d.date,
     values: [{ label: "Cash Balance", value: d.balance, color: "rgb(20, 184, 166)" }],
   }));
@@ -147,7 +138,7 @@ export default function CashBalanceChart({ series, height = 300 }: CashBalanceCh
 
         {/* X-axis labels */}
         <div className="absolute left-20 right-0 bottom-0 flex justify-between text-xs text-zinc-500">
-          {chartData.cumulativeData.filter((_, i) => i === 0 || i === chartData.cumulativeData.length - 1 || i === Math.floor(chartData.cumulativeData.length / 2)).map((d, i) => (
+          {chartData.balanceData.filter((_, i) => i === 0 || i === chartData.balanceData.length - 1 || i === Math.floor(chartData.balanceData.length / 2)).map((d, i) => (
             <div key={i}>{formatAxisDate(d.date)}</div>
           ))}
         </div>
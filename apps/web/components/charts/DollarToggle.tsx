@@ -0,0 +1,33 @@
+"use client";
+
+import { usePreferences, type DollarBasis } from "@/contexts/PreferencesContext";
+
+const OPTIONS: { value: DollarBasis; label: string; title: string }[] = [
+  { value: "NOMINAL", label: "Nominal", title: "Future dollars, as projected" },
+  { value: "REAL", label: "Today's $", title: "Adjusted for inflation to today's dollars" },
+];
+
+export default function DollarToggle() {
+  const { preferences, updatePreferences } = usePreferences();
+
+  return (
+    <div className="inline-flex rounded-lg border border-zinc-700 bg-zinc-900 p-0.5 text-xs">
+      {OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          title={option.title}
+          aria-pressed={preferences.dollars === option.value}
+          onClick={() => updatePreferences({ dollars: option.value })}
+          className={`px-2.5 py-1 rounded-md transition-colors ${
+            preferences.dollars === option.value
+              ? "bg-zinc-700 text-zinc-100"
+              : "text-zinc-400 hover:text-zinc-200"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
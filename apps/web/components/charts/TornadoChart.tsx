@@ -0,0 +1,94 @@
+"use client";
+
+import { useMemo } from "react";
+import type {
+  SensitivityBar,
+  SensitivityMetric,
+} from "@finatlas/engine/src/internal/sensitivity";
+
+interface TornadoChartProps {
+  bars: SensitivityBar[];
+  metric: SensitivityMetric;
+  formatDelta: (value: number) => string;
+}
+
+export default function TornadoChart({ bars, metric, formatDelta }: TornadoChartProps) {
+  const rows = useMemo(() => {
+    const withDeltas = bars
+      .map((bar) => ({
+        id: bar.id,
+        label: bar.label,
+        shift: bar.assumption === "RETIREMENT_DATE" ? `±${bar.shift} mo` : `±${bar.shift} pt`,
+        low: bar.outcomes[metric]?.lowDelta ?? null,
+        high: bar.outcomes[metric]?.highDelta ?? null,
+      }))
+      .sort(
+        (a, b) =>
+          Math.abs((b.high ?? 0) - (b.low ?? 0)) - Math.abs((a.high ?? 0) - (a.low ?? 0))
+      );
+    const maxAbs = Math.max(
+      1e-9,
+      ...withDeltas.flatMap((row) => [Math.abs(row.low ?? 0), Math.abs(row.high ?? 0)])
+    );
+    return { rows: withDeltas, maxAbs };
+  }, [bars, metric]);
+
+  if (rows.rows.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-24 text-zinc-500">
+        No assumptions to compare
+      </div>
+    );
+  }
+
+  // Half-width of the chart area (%) for a delta
+  const toWidth = (value: number | null) => (Math.abs(value ?? 0) / rows.maxAbs) * 50;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-4 text-xs text-zinc-500">
+        <div className="flex items-center gap-1.5">
+          <div className="w-3 h-3 rounded-sm bg-amber-500" />
+          <span>Assumption lower</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <div className="w-3 h-3 rounded-sm bg-emerald-500" />
+          <span>Assumption higher</span>
+        </div>
+      </div>
+
+      {rows.rows.map((row) => (
+        <div key={row.id} className="flex items-center gap-3">
+          <div className="w-40 shrink-0 text-right">
+            <div className="text-sm text-zinc-300 truncate">{row.label}</div>
+            <div className="text-xs text-zinc-500">{row.shift}</div>
+          </div>
+          <div className="relative flex-1 h-6">
+            <div className="absolute left-1/2 top-0 bottom-0 w-px bg-zinc-700" />
+            {[
+              { value: row.low, color: "bg-amber-500" },
+              { value: row.high, color: "bg-emerald-500" },
+            ].map(({ value, color }, i) =>
+              value === null || value === 0 ? null : (
+                <div
+                  key={i}
+                  title={formatDelta(value)}
+                  className={`absolute top-1 bottom-1 rounded-sm opacity-80 ${color}`}
+                  style={
+                    value < 0
+                      ? { right: "50%", width: `${toWidth(value)}%` }
+                      : { left: "50%", width: `${toWidth(value)}%` }
+                  }
+                />
+              )
+            )}
+          </div>
+          <div className="w-40 shrink-0 text-xs text-zinc-400">
+            {row.low === null ? "n/a" : formatDelta(row.low)} /{" "}
+            {row.high === null ? "n/a" : formatDelta(row.high)}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -2,8 +2,10 @@
 
 import { useEffect, useState } from "react";
 import NetWorthChart from "@/components/charts/NetWorthChart";
+import DollarToggle from "@/components/charts/DollarToggle";
+import { usePreferences } from "@/contexts/PreferencesContext";
 import { formatCompactCurrency } from "@/lib/format";
-import { FREQUENCY_MULTIPLIERS, DEFAULT_TAX_RATE, DEFAULT_PROJECTION_GROWTH_RATE, DEFAULT_CHART_PROJECTION_YEARS } from "@/lib/constants";
+import { FREQUENCY_MULTIPLIERS, DEFAULT_TAX_RATE, DEFAULT_PROJECTION_GROWTH_RATE, DEFAULT_CHART_PROJECTION_YEARS, DEFAULT_ASSUMPTIONS } from "@/lib/constants";
 
 interface ProjectionChartProps {
   scenarioId: string;
@@ -21,6 +23,8 @@ interface Milestone {
 }
 
 export default function ProjectionChart({ scenarioId }: ProjectionChartProps) {
+  const { preferences } = usePreferences();
+  const isReal = preferences.dollars === "REAL";
   const [data, setData] = useState<ProjectionData[]>([]);
   const [milestones, setMilestones] = useState<Milestone[]>([]);
   const [loading, setLoading] = useState(true);
@@ -76,9 +80,11 @@ export default function ProjectionChart({ scenarioId }: ProjectionChartProps) {
         for (let i = 0; i <= projectionYears; i++) {
           const projectionDate = new Date(currentDate);
           projectionDate.setFullYear(currentDate.getFullYear() + i);
+          // In today's dollars, deflate each year by the default inflation rate
+          const deflator = isReal ? Math.pow(1 + DEFAULT_ASSUMPTIONS.inflationRate, i) : 1;
           projection.push({
             t: projectionDate.toISOString(),
-            v: Math.round(netWorth),
+            v: Math.round(netWorth / deflator),
           });
           // Apply growth and add savings
           netWorth = netWorth * (1 + growthRate) + netAnnualSavings;
@@ -110,7 +116,7 @@ export default function ProjectionChart({ scenarioId }: ProjectionChartProps) {
     }
 
     fetchProjection();
-  }, [scenarioId]);
+  }, [scenarioId, isReal]);
 
   if (loading) {
     return (
@@ -144,14 +150,19 @@ export default function ProjectionChart({ scenarioId }: ProjectionChartProps) {
       <div className="flex items-start justify-between mb-4">
         <div>
           <h2 className="text-lg font-medium">Net Worth Projection</h2>
-          <p className="text-sm text-zinc-400">10-year forecast based on current data</p>
+          <p className="text-sm text-zinc-400">
+            10-year forecast based on current data{isReal ? ", in today's dollars" : ""}
+          </p>
         </div>
-        <div className="text-right">
-          <div className="text-lg font-semibold text-emerald-400">
-            +{formatCompactCurrency(growth)}
-          </div>
-          <div className="text-xs text-zinc-500">
-            +{growthPct.toFixed(0)}% projected growth
+        <div className="flex flex-col items-end gap-2 text-right">
+          <DollarToggle />
+          <div>
+            <div className="text-lg font-semibold text-emerald-400">
+              +{formatCompactCurrency(growth)}
+            </div>
+            <div className="text-xs text-zinc-500">
+              +{growthPct.toFixed(0)}% projected growth
+            </div>
           </div>
         </div>
       </div>
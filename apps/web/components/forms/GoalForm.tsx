@@ -19,12 +19,24 @@ const goalSchema = z.object({
   targetAmount: z.number().positive("Target amount must be positive"),
   targetDate: z.string().optional(),
   priority: z.number().int().min(1).max(3),
+  linkedAccountIds: z.array(z.string()),
+  earmarkPct: z
+    .number()
+    .gt(0, "Earmark must be greater than 0")
+    .max(100, "Earmark cannot exceed 100%")
+    .optional(),
 });
 
 export type GoalFormData = z.infer<typeof goalSchema>;
 
+interface LinkableAccount {
+  id: string;
+  name: string;
+}
+
 interface GoalFormProps {
   initialData?: Partial<GoalFormData>;
+  accounts?: LinkableAccount[];
   onSubmit: (data: GoalFormData) => Promise<void>;
   isLoading?: boolean;
   submitLabel?: string;
@@ -46,6 +58,7 @@ const PRIORITY_OPTIONS = [
 
 export function GoalForm({
   initialData,
+  accounts = [],
   onSubmit,
   isLoading = false,
   submitLabel = "Save Goal",
@@ -61,6 +74,12 @@ export function GoalForm({
     initialData?.targetDate ?? ""
   );
   const [priority, setPriority] = useState(initialData?.priority ?? 2);
+  const [linkedAccountIds, setLinkedAccountIds] = useState<string[]>(
+    initialData?.linkedAccountIds ?? []
+  );
+  const [earmarkPct, setEarmarkPct] = useState(
+    initialData?.earmarkPct?.toString() ?? ""
+  );
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   async function handleSubmit(e: React.FormEvent) {
@@ -73,6 +92,9 @@ export function GoalForm({
       targetAmount: parseFloat(targetAmount) || 0,
       targetDate: targetDate || undefined,
       priority,
+      linkedAccountIds,
+      earmarkPct:
+        linkedAccountIds.length > 0 && earmarkPct ? parseFloat(earmarkPct) : undefined,
     };
 
     const result = goalSchema.safeParse(formData);
@@ -91,6 +113,12 @@ export function GoalForm({
     await onSubmit(result.data);
   }
 
+  function toggleAccount(accountId: string) {
+    setLinkedAccountIds((ids) =>
+      ids.includes(accountId) ? ids.filter((id) => id !== accountId) : [...ids, accountId]
+    );
+  }
+
   const inputClassName =
     "mt-1 w-full rounded-xl border border-zinc-800 bg-zinc-900 px-3 py-2 outline-none focus:border-zinc-600 transition-colors";
   const labelClassName = "text-xs text-zinc-400";
@@ -190,6 +218,53 @@ export function GoalForm({
         )}
       </div>
 
+      {/* Linked Accounts */}
+      {accounts.length > 0 && (
+        <div>
+          <label className={labelClassName}>Funded From (optional)</label>
+          <p className="mt-1 text-xs text-zinc-500">
+            Track this goal against specific accounts instead of total net worth.
+          </p>
+          <div className="mt-2 space-y-2">
+            {accounts.map((account) => (
+              <label key={account.id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={linkedAccountIds.includes(account.id)}
+                  onChange={() => toggleAccount(account.id)}
+                  disabled={isLoading}
+                />
+                {account.name}
+              </label>
+            ))}
+          </div>
+          {errors.linkedAccountIds && (
+            <p className="mt-1 text-xs text-red-400">{errors.linkedAccountIds}</p>
+          )}
+        </div>
+      )}
+
+      {/* Earmark */}
+      {linkedAccountIds.length > 0 && (
+        <div>
+          <label className={labelClassName}>Earmarked Share of Linked Accounts (%)</label>
+          <input
+            type="number"
+            className={inputClassName}
+            value={earmarkPct}
+            onChange={(e) => setEarmarkPct(e.target.value)}
+            placeholder="100"
+            min="0"
+            max="100"
+            step="1"
+            disabled={isLoading}
+          />
+          {errors.earmarkPct && (
+            <p className="mt-1 text-xs text-red-400">{errors.earmarkPct}</p>
+          )}
+        </div>
+      )}
+
       {/* Submit Button */}
       <button
         type="submit"
@@ -11,6 +11,12 @@ const FrequencyOptions = [
   { value: "ONE_TIME", label: "One-time" },
 ] as const;
 
+const IncomeTypeOptions = [
+  { value: "EARNED", label: "Earned income" },
+  { value: "SOCIAL_SECURITY", label: "Social Security" },
+  { value: "PENSION", label: "Pension" },
+] as const;
+
 const GrowthRuleOptions = [
   { value: "NONE", label: "No growth" },
   { value: "FIXED", label: "Fixed rate" },
@@ -28,6 +34,12 @@ const IncomeFormSchema = z.object({
   growthRate: z.number().nullable(),
   memberId: z.string().nullable(),
   isTaxable: z.boolean(),
+  type: z.enum(["EARNED", "SOCIAL_SECURITY", "PENSION"]),
+  claimingAge: z.number().min(62, "Claiming age must be 62-70").max(70, "Claiming age must be 62-70").nullable(),
+  survivorRate: z.number().min(0).max(100, "Survivor share cannot exceed 100%").nullable(),
+}).refine((data) => data.type !== "SOCIAL_SECURITY" || data.memberId !== null, {
+  message: "Social Security benefits belong to a household member",
+  path: ["memberId"],
 });
 
 type IncomeFormData = z.infer<typeof IncomeFormSchema>;
@@ -73,12 +85,19 @@ export default function IncomeForm({
       : null,
     memberId: initialData?.memberId ?? null,
     isTaxable: initialData?.isTaxable ?? true,
+    type: initialData?.type ?? "EARNED",
+    claimingAge: initialData?.claimingAge ?? null,
+    // Convert decimal (0.5) to percentage (50) for display
+    survivorRate: initialData?.survivorRate !== null && initialData?.survivorRate !== undefined
+      ? initialData.survivorRate * 100
+      : null,
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [serverError, setServerError] = useState<string | null>(null);
 
   const showGrowthRate = formData.growthRule === "FIXED" || formData.growthRule === "INFLATION_PLUS";
+  const isSocialSecurity = formData.type === "SOCIAL_SECURITY";
 
   useEffect(() => {
     if (!showGrowthRate && formData.growthRate !== null) {
@@ -126,6 +145,10 @@ export default function IncomeForm({
         growthRate: parsed.data.growthRate !== null
           ? parsed.data.growthRate / 100
           : null,
+        claimingAge: parsed.data.type === "SOCIAL_SECURITY" ? parsed.data.claimingAge ?? 67 : null,
+        survivorRate: parsed.data.type === "PENSION" && parsed.data.survivorRate !== null
+          ? parsed.data.survivorRate / 100
+          : null,
       };
       await onSubmit(dataToSubmit);
     } catch (err) {
@@ -160,9 +183,65 @@ export default function IncomeForm({
           {errors.name && <p className={errorClass}>{errors.name}</p>}
         </div>
 
+        {/* Type */}
+        <div>
+          <label className={labelClass}>Income Type</label>
+          <select
+            className={inputClass}
+            value={formData.type}
+            onChange={(e) => handleChange("type", e.target.value)}
+          >
+            {IncomeTypeOptions.map((opt) => (
+              <option key={opt.value} value={opt.value}>
+                {opt.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Claiming Age / Survivor Share */}
+        {isSocialSecurity && (
+          <div>
+            <label className={labelClass}>Claiming Age</label>
+            <input
+              type="number"
+              className={inputClass}
+              value={formData.claimingAge ?? ""}
+              onChange={(e) =>
+                handleChange("claimingAge", e.target.value ? parseFloat(e.target.value) : null)
+              }
+              placeholder="67"
+              step="1"
+              min="62"
+              max="70"
+            />
+            {errors.claimingAge && <p className={errorClass}>{errors.claimingAge}</p>}
+          </div>
+        )}
+        {formData.type === "PENSION" && (
+          <div>
+            <label className={labelClass}>Survivor Benefit (%)</label>
+            <input
+              type="number"
+              className={inputClass}
+              value={formData.survivorRate ?? ""}
+              onChange={(e) =>
+                handleChange("survivorRate", e.target.value ? parseFloat(e.target.value) : null)
+              }
+              placeholder="e.g., 50"
+              step="1"
+              min="0"
+              max="100"
+            />
+            {errors.survivorRate && <p className={errorClass}>{errors.survivorRate}</p>}
+          </div>
+        )}
+
         {/* Amount */}
         <div>
-          <label className={labelClass}>Amount ($)</label>
+          <label className={labelClass}>
+            {isSocialSecurity ? "Benefit at Full Retirement Age ($)" : "Amount ($)"}
+          </label>
           <input
             type="number"
             className={inputClass}
@@ -207,6 +286,7 @@ export default function IncomeForm({
               </option>
             ))}
           </select>
+          {errors.memberId && <p className={errorClass}>{errors.memberId}</p>}
         </div>
 
         {/* Is Taxable */}
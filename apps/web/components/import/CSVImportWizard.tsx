@@ -1,8 +1,9 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import {
   parseCSV,
+  previewCSVRows,
   autoDetectMapping,
   mapCSVToObjects,
   parseAmount,
@@ -13,17 +14,58 @@ import {
   EXPENSE_FIELD_PATTERNS,
   ACCOUNT_FIELD_PATTERNS,
   LOAN_FIELD_PATTERNS,
+  TRANSACTION_FIELD_PATTERNS,
 } from "@/lib/csv-parser";
+import {
+  buildHeaderFingerprint,
+  detectDateFormat,
+  detectHeaderRow,
+  getSignedAmount,
+  parseDateWithFormat,
+  DATE_FORMAT_LABELS,
+  SIGN_CONVENTION_LABELS,
+  type DateFormat,
+  type SignConvention,
+} from "@/lib/csv/bankMapping";
+import {
+  DUPLICATE_ACTION_LABELS,
+  type DedupeRecord,
+  type DuplicateAction,
+  type DuplicateMatch,
+} from "@/lib/csv/dedupe";
+import { fingerprintTransaction } from "@/lib/statements/fingerprint";
+import type { StatementTransaction } from "@/lib/statements/types";
 
-type ImportType = "income" | "expense" | "account" | "loan";
+type ImportType = "income" | "expense" | "account" | "loan" | "transaction";
 
 interface ImportField {
   field: string;
   label: string;
   required: boolean;
   parser?: (value: string) => unknown;
+  /** Parsed with the detected or chosen date format */
+  isDate?: boolean;
 }
 
+interface ImportPreset {
+  id: string;
+  name: string;
+  headerFingerprint: string;
+  headerRow: number;
+  mapping: Record<string, string | null>;
+  dateFormat: DateFormat | null;
+  signConvention: SignConvention | null;
+}
+
+/** Rows read when looking for the header row or a matching preset */
+const HEADER_PREVIEW_ROWS = 20;
+
+/** Transaction fields holding raw amounts, combined into one signed amount */
+const AMOUNT_CELL_FIELDS = ["amount", "debit", "credit"];
+
+/** Import types checked against existing records for duplicates */
+const DEDUPE_TYPES: ImportType[] = ["income", "expense", "loan"];
+
 const IMPORT_CONFIGS: Record<ImportType, { fields: ImportField[]; patterns: { field: string; patterns: string[] }[] }> = {
   income: {
     patterns: INCOME_FIELD_PATTERNS,
@@ -31,8 +73,8 @@ const IMPORT_CONFIGS: Record<ImportType, { fields: ImportField[]; patterns: { fi
       { field: "name", label: "Name", required: true },
       { field: "amount", label: "Amount", required: true, parser: parseAmount },
       { field: "frequency", label: "Frequency", required: false, parser: parseFrequency },
-      { field: "startDate", label: "Start Date", required: false, parser: parseDate },
-      { field: "endDate", label: "End Date", required: false, parser: parseDate },
+      { field: "startDate", label: "Start Date", required: false, parser: parseDate, isDate: true },
+      { field: "endDate", label: "End Date", required: false, parser: parseDate, isDate: true },
     ],
   },
   expense: {
@@ -42,7 +84,7 @@ const IMPORT_CONFIGS: Record<ImportType, { fields: ImportField[]; patterns: { fi
       { field: "category", label: "Category", required: true },
       { field: "amount", label: "Amount", required: true, parser: parseAmount },
       { field: "frequency", label: "Frequency", required: false, parser: parseFrequency },
-      { field: "startDate", label: "Start Date", required: false, parser: parseDate },
+      { field: "startDate", label: "Start Date", required: false, parser: parseDate, isDate: true },
       { field: "isEssential", label: "Essential", required: false, parser: parseBoolean },
     ],
   },
@@ -64,7 +106,7 @@ const IMPORT_CONFIGS: Record<ImportType, { fields: ImportField[]; patterns: { fi
       { field: "interestRate", label: "Interest Rate (%)", required: true, parser: parseAmount },
       { field: "termMonths", label: "Term (months)", required: true, parser: parseAmount },
       { field: "monthlyPayment", label: "Monthly Payment", required: false, parser: parseAmount },
-      { field: "startDate", label: "Start Date", required: false, parser: parseDate },
+      { field: "startDate", label: "Start Date", required: false, parser: parseDate, isDate: true },
       // Mortgage-specific fields
       { field: "propertyAddress", label: "Property Address", required: false },
       { field: "propertyZipCode", label: "ZIP Code", required: false },
@@ -80,8 +122,42 @@ const IMPORT_CONFIGS: Record<ImportType, { fields: ImportField[]; patterns: { fi
       { field: "hoaName", label: "HOA Name", required: false },
     ],
   },
+  transaction: {
+    patterns: TRANSACTION_FIELD_PATTERNS,
+    fields: [
+      { field: "date", label: "Date", required: true, isDate: true },
+      { field: "payee", label: "Payee", required: true },
+      { field: "amount", label: "Amount", required: false },
+      { field: "debit", label: "Debit (money out)", required: false },
+      { field: "credit", label: "Credit (money in)", required: false },
+      { field: "category", label: "Category", required: false },
+      { field: "memo", label: "Memo", required: false },
+    ],
+  },
 };
 
+/**
+ * Reduce a parsed row to the fields compared against existing records.
+ */
+function toDedupeRecord(type: ImportType, row: Record<string, unknown>): DedupeRecord {
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null);
+  return {
+    name: text(row.name) ?? text(row.category) ?? "",
+    amount: ((type === "loan" ? row.principal : row.amount) as number | null | undefined) ?? null,
+    startDate: text(row.startDate),
+    scope: type === "expense" ? text(row.category) : type === "loan" ? text(row.type) : null,
+  };
+}
+
+/**
+ * Use separate debit and credit columns when both were found.
+ */
+function guessSignConvention(mapping: Record<string, string | null>): SignConvention {
+  return mapping.debit && mapping.credit && mapping.debit !== mapping.credit
+    ? "DEBIT_CREDIT"
+    : "NEGATIVE_OUTFLOW";
+}
+
 interface CSVImportWizardProps {
   type: ImportType;
   scenarioId: string;
@@ -98,14 +174,97 @@ export default function CSVImportWizard({
   onCancel,
 }: CSVImportWizardProps) {
   const [step, setStep] = useState<WizardStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [fileText, setFileText] = useState("");
+  const [headerRow, setHeaderRow] = useState(0);
   const [csvData, setCsvData] = useState<{ headers: string[]; rows: string[][] } | null>(null);
   const [mapping, setMapping] = useState<Record<string, string | null>>({});
+  const [dateFormat, setDateFormat] = useState<DateFormat | null>(null);
+  const [signConvention, setSignConvention] = useState<SignConvention>("NEGATIVE_OUTFLOW");
+  const [presets, setPresets] = useState<ImportPreset[]>([]);
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState("");
+  const [presetMessage, setPresetMessage] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<{ id: string; name: string }[]>([]);
+  const [accountId, setAccountId] = useState<string | null>(null);
   const [previewData, setPreviewData] = useState<Record<string, unknown>[]>([]);
   const [errors, setErrors] = useState<string[]>([]);
   const [importProgress, setImportProgress] = useState(0);
   const [importedCount, setImportedCount] = useState(0);
+  const [duplicateCount, setDuplicateCount] = useState(0);
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+  const [decisions, setDecisions] = useState<Record<number, DuplicateAction>>({});
+  const [mergedCount, setMergedCount] = useState(0);
 
   const config = IMPORT_CONFIGS[type];
+  const isTransaction = type === "transaction";
+  const dateFields = useMemo(() => config.fields.filter((f) => f.isDate), [config]);
+
+  useEffect(() => {
+    fetch(`/api/import/presets?type=${type}`)
+      .then((res) => (res.ok ? res.json() : { presets: [] }))
+      .then((data) => setPresets(data.presets || []))
+      .catch(() => setPresets([]));
+  }, [type]);
+
+  useEffect(() => {
+    if (!isTransaction) return;
+    fetch(`/api/accounts?scenarioId=${scenarioId}`)
+      .then((res) => (res.ok ? res.json() : { accounts: [] }))
+      .then((data) => setAccounts(data.accounts || []))
+      .catch(() => setAccounts([]));
+  }, [isTransaction, scenarioId]);
+
+  // Detect the date format from the first mapped date column
+  const detectFormat = useCallback(
+    (headers: string[], rows: string[][], fieldMapping: Record<string, string | null>) => {
+      for (const field of dateFields) {
+        const columnIndex = fieldMapping[field.field] ? headers.indexOf(fieldMapping[field.field]!) : -1;
+        if (columnIndex !== -1) {
+          return detectDateFormat(rows.slice(0, 50).map((row) => row[columnIndex] ?? ""));
+        }
+      }
+      return null;
+    },
+    [dateFields]
+  );
+
+  // Parse the file from a header row, taking the mapping from a preset or
+  // detecting it from the headers
+  const loadCSV = useCallback(
+    (text: string, row: number, preset: ImportPreset | null) => {
+      const result = parseCSV(text, { headerRow: row });
+      setErrors(result.errors);
+      setHeaderRow(row);
+      if (result.headers.length === 0) return false;
+
+      setCsvData({ headers: result.headers, rows: result.rows });
+
+      const detectedMapping = autoDetectMapping(result.headers, config.patterns);
+      if (preset) {
+        for (const [field, column] of Object.entries(preset.mapping)) {
+          detectedMapping[field] = column && result.headers.includes(column) ? column : null;
+        }
+      }
+
+      const convention = preset?.signConvention ?? guessSignConvention(detectedMapping);
+      // A partial match can map the amount to a debit or credit column
+      if (
+        convention === "DEBIT_CREDIT" &&
+        (detectedMapping.amount === detectedMapping.debit || detectedMapping.amount === detectedMapping.credit)
+      ) {
+        detectedMapping.amount = null;
+      }
+
+      setMapping(detectedMapping);
+      setSignConvention(convention);
+      setDateFormat(preset?.dateFormat ?? detectFormat(result.headers, result.rows, detectedMapping));
+      setActivePresetId(preset?.id ?? null);
+      setPresetName(preset?.name ?? "");
+      return true;
+    },
+    [config.patterns, detectFormat]
+  );
 
   const handleFileUpload = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -115,31 +274,134 @@ export default function CSVImportWizard({
       const reader = new FileReader();
       reader.onload = (event) => {
         const text = event.target?.result as string;
-        const result = parseCSV(text);
-
-        if (result.errors.length > 0) {
-          setErrors(result.errors);
-        }
+        const leadingRows = previewCSVRows(text, HEADER_PREVIEW_ROWS);
 
-        if (result.headers.length > 0) {
-          setCsvData({ headers: result.headers, rows: result.rows });
+        // A saved preset applies when its header row matches this file's
+        const preset =
+          presets.find((p) => {
+            const headers = leadingRows[p.headerRow];
+            return headers && buildHeaderFingerprint(headers) === p.headerFingerprint;
+          }) ?? null;
 
-          // Auto-detect column mapping
-          const detectedMapping = autoDetectMapping(result.headers, config.patterns);
-          setMapping(detectedMapping);
+        setFileName(file.name);
+        setFileText(text);
+        setPresetMessage(preset ? `Recognized ${preset.name}; its saved mapping was applied.` : null);
+        if (loadCSV(text, preset ? preset.headerRow : detectHeaderRow(leadingRows), preset)) {
           setStep("mapping");
         }
       };
       reader.readAsText(file);
     },
-    [config.patterns]
+    [presets, loadCSV]
   );
 
   const handleMappingChange = (field: string, value: string | null) => {
-    setMapping((prev) => ({ ...prev, [field]: value }));
+    const nextMapping = { ...mapping, [field]: value };
+    setMapping(nextMapping);
+    if (csvData && dateFields.some((f) => f.field === field)) {
+      setDateFormat(detectFormat(csvData.headers, csvData.rows, nextMapping));
+    }
   };
 
-  const handlePreview = () => {
+  const handleHeaderRowChange = (row: number) => {
+    if (row < 0) return;
+    setPresetMessage(null);
+    loadCSV(fileText, row, null);
+  };
+
+  const handlePresetSelect = (id: string) => {
+    const preset = presets.find((p) => p.id === id) ?? null;
+    setPresetMessage(null);
+    loadCSV(fileText, preset ? preset.headerRow : headerRow, preset);
+  };
+
+  const handleSavePreset = async () => {
+    if (!csvData || !presetName.trim()) return;
+    try {
+      const res = await fetch("/api/import/presets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: presetName.trim(),
+          importType: type,
+          headerFingerprint: buildHeaderFingerprint(csvData.headers),
+          headerRow,
+          mapping,
+          dateFormat,
+          signConvention: isTransaction ? signConvention : null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setPresetMessage(data.error || "Failed to save preset");
+        return;
+      }
+      setPresets((prev) =>
+        [...prev.filter((p) => p.id !== data.preset.id), data.preset].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      setActivePresetId(data.preset.id);
+      setPresetMessage(`Saved preset ${data.preset.name}.`);
+    } catch {
+      setPresetMessage("Failed to save preset");
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    if (!activePresetId) return;
+    try {
+      const res = await fetch(`/api/import/presets/${activePresetId}`, { method: "DELETE" });
+      if (res.ok) {
+        setPresets((prev) => prev.filter((p) => p.id !== activePresetId));
+        setActivePresetId(null);
+        setPresetMessage("Preset deleted.");
+      }
+    } catch {
+      setPresetMessage("Failed to delete preset");
+    }
+  };
+
+  // Amount columns shown for the chosen sign convention
+  const visibleFields = config.fields.filter(
+    (f) =>
+      !isTransaction ||
+      !AMOUNT_CELL_FIELDS.includes(f.field) ||
+      (signConvention === "DEBIT_CREDIT" ? f.field !== "amount" : f.field === "amount")
+  );
+  const previewFields = isTransaction
+    ? config.fields.filter((f) => f.field === "amount" || !AMOUNT_CELL_FIELDS.includes(f.field))
+    : config.fields;
+
+  const skippedCount = duplicates.filter((m) => (decisions[m.row] ?? "skip") === "skip").length;
+
+  // Flag rows that look like existing records; each defaults to being skipped
+  const checkDuplicates = async (rows: Record<string, unknown>[]) => {
+    setDuplicates([]);
+    setDecisions({});
+    if (!DEDUPE_TYPES.includes(type) || rows.length === 0) return;
+
+    try {
+      const res = await fetch("/api/import/dedupe", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          scenarioId,
+          type,
+          rows: rows.map((row) => toDedupeRecord(type, row)),
+        }),
+      });
+      if (!res.ok) return;
+      const data = await res.json();
+      const matches: DuplicateMatch[] = data.matches || [];
+      setDuplicates(matches);
+      setDecisions(Object.fromEntries(matches.map((m) => [m.row, "skip" as DuplicateAction])));
+    } catch {
+      // Duplicate checking is best effort; the import still works without it
+    }
+  };
+
+  const handlePreview = async () => {
     if (!csvData) return;
 
     const { data, errors: mapErrors } = mapCSVToObjects(
@@ -153,26 +415,137 @@ export default function CSVImportWizard({
       const parsedRow: Record<string, unknown> = {};
       for (const field of config.fields) {
         const rawValue = row[field.field as keyof typeof row] as string;
-        parsedRow[field.field] = field.parser ? field.parser(rawValue) : rawValue;
+        if (field.isDate && dateFormat) {
+          parsedRow[field.field] = rawValue ? parseDateWithFormat(rawValue, dateFormat) : null;
+        } else {
+          parsedRow[field.field] = field.parser ? field.parser(rawValue) : rawValue;
+        }
+      }
+      if (isTransaction) {
+        parsedRow.amount = getSignedAmount(
+          {
+            amount: row.amount as string | undefined,
+            debit: row.debit as string | undefined,
+            credit: row.credit as string | undefined,
+          },
+          signConvention,
+          parseAmount
+        );
+        delete parsedRow.debit;
+        delete parsedRow.credit;
       }
       return parsedRow;
     });
 
     setPreviewData(parsed);
     setErrors(mapErrors);
+    await checkDuplicates(parsed);
     setStep("preview");
   };
 
+  // Bank transactions are sent together so duplicates and the import log are
+  // handled in one request
+  const importTransactions = async () => {
+    const importErrors: string[] = [];
+    const seen = new Map<string, number>();
+    const transactions: StatementTransaction[] = [];
+
+    previewData.forEach((row, i) => {
+      const date = row.date as string | null;
+      const payee = (row.payee as string | undefined)?.trim();
+      const amount = row.amount as number | null;
+      if (!date || !payee || amount === null || amount === undefined) {
+        importErrors.push(`Row ${i + 1}: Missing date, payee or amount`);
+        return;
+      }
+      transactions.push({
+        date,
+        payee,
+        amount,
+        memo: (row.memo as string | undefined)?.trim() || null,
+        category: (row.category as string | undefined)?.trim() || null,
+        externalId: fingerprintTransaction(date, amount, payee, seen),
+      });
+    });
+
+    try {
+      const res = await fetch("/api/import/statement", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          scenarioId,
+          fileName,
+          format: "CSV",
+          parseErrors: importErrors,
+          accounts: [
+            { accountKey: fileName, accountId, balance: null, updateBalance: false, transactions },
+          ],
+        }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setImportedCount(data.imported);
+        setDuplicateCount(data.duplicates);
+      } else {
+        importErrors.push(data.error || "Failed to import");
+      }
+    } catch (err) {
+      importErrors.push(err instanceof Error ? err.message : "Unknown error");
+    }
+
+    setImportProgress(100);
+    setErrors(importErrors);
+    setStep("done");
+  };
+
   const handleImport = async () => {
     setStep("importing");
     setImportProgress(0);
 
+    if (isTransaction) {
+      await importTransactions();
+      return;
+    }
+
+    // Start the import so each record it creates is tagged with its batch,
+    // letting the whole import be undone from the history
+    let importLogId: string | null = null;
+    try {
+      const res = await fetch("/api/import/history", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scenarioId, type, fileName }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        importLogId = data.log.id;
+      } else {
+        setErrors([data.error || "Failed to start import"]);
+      }
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : "Unknown error"]);
+    }
+    if (!importLogId) {
+      setImportedCount(0);
+      setStep("done");
+      return;
+    }
+
     const endpoint = `/api/${type === "account" ? "accounts" : type + "s"}`;
     let successCount = 0;
+    let mergeCount = 0;
     const importErrors: string[] = [];
+    const matchesByRow = new Map(duplicates.map((m) => [m.row, m]));
 
     for (let i = 0; i < previewData.length; i++) {
       const row = previewData[i];
+      const match = matchesByRow.get(i);
+      const action = match ? decisions[i] ?? "skip" : null;
+
+      if (action === "skip") {
+        setImportProgress(Math.round(((i + 1) / previewData.length) * 100));
+        continue;
+      }
 
       // Skip rows with missing required fields
       const missingRequired = config.fields
@@ -185,18 +558,51 @@ export default function CSVImportWizard({
         continue;
       }
 
+      // Convert interest rate from percentage to decimal for loans
+      const interestRate =
+        type === "loan" && row.interestRate !== undefined && row.interestRate !== null
+          ? { interestRate: (row.interestRate as number) / 100 }
+          : {};
+
       try {
+        if (match && action === "merge") {
+          // Update the existing record with only the columns the user mapped;
+          // the import log keeps the values replaced so undo can restore them
+          const values = Object.fromEntries(
+            config.fields
+              .filter((f) => mapping[f.field])
+              .map((f) => [f.field, row[f.field]])
+              .filter(([, value]) => value !== null && value !== undefined && value !== "")
+          );
+          const res = await fetch(`${endpoint}/${match.existingId}`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              ...values,
+              ...("interestRate" in values && interestRate),
+              importLogId,
+            }),
+          });
+
+          if (res.ok) {
+            mergeCount++;
+          } else {
+            const data = await res.json();
+            importErrors.push(`Row ${i + 1}: ${data.error || "Failed to merge"}`);
+          }
+          setImportProgress(Math.round(((i + 1) / previewData.length) * 100));
+          continue;
+        }
+
         const payload = {
           ...row,
           scenarioId,
+          importLogId,
           // Set defaults for optional fields
           frequency: row.frequency || "MONTHLY",
           growthRule: "NONE",
           startDate: row.startDate || new Date().toISOString().split("T")[0],
-          // Convert interest rate from percentage to decimal for loans
-          ...(type === "loan" && row.interestRate !== undefined && row.interestRate !== null
-            ? { interestRate: (row.interestRate as number) / 100 }
-            : {}),
+          ...interestRate,
         };
 
         const res = await fetch(endpoint, {
@@ -218,7 +624,25 @@ export default function CSVImportWizard({
       setImportProgress(Math.round(((i + 1) / previewData.length) * 100));
     }
 
+    // Record the outcome along with what was done with each duplicate
+    const decided = duplicates.map((m) => ({ ...m, action: decisions[m.row] ?? "skip" }));
+    try {
+      await fetch(`/api/import/history/${importLogId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rowsImported: successCount + mergeCount,
+          errors: importErrors,
+          duplicates: decided,
+        }),
+      });
+    } catch {
+      // The records were still created; the log is left pending
+    }
+
     setImportedCount(successCount);
+    setMergedCount(mergeCount);
+    setDuplicateCount(decided.filter((d) => d.action === "skip").length);
     setErrors(importErrors);
     setStep("done");
   };
@@ -260,7 +684,8 @@ export default function CSVImportWizard({
       {step === "upload" && (
         <div className="space-y-4">
           <p className="text-zinc-400 text-sm">
-            Upload a CSV file with your {type} data. The first row should contain column headers.
+            Upload a CSV file with your {type} data. Column headers are found automatically, even
+            below account details at the top of a bank export.
           </p>
 
           <div className="border-2 border-dashed border-zinc-700 rounded-xl p-8 text-center">
@@ -302,8 +727,102 @@ export default function CSVImportWizard({
             Map your CSV columns to the required fields. We&apos;ve auto-detected some mappings for you.
           </p>
 
+          {presetMessage && (
+            <div className="rounded-xl border border-emerald-900 bg-emerald-950/40 px-4 py-2 text-sm text-emerald-300">
+              {presetMessage}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-zinc-300 mb-1">Saved preset</label>
+              <div className="flex gap-2">
+                <select
+                  className={inputClass}
+                  value={activePresetId ?? ""}
+                  onChange={(e) => handlePresetSelect(e.target.value)}
+                >
+                  <option value="">-- None --</option>
+                  {presets.map((preset) => (
+                    <option key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </option>
+                  ))}
+                </select>
+                {activePresetId && (
+                  <button
+                    onClick={handleDeletePreset}
+                    className="px-3 py-2 border border-zinc-700 rounded-xl text-sm text-zinc-400 hover:text-red-400 hover:border-red-900 transition-colors"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm text-zinc-300 mb-1">Header row</label>
+              <input
+                type="number"
+                min={1}
+                className={inputClass}
+                value={headerRow + 1}
+                onChange={(e) => handleHeaderRowChange((parseInt(e.target.value) || 1) - 1)}
+              />
+            </div>
+            {dateFields.length > 0 && (
+              <div>
+                <label className="block text-sm text-zinc-300 mb-1">Date format</label>
+                <select
+                  className={inputClass}
+                  value={dateFormat ?? ""}
+                  onChange={(e) => setDateFormat((e.target.value || null) as DateFormat | null)}
+                >
+                  <option value="">Auto (common formats)</option>
+                  {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map((format) => (
+                    <option key={format} value={format}>
+                      {DATE_FORMAT_LABELS[format]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {isTransaction && (
+              <div>
+                <label className="block text-sm text-zinc-300 mb-1">Amounts</label>
+                <select
+                  className={inputClass}
+                  value={signConvention}
+                  onChange={(e) => setSignConvention(e.target.value as SignConvention)}
+                >
+                  {(Object.keys(SIGN_CONVENTION_LABELS) as SignConvention[]).map((convention) => (
+                    <option key={convention} value={convention}>
+                      {SIGN_CONVENTION_LABELS[convention]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {isTransaction && (
+              <div>
+                <label className="block text-sm text-zinc-300 mb-1">Account</label>
+                <select
+                  className={inputClass}
+                  value={accountId ?? ""}
+                  onChange={(e) => setAccountId(e.target.value || null)}
+                >
+                  <option value="">-- No linked account --</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
           <div className="space-y-3">
-            {config.fields.map((field) => (
+            {visibleFields.map((field) => (
               <div key={field.field} className="flex items-center gap-4">
                 <label className="w-32 text-sm text-zinc-300">
                   {field.label}
@@ -325,6 +844,23 @@ export default function CSVImportWizard({
             ))}
           </div>
 
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="Preset name, e.g. your bank and account"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+            />
+            <button
+              onClick={handleSavePreset}
+              disabled={!presetName.trim()}
+              className="shrink-0 px-4 py-2 border border-zinc-700 rounded-xl text-zinc-300 hover:bg-zinc-800 transition-colors disabled:opacity-50"
+            >
+              Save Preset
+            </button>
+          </div>
+
           <div className="flex gap-3 pt-4">
             <button
               onClick={handlePreview}
@@ -354,7 +890,7 @@ export default function CSVImportWizard({
               <thead>
                 <tr className="border-b border-zinc-800">
                   <th className="text-left py-2 px-2 text-zinc-400 font-medium">#</th>
-                  {config.fields.map((field) => (
+                  {previewFields.map((field) => (
                     <th key={field.field} className="text-left py-2 px-2 text-zinc-400 font-medium">
                       {field.label}
                     </th>
@@ -364,8 +900,15 @@ export default function CSVImportWizard({
               <tbody>
                 {previewData.slice(0, 10).map((row, i) => (
                   <tr key={i} className="border-b border-zinc-800/50">
-                    <td className="py-2 px-2 text-zinc-500">{i + 1}</td>
-                    {config.fields.map((field) => (
+                    <td className="py-2 px-2 text-zinc-500">
+                      {i + 1}
+                      {duplicates.some((m) => m.row === i) && (
+                        <span className="ml-1 text-amber-400" title="Possible duplicate">
+                          •
+                        </span>
+                      )}
+                    </td>
+                    {previewFields.map((field) => (
                       <td key={field.field} className="py-2 px-2">
                         {row[field.field] !== null && row[field.field] !== undefined
                           ? String(row[field.field])
@@ -382,6 +925,43 @@ export default function CSVImportWizard({
             <p className="text-zinc-500 text-xs">Showing first 10 of {previewData.length} rows</p>
           )}
 
+          {duplicates.length > 0 && (
+            <div className="rounded-xl border border-amber-900 bg-amber-950/50 p-4 space-y-3">
+              <div className="text-amber-400 text-sm font-medium">
+                {duplicates.length} row{duplicates.length === 1 ? " looks" : "s look"} like existing{" "}
+                {type}s
+              </div>
+              <div className="max-h-64 overflow-y-auto space-y-2">
+                {duplicates.map((match) => (
+                  <div key={match.row} className="flex items-center justify-between gap-3 text-sm">
+                    <div className="min-w-0">
+                      <span className="text-zinc-500">Row {match.row + 1}:</span>{" "}
+                      <span className="text-zinc-200">
+                        {toDedupeRecord(type, previewData[match.row]).name || "Unnamed"}
+                      </span>{" "}
+                      <span className="text-zinc-500">matches</span>{" "}
+                      <span className="text-zinc-200">{match.existingName}</span>{" "}
+                      <span className="text-amber-400/80">({Math.round(match.score * 100)}%)</span>
+                    </div>
+                    <select
+                      value={decisions[match.row] ?? "skip"}
+                      onChange={(e) =>
+                        setDecisions({ ...decisions, [match.row]: e.target.value as DuplicateAction })
+                      }
+                      className="rounded-lg border border-zinc-800 bg-zinc-900 px-2 py-1 text-xs text-zinc-50 outline-none focus:border-zinc-600"
+                    >
+                      {(Object.keys(DUPLICATE_ACTION_LABELS) as DuplicateAction[]).map((action) => (
+                        <option key={action} value={action}>
+                          {DUPLICATE_ACTION_LABELS[action]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {errors.length > 0 && (
             <div className="rounded-xl border border-amber-900 bg-amber-950/50 p-4">
               <div className="text-amber-400 text-sm font-medium mb-2">Warnings</div>
@@ -399,7 +979,7 @@ export default function CSVImportWizard({
               onClick={handleImport}
               className="px-4 py-2 bg-zinc-50 text-zinc-950 rounded-xl font-medium hover:bg-zinc-200 transition-colors"
             >
-              Import {previewData.length} Rows
+              Import {previewData.length - skippedCount} Rows
             </button>
             <button
               onClick={() => setStep("mapping")}
@@ -433,6 +1013,12 @@ export default function CSVImportWizard({
           <p className="text-xl font-semibold">
             Imported {importedCount} of {previewData.length} items
           </p>
+          {duplicateCount > 0 && (
+            <p className="text-sm text-zinc-400">{duplicateCount} already imported and skipped</p>
+          )}
+          {mergedCount > 0 && (
+            <p className="text-sm text-zinc-400">{mergedCount} merged into existing records</p>
+          )}
 
           {errors.length > 0 && (
             <div className="rounded-xl border border-red-900 bg-red-950/50 p-4 text-left">
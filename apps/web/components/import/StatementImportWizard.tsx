@@ -0,0 +1,414 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import { formatCurrency } from "@/lib/format";
+import { parseStatement, STATEMENT_FILE_EXTENSIONS } from "@/lib/statements/parseStatement";
+import type { StatementAccount, StatementFormat } from "@/lib/statements/types";
+
+interface StatementImportWizardProps {
+  scenarioId: string;
+  onComplete: (count: number) => void;
+  onCancel: () => void;
+}
+
+type WizardStep = "upload" | "preview" | "importing" | "done";
+
+interface ScenarioAccount {
+  id: string;
+  name: string;
+}
+
+interface AccountSelection {
+  accountId: string | null;
+  updateBalance: boolean;
+}
+
+export default function StatementImportWizard({
+  scenarioId,
+  onComplete,
+  onCancel,
+}: StatementImportWizardProps) {
+  const [step, setStep] = useState<WizardStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [format, setFormat] = useState<StatementFormat | null>(null);
+  const [statementAccounts, setStatementAccounts] = useState<StatementAccount[]>([]);
+  const [selections, setSelections] = useState<AccountSelection[]>([]);
+  const [duplicates, setDuplicates] = useState<Set<string>[]>([]);
+  const [checkingDuplicates, setCheckingDuplicates] = useState(false);
+  const [scenarioAccounts, setScenarioAccounts] = useState<ScenarioAccount[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [result, setResult] = useState<{ imported: number; duplicates: number; balancesUpdated: number } | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/accounts?scenarioId=${scenarioId}`)
+      .then((res) => (res.ok ? res.json() : { accounts: [] }))
+      .then((data) => setScenarioAccounts(data.accounts || []))
+      .catch(() => setScenarioAccounts([]));
+  }, [scenarioId]);
+
+  const buildPayload = useCallback(
+    (dryRun: boolean, accountSelections: AccountSelection[]) => ({
+      scenarioId,
+      fileName,
+      format,
+      dryRun,
+      parseErrors: errors,
+      accounts: statementAccounts.map((account, i) => ({
+        accountKey: account.accountKey,
+        accountId: accountSelections[i]?.accountId ?? null,
+        balance: account.balance,
+        updateBalance: accountSelections[i]?.updateBalance ?? false,
+        transactions: account.transactions,
+      })),
+    }),
+    [scenarioId, fileName, format, errors, statementAccounts]
+  );
+
+  // Re-check duplicates whenever the account mapping changes, since
+  // identifiers are matched per account
+  useEffect(() => {
+    if (step !== "preview" || statementAccounts.length === 0) return;
+    let cancelled = false;
+    setCheckingDuplicates(true);
+
+    fetch("/api/import/statement", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(buildPayload(true, selections)),
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (cancelled || !data) return;
+        setDuplicates(
+          (data.accounts as { duplicateIds: string[] }[]).map((a) => new Set(a.duplicateIds))
+        );
+      })
+      .catch(() => {
+        // Preview still works without duplicate flags
+      })
+      .finally(() => {
+        if (!cancelled) setCheckingDuplicates(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [step, statementAccounts, selections, buildPayload]);
+
+  const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const text = event.target?.result as string;
+      const parsed = parseStatement(file.name, text);
+
+      if (!parsed) {
+        setErrors(["Unrecognized file. Upload an OFX, QFX or QIF statement."]);
+        return;
+      }
+
+      setErrors(parsed.errors);
+      if (parsed.accounts.length > 0) {
+        setFileName(file.name);
+        setFormat(parsed.format);
+        setStatementAccounts(parsed.accounts);
+        setSelections(parsed.accounts.map(() => ({ accountId: null, updateBalance: false })));
+        setDuplicates(parsed.accounts.map(() => new Set()));
+        setStep("preview");
+      }
+    };
+    reader.readAsText(file);
+  }, []);
+
+  const handleSelectionChange = (index: number, changes: Partial<AccountSelection>) => {
+    setSelections((prev) => prev.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+  };
+
+  const newCount = statementAccounts.reduce(
+    (sum, account, i) =>
+      sum + account.transactions.filter((t) => !duplicates[i]?.has(t.externalId)).length,
+    0
+  );
+
+  const handleImport = async () => {
+    setStep("importing");
+    try {
+      const res = await fetch("/api/import/statement", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(buildPayload(false, selections)),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setErrors([data.error || "Failed to import"]);
+        setResult({ imported: 0, duplicates: 0, balancesUpdated: 0 });
+      } else {
+        setResult(data);
+      }
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : "Unknown error"]);
+      setResult({ imported: 0, duplicates: 0, balancesUpdated: 0 });
+    }
+    setStep("done");
+  };
+
+  const inputClass =
+    "w-full rounded-xl border border-zinc-800 bg-zinc-900 px-3 py-2 outline-none focus:border-zinc-600 text-zinc-50";
+
+  return (
+    <div className="rounded-2xl border border-zinc-800 bg-zinc-950/60 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold">Import Bank Statement</h2>
+        <button
+          onClick={onCancel}
+          className="text-zinc-400 hover:text-zinc-50 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+
+      {/* Progress Steps */}
+      <div className="flex items-center gap-2 mb-6">
+        {["upload", "preview", "done"].map((s, i) => (
+          <div key={s} className="flex items-center">
+            <div
+              className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium ${
+                step === s || ["preview", "importing", "done"].indexOf(step) >= i
+                  ? "bg-zinc-50 text-zinc-950"
+                  : "bg-zinc-800 text-zinc-400"
+              }`}
+            >
+              {i + 1}
+            </div>
+            {i < 2 && <div className="w-12 h-0.5 bg-zinc-800 mx-2" />}
+          </div>
+        ))}
+      </div>
+
+      {/* Step: Upload */}
+      {step === "upload" && (
+        <div className="space-y-4">
+          <p className="text-zinc-400 text-sm">
+            Upload an OFX or QFX download from your bank, or a QIF export from Quicken.
+            Transactions already imported are detected and skipped.
+          </p>
+
+          <div className="border-2 border-dashed border-zinc-700 rounded-xl p-8 text-center">
+            <input
+              type="file"
+              accept={STATEMENT_FILE_EXTENSIONS.join(",")}
+              onChange={handleFileUpload}
+              className="hidden"
+              id="statement-upload"
+            />
+            <label
+              htmlFor="statement-upload"
+              className="cursor-pointer text-zinc-400 hover:text-zinc-50 transition-colors"
+            >
+              <div className="text-3xl mb-2">🏦</div>
+              <div className="font-medium">Click to upload a statement</div>
+              <div className="text-xs text-zinc-500 mt-1">.ofx, .qfx or .qif</div>
+            </label>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="rounded-xl border border-red-900 bg-red-950/50 p-4">
+              <div className="text-red-400 text-sm font-medium mb-2">Errors</div>
+              <ul className="text-red-400/80 text-xs space-y-1">
+                {errors.slice(0, 5).map((err, i) => (
+                  <li key={i}>{err}</li>
+                ))}
+                {errors.length > 5 && <li>...and {errors.length - 5} more</li>}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Step: Preview */}
+      {step === "preview" && (
+        <div className="space-y-6">
+          <p className="text-zinc-400 text-sm">
+            Review {fileName} before importing. Choose the account each statement belongs to;
+            nothing is saved until you import.
+          </p>
+
+          {statementAccounts.map((account, index) => (
+            <div key={`${account.accountKey}-${index}`} className="space-y-3">
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex-1 min-w-[200px]">
+                  <div className="text-sm font-medium text-zinc-200">{account.accountKey}</div>
+                  <div className="text-xs text-zinc-500">
+                    {account.accountType ?? "Account"} · {account.transactions.length} transactions
+                    {account.balance !== null && (
+                      <>
+                        {" "}· Balance {formatCurrency(account.balance)}
+                        {account.balanceDate && ` as of ${account.balanceDate}`}
+                      </>
+                    )}
+                  </div>
+                </div>
+                <div className="w-64">
+                  <select
+                    className={inputClass}
+                    value={selections[index]?.accountId ?? ""}
+                    onChange={(e) =>
+                      handleSelectionChange(index, {
+                        accountId: e.target.value || null,
+                        updateBalance: e.target.value ? selections[index]?.updateBalance ?? false : false,
+                      })
+                    }
+                  >
+                    <option value="">-- No linked account --</option>
+                    {scenarioAccounts.map((a) => (
+                      <option key={a.id} value={a.id}>
+                        {a.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {account.balance !== null && (
+                  <label className="flex items-center gap-2 text-sm text-zinc-300">
+                    <input
+                      type="checkbox"
+                      checked={selections[index]?.updateBalance ?? false}
+                      disabled={!selections[index]?.accountId}
+                      onChange={(e) => handleSelectionChange(index, { updateBalance: e.target.checked })}
+                    />
+                    Update balance
+                  </label>
+                )}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-zinc-800">
+                      <th className="text-left py-2 px-2 text-zinc-400 font-medium">Date</th>
+                      <th className="text-left py-2 px-2 text-zinc-400 font-medium">Payee</th>
+                      <th className="text-left py-2 px-2 text-zinc-400 font-medium">Category</th>
+                      <th className="text-right py-2 px-2 text-zinc-400 font-medium">Amount</th>
+                      <th className="text-left py-2 px-2 text-zinc-400 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {account.transactions.slice(0, 10).map((t, i) => {
+                      const isDuplicate = duplicates[index]?.has(t.externalId);
+                      return (
+                        <tr
+                          key={`${t.externalId}-${i}`}
+                          className={`border-b border-zinc-800/50 ${isDuplicate ? "opacity-50" : ""}`}
+                        >
+                          <td className="py-2 px-2 text-zinc-300">{t.date}</td>
+                          <td className="py-2 px-2">{t.payee}</td>
+                          <td className="py-2 px-2 text-zinc-400">
+                            {t.category ?? <span className="text-zinc-500">—</span>}
+                          </td>
+                          <td className={`py-2 px-2 text-right ${t.amount < 0 ? "text-zinc-50" : "text-emerald-400"}`}>
+                            {formatCurrency(t.amount)}
+                          </td>
+                          <td className="py-2 px-2 text-xs">
+                            {isDuplicate ? (
+                              <span className="text-zinc-500">Already imported</span>
+                            ) : (
+                              <span className="text-emerald-400">New</span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {account.transactions.length > 10 && (
+                <p className="text-zinc-500 text-xs">
+                  Showing first 10 of {account.transactions.length} transactions
+                </p>
+              )}
+            </div>
+          ))}
+
+          {errors.length > 0 && (
+            <div className="rounded-xl border border-amber-900 bg-amber-950/50 p-4">
+              <div className="text-amber-400 text-sm font-medium mb-2">Warnings</div>
+              <ul className="text-amber-400/80 text-xs space-y-1">
+                {errors.slice(0, 5).map((err, i) => (
+                  <li key={i}>{err}</li>
+                ))}
+                {errors.length > 5 && <li>...and {errors.length - 5} more</li>}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex items-center gap-3 pt-4">
+            <button
+              onClick={handleImport}
+              disabled={checkingDuplicates}
+              className="px-4 py-2 bg-zinc-50 text-zinc-950 rounded-xl font-medium hover:bg-zinc-200 transition-colors disabled:opacity-50"
+            >
+              Import {newCount} Transactions
+            </button>
+            <button
+              onClick={() => {
+                setErrors([]);
+                setStep("upload");
+              }}
+              className="px-4 py-2 border border-zinc-700 rounded-xl text-zinc-300 hover:bg-zinc-800 transition-colors"
+            >
+              Back
+            </button>
+            {checkingDuplicates && (
+              <span className="text-xs text-zinc-500">Checking for duplicates...</span>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Step: Importing */}
+      {step === "importing" && (
+        <div className="space-y-4 py-8 text-center">
+          <div className="text-4xl mb-4">⏳</div>
+          <p className="text-zinc-400">Importing transactions...</p>
+        </div>
+      )}
+
+      {/* Step: Done */}
+      {step === "done" && result && (
+        <div className="space-y-4 py-8 text-center">
+          <div className="text-4xl mb-4">{errors.length === 0 ? "✅" : "⚠️"}</div>
+          <p className="text-xl font-semibold">
+            Imported {result.imported} transaction{result.imported !== 1 ? "s" : ""}
+          </p>
+          <p className="text-sm text-zinc-400">
+            {result.duplicates} already imported and skipped
+            {result.balancesUpdated > 0 &&
+              ` · ${result.balancesUpdated} account balance${result.balancesUpdated !== 1 ? "s" : ""} updated`}
+          </p>
+
+          {errors.length > 0 && (
+            <div className="rounded-xl border border-red-900 bg-red-950/50 p-4 text-left">
+              <div className="text-red-400 text-sm font-medium mb-2">
+                {errors.length} errors occurred
+              </div>
+              <ul className="text-red-400/80 text-xs space-y-1 max-h-32 overflow-y-auto">
+                {errors.map((err, i) => (
+                  <li key={i}>{err}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <button
+            onClick={() => onComplete(result.imported)}
+            className="px-6 py-2 bg-zinc-50 text-zinc-950 rounded-xl font-medium hover:bg-zinc-200 transition-colors mt-4"
+          >
+            Done
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
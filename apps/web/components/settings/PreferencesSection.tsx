@@ -1,6 +1,6 @@
 "use client";
 
-import { usePreferences, Currency, DateFormat, Theme } from "@/contexts/PreferencesContext";
+import { usePreferences, Currency, DateFormat, Theme, DollarBasis } from "@/contexts/PreferencesContext";
 
 const CURRENCY_OPTIONS: { value: Currency; label: string }[] = [
   { value: "USD", label: "USD ($)" },
@@ -21,6 +21,11 @@ const THEME_OPTIONS: { value: Theme; label: string }[] = [
   { value: "system", label: "System" },
 ];
 
+const DOLLAR_OPTIONS: { value: DollarBasis; label: string }[] = [
+  { value: "NOMINAL", label: "Nominal (future $)" },
+  { value: "REAL", label: "Today's dollars" },
+];
+
 export function PreferencesSection() {
   const { preferences, updatePreferences } = usePreferences();
 
@@ -109,6 +114,32 @@ export function PreferencesSection() {
           </select>
         </div>
 
+        {/* Projection Dollars Setting */}
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium" style={{ color: `rgb(var(--text-primary))` }}>Projection Dollars</p>
+            <p className="text-xs mt-0.5" style={{ color: `rgb(var(--text-muted))` }}>Show projections as projected or adjusted for inflation</p>
+          </div>
+          <select
+            className="rounded-xl px-3 py-2 text-sm focus:outline-none transition-colors w-48"
+            style={{
+              backgroundColor: `rgb(var(--input-bg))`,
+              border: `1px solid rgb(var(--input-border))`,
+              color: `rgb(var(--text-primary))`
+            }}
+            value={preferences.dollars}
+            onChange={(e) => updatePreferences({ dollars: e.target.value as DollarBasis })}
+            onFocus={(e) => e.currentTarget.style.borderColor = `rgb(var(--accent-emerald))`}
+            onBlur={(e) => e.currentTarget.style.borderColor = `rgb(var(--input-border))`}
+          >
+            {DOLLAR_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
         {/* Notifications Setting */}
         <div className="flex items-center justify-between">
           <div>
@@ -0,0 +1,270 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type FilingStatus = "SINGLE" | "MFJ" | "HOH";
+
+interface ScenarioSettings {
+  assumptions: {
+    projectionYears: number;
+    inflationRate: number;
+    defaultGrowthRate: number;
+    retirementWithdrawalRate: number;
+  };
+  taxProfile: {
+    filingStatus: FilingStatus;
+    state: string | null;
+    taxYear: number;
+    includePayrollTaxes: boolean;
+  };
+}
+
+interface ScenarioOption {
+  id: string;
+  name: string;
+  isBaseline: boolean;
+}
+
+interface ScenarioSettingsSectionProps {
+  scenarios: ScenarioOption[];
+  initialScenarioId?: string;
+}
+
+const FILING_STATUS_OPTIONS: { value: FilingStatus; label: string }[] = [
+  { value: "SINGLE", label: "Single" },
+  { value: "MFJ", label: "Married Filing Jointly" },
+  { value: "HOH", label: "Head of Household" },
+];
+
+const inputStyle = {
+  backgroundColor: `rgb(var(--input-bg))`,
+  border: `1px solid rgb(var(--input-border))`,
+  color: `rgb(var(--text-primary))`,
+};
+
+function SettingRow({
+  label,
+  description,
+  children,
+}: {
+  label: string;
+  description: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div>
+        <p className="text-sm font-medium" style={{ color: `rgb(var(--text-primary))` }}>{label}</p>
+        <p className="text-xs mt-0.5" style={{ color: `rgb(var(--text-muted))` }}>{description}</p>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+export function ScenarioSettingsSection({ scenarios, initialScenarioId }: ScenarioSettingsSectionProps) {
+  const [scenarioId, setScenarioId] = useState(
+    initialScenarioId ?? scenarios.find((s) => s.isBaseline)?.id ?? scenarios[0]?.id ?? ""
+  );
+  const [settings, setSettings] = useState<ScenarioSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    if (!scenarioId) return;
+
+    setIsLoading(true);
+    setError(null);
+    fetch(`/api/scenarios/${scenarioId}/assumptions`)
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error("Failed to load settings"))))
+      .then((data: ScenarioSettings) => setSettings(data))
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load settings"))
+      .finally(() => setIsLoading(false));
+  }, [scenarioId]);
+
+  function updateAssumption(field: keyof ScenarioSettings["assumptions"], value: number) {
+    setSaved(false);
+    setSettings((prev) => (prev ? { ...prev, assumptions: { ...prev.assumptions, [field]: value } } : prev));
+  }
+
+  function updateTaxProfile<K extends keyof ScenarioSettings["taxProfile"]>(
+    field: K,
+    value: ScenarioSettings["taxProfile"][K]
+  ) {
+    setSaved(false);
+    setSettings((prev) => (prev ? { ...prev, taxProfile: { ...prev.taxProfile, [field]: value } } : prev));
+  }
+
+  async function handleSave() {
+    if (!settings) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/scenarios/${scenarioId}/assumptions`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to save settings");
+      }
+
+      setSettings(await res.json());
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save settings");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl overflow-hidden" style={{ border: `1px solid rgb(var(--border-primary))`, backgroundColor: `rgba(var(--bg-card), 0.5)` }}>
+      <div className="p-6 flex items-center justify-between gap-4" style={{ borderBottom: `1px solid rgb(var(--border-primary))` }}>
+        <div>
+          <h2 className="text-lg font-medium" style={{ color: `rgb(var(--text-primary))` }}>Projection Settings</h2>
+          <p className="text-sm mt-1" style={{ color: `rgb(var(--text-secondary))` }}>
+            Assumptions and tax profile used by projections, Monte Carlo and the assistant
+          </p>
+        </div>
+        <select
+          className="rounded-xl px-3 py-2 text-sm focus:outline-none w-48"
+          style={inputStyle}
+          value={scenarioId}
+          onChange={(e) => {
+            setSaved(false);
+            setScenarioId(e.target.value);
+          }}
+        >
+          {scenarios.map((scenario) => (
+            <option key={scenario.id} value={scenario.id}>
+              {scenario.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && (
+          <div className="rounded-xl border border-red-500/50 bg-red-500/10 p-3 text-sm text-red-400">{error}</div>
+        )}
+
+        {isLoading || !settings ? (
+          <p className="text-sm" style={{ color: `rgb(var(--text-muted))` }}>
+            {scenarios.length === 0 ? "No scenarios yet" : "Loading settings..."}
+          </p>
+        ) : (
+          <>
+            <SettingRow label="Projection Horizon" description="Years to project from today">
+              <input
+                type="number"
+                min={1}
+                max={100}
+                className="rounded-xl px-3 py-2 text-sm focus:outline-none w-48"
+                style={inputStyle}
+                value={settings.assumptions.projectionYears}
+                onChange={(e) => updateAssumption("projectionYears", parseInt(e.target.value, 10) || 1)}
+              />
+            </SettingRow>
+
+            <SettingRow label="Inflation Rate (%)" description="Annual inflation applied to expenses and tax brackets">
+              <input
+                type="number"
+                step="0.1"
+                className="rounded-xl px-3 py-2 text-sm focus:outline-none w-48"
+                style={inputStyle}
+                value={+(settings.assumptions.inflationRate * 100).toFixed(2)}
+                onChange={(e) => updateAssumption("inflationRate", (parseFloat(e.target.value) || 0) / 100)}
+              />
+            </SettingRow>
+
+            <SettingRow label="Default Growth Rate (%)" description="Return for accounts without their own growth rate">
+              <input
+                type="number"
+                step="0.1"
+                className="rounded-xl px-3 py-2 text-sm focus:outline-none w-48"
+                style={inputStyle}
+                value={+(settings.assumptions.defaultGrowthRate * 100).toFixed(2)}
+                onChange={(e) => updateAssumption("defaultGrowthRate", (parseFloat(e.target.value) || 0) / 100)}
+              />
+            </SettingRow>
+
+            <SettingRow label="Withdrawal Rate (%)" description="Planned retirement withdrawal rate">
+              <input
+                type="number"
+                step="0.1"
+                className="rounded-xl px-3 py-2 text-sm focus:outline-none w-48"
+                style={inputStyle}
+                value={+(settings.assumptions.retirementWithdrawalRate * 100).toFixed(2)}
+                onChange={(e) => updateAssumption("retirementWithdrawalRate", (parseFloat(e.target.value) || 0) / 100)}
+              />
+            </SettingRow>
+
+            <SettingRow label="Filing Status" description="Federal filing status">
+              <select
+                className="rounded-xl px-3 py-2 text-sm focus:outline-none w-48"
+                style={inputStyle}
+                value={settings.taxProfile.filingStatus}
+                onChange={(e) => updateTaxProfile("filingStatus", e.target.value as FilingStatus)}
+              >
+                {FILING_STATUS_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </SettingRow>
+
+            <SettingRow label="State" description="Two-letter state code for state income tax">
+              <input
+                type="text"
+                maxLength={2}
+                placeholder="e.g. CA"
+                className="rounded-xl px-3 py-2 text-sm focus:outline-none w-48 uppercase"
+                style={inputStyle}
+                value={settings.taxProfile.state ?? ""}
+                onChange={(e) => updateTaxProfile("state", e.target.value ? e.target.value.toUpperCase() : null)}
+              />
+            </SettingRow>
+
+            <SettingRow label="Tax Year" description="Base year for brackets and limits">
+              <input
+                type="number"
+                className="rounded-xl px-3 py-2 text-sm focus:outline-none w-48"
+                style={inputStyle}
+                value={settings.taxProfile.taxYear}
+                onChange={(e) => updateTaxProfile("taxYear", parseInt(e.target.value, 10) || 2024)}
+              />
+            </SettingRow>
+
+            <SettingRow label="Payroll Taxes" description="Include Social Security and Medicare">
+              <input
+                type="checkbox"
+                className="h-4 w-4"
+                checked={settings.taxProfile.includePayrollTaxes}
+                onChange={(e) => updateTaxProfile("includePayrollTaxes", e.target.checked)}
+              />
+            </SettingRow>
+
+            <div className="flex items-center justify-end gap-3">
+              {saved && <span className="text-sm text-emerald-400">Saved</span>}
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving}
+                className="rounded-xl bg-emerald-600 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-500 disabled:opacity-50"
+              >
+                {isSaving ? "Saving..." : "Save Settings"}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
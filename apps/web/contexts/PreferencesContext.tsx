@@ -1,6 +1,9 @@
 "use client";
 
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import type { DollarBasis } from "@finatlas/engine/src/types";
+
+export type { DollarBasis };
 
 export type Currency = "USD" | "EUR" | "GBP" | "JPY";
 export type DateFormat = "MM/DD/YYYY" | "DD/MM/YYYY" | "YYYY-MM-DD";
@@ -10,6 +13,7 @@ export type UserPreferences = {
   currency: Currency;
   dateFormat: DateFormat;
   theme: Theme;
+  dollars: DollarBasis; // Projection amounts in future (NOMINAL) or today's (REAL) dollars
 };
 
 type PreferencesContextType = {
@@ -25,6 +29,7 @@ const DEFAULT_PREFERENCES: UserPreferences = {
   currency: "USD",
   dateFormat: "MM/DD/YYYY",
   theme: "dark",
+  dollars: "NOMINAL",
 };
 
 export function PreferencesProvider({ children }: { children: ReactNode }) {
@@ -1,4 +1,5 @@
 import { prisma } from '@/lib/db/prisma';
+import { DEFAULT_ASSUMPTIONS, DEFAULT_TAX_PROFILE } from '@/lib/constants';
 
 /**
  * Execute a tool call from Anthropic tool_use
@@ -26,6 +27,9 @@ export async function handleToolCall(
       case 'query_loans':
         return await queryLoans(scenarioId);
 
+      case 'query_assumptions':
+        return await queryAssumptions(scenarioId);
+
       case 'modify_scenario':
         return JSON.stringify({
           modification: toolInput,
@@ -280,3 +284,27 @@ async function queryLoans(scenarioId: string): Promise<string> {
     2
   );
 }
+
+/**
+ * Query projection assumptions and tax profile, falling back to defaults
+ */
+async function queryAssumptions(scenarioId: string): Promise<string> {
+  const [assumptions, taxProfile] = await Promise.all([
+    prisma.scenarioAssumption.findUnique({ where: { scenarioId } }),
+    prisma.taxProfile.findUnique({ where: { scenarioId } }),
+  ]);
+
+  return JSON.stringify({
+    projectionYears: assumptions?.projectionYears ?? DEFAULT_ASSUMPTIONS.projectionYears,
+    inflationRate: assumptions?.inflationRate ?? DEFAULT_ASSUMPTIONS.inflationRate,
+    defaultGrowthRate: assumptions?.defaultGrowthRate ?? DEFAULT_ASSUMPTIONS.defaultGrowthRate,
+    retirementWithdrawalRate:
+      assumptions?.retirementWithdrawalRate ?? DEFAULT_ASSUMPTIONS.retirementWithdrawalRate,
+    taxProfile: {
+      filingStatus: taxProfile?.filingStatus ?? DEFAULT_TAX_PROFILE.filingStatus,
+      state: taxProfile ? taxProfile.state : DEFAULT_TAX_PROFILE.state,
+      taxYear: taxProfile?.taxYear ?? DEFAULT_TAX_PROFILE.taxYear,
+      includePayrollTaxes: taxProfile?.includePayrollTaxes ?? DEFAULT_TAX_PROFILE.includePayrollTaxes,
+    },
+  }, null, 2);
+}
@@ -59,6 +59,15 @@ export const financialTools: Tool[] = [
       required: [],
     },
   },
+  {
+    name: 'query_assumptions',
+    description: 'Query the scenario\'s projection assumptions (horizon, inflation, default growth rate, withdrawal rate) and tax profile (filing status, state, payroll taxes). Use these instead of generic defaults when discussing projections or taxes.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {},
+      required: [],
+    },
+  },
   {
     name: 'modify_scenario',
     description: 'Propose a modification to the financial scenario. The user will be asked to confirm before it is applied. Use this when the user asks "what if" questions or requests changes to their financial plan.',
@@ -2,6 +2,15 @@
  * Amortization calculation utilities
  */
 
+import {
+  addMonths,
+  calculateMonthlyPayment,
+  formatISO,
+  generateAmortizationSchedule as generateLoanSchedule,
+  parseISO,
+} from "@finatlas/engine";
+import type { LoanDTO } from "@finatlas/engine/src/types";
+
 export interface AmortizationRow {
   month: number;
   date: string; // YYYY-MM
@@ -35,14 +44,11 @@ export function calculatePMT(
   termMonths: number
 ): number {
   if (termMonths <= 0) return principal;
-  const monthlyRate = annualRatePercent / 100 / 12;
-  if (monthlyRate === 0) return principal / termMonths;
-  const factor = Math.pow(1 + monthlyRate, termMonths);
-  return principal * ((monthlyRate * factor) / (factor - 1));
+  return calculateMonthlyPayment(principal, annualRatePercent / 100, termMonths);
 }
 
 /**
- * Generate complete amortization schedule
+ * Generate complete amortization schedule from the engine's loan schedule
  * @param principal - Original loan amount
  * @param annualRatePercent - Annual interest rate as percentage (e.g., 6.5 for 6.5%)
  * @param termMonths - Original loan term in months
@@ -57,41 +63,38 @@ export function generateAmortizationSchedule(
   monthlyPayment: number,
   startDate: string
 ): AmortizationResult {
-  const schedule: AmortizationRow[] = [];
-  const monthlyRate = annualRatePercent / 100 / 12;
+  const loanStart = startDate.slice(0, 10);
+  const loan: LoanDTO = {
+    id: "amortization",
+    type: "OTHER",
+    name: "Amortization",
+    principal,
+    aprPct: annualRatePercent,
+    termMonths,
+    startDate: loanStart,
+    paymentOverrideMonthly: monthlyPayment,
+  };
+  const lastMonth = formatISO(addMonths(parseISO(loanStart), Math.max(0, termMonths - 1)));
 
-  let balance = principal;
   let cumulativeInterest = 0;
   let cumulativePrincipal = 0;
 
-  const start = new Date(startDate);
-
-  for (let month = 1; month <= termMonths && balance > 0.01; month++) {
-    const interestPayment = balance * monthlyRate;
-    const principalPayment = Math.min(monthlyPayment - interestPayment, balance);
-    const totalPayment = principalPayment + interestPayment;
-
-    balance -= principalPayment;
-    cumulativeInterest += interestPayment;
-    cumulativePrincipal += principalPayment;
-
-    const currentDate = new Date(start);
-    currentDate.setMonth(start.getMonth() + month - 1);
-    const dateString = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}`;
-
-    schedule.push({
-      month,
-      date: dateString,
-      payment: totalPayment,
-      principal: principalPayment,
-      interest: interestPayment,
-      balance: Math.max(0, balance),
-      cumulativeInterest,
-      cumulativePrincipal,
-    });
-
-    if (balance <= 0.01) break;
-  }
+  const schedule: AmortizationRow[] = generateLoanSchedule(loan, loanStart, lastMonth).map(
+    (row, index) => {
+      cumulativeInterest += row.interest;
+      cumulativePrincipal += row.principal;
+      return {
+        month: index + 1,
+        date: row.month,
+        payment: row.payment,
+        principal: row.principal,
+        interest: row.interest,
+        balance: row.balance,
+        cumulativeInterest,
+        cumulativePrincipal,
+      };
+    }
+  );
 
   const lastRow = schedule[schedule.length - 1];
   const payoffDate = lastRow ? lastRow.date : startDate;
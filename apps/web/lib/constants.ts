@@ -20,6 +20,29 @@ export const DEFAULT_ASSUMPTIONS = {
   retirementWithdrawalRate: 0.04,
 } as const;
 
+/**
+ * Default tax profile for scenarios without one. These are the values
+ * projections used before tax profiles could be saved, so existing
+ * scenarios keep their results.
+ */
+export const DEFAULT_TAX_PROFILE = {
+  filingStatus: "MFJ",
+  state: "CA",
+  taxYear: new Date().getFullYear(),
+  includePayrollTaxes: true,
+} as const;
+
+/**
+ * Yields the engine taxes on taxable brokerage accounts each year. These
+ * are fixed for every scenario rather than part of its assumptions.
+ */
+export const TAXABLE_ACCOUNT_YIELDS = {
+  taxableInterestYieldPct: 0.5,
+  taxableDividendYieldPct: 2.0,
+  realizedStGainPct: 0.0,
+  realizedLtGainPct: 5.0,
+} as const;
+
 /** Default estimated tax rate for projections */
 export const DEFAULT_TAX_RATE = 0.25;
 
@@ -10,27 +10,38 @@ interface CSVParseResult {
 
 const MAX_CSV_SIZE = 10 * 1024 * 1024; // 10MB
 
+interface CSVParseOptions {
+  /** Zero-based index of the header row among non-empty lines (default 0) */
+  headerRow?: number;
+}
+
 /**
  * Parse CSV text into structured data.
+ * Lines above the header row (account details some banks put first) are skipped.
  */
-export function parseCSV(text: string): CSVParseResult {
+export function parseCSV(text: string, options: CSVParseOptions = {}): CSVParseResult {
   if (text.length > MAX_CSV_SIZE) {
     return { headers: [], rows: [], errors: ["File exceeds maximum size of 10MB"] };
   }
 
   const errors: string[] = [];
   const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  const headerRow = options.headerRow ?? 0;
 
   if (lines.length === 0) {
     return { headers: [], rows: [], errors: ["Empty CSV file"] };
   }
 
+  if (headerRow >= lines.length) {
+    return { headers: [], rows: [], errors: [`Header row ${headerRow + 1} is past the end of the file`] };
+  }
+
   // Parse headers
-  const headers = parseCSVLine(lines[0]);
+  const headers = parseCSVLine(lines[headerRow]);
 
   // Parse data rows
   const rows: string[][] = [];
-  for (let i = 1; i < lines.length; i++) {
+  for (let i = headerRow + 1; i < lines.length; i++) {
     try {
       const row = parseCSVLine(lines[i]);
       if (row.length !== headers.length) {
@@ -48,6 +59,18 @@ export function parseCSV(text: string): CSVParseResult {
   return { headers, rows, errors };
 }
 
+/**
+ * Split CSV text into cells for its first non-empty lines, without treating
+ * any line as the header. Used to find the header row.
+ */
+export function previewCSVRows(text: string, maxRows: number): string[][] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .slice(0, maxRows)
+    .map(parseCSVLine);
+}
+
 /**
  * Parse a single CSV line, handling quoted values.
  */
@@ -211,6 +234,16 @@ export const LOAN_FIELD_PATTERNS = [
   { field: "hoaName", patterns: ["hoa name", "association name", "hoa"] },
 ];
 
+export const TRANSACTION_FIELD_PATTERNS = [
+  { field: "date", patterns: ["posting date", "post date", "transaction date", "trans date", "date"] },
+  { field: "payee", patterns: ["payee", "description", "merchant", "name", "details"] },
+  { field: "amount", patterns: ["amount", "transaction amount", "value"] },
+  { field: "debit", patterns: ["debit", "withdrawal", "withdrawals", "money out", "paid out"] },
+  { field: "credit", patterns: ["credit", "deposit", "deposits", "money in", "paid in"] },
+  { field: "category", patterns: ["category"] },
+  { field: "memo", patterns: ["memo", "notes", "reference"] },
+];
+
 /**
  * Parse common value formats.
  */
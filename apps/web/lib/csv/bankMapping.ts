@@ -0,0 +1,141 @@
+/**
+ * Helpers for mapping bank-exported CSVs: header-row detection, header
+ * fingerprints for matching saved presets, date-format detection and
+ * amount sign conventions.
+ */
+
+/** Order of the day, month and year parts in a date column */
+export type DateFormat = "YMD" | "MDY" | "DMY";
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  YMD: "YYYY-MM-DD",
+  MDY: "MM/DD/YYYY",
+  DMY: "DD/MM/YYYY",
+};
+
+/**
+ * How a bank CSV represents money in and out:
+ * - NEGATIVE_OUTFLOW: one amount column, spending is negative (most banks)
+ * - POSITIVE_OUTFLOW: one amount column, spending is positive (many card issuers)
+ * - DEBIT_CREDIT: separate debit (out) and credit (in) columns
+ */
+export type SignConvention = "NEGATIVE_OUTFLOW" | "POSITIVE_OUTFLOW" | "DEBIT_CREDIT";
+
+export const SIGN_CONVENTION_LABELS: Record<SignConvention, string> = {
+  NEGATIVE_OUTFLOW: "One amount column, spending is negative",
+  POSITIVE_OUTFLOW: "One amount column, spending is positive",
+  DEBIT_CREDIT: "Separate debit and credit columns",
+};
+
+/** Number of leading rows searched for the header row */
+const HEADER_SEARCH_ROWS = 10;
+
+/**
+ * Build a fingerprint of a CSV's header row. Headers are normalized the way
+ * autoDetectMapping compares them, so case and punctuation do not matter.
+ */
+export function buildHeaderFingerprint(headers: string[]): string {
+  return headers.map((h) => h.toLowerCase().replace(/[^a-z0-9]/g, "")).join("|");
+}
+
+/**
+ * Guess which row holds the headers when a bank puts account details above
+ * them. The header is taken as the first row that is as wide as the data
+ * below it and has no numeric cells.
+ *
+ * @param rows - Non-empty rows of the file, already split into cells
+ * @returns Zero-based index of the header row
+ */
+export function detectHeaderRow(rows: string[][]): number {
+  if (rows.length < 2) return 0;
+
+  // Width of the data: the most common column count among later rows
+  const counts = new Map<number, number>();
+  for (const row of rows.slice(1)) {
+    counts.set(row.length, (counts.get(row.length) ?? 0) + 1);
+  }
+  const width = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0][0];
+
+  const limit = Math.min(HEADER_SEARCH_ROWS, rows.length - 1);
+  for (let i = 0; i < limit; i++) {
+    const row = rows[i];
+    const nonEmpty = row.filter((cell) => cell.trim() !== "");
+    const isText = nonEmpty.every((cell) => isNaN(Number(cell.replace(/[$,\s]/g, ""))));
+    if (row.length === width && nonEmpty.length === width && isText) {
+      return i;
+    }
+  }
+  return 0;
+}
+
+const DATE_PARTS = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/;
+
+function toISODate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += year < 70 ? 2000 : 1900;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Parse a date in a known part order. Any of "-", "/" or "." may separate
+ * the parts, two-digit years are accepted and a trailing time is ignored.
+ *
+ * @returns YYYY-MM-DD, or null if the value is not a valid date
+ */
+export function parseDateWithFormat(value: string, format: DateFormat): string | null {
+  const match = value.trim().match(DATE_PARTS);
+  if (!match) return null;
+  const [a, b, c] = [match[1], match[2], match[3]];
+
+  switch (format) {
+    case "YMD":
+      return a.length === 4 ? toISODate(Number(a), Number(b), Number(c)) : null;
+    case "MDY":
+      return a.length <= 2 ? toISODate(Number(c), Number(a), Number(b)) : null;
+    case "DMY":
+      return a.length <= 2 ? toISODate(Number(c), Number(b), Number(a)) : null;
+  }
+}
+
+/**
+ * Detect a date column's format from sample values: the first format that
+ * parses every non-empty sample wins, trying year-first, then US
+ * month-first, then day-first.
+ *
+ * @returns The detected format, or null if none fits
+ */
+export function detectDateFormat(samples: string[]): DateFormat | null {
+  const values = samples.map((s) => s.trim()).filter(Boolean);
+  if (values.length === 0) return null;
+
+  const formats: DateFormat[] = ["YMD", "MDY", "DMY"];
+  return formats.find((format) => values.every((v) => parseDateWithFormat(v, format) !== null)) ?? null;
+}
+
+/**
+ * Get a signed transaction amount (negative for money out) from a row's
+ * amount cells under a sign convention.
+ *
+ * @param parse - Amount parser for a cell, such as parseAmount
+ * @returns Signed amount, or null if no amount is present
+ */
+export function getSignedAmount(
+  cells: { amount?: string; debit?: string; credit?: string },
+  convention: SignConvention,
+  parse: (value: string) => number | null
+): number | null {
+  if (convention === "DEBIT_CREDIT") {
+    const debit = cells.debit ? parse(cells.debit) : null;
+    const credit = cells.credit ? parse(cells.credit) : null;
+    if (debit === null && credit === null) return null;
+    // Some banks write debits as negatives; either way they are outflows
+    return Math.abs(credit ?? 0) - Math.abs(debit ?? 0);
+  }
+
+  const amount = cells.amount ? parse(cells.amount) : null;
+  if (amount === null) return null;
+  return convention === "POSITIVE_OUTFLOW" ? -amount : amount;
+}
@@ -0,0 +1,208 @@
+/**
+ * Fuzzy duplicate detection for CSV imports of incomes, expenses and loans.
+ * Incoming rows are scored against the scenario's existing records by name
+ * similarity, amount and start date; the scope (household member, expense
+ * category or loan type) must agree when both sides have one.
+ */
+
+/** What to do with an incoming row that matches an existing record */
+export type DuplicateAction = "skip" | "merge" | "keep";
+
+export const DUPLICATE_ACTION_LABELS: Record<DuplicateAction, string> = {
+  skip: "Skip",
+  merge: "Merge into existing",
+  keep: "Keep both",
+};
+
+/** A record reduced to the fields compared for duplicates */
+export interface DedupeRecord {
+  name: string;
+  amount: number | null;
+  /** YYYY-MM-DD */
+  startDate: string | null;
+  /** Member, category or loan type; null matches anything */
+  scope: string | null;
+}
+
+export interface ExistingRecord extends DedupeRecord {
+  id: string;
+}
+
+export interface DuplicateMatch {
+  /** Index of the incoming row */
+  row: number;
+  existingId: string;
+  existingName: string;
+  /** Weighted overall score, 0-1 */
+  score: number;
+  scores: { name: number; amount: number | null; date: number | null };
+}
+
+export interface DedupeOptions {
+  /** Minimum overall score to flag a row (default 0.75) */
+  threshold?: number;
+  /** Start dates further apart than this never match (default 45 days) */
+  dateWindowDays?: number;
+  /** Relative amount difference at which the amount score reaches 0 (default 0.1) */
+  amountTolerance?: number;
+}
+
+const DEFAULT_THRESHOLD = 0.75;
+const DEFAULT_DATE_WINDOW_DAYS = 45;
+const DEFAULT_AMOUNT_TOLERANCE = 0.1;
+
+/** Score weights; missing amounts or dates drop out and the rest are rescaled */
+const WEIGHTS = { name: 0.5, amount: 0.3, date: 0.2 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function normalizeName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function bigrams(value: string): string[] {
+  const grams: string[] = [];
+  for (const word of value.split(" ")) {
+    const padded = ` ${word} `;
+    for (let i = 0; i < padded.length - 1; i++) {
+      grams.push(padded.slice(i, i + 2));
+    }
+  }
+  return grams;
+}
+
+/**
+ * Name similarity from 0 to 1: the Dice coefficient of the names' character
+ * bigrams after case and punctuation are removed, so "Acme Corp. Salary" and
+ * "ACME Corp Salary" score 1 and word order matters little.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const counts = new Map<string, number>();
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  for (const gram of leftGrams) {
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+
+  let shared = 0;
+  for (const gram of rightGrams) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * shared) / (leftGrams.length + rightGrams.length);
+}
+
+/**
+ * Amount similarity from 0 to 1, falling linearly with the relative
+ * difference until it reaches the tolerance.
+ */
+export function amountSimilarity(a: number, b: number, tolerance = DEFAULT_AMOUNT_TOLERANCE): number {
+  const largest = Math.max(Math.abs(a), Math.abs(b));
+  if (largest === 0) return 1;
+  const difference = Math.abs(a - b) / largest;
+  return Math.max(0, 1 - difference / tolerance);
+}
+
+/**
+ * Date similarity from 0 to 1, falling linearly across the window.
+ *
+ * @returns Similarity, or null if the dates are further apart than the window
+ */
+export function dateSimilarity(a: string, b: string, windowDays = DEFAULT_DATE_WINDOW_DAYS): number | null {
+  const days = Math.abs(Date.parse(a) - Date.parse(b)) / DAY_MS;
+  if (isNaN(days) || days > windowDays) return null;
+  return windowDays === 0 ? 1 : 1 - days / windowDays;
+}
+
+/**
+ * Score an incoming row against an existing record.
+ *
+ * @returns The match details, or null if the scope or date rules it out
+ */
+export function scoreDuplicate(
+  incoming: DedupeRecord,
+  existing: DedupeRecord,
+  options: DedupeOptions = {}
+): Omit<DuplicateMatch, "row" | "existingId" | "existingName"> | null {
+  if (incoming.scope && existing.scope && incoming.scope.toLowerCase() !== existing.scope.toLowerCase()) {
+    return null;
+  }
+
+  const name = nameSimilarity(incoming.name, existing.name);
+  const amount =
+    incoming.amount !== null && existing.amount !== null
+      ? amountSimilarity(incoming.amount, existing.amount, options.amountTolerance)
+      : null;
+
+  let date: number | null = null;
+  if (incoming.startDate && existing.startDate) {
+    date = dateSimilarity(incoming.startDate, existing.startDate, options.dateWindowDays);
+    if (date === null) return null;
+  }
+
+  let total = WEIGHTS.name * name;
+  let weight = WEIGHTS.name;
+  if (amount !== null) {
+    total += WEIGHTS.amount * amount;
+    weight += WEIGHTS.amount;
+  }
+  if (date !== null) {
+    total += WEIGHTS.date * date;
+    weight += WEIGHTS.date;
+  }
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    score: round(total / weight),
+    scores: { name: round(name), amount: amount === null ? null : round(amount), date: date === null ? null : round(date) },
+  };
+}
+
+/**
+ * Find incoming rows that duplicate existing records. Each existing record is
+ * matched to at most one row, taking the highest-scoring pairs first, so a
+ * file with two similar rows flags only one of them against a single record.
+ *
+ * @returns Matches ordered by row
+ */
+export function findDuplicates(
+  rows: DedupeRecord[],
+  existing: ExistingRecord[],
+  options: DedupeOptions = {}
+): DuplicateMatch[] {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+
+  const candidates: DuplicateMatch[] = [];
+  rows.forEach((row, index) => {
+    for (const record of existing) {
+      const result = scoreDuplicate(row, record, options);
+      if (result && result.score >= threshold) {
+        candidates.push({ row: index, existingId: record.id, existingName: record.name, ...result });
+      }
+    }
+  });
+  candidates.sort((a, b) => b.score - a.score || a.row - b.row);
+
+  const matchedRows = new Set<number>();
+  const matchedRecords = new Set<string>();
+  const matches: DuplicateMatch[] = [];
+  for (const candidate of candidates) {
+    if (matchedRows.has(candidate.row) || matchedRecords.has(candidate.existingId)) continue;
+    matchedRows.add(candidate.row);
+    matchedRecords.add(candidate.existingId);
+    matches.push(candidate);
+  }
+
+  return matches.sort((a, b) => a.row - b.row);
+}
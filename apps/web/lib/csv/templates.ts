@@ -1,4 +1,4 @@
-type ImportType = "income" | "expense" | "account" | "loan";
+type ImportType = "income" | "expense" | "account" | "loan" | "transaction";
 
 const TEMPLATES: Record<ImportType, { headers: string[]; rows: string[][] }> = {
   income: {
@@ -40,6 +40,14 @@ const TEMPLATES: Record<ImportType, { headers: string[]; rows: string[][] }> = {
       ["Student Loan", "35000", "4.5", "350", "120", "2020-09-01"],
     ],
   },
+  transaction: {
+    headers: ["date", "payee", "amount", "category", "memo"],
+    rows: [
+      ["2024-01-03", "Whole Foods", "-84.12", "Food", ""],
+      ["2024-01-05", "City Electric", "-112.40", "Utilities", "January bill"],
+      ["2024-01-15", "Payroll", "3200.00", "Income", ""],
+    ],
+  },
 };
 
 export function generateTemplate(type: ImportType): string {
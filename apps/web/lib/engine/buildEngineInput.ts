@@ -1,4 +1,50 @@
-import type { ScenarioInputDTO } from "@finatlas/engine/src/types";
+import type {
+  AccountType,
+  ContributionPlan,
+  ContributionRuleDTO,
+  FilingStatus,
+  IncomeType,
+  LoanType,
+  RealAssetDTO,
+  RealAssetType,
+  ScenarioInputDTO,
+} from "@finatlas/engine/src/types";
+import {
+  DEFAULT_ASSUMPTIONS,
+  DEFAULT_TAX_PROFILE,
+  FREQUENCY_MULTIPLIERS,
+  TAXABLE_ACCOUNT_YIELDS,
+} from "@/lib/constants";
+import { mapLifeEventEffects } from "@/lib/engine/lifeEventEffects";
+
+/**
+ * Relations to load with a scenario for buildEngineInput.
+ */
+export const scenarioEngineInclude = {
+  assumptions: true,
+  taxProfile: true,
+  household: {
+    include: {
+      members: true,
+    },
+  },
+  incomes: {
+    include: {
+      member: true,
+    },
+  },
+  expenses: true,
+  accounts: {
+    include: {
+      holdings: true,
+      contributions: true,
+    },
+  },
+  loans: true,
+  realAssets: true,
+  lifeEvents: true,
+  goals: { include: { linkedAccounts: { select: { id: true } } } },
+} as const;
 
 /**
  * Map database growth rule to engine growth rule.
@@ -16,17 +62,193 @@ export function mapGrowthRule(rule: string): "NONE" | "TRACK_INFLATION" | "CUSTO
   }
 }
 
+/**
+ * Map database account type to the engine's tax treatment.
+ */
+export function mapAccountType(type: string): AccountType {
+  switch (type) {
+    case "TRADITIONAL_401K":
+    case "TRADITIONAL_IRA":
+    case "HSA":
+      return "TRADITIONAL";
+    case "ROTH_401K":
+    case "ROTH_IRA":
+      return "ROTH";
+    default:
+      return "TAXABLE";
+  }
+}
+
+/**
+ * Map database income type to the engine's income type.
+ */
+export function mapIncomeType(type: string | undefined): IncomeType {
+  switch (type) {
+    case "SOCIAL_SECURITY":
+    case "PENSION":
+      return type;
+    default:
+      return "EARNED";
+  }
+}
+
+/**
+ * Map database loan type to the engine's loan type.
+ */
+export function mapLoanType(type: string): LoanType {
+  switch (type) {
+    case "MORTGAGE":
+    case "HELOC":
+    case "AUTO":
+    case "STUDENT":
+    case "PERSONAL":
+      return type;
+    default:
+      return "OTHER";
+  }
+}
+
+/**
+ * Map database account type to the plan whose IRS contribution limit applies.
+ */
+export function mapContributionPlan(type: string): ContributionPlan | undefined {
+  switch (type) {
+    case "TRADITIONAL_401K":
+    case "ROTH_401K":
+      return "401K";
+    case "TRADITIONAL_IRA":
+    case "ROTH_IRA":
+      return "IRA";
+    case "HSA":
+      return "HSA";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Map a database contribution to an engine contribution rule.
+ * One-time contributions are deposited in full in their start month.
+ */
+export function mapContribution(
+  accountId: string,
+  contribution: {
+    amount: number;
+    frequency: string;
+    startDate: Date;
+    endDate: Date | null;
+    employerMatch: number | null;
+    employerMatchLimit: number | null;
+  }
+): ContributionRuleDTO {
+  const startDate = contribution.startDate.toISOString().split("T")[0];
+  const oneTime = contribution.frequency === "ONE_TIME";
+  const periodsPerYear = FREQUENCY_MULTIPLIERS[contribution.frequency] ?? 1;
+
+  return {
+    accountId,
+    amountMonthly: oneTime
+      ? contribution.amount
+      : Math.round(((contribution.amount * periodsPerYear) / 12) * 100) / 100,
+    startDate,
+    endDate: oneTime
+      ? startDate
+      : contribution.endDate
+        ? contribution.endDate.toISOString().split("T")[0]
+        : undefined,
+    employerMatchPct: contribution.employerMatch ?? undefined,
+    employerMatchLimitAnnual: contribution.employerMatchLimit ?? undefined,
+  };
+}
+
+/**
+ * Map database real assets to engine real assets. Loans with a property
+ * value and no real asset of their own are treated as a home financed by
+ * that loan, so mortgages carry the home's equity rather than only debt.
+ */
+export function mapRealAssets(
+  realAssets: Array<{
+    id: string;
+    name: string;
+    type: string;
+    value: number;
+    purchaseDate: Date;
+    appreciationRate: number | null;
+    annualCarryingCost: number | null;
+    loanId: string | null;
+  }>,
+  loans: Array<{
+    id: string;
+    name: string;
+    startDate: Date;
+    propertyValue?: number | null;
+  }>
+): RealAssetDTO[] {
+  const linkedLoanIds = new Set(realAssets.map((asset) => asset.loanId));
+
+  const assets: RealAssetDTO[] = realAssets.map((asset) => ({
+    id: asset.id,
+    type: asset.type as RealAssetType,
+    name: asset.name,
+    value: asset.value,
+    purchaseDate: asset.purchaseDate.toISOString().split("T")[0],
+    appreciationPct: asset.appreciationRate !== null ? asset.appreciationRate * 100 : undefined,
+    carryingCostMonthly:
+      asset.annualCarryingCost !== null
+        ? Math.round((asset.annualCarryingCost / 12) * 100) / 100
+        : undefined,
+    linkedLoanId: asset.loanId ?? undefined,
+  }));
+
+  for (const loan of loans) {
+    if (!loan.propertyValue || linkedLoanIds.has(loan.id)) {
+      continue;
+    }
+    // Property tax and insurance are entered as expenses, so no carrying cost here
+    assets.push({
+      id: loan.id,
+      type: "HOME",
+      name: loan.name,
+      value: loan.propertyValue,
+      purchaseDate: loan.startDate.toISOString().split("T")[0],
+      linkedLoanId: loan.id,
+    });
+  }
+
+  return assets;
+}
+
 /**
  * Build engine input DTO from a Prisma scenario with includes.
  * Used by both the deterministic projections route and Monte Carlo route.
+ * Scenarios without saved assumptions or a tax profile use the defaults.
  */
 export function buildEngineInput(scenario: {
   id: string;
+  assumptions: {
+    projectionYears: number;
+    inflationRate: number;
+    defaultGrowthRate: number;
+  } | null;
+  taxProfile: {
+    filingStatus: string;
+    state: string | null;
+    taxYear: number;
+    includePayrollTaxes: boolean;
+    advancedOverridesEnabled: boolean;
+  } | null;
   household: {
-    members: Array<{ id: string; name: string }>;
+    members: Array<{
+      id: string;
+      name: string;
+      birthDate: Date | null;
+      sex?: string | null;
+      lifeExpectancy?: number | null;
+    }>;
   };
   incomes: Array<{
     id: string;
+    memberId?: string | null;
     member?: { name: string } | null;
     name: string;
     amount: number;
@@ -35,6 +257,9 @@ export function buildEngineInput(scenario: {
     endDate: Date | null;
     growthRule: string;
     growthRate: number | null;
+    type?: string;
+    claimingAge?: number | null;
+    survivorRate?: number | null;
   }>;
   expenses: Array<{
     id: string;
@@ -50,49 +275,98 @@ export function buildEngineInput(scenario: {
   accounts: Array<{
     id: string;
     name: string;
+    type: string;
+    growthRate: number | null;
+    memberId: string | null;
     holdings: Array<{
       symbol: string;
       shares: number;
       costBasis: number | null;
     }>;
+    contributions: Array<{
+      amount: number;
+      frequency: string;
+      startDate: Date;
+      endDate: Date | null;
+      employerMatch: number | null;
+      employerMatchLimit: number | null;
+    }>;
   }>;
   loans: Array<{
     id: string;
     name: string;
+    type: string;
     principal: number;
     interestRate: number;
     termMonths: number;
     startDate: Date;
     monthlyPayment: number;
+    propertyValue?: number | null;
+  }>;
+  realAssets?: Array<{
+    id: string;
+    name: string;
+    type: string;
+    value: number;
+    purchaseDate: Date;
+    appreciationRate: number | null;
+    annualCarryingCost: number | null;
+    loanId: string | null;
+  }>;
+  lifeEvents?: Array<{
+    id: string;
+    name: string;
+    targetDate: Date;
+    effects: string | null;
   }>;
   goals: Array<{
     id: string;
     name: string;
     targetAmount: number;
     targetDate: Date | null;
+    earmarkPct: number | null;
+    linkedAccounts: Array<{ id: string }>;
   }>;
 }): ScenarioInputDTO {
+  const assumptions = scenario.assumptions ?? DEFAULT_ASSUMPTIONS;
+  const taxProfile = scenario.taxProfile;
+  const today = new Date();
+  const memberBirthDates = new Set(
+    scenario.household.members.filter((member) => member.birthDate).map((member) => member.id)
+  );
+  const realAssets = mapRealAssets(
+    scenario.realAssets ?? [],
+    scenario.loans.filter((loan) => loan.startDate !== null)
+  );
+
   return {
     scenarioId: scenario.id,
     household: {
       currency: "USD",
-      anchorDate: new Date().toISOString().split("T")[0],
-      startDate: new Date().toISOString().split("T")[0],
-      endDate: new Date(new Date().getFullYear() + 20, 11, 31).toISOString().split("T")[0],
+      anchorDate: today.toISOString().split("T")[0],
+      startDate: today.toISOString().split("T")[0],
+      endDate: new Date(today.getFullYear() + assumptions.projectionYears, 11, 31)
+        .toISOString()
+        .split("T")[0],
     },
+    members: scenario.household.members.map((member) => ({
+      id: member.id,
+      name: member.name,
+      birthDate: member.birthDate ? member.birthDate.toISOString().split("T")[0] : undefined,
+      sex: member.sex === "MALE" || member.sex === "FEMALE" ? member.sex : undefined,
+      lifeExpectancy: member.lifeExpectancy ?? undefined,
+    })),
     assumptions: {
-      inflationRatePct: 2.5,
-      taxableInterestYieldPct: 0.5,
-      taxableDividendYieldPct: 2.0,
-      realizedStGainPct: 0.0,
-      realizedLtGainPct: 5.0,
+      inflationRatePct: assumptions.inflationRate * 100,
+      ...TAXABLE_ACCOUNT_YIELDS,
     },
     taxProfile: {
-      stateCode: "CA",
-      filingStatus: "MFJ",
-      taxYear: new Date().getFullYear(),
-      includePayrollTaxes: true,
-      advancedOverridesEnabled: false,
+      // A saved profile with no state uses the engine's average state rate
+      stateCode: (taxProfile ? taxProfile.state : DEFAULT_TAX_PROFILE.state) ?? "",
+      filingStatus: (taxProfile?.filingStatus ?? DEFAULT_TAX_PROFILE.filingStatus) as FilingStatus,
+      taxYear: taxProfile?.taxYear ?? DEFAULT_TAX_PROFILE.taxYear,
+      includePayrollTaxes: taxProfile?.includePayrollTaxes ?? DEFAULT_TAX_PROFILE.includePayrollTaxes,
+      advancedOverridesEnabled: taxProfile?.advancedOverridesEnabled ?? false,
     },
     taxRules: {
       federal: null,
@@ -100,8 +374,15 @@ export function buildEngineInput(scenario: {
     },
     incomes: scenario.incomes
       .filter((income) => income.startDate !== null)
+      // Social Security claiming ages need the member's birth date
+      .filter(
+        (income) =>
+          mapIncomeType(income.type) !== "SOCIAL_SECURITY" ||
+          (!!income.memberId && memberBirthDates.has(income.memberId))
+      )
       .map((income) => ({
         id: income.id,
+        memberId: income.memberId ?? undefined,
         memberName: income.member?.name,
         name: income.name,
         amount: income.amount,
@@ -110,6 +391,15 @@ export function buildEngineInput(scenario: {
         endDate: income.endDate ? income.endDate.toISOString().split("T")[0] : undefined,
         growthRule: mapGrowthRule(income.growthRule),
         growthPct: income.growthRate ? income.growthRate * 100 : undefined,
+        type: mapIncomeType(income.type),
+        socialSecurity:
+          mapIncomeType(income.type) === "SOCIAL_SECURITY"
+            ? { claimingAge: income.claimingAge ?? 67 }
+            : undefined,
+        pension:
+          mapIncomeType(income.type) === "PENSION"
+            ? { survivorPct: (income.survivorRate ?? 0) * 100 }
+            : undefined,
       })),
     expenses: scenario.expenses
       .filter((expense) => expense.startDate !== null)
@@ -128,8 +418,10 @@ export function buildEngineInput(scenario: {
     accounts: scenario.accounts.map((account) => ({
       id: account.id,
       name: account.name,
-      type: "TAXABLE" as const,
-      expectedReturnPct: 7.0,
+      type: mapAccountType(account.type),
+      expectedReturnPct: (account.growthRate ?? assumptions.defaultGrowthRate) * 100,
+      memberId: account.memberId ?? undefined,
+      plan: mapContributionPlan(account.type),
       holdings: account.holdings.map((holding) => ({
         ticker: holding.symbol,
         shares: holding.shares,
@@ -138,12 +430,14 @@ export function buildEngineInput(scenario: {
         asOfDate: undefined,
       })),
     })),
-    contributions: [],
+    contributions: scenario.accounts.flatMap((account) =>
+      account.contributions.map((contribution) => mapContribution(account.id, contribution))
+    ),
     loans: scenario.loans
       .filter((loan) => loan.startDate !== null)
       .map((loan) => ({
         id: loan.id,
-        type: "OTHER" as const,
+        type: mapLoanType(loan.type),
         name: loan.name,
         principal: loan.principal,
         aprPct: loan.interestRate,
@@ -152,6 +446,16 @@ export function buildEngineInput(scenario: {
         paymentOverrideMonthly: loan.monthlyPayment ?? undefined,
         extraPaymentMonthly: undefined,
       })),
+    realAssets,
+    events: mapLifeEventEffects(
+      scenario.lifeEvents ?? [],
+      new Set([
+        ...scenario.loans.map((loan) => loan.id),
+        ...scenario.accounts.map((account) => account.id),
+        ...scenario.incomes.map((income) => income.id),
+        ...realAssets.map((asset) => asset.id),
+      ])
+    ),
     goals: scenario.goals
       .filter((goal) => goal.targetDate !== null)
       .map((goal) => ({
@@ -161,6 +465,8 @@ export function buildEngineInput(scenario: {
         targetAmountReal: goal.targetAmount,
         targetDate: goal.targetDate!.toISOString().split("T")[0],
         priority: 2 as const,
+        linkedAccountIds: goal.linkedAccounts.map((account) => account.id),
+        earmarkPct: goal.earmarkPct ?? undefined,
       })),
   };
 }
@@ -0,0 +1,138 @@
+import { z } from "zod";
+import type { ScenarioEventDTO } from "@finatlas/engine/src/types";
+
+/**
+ * Financial effects a life event can attach. Each becomes a scheduled
+ * engine event on the life event's target date.
+ */
+export const lifeEventEffectSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("LUMP_SUM"),
+    amount: z.number(),
+  }),
+  z.object({
+    type: z.literal("LOAN_PAYOFF"),
+    loanId: z.string().min(1),
+    fromAccountId: z.string().min(1).optional(),
+  }),
+  z.object({
+    type: z.literal("ACCOUNT_TRANSFER"),
+    fromAccountId: z.string().min(1),
+    toAccountId: z.string().min(1),
+    amount: z.number().positive(),
+  }),
+  z.object({
+    type: z.literal("ASSET_SALE"),
+    assetId: z.string().min(1),
+    sellingCostPct: z.number().min(0).max(100).optional(),
+    depositAccountId: z.string().min(1).optional(),
+  }),
+  z.object({
+    type: z.literal("INCOME_CHANGE"),
+    incomeId: z.string().min(1),
+    action: z.enum(["STOP", "START"]),
+  }),
+]);
+
+export type LifeEventEffect = z.infer<typeof lifeEventEffectSchema>;
+
+/**
+ * Parse a life event's stored effects. Missing or malformed JSON yields
+ * no effects rather than failing the projection.
+ */
+export function parseLifeEventEffects(effects: string | null): LifeEventEffect[] {
+  if (!effects) return [];
+  try {
+    const parsed = z.array(lifeEventEffectSchema).safeParse(JSON.parse(effects));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Replace a life event's stored effects JSON with the parsed effects
+ * for API responses.
+ */
+export function withParsedEffects<T extends { effects: string | null }>(
+  lifeEvent: T
+): Omit<T, "effects"> & { effects: LifeEventEffect[] } {
+  return { ...lifeEvent, effects: parseLifeEventEffects(lifeEvent.effects) };
+}
+
+/**
+ * Point a life event's effects at cloned records. IDs without a mapping
+ * are kept as-is.
+ */
+export function remapLifeEventEffects(
+  effects: LifeEventEffect[],
+  idMap: Map<string, string>
+): LifeEventEffect[] {
+  const remap = (id: string) => idMap.get(id) ?? id;
+  const remapOptional = (id: string | undefined) => (id ? remap(id) : undefined);
+
+  return effects.map((effect) => {
+    switch (effect.type) {
+      case "LOAN_PAYOFF":
+        return { ...effect, loanId: remap(effect.loanId), fromAccountId: remapOptional(effect.fromAccountId) };
+      case "ACCOUNT_TRANSFER":
+        return { ...effect, fromAccountId: remap(effect.fromAccountId), toAccountId: remap(effect.toAccountId) };
+      case "ASSET_SALE":
+        return { ...effect, assetId: remap(effect.assetId), depositAccountId: remapOptional(effect.depositAccountId) };
+      case "INCOME_CHANGE":
+        return { ...effect, incomeId: remap(effect.incomeId) };
+      default:
+        return effect;
+    }
+  });
+}
+
+/**
+ * IDs of the loans, accounts, assets and incomes an effect acts on.
+ */
+function getReferencedIds(effect: LifeEventEffect): string[] {
+  switch (effect.type) {
+    case "LOAN_PAYOFF":
+      return [effect.loanId, effect.fromAccountId].filter((id): id is string => !!id);
+    case "ACCOUNT_TRANSFER":
+      return [effect.fromAccountId, effect.toAccountId];
+    case "ASSET_SALE":
+      return [effect.assetId, effect.depositAccountId].filter((id): id is string => !!id);
+    case "INCOME_CHANGE":
+      return [effect.incomeId];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Map life events with attached effects to engine events. Effects that
+ * point at records deleted since they were attached are skipped.
+ *
+ * @param lifeEvents - Life events with their stored effects
+ * @param knownIds - IDs of the scenario's loans, accounts, real assets and incomes
+ */
+export function mapLifeEventEffects(
+  lifeEvents: Array<{
+    id: string;
+    name: string;
+    targetDate: Date;
+    effects: string | null;
+  }>,
+  knownIds: Set<string>
+): ScenarioEventDTO[] {
+  return lifeEvents.flatMap((lifeEvent) =>
+    parseLifeEventEffects(lifeEvent.effects).flatMap((effect, index) =>
+      getReferencedIds(effect).every((id) => knownIds.has(id))
+        ? [
+            {
+              ...effect,
+              id: `${lifeEvent.id}:${index}`,
+              name: lifeEvent.name,
+              date: lifeEvent.targetDate.toISOString().split("T")[0],
+            },
+          ]
+        : []
+    )
+  );
+}
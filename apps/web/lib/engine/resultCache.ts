@@ -0,0 +1,86 @@
+import { ENGINE_VERSION, getInputHash } from "@finatlas/engine";
+import type { ScenarioInputDTO } from "@finatlas/engine/src/types";
+import { prisma } from "@/lib/db/prisma";
+
+/** Engine run stored in the cache */
+export type EngineCacheKind = "PROJECTION" | "MONTE_CARLO";
+
+/** Response header reporting whether a result came from the cache */
+export const ENGINE_CACHE_HEADER = "X-Engine-Cache";
+
+/**
+ * Sort object keys recursively so equal configs serialize identically.
+ */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, v]) => v !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([k, v]) => [k, sortKeys(v)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Build the cache key for a run's options or simulation config.
+ * Keys are sorted and undefined values dropped, so key order never matters.
+ */
+export function buildConfigKey(config: object): string {
+  return JSON.stringify(sortKeys(config));
+}
+
+/**
+ * Return a cached engine result when the scenario's input hash, the engine
+ * version and the config all match; otherwise compute and store it.
+ */
+export async function getOrComputeEngineResult<T>(
+  scenarioId: string,
+  kind: EngineCacheKind,
+  input: ScenarioInputDTO,
+  config: object,
+  compute: () => T
+): Promise<{ result: T; hit: boolean }> {
+  const inputHash = getInputHash(input);
+  const configKey = buildConfigKey(config);
+  const where = { scenarioId_kind_configKey: { scenarioId, kind, configKey } };
+
+  const cached = await prisma.engineResultCache.findUnique({ where });
+  if (cached && cached.engineVersion === ENGINE_VERSION && cached.inputHash === inputHash) {
+    return { result: JSON.parse(cached.resultsJson) as T, hit: true };
+  }
+
+  const result = compute();
+  const data = { engineVersion: ENGINE_VERSION, inputHash, resultsJson: JSON.stringify(result) };
+  try {
+    await prisma.engineResultCache.upsert({
+      where,
+      create: { scenarioId, kind, configKey, ...data },
+      update: data,
+    });
+  } catch (error) {
+    // A failed write only costs a recompute next time
+    console.error("Failed to cache engine result:", error);
+  }
+
+  return { result, hit: false };
+}
+
+/**
+ * Drop cached results for a scenario after any of its data changes.
+ */
+export async function invalidateEngineCache(scenarioId: string): Promise<void> {
+  await prisma.engineResultCache.deleteMany({ where: { scenarioId } });
+}
+
+/**
+ * Drop cached results for every scenario in a household, for changes to
+ * household-level data such as members.
+ */
+export async function invalidateHouseholdEngineCache(householdId: string): Promise<void> {
+  await prisma.engineResultCache.deleteMany({ where: { scenario: { householdId } } });
+}
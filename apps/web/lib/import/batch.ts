@@ -0,0 +1,327 @@
+/**
+ * Import batches: every record an import creates is tagged with the id of
+ * its ImportLog, and every existing record it overwrites is recorded on the
+ * log with its previous values, so the whole batch can be listed and undone
+ * together.
+ */
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db/prisma";
+import { toMonthKey } from "@/lib/transactions/actuals";
+
+/** Kinds of record an import can create */
+export type ImportRecordType = "income" | "expense" | "account" | "loan" | "transaction";
+
+/** Kinds of existing record an import can overwrite */
+export type ImportOverwriteType = Exclude<ImportRecordType, "transaction">;
+
+export interface ImportBatchRecord {
+  type: ImportRecordType;
+  id: string;
+  name: string;
+  /** Created by the import, or an existing record it overwrote */
+  action: "created" | "updated";
+  /** Changed after the import created or overwrote it */
+  edited: boolean;
+}
+
+/**
+ * An existing record an import updated in place, such as a merged CSV row
+ * or a statement's account balance, with the values it overwrote.
+ */
+export interface ImportOverwrite {
+  type: ImportOverwriteType;
+  id: string;
+  name: string;
+  previous: Record<string, unknown>;
+  /** When the import last wrote to it (ISO) */
+  at: string;
+}
+
+export type UndoImportResult =
+  | { status: "empty" }
+  | { status: "edited"; edited: ImportBatchRecord[] }
+  | { status: "undone"; deleted: number; restored: number; months: string[] };
+
+/**
+ * Gap between a record's createdAt and updatedAt still treated as the
+ * create itself; both are stamped by the same insert, but not always to
+ * the same millisecond.
+ */
+const EDIT_TOLERANCE_MS = 1000;
+
+/** Fields stored as dates, revived from their JSON strings on restore */
+const DATE_FIELDS = new Set(["startDate", "endDate"]);
+
+/**
+ * Whether a record has been updated since it was created.
+ */
+export function isEditedSinceImport(record: { createdAt: Date; updatedAt: Date }): boolean {
+  return new Date(record.updatedAt).getTime() - new Date(record.createdAt).getTime() > EDIT_TOLERANCE_MS;
+}
+
+/**
+ * Whether an import can still tag new records: it must belong to the
+ * scenario and still be in progress.
+ */
+export async function isOpenImport(scenarioId: string, importLogId: string): Promise<boolean> {
+  const count = await prisma.importLog.count({
+    where: { id: importLogId, scenarioId, status: "pending" },
+  });
+  return count > 0;
+}
+
+/**
+ * Parse the overwrites recorded on an ImportLog.
+ */
+export function parseOverwrites(previousValues: string | null): ImportOverwrite[] {
+  return previousValues ? JSON.parse(previousValues) : [];
+}
+
+/**
+ * Record the values an import is about to overwrite on an existing record,
+ * so undo can restore them. A record overwritten twice keeps the values
+ * from before the first overwrite.
+ *
+ * @param client - Prisma client, or a transaction client
+ * @param existing - The record as it is before the write
+ * @param fields - Fields about to be written
+ */
+export async function recordOverwrite(
+  client: Prisma.TransactionClient,
+  importLogId: string,
+  type: ImportOverwriteType,
+  existing: { id: string; name: string } & Record<string, unknown>,
+  fields: string[]
+): Promise<void> {
+  const log = await client.importLog.findUnique({
+    where: { id: importLogId },
+    select: { previousValues: true },
+  });
+  const overwrites = parseOverwrites(log?.previousValues ?? null);
+
+  let overwrite = overwrites.find((o) => o.type === type && o.id === existing.id);
+  if (!overwrite) {
+    overwrite = { type, id: existing.id, name: existing.name, previous: {}, at: "" };
+    overwrites.push(overwrite);
+  }
+  for (const field of fields) {
+    if (!(field in overwrite.previous)) {
+      overwrite.previous[field] = existing[field] ?? null;
+    }
+  }
+  overwrite.at = new Date().toISOString();
+
+  await client.importLog.update({
+    where: { id: importLogId },
+    data: { previousValues: JSON.stringify(overwrites) },
+  });
+}
+
+/**
+ * Get when an overwritten record was last updated.
+ *
+ * @returns The record's updatedAt, or null if it no longer exists
+ */
+async function getUpdatedAt(
+  client: Prisma.TransactionClient,
+  { type, id }: ImportOverwrite
+): Promise<Date | null> {
+  const where = { id };
+  const select = { updatedAt: true };
+  let record: { updatedAt: Date } | null;
+  switch (type) {
+    case "income":
+      record = await client.income.findUnique({ where, select });
+      break;
+    case "expense":
+      record = await client.expense.findUnique({ where, select });
+      break;
+    case "account":
+      record = await client.account.findUnique({ where, select });
+      break;
+    case "loan":
+      record = await client.loan.findUnique({ where, select });
+      break;
+  }
+  return record?.updatedAt ?? null;
+}
+
+/**
+ * Put back the values an import overwrote.
+ */
+async function restoreOverwrite(
+  client: Prisma.TransactionClient,
+  { type, id, previous }: ImportOverwrite
+): Promise<void> {
+  const where = { id };
+  const data = Object.fromEntries(
+    Object.entries(previous).map(([field, value]) => [
+      field,
+      DATE_FIELDS.has(field) && typeof value === "string" ? new Date(value) : value,
+    ])
+  );
+  switch (type) {
+    case "income":
+      await client.income.update({ where, data });
+      break;
+    case "expense":
+      await client.expense.update({ where, data });
+      break;
+    case "account":
+      await client.account.update({ where, data });
+      break;
+    case "loan":
+      await client.loan.update({ where, data });
+      break;
+  }
+}
+
+/**
+ * List the records an import created or overwrote that still exist.
+ *
+ * @param client - Prisma client, or a transaction client
+ */
+export async function getImportBatch(
+  client: Prisma.TransactionClient,
+  scenarioId: string,
+  importLogId: string
+): Promise<ImportBatchRecord[]> {
+  const where = { scenarioId, importLogId };
+  const select = { id: true, name: true, createdAt: true, updatedAt: true };
+
+  const [incomes, expenses, accounts, loans, transactions] = await Promise.all([
+    client.income.findMany({ where, select }),
+    client.expense.findMany({ where, select }),
+    client.account.findMany({ where, select }),
+    client.loan.findMany({ where, select }),
+    client.transaction.findMany({
+      where,
+      select: { id: true, payee: true, createdAt: true, updatedAt: true },
+    }),
+  ]);
+
+  const records: ImportBatchRecord[] = [];
+  const add = (
+    type: ImportRecordType,
+    rows: { id: string; name: string; createdAt: Date; updatedAt: Date }[]
+  ) => {
+    for (const row of rows) {
+      records.push({ type, id: row.id, name: row.name, action: "created", edited: isEditedSinceImport(row) });
+    }
+  };
+  add("income", incomes);
+  add("expense", expenses);
+  add("account", accounts);
+  add("loan", loans);
+  for (const t of transactions) {
+    records.push({
+      type: "transaction",
+      id: t.id,
+      name: t.payee,
+      action: "created",
+      edited: isEditedSinceImport(t),
+    });
+  }
+
+  const log = await client.importLog.findUnique({
+    where: { id: importLogId },
+    select: { previousValues: true },
+  });
+  for (const overwrite of parseOverwrites(log?.previousValues ?? null)) {
+    const updatedAt = await getUpdatedAt(client, overwrite);
+    if (!updatedAt) continue;
+    records.push({
+      type: overwrite.type,
+      id: overwrite.id,
+      name: overwrite.name,
+      action: "updated",
+      edited: isEditedSinceImport({ createdAt: new Date(overwrite.at), updatedAt }),
+    });
+  }
+  return records;
+}
+
+/**
+ * Count each import's remaining created records and recorded overwrites.
+ *
+ * @returns Record counts by ImportLog id
+ */
+export async function countImportRecords(scenarioId: string): Promise<Map<string, number>> {
+  const where = { scenarioId, importLogId: { not: null } };
+  const select = { importLogId: true };
+
+  const tagged = await Promise.all([
+    prisma.income.findMany({ where, select }),
+    prisma.expense.findMany({ where, select }),
+    prisma.account.findMany({ where, select }),
+    prisma.loan.findMany({ where, select }),
+    prisma.transaction.findMany({ where, select }),
+  ]);
+
+  const counts = new Map<string, number>();
+  for (const { importLogId } of tagged.flat() as { importLogId: string }[]) {
+    counts.set(importLogId, (counts.get(importLogId) ?? 0) + 1);
+  }
+
+  const logs: { id: string; previousValues: string | null }[] = await prisma.importLog.findMany({
+    where: { scenarioId, previousValues: { not: null } },
+    select: { id: true, previousValues: true },
+  });
+  for (const log of logs) {
+    const overwrites = parseOverwrites(log.previousValues).length;
+    counts.set(log.id, (counts.get(log.id) ?? 0) + overwrites);
+  }
+  return counts;
+}
+
+/**
+ * Delete every record an import created, restore the values it overwrote on
+ * existing records and mark the import undone, all in one transaction.
+ * Records edited since the import are only deleted or restored when
+ * confirmEdited is set; otherwise nothing is changed and they are returned.
+ *
+ * @returns The outcome, with the months of deleted transactions so their
+ *   actual expenses can be rebuilt
+ */
+export async function undoImport(
+  scenarioId: string,
+  importLogId: string,
+  { confirmEdited = false }: { confirmEdited?: boolean } = {}
+): Promise<UndoImportResult> {
+  return prisma.$transaction(async (tx): Promise<UndoImportResult> => {
+    const records = await getImportBatch(tx, scenarioId, importLogId);
+    if (records.length === 0) {
+      return { status: "empty" };
+    }
+
+    const edited = records.filter((r) => r.edited);
+    if (edited.length > 0 && !confirmEdited) {
+      return { status: "edited", edited };
+    }
+
+    const log = await tx.importLog.findUnique({
+      where: { id: importLogId },
+      select: { previousValues: true },
+    });
+    const updated = new Set(records.filter((r) => r.action === "updated").map((r) => `${r.type}:${r.id}`));
+    const overwrites = parseOverwrites(log?.previousValues ?? null).filter((o) =>
+      updated.has(`${o.type}:${o.id}`)
+    );
+
+    const where = { scenarioId, importLogId };
+    const transactions: { date: Date }[] = await tx.transaction.findMany({ where, select: { date: true } });
+    const months = Array.from(new Set(transactions.map((t) => toMonthKey(t.date))));
+
+    await tx.transaction.deleteMany({ where });
+    await tx.income.deleteMany({ where });
+    await tx.expense.deleteMany({ where });
+    await tx.loan.deleteMany({ where });
+    await tx.account.deleteMany({ where });
+    for (const overwrite of overwrites) {
+      await restoreOverwrite(tx, overwrite);
+    }
+    await tx.importLog.update({ where: { id: importLogId }, data: { status: "undone" } });
+
+    return { status: "undone", deleted: records.length - overwrites.length, restored: overwrites.length, months };
+  });
+}
@@ -6,6 +6,16 @@
  * analysis, and total cost comparisons.
  */
 
+import {
+  addMonths,
+  calculateMonthlyPayment,
+  formatISO,
+  generateAmortizationSchedule as generateLoanSchedule,
+  getMonthKey,
+  parseISO,
+} from "@finatlas/engine";
+import type { LoanDTO } from "@finatlas/engine/src/types";
+
 export interface CurrentLoanTerms {
   name: string;
   currentBalance: number;
@@ -55,15 +65,13 @@ function calculatePMT(
   termMonths: number
 ): number {
   if (termMonths <= 0) return principal;
-  const monthlyRate = annualRatePercent / 100 / 12;
-  if (monthlyRate === 0) return principal / termMonths;
-  const factor = Math.pow(1 + monthlyRate, termMonths);
-  return principal * ((monthlyRate * factor) / (factor - 1));
+  return calculateMonthlyPayment(principal, annualRatePercent / 100, termMonths);
 }
 
 /**
- * Generate a month-by-month amortization schedule.
- * Stops when balance falls to <= 0.01 or maxMonths is reached.
+ * Generate a month-by-month amortization schedule from the engine's loan
+ * schedule, starting with this month's balance at month 0.
+ * Stops when the balance is paid off or maxMonths is reached.
  */
 function generateSchedule(
   balance: number,
@@ -71,37 +79,32 @@ function generateSchedule(
   monthlyPayment: number,
   maxMonths: number
 ): AmortizationPoint[] {
-  const monthlyRate = annualRatePercent / 100 / 12;
   const now = new Date();
-  const schedule: AmortizationPoint[] = [];
-  let remaining = balance;
+  const thisMonth = parseISO(
+    `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-01`
+  );
+  const firstPayment = formatISO(addMonths(thisMonth, 1));
+  const loan: LoanDTO = {
+    id: "refinance",
+    type: "OTHER",
+    name: "Refinance",
+    principal: balance,
+    aprPct: annualRatePercent,
+    termMonths: maxMonths,
+    startDate: firstPayment,
+    paymentOverrideMonthly: monthlyPayment,
+  };
+  const rows = generateLoanSchedule(
+    loan,
+    firstPayment,
+    formatISO(addMonths(thisMonth, maxMonths))
+  );
 
   // Record initial balance at month 0
-  const startYear = now.getFullYear();
-  const startMonth = now.getMonth(); // 0-indexed
-  schedule.push({
-    month: 0,
-    date: `${startYear}-${String(startMonth + 1).padStart(2, "0")}`,
-    balance: remaining,
-  });
-
-  for (let m = 1; m <= maxMonths; m++) {
-    const interest = remaining * monthlyRate;
-    const payment = Math.min(monthlyPayment, remaining + interest);
-    const principalPaid = payment - interest;
-    remaining = Math.max(0, remaining - principalPaid);
-
-    const d = new Date(startYear, startMonth + m);
-    schedule.push({
-      month: m,
-      date: `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`,
-      balance: remaining,
-    });
-
-    if (remaining <= 0.01) break;
-  }
-
-  return schedule;
+  return [
+    { month: 0, date: getMonthKey(thisMonth), balance },
+    ...rows.map((row, index) => ({ month: index + 1, date: row.month, balance: row.balance })),
+  ];
 }
 
 /**
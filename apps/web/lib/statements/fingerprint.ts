@@ -0,0 +1,22 @@
+/**
+ * Fingerprints for statement transactions that carry no bank identifier.
+ */
+
+/**
+ * Build a stable identifier from a transaction's date, amount and payee.
+ * Identical records within one file are numbered in order, so re-importing
+ * the same file yields the same identifiers.
+ *
+ * @param seen - Counts of fingerprints already issued for this file
+ */
+export function fingerprintTransaction(
+  date: string,
+  amount: number,
+  payee: string,
+  seen: Map<string, number>
+): string {
+  const base = `${date}|${amount.toFixed(2)}|${payee.trim().toLowerCase()}`;
+  const occurrence = (seen.get(base) ?? 0) + 1;
+  seen.set(base, occurrence);
+  return `${base}|${occurrence}`;
+}
@@ -0,0 +1,142 @@
+/**
+ * OFX / QFX statement parser.
+ * Handles both OFX 1.x (SGML, leaf elements left unclosed) and OFX 2.x (XML).
+ * Aggregates such as <STMTTRN> are closed in both, so blocks are found by
+ * their closing tags and leaf values read up to the next tag or line break.
+ */
+import type { StatementAccount, StatementParseResult, StatementTransaction } from "./types";
+import { fingerprintTransaction } from "./fingerprint";
+
+const MAX_STATEMENT_SIZE = 10 * 1024 * 1024; // 10MB
+
+const ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+  "&nbsp;": " ",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(amp|lt|gt|quot|apos|nbsp);/gi, (entity) => ENTITIES[entity.toLowerCase()]);
+}
+
+/**
+ * Get every block enclosed by an aggregate tag.
+ */
+function getBlocks(text: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "gi");
+  return Array.from(text.matchAll(pattern), (match) => match[1]);
+}
+
+/**
+ * Get a leaf element's value from a block.
+ */
+function getValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  if (!match) return null;
+  const value = decodeEntities(match[1]).trim();
+  return value || null;
+}
+
+/**
+ * Parse an OFX date (YYYYMMDD, optionally followed by time and zone) to
+ * YYYY-MM-DD.
+ */
+export function parseOFXDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (isNaN(date.getTime()) || date.getUTCDate() !== Number(day)) return null;
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse an OFX amount. The spec allows a comma as the decimal separator.
+ */
+export function parseOFXAmount(value: string | null): number | null {
+  if (!value) return null;
+  let cleaned = value.replace(/\s/g, "");
+  cleaned = cleaned.includes(".") ? cleaned.replace(/,/g, "") : cleaned.replace(",", ".");
+  const num = parseFloat(cleaned);
+  return isNaN(num) ? null : num;
+}
+
+function parseAccount(
+  block: string,
+  accountTag: "BANKACCTFROM" | "CCACCTFROM",
+  statementIndex: number,
+  errors: string[]
+): StatementAccount {
+  const accountBlock = getBlocks(block, accountTag)[0] ?? "";
+  const accountKey = getValue(accountBlock, "ACCTID") ?? `Account ${statementIndex + 1}`;
+  const accountType =
+    accountTag === "CCACCTFROM" ? "CREDITCARD" : getValue(accountBlock, "ACCTTYPE");
+
+  const ledger = getBlocks(block, "LEDGERBAL")[0] ?? "";
+  const balance = parseOFXAmount(getValue(ledger, "BALAMT"));
+  const balanceDate = parseOFXDate(getValue(ledger, "DTASOF"));
+
+  const transactions: StatementTransaction[] = [];
+  const seen = new Map<string, number>();
+
+  getBlocks(block, "STMTTRN").forEach((trn, i) => {
+    const label = `${accountKey}, transaction ${i + 1}`;
+    const date = parseOFXDate(getValue(trn, "DTPOSTED"));
+    const amount = parseOFXAmount(getValue(trn, "TRNAMT"));
+    if (!date) {
+      errors.push(`${label}: Invalid or missing date`);
+      return;
+    }
+    if (amount === null) {
+      errors.push(`${label}: Invalid or missing amount`);
+      return;
+    }
+
+    const payeeBlock = getBlocks(trn, "PAYEE")[0];
+    const payee =
+      getValue(trn, "NAME") ??
+      (payeeBlock ? getValue(payeeBlock, "NAME") : null) ??
+      getValue(trn, "MEMO") ??
+      getValue(trn, "TRNTYPE") ??
+      "Unknown";
+    const memo = getValue(trn, "MEMO");
+
+    transactions.push({
+      date,
+      payee,
+      amount,
+      memo: memo === payee ? null : memo,
+      category: null,
+      externalId: getValue(trn, "FITID") ?? fingerprintTransaction(date, amount, payee, seen),
+    });
+  });
+
+  return { accountKey, accountType, balance, balanceDate, transactions };
+}
+
+/**
+ * Parse an OFX or QFX file into its statement accounts.
+ */
+export function parseOFX(text: string): StatementParseResult {
+  if (text.length > MAX_STATEMENT_SIZE) {
+    return { format: "OFX", accounts: [], errors: ["File exceeds maximum size of 10MB"] };
+  }
+  if (!/<OFX>/i.test(text)) {
+    return { format: "OFX", accounts: [], errors: ["Not an OFX file"] };
+  }
+
+  const errors: string[] = [];
+  const accounts: StatementAccount[] = [
+    ...getBlocks(text, "STMTRS").map((block, i) => parseAccount(block, "BANKACCTFROM", i, errors)),
+    ...getBlocks(text, "CCSTMTRS").map((block, i) => parseAccount(block, "CCACCTFROM", i, errors)),
+  ];
+
+  if (accounts.length === 0) {
+    errors.push("No bank or credit card statements found");
+  }
+
+  return { format: "OFX", accounts, errors };
+}
@@ -0,0 +1,33 @@
+/**
+ * Entry point for bank statement files: picks the OFX or QIF parser by file
+ * extension, falling back to the file's content.
+ */
+import type { StatementFormat, StatementParseResult } from "./types";
+import { parseOFX } from "./ofx";
+import { parseQIF } from "./qif";
+
+/** File extensions accepted by the statement importer */
+export const STATEMENT_FILE_EXTENSIONS = [".ofx", ".qfx", ".qif"];
+
+/**
+ * Detect a statement's format from its name and content.
+ */
+export function detectStatementFormat(fileName: string, text: string): StatementFormat | null {
+  const extension = fileName.toLowerCase().slice(fileName.lastIndexOf("."));
+  if (extension === ".ofx" || extension === ".qfx") return "OFX";
+  if (extension === ".qif") return "QIF";
+
+  if (/OFXHEADER|<OFX>/i.test(text)) return "OFX";
+  if (/^\s*!(Type|Account)/im.test(text)) return "QIF";
+  return null;
+}
+
+/**
+ * Parse an OFX, QFX or QIF statement.
+ */
+export function parseStatement(fileName: string, text: string): StatementParseResult | null {
+  const format = detectStatementFormat(fileName, text);
+  if (format === "OFX") return parseOFX(text);
+  if (format === "QIF") return parseQIF(text);
+  return null;
+}
@@ -0,0 +1,209 @@
+/**
+ * QIF (Quicken Interchange Format) statement parser.
+ * Reads bank, cash and credit card registers; investment registers and
+ * category, class and memorized lists are skipped.
+ */
+import type { StatementAccount, StatementParseResult, StatementTransaction } from "./types";
+import { fingerprintTransaction } from "./fingerprint";
+
+const MAX_STATEMENT_SIZE = 10 * 1024 * 1024; // 10MB
+
+/** Register types that hold bank-style transactions */
+const REGISTER_TYPES = ["bank", "cash", "ccard", "oth a", "oth l"];
+
+/** Payee Quicken uses for the record that sets a register's starting balance */
+const OPENING_BALANCE_PAYEE = "opening balance";
+
+/**
+ * Parse a QIF date to YYYY-MM-DD. Quicken writes month first, with an
+ * apostrophe before two-digit years from 2000 on (1/5'24) and sometimes
+ * spaces for padding (1/ 5/24).
+ */
+export function parseQIFDate(value: string): string | null {
+  const cleaned = value.replace(/\s/g, "");
+
+  let year: number, month: number, day: number;
+  const iso = cleaned.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const us = cleaned.match(/^(\d{1,2})[/.-](\d{1,2})(['/.-])(\d{2}|\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[4])];
+    if (us[4].length === 2) {
+      year += us[3] === "'" || year < 70 ? 2000 : 1900;
+    }
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Parse a QIF amount such as "-1,234.56".
+ */
+export function parseQIFAmount(value: string): number | null {
+  const num = parseFloat(value.replace(/[$,\s]/g, ""));
+  return isNaN(num) ? null : num;
+}
+
+/**
+ * Reduce a QIF category to the app's flat categories: "Food:Groceries/Home"
+ * becomes "Food"; transfers ("[Savings]") become "Transfer".
+ */
+function parseQIFCategory(value: string | undefined): string | null {
+  if (!value) return null;
+  if (value.startsWith("[")) return "Transfer";
+  const category = value.split("/")[0].split(":")[0].trim();
+  return category || null;
+}
+
+interface QIFAccountHeader {
+  name: string | null;
+  type: string | null;
+  balance: number | null;
+  balanceDate: string | null;
+}
+
+/**
+ * Parse a QIF file into its registers.
+ */
+export function parseQIF(text: string): StatementParseResult {
+  if (text.length > MAX_STATEMENT_SIZE) {
+    return { format: "QIF", accounts: [], errors: ["File exceeds maximum size of 10MB"] };
+  }
+  if (!/^\s*!(Type|Account|Option)/im.test(text)) {
+    return { format: "QIF", accounts: [], errors: ["Not a QIF file"] };
+  }
+
+  const errors: string[] = [];
+  const accounts: StatementAccount[] = [];
+  const lines = text.split(/\r?\n/);
+
+  let section: string | null = null;
+  // Assigned inside finishRecord, so declared with a cast to stop narrowing to null
+  let header = null as QIFAccountHeader | null;
+  let current: StatementAccount | null = null;
+  let opening: number | null = null;
+  let seen = new Map<string, number>();
+  let fields: Record<string, string> = {};
+  let recordNumber = 0;
+
+  const finishAccount = () => {
+    if (current && opening !== null && current.balance === null) {
+      // No statement balance given: carry the opening balance forward
+      const total = current.transactions.reduce((sum, t) => sum + t.amount, opening);
+      current.balance = Math.round(total * 100) / 100;
+      current.balanceDate = current.transactions.reduce<string | null>(
+        (latest, t) => (latest === null || t.date > latest ? t.date : latest),
+        null
+      );
+    }
+    if (current && (current.transactions.length > 0 || current.balance !== null)) {
+      accounts.push(current);
+    }
+    current = null;
+    opening = null;
+  };
+
+  const finishRecord = () => {
+    if (Object.keys(fields).length === 0) return;
+
+    if (section === "account") {
+      header = {
+        name: fields.N ?? null,
+        type: fields.T ?? null,
+        balance: fields.$ !== undefined ? parseQIFAmount(fields.$) : null,
+        balanceDate: fields["/"] !== undefined ? parseQIFDate(fields["/"]) : null,
+      };
+    } else if (section && REGISTER_TYPES.includes(section) && current) {
+      recordNumber++;
+      const account = current;
+      const label = `${account.accountKey}, record ${recordNumber}`;
+      const date = fields.D !== undefined ? parseQIFDate(fields.D) : null;
+      const amount = parseQIFAmount(fields.T ?? fields.U ?? "");
+      const payee = fields.P?.trim() || fields.M?.trim() || "Unknown";
+
+      if (!date) {
+        errors.push(`${label}: Invalid or missing date`);
+      } else if (amount === null) {
+        errors.push(`${label}: Invalid or missing amount`);
+      } else if (payee.toLowerCase() === OPENING_BALANCE_PAYEE) {
+        opening = amount;
+      } else {
+        const transaction: StatementTransaction = {
+          date,
+          payee,
+          amount,
+          memo: fields.M?.trim() || null,
+          category: parseQIFCategory(fields.L),
+          externalId: fingerprintTransaction(date, amount, payee, seen),
+        };
+        account.transactions.push(transaction);
+      }
+    }
+
+    fields = {};
+  };
+
+  for (const rawLine of lines) {
+    const line = rawLine.trimEnd();
+    if (!line) continue;
+
+    if (line.startsWith("!")) {
+      finishRecord();
+      const directive = line.slice(1).trim().toLowerCase();
+
+      if (directive === "account") {
+        section = "account";
+      } else if (directive.startsWith("type:")) {
+        section = directive.slice(5).trim();
+        if (REGISTER_TYPES.includes(section)) {
+          finishAccount();
+          current = {
+            accountKey: header?.name ?? `QIF account ${accounts.length + 1}`,
+            accountType: header?.type ?? line.slice(6).trim(),
+            balance: header?.balance ?? null,
+            balanceDate: header?.balanceDate ?? null,
+            transactions: [],
+          };
+          header = null;
+          seen = new Map();
+          recordNumber = 0;
+        } else if (section === "invst") {
+          errors.push("Investment registers are not supported and were skipped");
+        }
+      } else {
+        // !Option and !Clear flags carry no records
+        section = null;
+      }
+      continue;
+    }
+
+    if (line.startsWith("^")) {
+      finishRecord();
+      continue;
+    }
+
+    const code = line[0];
+    // Split lines (S, E and their $ amounts) share codes with the main
+    // record; the record total in T is kept and the splits ignored
+    if (code === "S" || code === "E" || (code === "$" && section !== "account")) continue;
+    if (fields[code] === undefined) {
+      fields[code] = line.slice(1);
+    }
+  }
+
+  finishRecord();
+  finishAccount();
+
+  if (accounts.length === 0 && errors.length === 0) {
+    errors.push("No bank, cash or credit card registers found");
+  }
+
+  return { format: "QIF", accounts, errors };
+}
@@ -0,0 +1,38 @@
+/**
+ * Bank statement import types shared by the OFX and QIF parsers.
+ */
+
+export type StatementFormat = "OFX" | "QIF";
+
+export interface StatementTransaction {
+  /** Posting date, YYYY-MM-DD */
+  date: string;
+  payee: string;
+  /** Signed amount: negative for money out */
+  amount: number;
+  memo: string | null;
+  category: string | null;
+  /**
+   * Identifier used to skip transactions already imported: the bank's FITID
+   * for OFX, or a fingerprint of the record for QIF and bank CSV
+   */
+  externalId: string;
+}
+
+export interface StatementAccount {
+  /** Account number or name as given in the file */
+  accountKey: string;
+  /** Bank account type as given in the file (CHECKING, SAVINGS, CREDITCARD, Bank, ...) */
+  accountType: string | null;
+  /** Closing (ledger) balance, if the file reports one */
+  balance: number | null;
+  /** Date the balance was reported for, YYYY-MM-DD */
+  balanceDate: string | null;
+  transactions: StatementTransaction[];
+}
+
+export interface StatementParseResult {
+  format: StatementFormat;
+  accounts: StatementAccount[];
+  errors: string[];
+}
@@ -0,0 +1,163 @@
+import { prisma } from "@/lib/db/prisma";
+
+/** Origin of a transaction */
+export type TransactionSource = "MANUAL" | "CSV" | "OFX" | "QIF" | "BUDGET";
+
+/** Payee given to the adjustment the budget page writes for a category total */
+export const BUDGET_ADJUSTMENT_PAYEE = "Budget adjustment";
+
+/** Category used for transactions that have not been categorized */
+export const UNCATEGORIZED = "Uncategorized";
+
+/** Fields needed to total spending */
+export interface TransactionAmount {
+  date: Date;
+  amount: number;
+  category: string | null;
+  source?: string;
+}
+
+/**
+ * Get a date's month as YYYY-MM (UTC).
+ */
+export function toMonthKey(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Get the UTC range [start, end) covering a YYYY-MM month.
+ */
+export function getMonthRange(month: string): { start: Date; end: Date } {
+  const [year, monthNumber] = month.split("-").map((part) => parseInt(part));
+  return {
+    start: new Date(Date.UTC(year, monthNumber - 1, 1)),
+    end: new Date(Date.UTC(year, monthNumber, 1)),
+  };
+}
+
+/**
+ * Categories of money coming in or moving between accounts rather than
+ * spent, matched case-insensitively.
+ */
+export const NON_SPENDING_CATEGORIES = [
+  "Income",
+  "Salary",
+  "Paycheck",
+  "Interest",
+  "Dividends",
+  "Transfer",
+  "Transfers",
+];
+
+const nonSpending = new Set(NON_SPENDING_CATEGORIES.map((c) => c.toLowerCase()));
+
+/**
+ * Whether a category's transactions count as spending.
+ */
+export function isSpendingCategory(category: string): boolean {
+  return !nonSpending.has(category.toLowerCase());
+}
+
+/**
+ * What a transaction adds to its category's spending. Outflows add; deposits
+ * subtract as refunds. Uncategorized deposits can't be told from paychecks,
+ * so only budget adjustments among them count, and income and transfer
+ * categories count for nothing.
+ */
+export function getSpendingAmount(
+  transaction: Pick<TransactionAmount, "amount" | "category" | "source">
+): number {
+  const category = transaction.category || UNCATEGORIZED;
+  if (!isSpendingCategory(category)) {
+    return 0;
+  }
+  if (transaction.amount > 0 && category === UNCATEGORIZED && transaction.source !== "BUDGET") {
+    return 0;
+  }
+  return -transaction.amount;
+}
+
+/**
+ * Total spending per period and category (see getSpendingAmount). Refunds
+ * only offset outflows: categories with no net outflow are left out.
+ *
+ * @param keyOf - Period a transaction falls in
+ * @returns Spending keyed by period, then by category
+ */
+export function summarizeSpending(
+  transactions: TransactionAmount[],
+  keyOf: (transaction: TransactionAmount) => string
+): Record<string, Record<string, number>> {
+  const sums: Record<string, Record<string, number>> = {};
+  for (const transaction of transactions) {
+    const amount = getSpendingAmount(transaction);
+    if (amount === 0) continue;
+    const key = keyOf(transaction);
+    const category = transaction.category || UNCATEGORIZED;
+    sums[key] ??= {};
+    sums[key][category] = (sums[key][category] ?? 0) + amount;
+  }
+
+  const spending: Record<string, Record<string, number>> = {};
+  for (const [key, categories] of Object.entries(sums)) {
+    for (const [category, total] of Object.entries(categories)) {
+      const rounded = Math.round(total * 100) / 100;
+      if (rounded > 0) {
+        spending[key] ??= {};
+        spending[key][category] = rounded;
+      }
+    }
+  }
+  return spending;
+}
+
+/**
+ * Total spending per month and category; see summarizeSpending.
+ *
+ * @returns Spending keyed by YYYY-MM, then by category
+ */
+export function summarizeTransactions(
+  transactions: TransactionAmount[]
+): Record<string, Record<string, number>> {
+  return summarizeSpending(transactions, (t) => toMonthKey(t.date));
+}
+
+/**
+ * Rebuild the monthly ActualExpense totals for the given months from the
+ * scenario's transactions. Call after any transaction write; notes on
+ * existing totals are kept.
+ */
+export async function syncActualExpenses(scenarioId: string, months: string[]): Promise<void> {
+  const uniqueMonths = Array.from(new Set(months));
+  if (uniqueMonths.length === 0) return;
+
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      scenarioId,
+      OR: uniqueMonths.map((month) => {
+        const { start, end } = getMonthRange(month);
+        return { date: { gte: start, lt: end } };
+      }),
+    },
+    select: { date: true, amount: true, category: true, source: true },
+  });
+  const spending = summarizeTransactions(transactions);
+
+  await prisma.$transaction(async (tx) => {
+    for (const month of uniqueMonths) {
+      const categories = spending[month] ?? {};
+
+      await tx.actualExpense.deleteMany({
+        where: { scenarioId, month, category: { notIn: Object.keys(categories) } },
+      });
+
+      for (const [category, amount] of Object.entries(categories)) {
+        await tx.actualExpense.upsert({
+          where: { scenarioId_category_month: { scenarioId, category, month } },
+          create: { scenarioId, category, month, amount },
+          update: { amount },
+        });
+      }
+    }
+  });
+}
@@ -2,6 +2,8 @@
  * Input validation and sanitization utilities for API security
  */
 
+import { z } from "zod";
+
 /**
  * Sanitizes a string by trimming whitespace and limiting length
  * @param input - The input string to sanitize
@@ -91,3 +93,11 @@ export function validateNumberRange(
 export function validateArrayLength<T>(arr: T[], maxLength: number): boolean {
   return Array.isArray(arr) && arr.length > 0 && arr.length <= maxLength;
 }
+
+/**
+ * Zod schema for a calendar date string (YYYY-MM-DD)
+ */
+export const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
+  .refine((s) => !Number.isNaN(new Date(s).getTime()), "Invalid date");
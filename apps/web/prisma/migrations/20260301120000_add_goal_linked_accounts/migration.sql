@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Goal" ADD COLUMN "earmarkPct" REAL;
+
+-- CreateTable
+CREATE TABLE "_GoalLinkedAccounts" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+    CONSTRAINT "_GoalLinkedAccounts_A_fkey" FOREIGN KEY ("A") REFERENCES "Account" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "_GoalLinkedAccounts_B_fkey" FOREIGN KEY ("B") REFERENCES "Goal" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_GoalLinkedAccounts_AB_unique" ON "_GoalLinkedAccounts"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_GoalLinkedAccounts_B_index" ON "_GoalLinkedAccounts"("B");
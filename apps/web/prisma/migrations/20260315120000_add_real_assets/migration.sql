@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "RealAsset" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "scenarioId" TEXT NOT NULL,
+    "loanId" TEXT,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'HOME',
+    "value" REAL NOT NULL,
+    "purchaseDate" DATETIME NOT NULL,
+    "appreciationRate" REAL,
+    "annualCarryingCost" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "RealAsset_scenarioId_fkey" FOREIGN KEY ("scenarioId") REFERENCES "Scenario" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "RealAsset_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "Loan" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RealAsset_loanId_key" ON "RealAsset"("loanId");
+
+-- CreateIndex
+CREATE INDEX "RealAsset_scenarioId_idx" ON "RealAsset"("scenarioId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "LifeEvent" ADD COLUMN "effects" TEXT;
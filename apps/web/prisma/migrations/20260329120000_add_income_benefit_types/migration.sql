@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Income" ADD COLUMN "type" TEXT NOT NULL DEFAULT 'EARNED';
+ALTER TABLE "Income" ADD COLUMN "claimingAge" REAL;
+ALTER TABLE "Income" ADD COLUMN "survivorRate" REAL;
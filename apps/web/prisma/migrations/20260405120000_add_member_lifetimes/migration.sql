@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "HouseholdMember" ADD COLUMN "sex" TEXT;
+ALTER TABLE "HouseholdMember" ADD COLUMN "lifeExpectancy" REAL;
@@ -0,0 +1,21 @@
+-- RedefineTables
+-- Cached results are recomputed on demand, so existing rows are not copied
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_EngineResultCache" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "scenarioId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "configKey" TEXT NOT NULL,
+    "engineVersion" TEXT NOT NULL,
+    "inputHash" TEXT NOT NULL,
+    "resultsJson" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "EngineResultCache_scenarioId_fkey" FOREIGN KEY ("scenarioId") REFERENCES "Scenario" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+DROP TABLE "EngineResultCache";
+ALTER TABLE "new_EngineResultCache" RENAME TO "EngineResultCache";
+CREATE UNIQUE INDEX "EngineResultCache_scenarioId_kind_configKey_key" ON "EngineResultCache"("scenarioId", "kind", "configKey");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "Transaction" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "scenarioId" TEXT NOT NULL,
+    "accountId" TEXT,
+    "date" DATETIME NOT NULL,
+    "payee" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "category" TEXT,
+    "memo" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'MANUAL',
+    "externalId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Transaction_scenarioId_fkey" FOREIGN KEY ("scenarioId") REFERENCES "Scenario" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_scenarioId_date_idx" ON "Transaction"("scenarioId", "date");
+
+-- CreateIndex
+CREATE INDEX "Transaction_scenarioId_category_idx" ON "Transaction"("scenarioId", "category");
+
+-- CreateIndex
+CREATE INDEX "Transaction_accountId_idx" ON "Transaction"("accountId");
+
+-- Backfill: each existing monthly actual becomes a budget adjustment on the
+-- first of its month, so the derived totals are unchanged
+INSERT INTO "Transaction" ("id", "scenarioId", "date", "payee", "amount", "category", "memo", "source", "createdAt", "updatedAt")
+SELECT
+    "id",
+    "scenarioId",
+    CAST(strftime('%s', "month" || '-01') AS INTEGER) * 1000,
+    'Budget adjustment',
+    -"amount",
+    "category",
+    "notes",
+    'BUDGET',
+    "createdAt",
+    "updatedAt"
+FROM "ActualExpense";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ImportLog" ADD COLUMN "type" TEXT NOT NULL DEFAULT 'transaction';
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ImportPreset" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "importType" TEXT NOT NULL,
+    "headerFingerprint" TEXT NOT NULL,
+    "headerRow" INTEGER NOT NULL DEFAULT 0,
+    "mapping" TEXT NOT NULL,
+    "dateFormat" TEXT,
+    "signConvention" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ImportPreset_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ImportPreset_userId_headerFingerprint_idx" ON "ImportPreset"("userId", "headerFingerprint");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportPreset_userId_importType_name_key" ON "ImportPreset"("userId", "importType", "name");
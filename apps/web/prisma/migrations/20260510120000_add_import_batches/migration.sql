@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Income" ADD COLUMN "importLogId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN "importLogId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Account" ADD COLUMN "importLogId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Loan" ADD COLUMN "importLogId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "importLogId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Income_importLogId_idx" ON "Income"("importLogId");
+
+-- CreateIndex
+CREATE INDEX "Expense_importLogId_idx" ON "Expense"("importLogId");
+
+-- CreateIndex
+CREATE INDEX "Account_importLogId_idx" ON "Account"("importLogId");
+
+-- CreateIndex
+CREATE INDEX "Loan_importLogId_idx" ON "Loan"("importLogId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_importLogId_idx" ON "Transaction"("importLogId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ImportLog" ADD COLUMN "previousValues" TEXT;
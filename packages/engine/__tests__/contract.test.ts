@@ -1,7 +1,7 @@
 import { describe, it, expect } from "vitest";
 import { runEngine, validateInput, getInputHash } from "../src/contract";
 import { ENGINE_VERSION } from "../src/version";
-import type { ScenarioInputDTO } from "../src/types";
+import type { IncomeDTO, ScenarioInputDTO } from "../src/types";
 
 describe("runEngine", () => {
   const minimalInput: ScenarioInputDTO = {
@@ -157,6 +157,99 @@ describe("runEngine", () => {
     });
   });
 
+  describe("tax annual", () => {
+    it("returns one tax row per projection year", () => {
+      const result = runEngine({
+        ...minimalInput,
+        household: { ...minimalInput.household, endDate: "2025-12-01" },
+      });
+
+      expect(result.taxAnnual.map(row => row.year)).toEqual([2024, 2025]);
+    });
+
+    it("taxes a year's wages", () => {
+      const result = runEngine(minimalInput);
+      const row = result.taxAnnual[0];
+
+      expect(row.grossIncome.wages).toBeCloseTo(60000, 0);
+      expect(row.grossIncome.ordinaryDistributions).toBe(0);
+      expect(row.taxableIncome).toBeCloseTo(
+        60000 +
+          row.grossIncome.investmentOrdinary +
+          row.grossIncome.investmentPreferential -
+          row.standardDeduction,
+        0
+      );
+      expect(row.federalByBracket.length).toBeGreaterThan(0);
+      expect(row.fica.total).toBeGreaterThan(0);
+      expect(row.stateTax).toBeGreaterThan(0);
+    });
+  });
+
+  describe("tax true-up", () => {
+    // No taxable-account income, so withholding depends only on wages
+    const twoYears: ScenarioInputDTO = {
+      ...minimalInput,
+      household: { ...minimalInput.household, endDate: "2025-12-01" },
+      assumptions: {
+        ...minimalInput.assumptions,
+        taxableInterestYieldPct: 0,
+        taxableDividendYieldPct: 0,
+      },
+    };
+
+    it("settles the prior year only in April", () => {
+      const result = runEngine({
+        ...twoYears,
+        incomes: [{ ...minimalInput.incomes[0], amount: 10000, endDate: "2024-06-01" }],
+      });
+
+      const settled = result.monthly.filter((row) => row.taxTrueUp !== 0);
+      expect(settled.map((row) => row.t)).toEqual(["2025-04-01"]);
+      // Six months withheld at a full-year rate is refunded
+      expect(settled[0].taxTrueUp).toBeLessThan(0);
+    });
+
+    it("counts the true-up in net cashflow and annual taxes", () => {
+      const result = runEngine({
+        ...twoYears,
+        incomes: [{ ...minimalInput.incomes[0], amount: 10000, endDate: "2024-06-01" }],
+      });
+      const april = result.monthly.find((row) => row.t === "2025-04-01")!;
+
+      expect(april.netCashflow).toBeCloseTo(
+        april.income - april.expenses - april.taxes - april.taxTrueUp -
+          april.loanPayments - april.contributions + april.investmentReturns,
+        1
+      );
+      const withheld2025 = result.monthly
+        .filter((row) => row.t.startsWith("2025"))
+        .reduce((sum, row) => sum + row.taxes, 0);
+      expect(result.annual[1].taxes).toBeCloseTo(withheld2025 + april.taxTrueUp, 1);
+    });
+
+    it("leaves a steady year with no material true-up", () => {
+      const result = runEngine(twoYears);
+      const april = result.monthly.find((row) => row.t === "2025-04-01")!;
+
+      expect(Math.abs(april.taxTrueUp)).toBeLessThan(1);
+    });
+
+    it("indexes brackets each January", () => {
+      const result = runEngine(twoYears);
+      const jan2024 = result.monthly.find((row) => row.t === "2024-01-01")!;
+      const jun2024 = result.monthly.find((row) => row.t === "2024-06-01")!;
+      const jan2025 = result.monthly.find((row) => row.t === "2025-01-01")!;
+
+      // Brackets hold within a year and loosen with inflation at the next
+      expect(jun2024.taxes).toBe(jan2024.taxes);
+      expect(jan2025.taxes).toBeLessThan(jan2024.taxes);
+      expect(result.taxAnnual[1].standardDeduction).toBeGreaterThan(
+        result.taxAnnual[0].standardDeduction
+      );
+    });
+  });
+
   describe("financial invariants", () => {
     it("net worth equals assets minus liabilities", () => {
       const result = runEngine(minimalInput);
@@ -282,6 +375,340 @@ describe("runEngine", () => {
     });
   });
 
+  describe("with cash bucket", () => {
+    it("accumulates monthly surplus in cash", () => {
+      const result = runEngine(minimalInput);
+      const cash = result.series.cashBalance;
+
+      expect(cash.length).toBe(12);
+      expect(cash[11].v).toBeGreaterThan(cash[0].v);
+      expect(cash[0].v).toBeGreaterThan(0);
+    });
+
+    it("counts cash toward total assets", () => {
+      const result = runEngine(minimalInput);
+
+      for (let i = 0; i < result.series.assetsTotal.length; i++) {
+        const accountTotal = result.series.accountBalances["account1"][i].v;
+        expect(result.series.assetsTotal[i].v).toBeCloseTo(
+          accountTotal + result.series.cashBalance[i].v,
+          1
+        );
+      }
+    });
+
+    it("sweeps excess above target into overflow accounts", () => {
+      const result = runEngine({
+        ...minimalInput,
+        cash: {
+          initialBalance: 5000,
+          targetBalance: 5000,
+          overflowRules: [{ accountId: "account1", sharePct: 100 }],
+        },
+      });
+
+      for (const point of result.series.cashBalance) {
+        expect(point.v).toBeLessThanOrEqual(5000);
+      }
+
+      const noSweep = runEngine(minimalInput);
+      expect(result.series.accountBalances["account1"][11].v).toBeGreaterThan(
+        noSweep.series.accountBalances["account1"][11].v
+      );
+    });
+
+    it("warns once when cash is exhausted", () => {
+      const result = runEngine({
+        ...minimalInput,
+        cash: { initialBalance: 1000, overflowRules: [] },
+        accounts: [],
+        expenses: [
+          {
+            id: "expense1",
+            category: "Housing",
+            name: "Rent",
+            amount: 6000,
+            frequency: "MONTHLY",
+            startDate: "2024-01-01",
+            growthRule: "NONE",
+            isEssential: true,
+          },
+        ],
+      });
+
+      const exhausted = result.warnings.filter(w => w.code === "CASH_EXHAUSTED");
+      expect(exhausted.length).toBe(1);
+      expect(exhausted[0].at).toBe("2024-01-01");
+    });
+
+    it("rejects overflow rules for unknown accounts", () => {
+      expect(() =>
+        runEngine({
+          ...minimalInput,
+          cash: {
+            initialBalance: 0,
+            targetBalance: 1000,
+            overflowRules: [{ accountId: "missing", sharePct: 100 }],
+          },
+        })
+      ).toThrow(/non-existent account/);
+    });
+  });
+
+  describe("with withdrawals", () => {
+    const retiredInput: ScenarioInputDTO = {
+      ...minimalInput,
+      incomes: [],
+      loans: [],
+      accounts: [
+        {
+          id: "taxable",
+          name: "Brokerage",
+          type: "TAXABLE",
+          expectedReturnPct: 0,
+          holdings: [{ ticker: "CASH", shares: 1, avgPrice: 3000 }],
+        },
+        {
+          id: "traditional",
+          name: "401k",
+          type: "TRADITIONAL",
+          expectedReturnPct: 0,
+          holdings: [{ ticker: "CASH", shares: 1, avgPrice: 100000 }],
+        },
+        {
+          id: "roth",
+          name: "Roth IRA",
+          type: "ROTH",
+          expectedReturnPct: 0,
+          holdings: [{ ticker: "CASH", shares: 1, avgPrice: 50000 }],
+        },
+      ],
+    };
+
+    it("covers deficits from accounts so cash stays whole", () => {
+      const result = runEngine(retiredInput);
+
+      for (const point of result.series.cashBalance) {
+        expect(point.v).toBeGreaterThanOrEqual(0);
+      }
+      expect(result.warnings.some(w => w.code === "CASH_EXHAUSTED")).toBe(false);
+    });
+
+    it("draws taxable accounts first by default", () => {
+      const result = runEngine(retiredInput);
+
+      expect(result.monthly[0].accountWithdrawals).toEqual({ taxable: 2000 });
+      expect(result.monthly[0].withdrawals).toBe(2000);
+      expect(result.monthly[0].taxes).toBe(0);
+
+      // Taxable runs dry in month two and traditional picks up the rest
+      // (annualized $12k stays under the standard deduction, so no tax)
+      expect(result.monthly[1].accountWithdrawals).toEqual({
+        taxable: 1000,
+        traditional: 1000,
+      });
+    });
+
+    it("reports gains realized on taxable withdrawals as preferential income", () => {
+      const atBasis = runEngine(retiredInput);
+      const appreciated = runEngine({
+        ...retiredInput,
+        accounts: retiredInput.accounts.map((a) =>
+          a.id === "taxable"
+            ? { ...a, holdings: [{ ticker: "CASH", shares: 1, avgPrice: 1000, lastPrice: 3000 }] }
+            : a
+        ),
+      });
+
+      // The whole $3k brokerage balance is sold on ~$1k of basis (plus
+      // reinvested dividends), so about $2k of gain is realized
+      const realized =
+        appreciated.taxAnnual[0].grossIncome.investmentPreferential -
+        atBasis.taxAnnual[0].grossIncome.investmentPreferential;
+      expect(realized).toBeGreaterThan(1950);
+      expect(realized).toBeLessThanOrEqual(2000);
+    });
+
+    it("taxes traditional withdrawals as ordinary income", () => {
+      const result = runEngine({
+        ...retiredInput,
+        expenses: [
+          {
+            id: "expense1",
+            category: "Living",
+            amount: 5000,
+            frequency: "MONTHLY",
+            startDate: "2024-01-01",
+            growthRule: "NONE",
+            isEssential: true,
+          },
+        ],
+        withdrawalStrategy: { order: "BRACKET_FILLING", fillBracketPct: 12 },
+      });
+
+      const first = result.monthly[0];
+      expect(first.accountWithdrawals.traditional).toBeGreaterThan(0);
+      expect(first.taxes).toBeGreaterThan(0);
+      // Withdrawals cover both the expense and the tax it creates
+      expect(first.withdrawals).toBeCloseTo(first.expenses + first.taxes, 0);
+    });
+
+    it("splits withdrawals by balance when proportional", () => {
+      const result = runEngine({
+        ...retiredInput,
+        taxProfile: { ...retiredInput.taxProfile, stateCode: "TX" },
+        withdrawalStrategy: { order: "PROPORTIONAL" },
+      });
+
+      const drawn = result.monthly[0].accountWithdrawals;
+      expect(Object.keys(drawn).sort()).toEqual(["roth", "taxable", "traditional"]);
+      expect(drawn.traditional).toBeGreaterThan(drawn.roth);
+      expect(drawn.roth).toBeGreaterThan(drawn.taxable);
+    });
+
+    it("rejects unknown fill brackets", () => {
+      expect(() =>
+        runEngine({
+          ...retiredInput,
+          withdrawalStrategy: { order: "BRACKET_FILLING", fillBracketPct: 15 },
+        })
+      ).toThrow(/fill bracket/);
+    });
+  });
+
+  describe("with required minimum distributions", () => {
+    const rmdInput: ScenarioInputDTO = {
+      ...minimalInput,
+      household: { ...minimalInput.household, endDate: "2025-12-01" },
+      members: [{ id: "m1", name: "Pat", birthDate: "1950-06-15" }],
+      incomes: [],
+      expenses: [],
+      loans: [],
+      accounts: [
+        {
+          id: "ira",
+          name: "Traditional IRA",
+          type: "TRADITIONAL",
+          expectedReturnPct: 0,
+          memberId: "m1",
+          holdings: [{ ticker: "CASH", shares: 1, avgPrice: 255000 }],
+        },
+      ],
+    };
+
+    it("forces and reports RMDs per year", () => {
+      const result = runEngine(rmdInput);
+
+      // Age 74 in 2024: 255,000 / 25.5
+      expect(result.annual[0].rmd).toBeCloseTo(10000, 0);
+      // Age 75 in 2025 on the 2024 year-end balance: 245,000 / 24.6
+      expect(result.annual[1].rmd).toBeCloseTo(245000 / 24.6, 0);
+    });
+
+    it("taxes the distribution as ordinary income", () => {
+      const result = runEngine({
+        ...rmdInput,
+        accounts: [
+          {
+            ...rmdInput.accounts[0],
+            holdings: [{ ticker: "CASH", shares: 1, avgPrice: 1500000 }],
+          },
+        ],
+      });
+
+      expect(result.annual[0].taxes).toBeGreaterThan(0);
+      // Distributed cash lands in the cash bucket
+      expect(result.series.cashBalance[11].v).toBeGreaterThan(0);
+    });
+
+    it("reports RMDs as ordinary distributions on the tax return", () => {
+      const result = runEngine(rmdInput);
+
+      expect(result.taxAnnual[0].grossIncome.ordinaryDistributions).toBeCloseTo(
+        result.annual[0].rmd,
+        1
+      );
+    });
+
+    it("skips RMDs for members below the start age", () => {
+      const result = runEngine({
+        ...rmdInput,
+        members: [{ id: "m1", name: "Pat", birthDate: "1965-06-15" }],
+      });
+
+      expect(result.annual.every(row => row.rmd === 0)).toBe(true);
+    });
+
+    it("warns when an RMD raises the marginal bracket", () => {
+      const result = runEngine({
+        ...rmdInput,
+        incomes: [
+          {
+            id: "pension",
+            name: "Pension",
+            amount: 4000,
+            frequency: "MONTHLY",
+            startDate: "2024-01-01",
+            growthRule: "NONE",
+          },
+        ],
+        accounts: [
+          {
+            ...rmdInput.accounts[0],
+            holdings: [{ ticker: "CASH", shares: 1, avgPrice: 1500000 }],
+          },
+        ],
+      });
+
+      const jumps = result.warnings.filter(w => w.code === "RMD_BRACKET_JUMP");
+      expect(jumps.length).toBe(2); // One per year
+    });
+
+    it("counts the Social Security an RMD makes taxable toward the bracket", () => {
+      const socialSecurity: IncomeDTO = {
+        id: "ss1",
+        name: "Social Security",
+        type: "SOCIAL_SECURITY",
+        memberId: "m1",
+        amount: 5000,
+        frequency: "MONTHLY",
+        startDate: "2016-01-01",
+        growthRule: "NONE",
+        socialSecurity: { claimingAge: 66 },
+      };
+      const countJumps = (input: ScenarioInputDTO) =>
+        runEngine(input).warnings.filter(w => w.code === "RMD_BRACKET_JUMP").length;
+
+      // The RMD alone stays under the standard deduction
+      expect(countJumps(rmdInput)).toBe(0);
+      // With benefits, it makes enough of them taxable to leave the zero bracket
+      expect(countJumps({ ...rmdInput, incomes: [socialSecurity] })).toBeGreaterThan(0);
+    });
+
+    it("does not tax or count a rollover between traditional accounts", () => {
+      const withRollover: ScenarioInputDTO = {
+        ...rmdInput,
+        accounts: [
+          ...rmdInput.accounts,
+          { id: "ira2", name: "Rollover IRA", type: "TRADITIONAL", expectedReturnPct: 0, memberId: "m1", holdings: [] },
+        ],
+      };
+      const result = runEngine({
+        ...withRollover,
+        events: [
+          { id: "roll", name: "Rollover", date: "2024-03-01", type: "ACCOUNT_TRANSFER", fromAccountId: "ira", toAccountId: "ira2", amount: 100000 },
+        ],
+      });
+      const baseline = runEngine(withRollover);
+      const march = result.monthly.find((row) => row.t === "2024-03-01")!;
+
+      expect(march.events[0].amount).toBe(100000);
+      expect(march.withdrawals).toBe(baseline.monthly.find((row) => row.t === "2024-03-01")!.withdrawals);
+      expect(result.taxAnnual).toEqual(baseline.taxAnnual);
+      expect(result.annual.map(row => row.rmd)).toEqual(baseline.annual.map(row => row.rmd));
+    });
+  });
+
   describe("with goals", () => {
     it("tracks goal progress", () => {
       const inputWithGoals: ScenarioInputDTO = {
@@ -327,6 +754,551 @@ describe("runEngine", () => {
     });
   });
 
+  describe("with linked goals", () => {
+    const linkedInput: ScenarioInputDTO = {
+      ...minimalInput,
+      accounts: [
+        ...minimalInput.accounts,
+        {
+          id: "college",
+          name: "529 Plan",
+          type: "TAXABLE",
+          expectedReturnPct: 0,
+          holdings: [{ ticker: "CASH", shares: 1, avgPrice: 5000, lastPrice: 5000 }],
+        },
+      ],
+      goals: [
+        {
+          id: "goal1",
+          type: "COLLEGE",
+          name: "Tuition",
+          targetAmountReal: 2000,
+          targetDate: "2024-06-01",
+          priority: 1,
+          linkedAccountIds: ["college"],
+          earmarkPct: 50,
+        },
+      ],
+    };
+
+    it("reports funded from earmarked linked balances only", () => {
+      const result = runEngine(linkedInput);
+      const funded = result.series.goalProgress["goal1"].funded;
+
+      expect(funded[0].v).toBe(2500);
+      expect(funded[0].v).toBeLessThan(result.series.assetsTotal[0].v);
+    });
+
+    it("pays the goal out of linked accounts at the target date", () => {
+      const result = runEngine(linkedInput);
+      const june = result.monthly.find((row) => row.t === "2024-06-01")!;
+      const college = result.series.accountBalances["college"];
+
+      expect(june.goalWithdrawals).toBeGreaterThan(2000);
+      expect(june.accountWithdrawals["college"]).toBe(june.goalWithdrawals);
+      expect(college[11].v).toBeCloseTo(5000 - june.goalWithdrawals, 2);
+      expect(result.monthly.filter((row) => row.goalWithdrawals > 0)).toHaveLength(1);
+      expect(result.warnings.some((w) => w.code === "GOAL_SHORTFALL")).toBe(false);
+    });
+
+    it("warns when linked accounts cannot cover the goal despite net worth", () => {
+      const result = runEngine({
+        ...linkedInput,
+        goals: [{ ...linkedInput.goals[0], targetAmountReal: 4000 }],
+      });
+
+      const shortfall = result.warnings.find((w) => w.code === "GOAL_SHORTFALL");
+      expect(shortfall).toBeDefined();
+      expect(shortfall!.at).toBe("2024-06-01");
+    });
+
+    it("rejects links to unknown accounts", () => {
+      expect(() =>
+        runEngine({
+          ...linkedInput,
+          goals: [{ ...linkedInput.goals[0], linkedAccountIds: ["missing"] }],
+        })
+      ).toThrow("non-existent account");
+    });
+  });
+
+  describe("taxable-account drag", () => {
+    const brokerageInput: ScenarioInputDTO = {
+      ...minimalInput,
+      accounts: [
+        {
+          ...minimalInput.accounts[0],
+          holdings: [{ ticker: "VTI", shares: 1000, avgPrice: 100, lastPrice: 200 }],
+        },
+      ],
+    };
+
+    it("reports taxable-account income on the tax return", () => {
+      const result = runEngine(brokerageInput);
+      const row = result.taxAnnual[0];
+
+      expect(row.grossIncome.investmentOrdinary).toBeGreaterThan(0);
+      expect(row.grossIncome.investmentPreferential).toBeGreaterThan(0);
+      expect(row.capitalGainsTax).toBeGreaterThan(0);
+      expect(result.monthly[0].taxableInvestmentIncome).toBeCloseTo(
+        (200000 * 0.04) / 12,
+        0
+      );
+    });
+
+    it("raises taxes compared with no distributions", () => {
+      const withDrag = runEngine(brokerageInput);
+      const without = runEngine({
+        ...brokerageInput,
+        assumptions: {
+          ...brokerageInput.assumptions,
+          taxableInterestYieldPct: 0,
+          taxableDividendYieldPct: 0,
+        },
+      });
+
+      expect(withDrag.annual[0].taxes).toBeGreaterThan(without.annual[0].taxes);
+    });
+
+    it("warns when drag exceeds the threshold", () => {
+      const highTurnover = runEngine({
+        ...brokerageInput,
+        assumptions: { ...brokerageInput.assumptions, realizedStGainPct: 50 },
+      });
+      const lowTurnover = runEngine({
+        ...brokerageInput,
+        assumptions: { ...brokerageInput.assumptions, taxableInterestYieldPct: 0 },
+      });
+
+      const warning = highTurnover.warnings.find((w) => w.code === "HIGH_TAX_DRAG");
+      expect(warning).toBeDefined();
+      expect(warning!.at).toBe("2024-12-01");
+      expect(lowTurnover.warnings.some((w) => w.code === "HIGH_TAX_DRAG")).toBe(false);
+    });
+  });
+
+  describe("with payroll contributions", () => {
+    const contributionInput: ScenarioInputDTO = {
+      ...minimalInput,
+      accounts: [
+        ...minimalInput.accounts,
+        {
+          id: "k401",
+          name: "401(k)",
+          type: "TRADITIONAL",
+          expectedReturnPct: 0,
+          holdings: [],
+          plan: "401K",
+        },
+      ],
+      contributions: [
+        {
+          accountId: "k401",
+          amountMonthly: 500,
+          startDate: "2024-01-01",
+          employerMatchPct: 100,
+          employerMatchLimitAnnual: 3000,
+        },
+      ],
+    };
+
+    it("deposits the employer match up to its annual limit", () => {
+      const result = runEngine(contributionInput);
+      const matches = result.monthly.map((row) => row.employerMatch);
+
+      expect(matches.slice(0, 6)).toEqual([500, 500, 500, 500, 500, 500]);
+      expect(matches.slice(6).every((m) => m === 0)).toBe(true);
+      expect(result.series.accountBalances["k401"][11].v).toBe(9000);
+      expect(result.monthly[0].contributions).toBe(500);
+    });
+
+    it("deducts pre-tax contributions from taxable income", () => {
+      const withContributions = runEngine(contributionInput);
+      const without = runEngine({ ...contributionInput, contributions: [] });
+
+      expect(withContributions.taxAnnual[0].preTaxContributions).toBe(6000);
+      expect(withContributions.taxAnnual[0].agi).toBe(without.taxAnnual[0].agi - 6000);
+      expect(withContributions.monthly[0].taxes).toBeLessThan(without.monthly[0].taxes);
+    });
+
+    it("does not deduct contributions to taxable accounts", () => {
+      const result = runEngine({
+        ...contributionInput,
+        contributions: [{ accountId: "account1", amountMonthly: 500, startDate: "2024-01-01" }],
+      });
+
+      expect(result.taxAnnual[0].preTaxContributions).toBe(0);
+    });
+
+    it("caps contributions at the annual limit and warns once", () => {
+      const result = runEngine({
+        ...contributionInput,
+        contributions: [{ accountId: "k401", amountMonthly: 2500, startDate: "2024-01-01" }],
+      });
+
+      const total = result.monthly.reduce((sum, row) => sum + row.contributions, 0);
+      const warnings = result.warnings.filter((w) => w.code === "CONTRIBUTION_LIMIT_EXCEEDED");
+
+      expect(total).toBe(23000);
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].at).toBe("2024-10-01");
+    });
+  });
+
+  describe("with real assets", () => {
+    const ownedHome: ScenarioInputDTO = {
+      ...minimalInput,
+      realAssets: [
+        {
+          id: "home",
+          type: "HOME",
+          name: "House",
+          value: 300000,
+          purchaseDate: "2019-01-01",
+          appreciationPct: 3,
+        },
+      ],
+    };
+
+    it("counts real asset values in total assets and net worth", () => {
+      const result = runEngine(ownedHome);
+      const withoutHome = runEngine(minimalInput);
+
+      expect(result.series.realAssets[0].v).toBe(300000);
+      expect(result.series.realAssets[11].v).toBeGreaterThan(300000);
+      expect(result.series.realAssetValues["home"]).toHaveLength(12);
+      expect(result.series.assetsTotal[11].v - withoutHome.series.assetsTotal[11].v).toBeCloseTo(
+        result.series.realAssets[11].v,
+        1
+      );
+      expect(result.series.netWorth[11].v).toBeCloseTo(
+        result.series.assetsTotal[11].v - result.series.liabilitiesTotal[11].v,
+        1
+      );
+    });
+
+    it("pays the down payment and carrying costs of a later purchase", () => {
+      const result = runEngine({
+        ...minimalInput,
+        loans: [
+          {
+            id: "mortgage",
+            type: "OTHER",
+            name: "Mortgage",
+            principal: 80000,
+            aprPct: 6,
+            termMonths: 360,
+            startDate: "2024-06-01",
+          },
+        ],
+        realAssets: [
+          {
+            id: "condo",
+            type: "HOME",
+            name: "Condo",
+            value: 100000,
+            purchaseDate: "2024-06-01",
+            carryingCostMonthly: 300,
+            linkedLoanId: "mortgage",
+          },
+        ],
+      });
+      const may = result.monthly.find((row) => row.t === "2024-05-01")!;
+      const june = result.monthly.find((row) => row.t === "2024-06-01")!;
+
+      expect(result.series.realAssets.find((p) => p.t === "2024-05-01")!.v).toBe(0);
+      expect(result.series.realAssets.find((p) => p.t === "2024-06-01")!.v).toBe(100000);
+      expect(june.realAssetPurchases).toBe(20000);
+      expect(may.realAssetPurchases).toBe(0);
+      // Carrying costs are stated in today's dollars
+      expect(june.expenses - may.expenses).toBeCloseTo(300, -1);
+    });
+
+    it("rejects assets linked to a missing loan", () => {
+      expect(() =>
+        runEngine({
+          ...ownedHome,
+          realAssets: [{ ...ownedHome.realAssets![0], linkedLoanId: "missing" }],
+        })
+      ).toThrow(/non-existent loan/);
+    });
+  });
+
+  describe("with scheduled events", () => {
+    it("annotates the month an event is applied", () => {
+      const result = runEngine({
+        ...minimalInput,
+        events: [{ id: "gift", name: "Inheritance", date: "2024-03-15", type: "LUMP_SUM", amount: 25000 }],
+      });
+      const withoutEvent = runEngine(minimalInput);
+      const march = result.monthly.find((row) => row.t === "2024-03-01")!;
+
+      expect(march.events).toEqual([
+        { id: "gift", name: "Inheritance", type: "LUMP_SUM", amount: 25000 },
+      ]);
+      expect(march.eventCashflow).toBe(25000);
+      expect(result.monthly[0].events).toEqual([]);
+      expect(result.series.cashBalance[11].v - withoutEvent.series.cashBalance[11].v).toBeCloseTo(
+        25000,
+        0
+      );
+    });
+
+    it("stops an income from the event month", () => {
+      const result = runEngine({
+        ...minimalInput,
+        events: [
+          { id: "quit", name: "Sabbatical", date: "2024-07-01", type: "INCOME_CHANGE", incomeId: "income1", action: "STOP" },
+        ],
+      });
+
+      expect(result.monthly.find((row) => row.t === "2024-06-01")!.income).toBe(5000);
+      expect(result.monthly.find((row) => row.t === "2024-07-01")!.income).toBe(0);
+    });
+
+    it("pays off a loan and ends its payments", () => {
+      const result = runEngine({
+        ...minimalInput,
+        events: [{ id: "payoff", name: "Pay off car", date: "2024-06-01", type: "LOAN_PAYOFF", loanId: "loan1" }],
+      });
+      const june = result.monthly.find((row) => row.t === "2024-06-01")!;
+
+      expect(june.events[0].amount).toBeGreaterThan(10000);
+      expect(june.eventCashflow).toBe(-june.events[0].amount);
+      expect(june.loanPayments).toBe(0);
+      expect(june.liabilitiesEnd).toBe(0);
+    });
+
+    it("sells a home and removes it from assets", () => {
+      const result = runEngine({
+        ...minimalInput,
+        realAssets: [
+          { id: "home", type: "HOME", name: "House", value: 300000, purchaseDate: "2015-01-01" },
+        ],
+        events: [{ id: "sale", name: "Sell house", date: "2024-09-01", type: "ASSET_SALE", assetId: "home", sellingCostPct: 5 }],
+      });
+      const september = result.monthly.find((row) => row.t === "2024-09-01")!;
+
+      expect(result.series.realAssets.find((p) => p.t === "2024-08-01")!.v).toBeGreaterThan(300000);
+      expect(result.series.realAssets.find((p) => p.t === "2024-09-01")!.v).toBe(0);
+      expect(september.eventCashflow).toBeGreaterThan(285000);
+    });
+
+    it("rejects events referencing missing records", () => {
+      expect(() =>
+        runEngine({
+          ...minimalInput,
+          events: [{ id: "bad", name: "Bad", date: "2024-02-01", type: "LOAN_PAYOFF", loanId: "missing" }],
+        })
+      ).toThrow(/non-existent loan/);
+    });
+  });
+
+  describe("with HELOC loans", () => {
+    const heloc = {
+      id: "heloc1",
+      type: "HELOC" as const,
+      name: "Home Equity Line",
+      principal: 0,
+      aprPct: 9,
+      termMonths: 240,
+      startDate: "2024-01-01",
+      heloc: {
+        drawPeriodMonths: 120,
+        creditLimit: 50000,
+        draws: [{ date: "2024-04-01", amount: 20000 }],
+      },
+    };
+
+    it("pays draws out to cash and adds them to liabilities", () => {
+      const result = runEngine({ ...minimalInput, loans: [...minimalInput.loans, heloc] });
+      const withoutHeloc = runEngine(minimalInput);
+      const april = result.monthly.find((row) => row.t === "2024-04-01")!;
+      const aprilWithout = withoutHeloc.monthly.find((row) => row.t === "2024-04-01")!;
+
+      expect(april.loanDraws).toBe(20000);
+      expect(april.liabilitiesEnd - aprilWithout.liabilitiesEnd).toBe(20000);
+      // Interest-only payment on the drawn balance
+      expect(april.loanPayments - aprilWithout.loanPayments).toBe(150);
+    });
+
+    it("rejects a balance above the credit limit", () => {
+      expect(() =>
+        runEngine({
+          ...minimalInput,
+          loans: [{ ...heloc, principal: 60000 }],
+        })
+      ).toThrow(/exceeds its credit limit/);
+    });
+  });
+
+  describe("with Social Security and pensions", () => {
+    const retiree: ScenarioInputDTO = {
+      ...minimalInput,
+      members: [{ id: "m1", name: "Pat", birthDate: "1955-06-01" }],
+      incomes: [
+        {
+          id: "ss1",
+          name: "Social Security",
+          type: "SOCIAL_SECURITY",
+          memberId: "m1",
+          amount: 2000,
+          frequency: "MONTHLY",
+          startDate: "2024-01-01",
+          growthRule: "NONE",
+          socialSecurity: { claimingAge: 66 + 2 / 12 },
+        },
+        {
+          id: "pension1",
+          name: "Pension",
+          type: "PENSION",
+          memberId: "m1",
+          amount: 1500,
+          frequency: "MONTHLY",
+          startDate: "2024-01-01",
+          growthRule: "NONE",
+        },
+      ],
+    };
+
+    it("includes benefits in income without payroll taxes", () => {
+      const result = runEngine(retiree);
+      const january = result.monthly[0];
+
+      expect(january.socialSecurityIncome).toBe(2000);
+      expect(january.pensionIncome).toBe(1500);
+      expect(january.income).toBe(3500);
+      expect(result.taxAnnual[0].fica.total).toBe(0);
+      expect(result.taxAnnual[0].grossIncome.wages).toBe(0);
+    });
+
+    it("taxes only part of Social Security benefits", () => {
+      const [tax] = runEngine({
+        ...retiree,
+        accounts: [],
+        assumptions: { ...retiree.assumptions, inflationRatePct: 0 },
+      }).taxAnnual;
+
+      // Provisional income 18000 + 12000 = 30000: 2500 of benefits taxable
+      expect(tax.grossIncome.ordinaryDistributions).toBe(18000 + 2500);
+    });
+
+    it("rejects a claiming age outside 62-70", () => {
+      expect(() =>
+        runEngine({
+          ...retiree,
+          incomes: [{ ...retiree.incomes[0], socialSecurity: { claimingAge: 60 } }],
+        })
+      ).toThrow(/invalid claiming age/);
+    });
+  });
+
+  describe("with member lifetimes", () => {
+    const couple: ScenarioInputDTO = {
+      ...minimalInput,
+      household: { ...minimalInput.household, endDate: "2025-12-01" },
+      taxProfile: { ...minimalInput.taxProfile, filingStatus: "MFJ" },
+      members: [
+        { id: "m1", name: "Alex", birthDate: "1950-06-01", lifeExpectancy: 74 },
+        { id: "m2", name: "Sam", birthDate: "1952-01-01" },
+      ],
+      incomes: [{ ...minimalInput.incomes[0], memberId: "m1" }],
+      accounts: [{ ...minimalInput.accounts[0], memberId: "m1" }],
+    };
+
+    it("stops a member's income after their last month", () => {
+      const result = runEngine(couple);
+
+      expect(result.monthly[5].income).toBe(5000);
+      expect(result.monthly[6].income).toBe(0);
+      expect(result.warnings).toContainEqual(
+        expect.objectContaining({ code: "MEMBER_PLAN_END", at: "2024-07-01" })
+      );
+    });
+
+    it("files single after the year of death", () => {
+      const [death, after] = runEngine(couple).taxAnnual;
+
+      expect(after.standardDeduction).toBeLessThan(death.standardDeduction * 0.6);
+    });
+
+    it("keeps joint filing for qualifying survivor years", () => {
+      const [death, after] = runEngine({
+        ...couple,
+        taxProfile: { ...couple.taxProfile, qualifyingSurvivorYears: 1 },
+      }).taxAnnual;
+
+      expect(after.standardDeduction).toBeGreaterThan(death.standardDeduction);
+    });
+
+    it("rejects an invalid life expectancy", () => {
+      expect(() =>
+        runEngine({ ...couple, members: [{ ...couple.members![0], lifeExpectancy: 150 }] })
+      ).toThrow(/invalid life expectancy/);
+    });
+  });
+
+  describe("in real dollars", () => {
+    const nominal = runEngine(minimalInput);
+    const real = runEngine(minimalInput, { dollars: "REAL" });
+    // December inflation factor at 3% compounded monthly
+    const factor = Math.pow(1 + 0.03 / 12, 11);
+
+    it("reports the dollar basis", () => {
+      expect(nominal.dollars).toBe("NOMINAL");
+      expect(real.dollars).toBe("REAL");
+    });
+
+    it("leaves the first month unchanged", () => {
+      expect(real.monthly[0]).toEqual(nominal.monthly[0]);
+      expect(real.series.netWorth[0]).toEqual(nominal.series.netWorth[0]);
+    });
+
+    it("deflates later months by the inflation index", () => {
+      expect(real.monthly[11].income).toBeCloseTo(5000 / factor, 1);
+      expect(real.series.netWorth[11].v).toBeCloseTo(nominal.series.netWorth[11].v / factor, 0);
+      expect(real.series.accountBalances.account1[11].v).toBeCloseTo(
+        nominal.series.accountBalances.account1[11].v / factor,
+        0
+      );
+      expect(real.annual[0].endNetWorth).toBe(real.series.netWorth[11].v);
+      expect(real.annual[0].income).toBeLessThan(nominal.annual[0].income);
+    });
+
+    it("keeps goal targets flat in today's dollars", () => {
+      const withGoal: ScenarioInputDTO = {
+        ...minimalInput,
+        goals: [
+          {
+            id: "goal1",
+            type: "RETIREMENT",
+            name: "Nest egg",
+            targetAmountReal: 100000,
+            targetDate: "2024-12-01",
+            priority: 1,
+          },
+        ],
+      };
+      const { targetNominal } = runEngine(withGoal, { dollars: "REAL" }).series.goalProgress.goal1;
+
+      expect(targetNominal.every((point) => point.v === 100000)).toBe(true);
+    });
+
+    it("deflates tax years by their bracket indexing factor", () => {
+      const multiYear: ScenarioInputDTO = {
+        ...minimalInput,
+        household: { ...minimalInput.household, endDate: "2025-12-01" },
+      };
+      const [, nominalYear] = runEngine(multiYear).taxAnnual;
+      const [, realYear] = runEngine(multiYear, { dollars: "REAL" }).taxAnnual;
+      const januaryFactor = Math.pow(1 + 0.03 / 12, 12);
+
+      expect(realYear.grossIncome.wages).toBeCloseTo(nominalYear.grossIncome.wages / januaryFactor, 0);
+      expect(realYear.standardDeduction).toBeLessThan(nominalYear.standardDeduction);
+      expect(realYear.marginalRate).toBe(nominalYear.marginalRate);
+    });
+  });
+
   describe("multi-year projections", () => {
     it("handles multi-year projections", () => {
       const multiYearInput: ScenarioInputDTO = {
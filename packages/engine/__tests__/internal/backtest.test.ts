@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import { runHistoricalBacktest } from "../../src/internal/backtest";
+import { HISTORICAL_RETURNS, type HistoricalYear } from "../../src/internal/historicalReturns";
+import type { ScenarioInputDTO } from "../../src/types";
+
+describe("historical backtest", () => {
+  const baseInput: ScenarioInputDTO = {
+    scenarioId: "test",
+    household: {
+      currency: "USD",
+      anchorDate: "2024-01-01",
+      startDate: "2024-01-01",
+      endDate: "2026-12-01",
+    },
+    assumptions: {
+      inflationRatePct: 3,
+      taxableInterestYieldPct: 2,
+      taxableDividendYieldPct: 2,
+      realizedStGainPct: 0,
+      realizedLtGainPct: 0,
+    },
+    taxProfile: {
+      stateCode: "TX",
+      filingStatus: "SINGLE",
+      taxYear: 2024,
+      includePayrollTaxes: true,
+      advancedOverridesEnabled: false,
+    },
+    taxRules: {
+      federal: null,
+      state: null,
+    },
+    incomes: [],
+    expenses: [
+      {
+        id: "expense1",
+        category: "Living",
+        name: "Living",
+        amount: 3000,
+        frequency: "MONTHLY",
+        startDate: "2024-01-01",
+        growthRule: "TRACK_INFLATION",
+        isEssential: true,
+      },
+    ],
+    accounts: [
+      {
+        id: "account1",
+        name: "Portfolio",
+        type: "TAXABLE",
+        expectedReturnPct: 6,
+        holdings: [{ ticker: "VTI", shares: 1000, avgPrice: 100, lastPrice: 100 }],
+      },
+    ],
+    contributions: [],
+    loans: [],
+    goals: [],
+  };
+
+  const syntheticData: HistoricalYear[] = [
+    { year: 2000, stocksPct: 10, bondsPct: 4, billsPct: 2, cpiPct: 2 },
+    { year: 2001, stocksPct: -50, bondsPct: 5, billsPct: 2, cpiPct: 2 },
+    { year: 2002, stocksPct: -50, bondsPct: 5, billsPct: 2, cpiPct: 2 },
+    { year: 2003, stocksPct: 20, bondsPct: 3, billsPct: 2, cpiPct: 2 },
+    { year: 2004, stocksPct: 20, bondsPct: 3, billsPct: 2, cpiPct: 2 },
+  ];
+
+  it("embeds annual history from 1928", () => {
+    expect(HISTORICAL_RETURNS[0].year).toBe(1928);
+    const years = HISTORICAL_RETURNS.map((h) => h.year);
+    years.forEach((year, i) => expect(year).toBe(1928 + i));
+  });
+
+  it("replays every rolling window", () => {
+    const result = runHistoricalBacktest(baseInput, { data: syntheticData });
+
+    expect(result.windowYears).toBe(3);
+    expect(result.windows).toBe(3);
+    expect(result.startYears).toEqual([2000, 2001, 2002]);
+    expect(result.bands).toHaveLength(36);
+  });
+
+  it("replays the embedded dataset by default", () => {
+    const result = runHistoricalBacktest(baseInput);
+
+    expect(result.windows).toBe(HISTORICAL_RETURNS.length - 2);
+    expect(result.startYears[0]).toBe(1928);
+    for (const band of result.bands) {
+      expect(band.p10).toBeLessThanOrEqual(band.p50);
+      expect(band.p50).toBeLessThanOrEqual(band.p90);
+    }
+  });
+
+  it("compounds a year's return exactly", () => {
+    const flat: HistoricalYear[] = [
+      { year: 2000, stocksPct: 12, bondsPct: 12, billsPct: 12, cpiPct: 0 },
+    ];
+    const result = runHistoricalBacktest(
+      {
+        ...baseInput,
+        household: { ...baseInput.household, endDate: "2024-12-01" },
+        expenses: [],
+      },
+      { data: flat }
+    );
+
+    // Twelve monthly returns compound to the full annual return
+    expect(result.medianFinalNetWorth).toBeCloseTo(112000, -1);
+  });
+
+  it("reports start years that run out of money", () => {
+    const crash: HistoricalYear[] = [
+      { year: 2000, stocksPct: 10, bondsPct: 4, billsPct: 2, cpiPct: 2 },
+      { year: 2001, stocksPct: -90, bondsPct: 5, billsPct: 2, cpiPct: 2 },
+      { year: 2002, stocksPct: 20, bondsPct: 3, billsPct: 2, cpiPct: 2 },
+      { year: 2003, stocksPct: 20, bondsPct: 3, billsPct: 2, cpiPct: 2 },
+      { year: 2004, stocksPct: 20, bondsPct: 3, billsPct: 2, cpiPct: 2 },
+    ];
+    const result = runHistoricalBacktest(
+      { ...baseInput, expenses: [{ ...baseInput.expenses[0], amount: 1500 }] },
+      { data: crash, defaultAllocation: { STOCKS: 100 } }
+    );
+
+    expect(result.failingStartYears).toEqual([2000, 2001]);
+    expect(result.successRate).toBeCloseTo(33.3, 1);
+  });
+
+  it("uses allocations per account", () => {
+    const stocks = runHistoricalBacktest(baseInput, {
+      data: syntheticData,
+      allocations: { account1: { STOCKS: 100 } },
+    });
+    const bills = runHistoricalBacktest(baseInput, {
+      data: syntheticData,
+      allocations: { account1: { CASH: 100 } },
+    });
+
+    expect(bills.p90FinalNetWorth - bills.p10FinalNetWorth).toBeLessThan(
+      stocks.p90FinalNetWorth - stocks.p10FinalNetWorth
+    );
+  });
+
+  it("throws when the projection outlasts the history", () => {
+    expect(() =>
+      runHistoricalBacktest(
+        { ...baseInput, household: { ...baseInput.household, endDate: "2034-12-01" } },
+        { data: syntheticData }
+      )
+    ).toThrow("historical data covers only 5");
+  });
+
+  it("rejects allocations that do not sum to 100%", () => {
+    expect(() =>
+      runHistoricalBacktest(baseInput, { allocations: { account1: { STOCKS: 50 } } })
+    ).toThrow("sum to 100%");
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  getFullRetirementAgeMonths,
+  getClaimingAdjustment,
+  calculateTaxableSocialSecurity,
+  calculateMonthlyBenefits,
+} from "../../src/internal/benefits";
+import { isMemberAlive } from "../../src/internal/mortality";
+import type { IncomeDTO, MemberDTO } from "../../src/types";
+
+describe("benefits", () => {
+  describe("getFullRetirementAgeMonths", () => {
+    it("phases in from 65 to 67 by birth year", () => {
+      expect(getFullRetirementAgeMonths(1937)).toBe(780);
+      expect(getFullRetirementAgeMonths(1950)).toBe(792);
+      expect(getFullRetirementAgeMonths(1957)).toBe(798);
+      expect(getFullRetirementAgeMonths(1965)).toBe(804);
+    });
+  });
+
+  describe("getClaimingAdjustment", () => {
+    it("reduces benefits claimed at 62 by 30%", () => {
+      expect(getClaimingAdjustment(62 * 12, 67 * 12)).toBeCloseTo(0.7, 10);
+    });
+
+    it("adds 8% a year of delayed credits up to 70", () => {
+      expect(getClaimingAdjustment(70 * 12, 67 * 12)).toBeCloseTo(1.24, 10);
+      expect(getClaimingAdjustment(72 * 12, 67 * 12)).toBeCloseTo(1.24, 10);
+    });
+  });
+
+  describe("calculateTaxableSocialSecurity", () => {
+    it("taxes nothing below the base threshold", () => {
+      expect(calculateTaxableSocialSecurity(20000, 10000, "SINGLE")).toBe(0);
+    });
+
+    it("taxes up to half of benefits between the thresholds", () => {
+      // Provisional income 30000: half the 5000 excess
+      expect(calculateTaxableSocialSecurity(20000, 20000, "SINGLE")).toBe(2500);
+    });
+
+    it("taxes at most 85% of benefits", () => {
+      expect(calculateTaxableSocialSecurity(40000, 200000, "MFJ")).toBe(34000);
+    });
+
+    it("uses the joint thresholds for married filers", () => {
+      expect(calculateTaxableSocialSecurity(20000, 20000, "MFJ")).toBe(0);
+    });
+  });
+
+  describe("calculateMonthlyBenefits", () => {
+    const members: MemberDTO[] = [
+      { id: "alex", name: "Alex", birthDate: "1960-03-15", lifeExpectancy: 80 },
+      { id: "sam", name: "Sam", birthDate: "1962-06-15" },
+    ];
+    const alexSocialSecurity: IncomeDTO = {
+      id: "ss-alex",
+      name: "Alex Social Security",
+      type: "SOCIAL_SECURITY",
+      memberId: "alex",
+      amount: 3000,
+      frequency: "MONTHLY",
+      startDate: "2024-01-01",
+      growthRule: "TRACK_INFLATION",
+      socialSecurity: { claimingAge: 70 },
+    };
+    const samSocialSecurity: IncomeDTO = {
+      ...alexSocialSecurity,
+      id: "ss-sam",
+      name: "Sam Social Security",
+      memberId: "sam",
+      amount: 1000,
+      socialSecurity: { claimingAge: 67 },
+    };
+    const pension: IncomeDTO = {
+      id: "pension",
+      name: "Alex Pension",
+      type: "PENSION",
+      memberId: "alex",
+      amount: 24000,
+      frequency: "ANNUAL",
+      startDate: "2025-01-01",
+      growthRule: "NONE",
+      pension: { survivorPct: 50 },
+    };
+    const incomes = [alexSocialSecurity, samSocialSecurity, pension];
+
+    it("pays nothing before the claiming age", () => {
+      expect(calculateMonthlyBenefits(incomes, members, "2029-01-01", new Map())).toEqual({
+        socialSecurity: 0,
+        pension: 2000,
+      });
+    });
+
+    it("pays the claiming-age benefits with COLA", () => {
+      const index = new Map([["2030-04", 1.1]]);
+      const benefits = calculateMonthlyBenefits(incomes, members, "2030-04-01", index);
+      // Alex 3000 x 1.24 delayed credits, Sam 1000 at full retirement age
+      expect(benefits.socialSecurity).toBe(5192);
+    });
+
+    it("substitutes the larger survivor benefit and continues the pension at its survivor share", () => {
+      expect(isMemberAlive(members[0], "2040-03")).toBe(true);
+      expect(isMemberAlive(members[0], "2040-04")).toBe(false);
+
+      const benefits = calculateMonthlyBenefits(incomes, members, "2040-04-01", new Map());
+      expect(benefits.socialSecurity).toBe(3720);
+      expect(benefits.pension).toBe(1000);
+    });
+
+    it("stops a pension with no surviving member", () => {
+      const benefits = calculateMonthlyBenefits([pension], [members[0]], "2040-04-01", new Map());
+      expect(benefits.pension).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  initializeCashState,
+  applyCashflow,
+  sweepExcessCash,
+} from "../../src/internal/cash";
+import type { AccountState } from "../../src/internal/accounts";
+
+function makeAccounts(): AccountState[] {
+  return [
+    { accountId: "brokerage", balance: 1000, contributions: 0, employerMatch: 0, returns: 0, withdrawals: 0, costBasis: 0 },
+    { accountId: "ira", balance: 500, contributions: 0, employerMatch: 0, returns: 0, withdrawals: 0, costBasis: 0 },
+  ];
+}
+
+describe("cash bucket", () => {
+  describe("initializeCashState", () => {
+    it("defaults to zero without a cash definition", () => {
+      expect(initializeCashState(undefined)).toEqual({ balance: 0, swept: 0 });
+    });
+
+    it("uses the configured initial balance", () => {
+      const cash = initializeCashState({ initialBalance: 2500, overflowRules: [] });
+      expect(cash.balance).toBe(2500);
+    });
+  });
+
+  describe("applyCashflow", () => {
+    it("adds surplus and subtracts deficits", () => {
+      const cash = initializeCashState({ initialBalance: 1000, overflowRules: [] });
+      applyCashflow(cash, 300);
+      expect(cash.balance).toBe(1300);
+      applyCashflow(cash, -1500);
+      expect(cash.balance).toBe(-200);
+    });
+  });
+
+  describe("sweepExcessCash", () => {
+    it("does nothing without a target balance", () => {
+      const cash = initializeCashState({ initialBalance: 50000, overflowRules: [] });
+      const accounts = makeAccounts();
+      sweepExcessCash(cash, accounts, {
+        initialBalance: 50000,
+        overflowRules: [{ accountId: "brokerage", sharePct: 100 }],
+      });
+      expect(cash.balance).toBe(50000);
+      expect(accounts[0].balance).toBe(1000);
+    });
+
+    it("sweeps excess above target into the designated account", () => {
+      const config = {
+        initialBalance: 15000,
+        targetBalance: 10000,
+        overflowRules: [{ accountId: "brokerage", sharePct: 100 }],
+      };
+      const cash = initializeCashState(config);
+      const accounts = makeAccounts();
+
+      sweepExcessCash(cash, accounts, config);
+
+      expect(cash.balance).toBe(10000);
+      expect(cash.swept).toBe(5000);
+      expect(accounts[0].balance).toBe(6000);
+    });
+
+    it("splits excess across rules by share and honors caps", () => {
+      const config = {
+        initialBalance: 14000,
+        targetBalance: 10000,
+        overflowRules: [
+          { accountId: "ira", sharePct: 50, maxMonthly: 500 },
+          { accountId: "brokerage", sharePct: 50 },
+        ],
+      };
+      const cash = initializeCashState(config);
+      const accounts = makeAccounts();
+
+      sweepExcessCash(cash, accounts, config);
+
+      expect(accounts[1].balance).toBe(1000); // 500 + capped 500
+      expect(accounts[0].balance).toBe(3000); // 1000 + 2000
+      expect(cash.balance).toBe(11500); // Uncovered share stays in cash
+    });
+
+    it("leaves cash alone when at or below target", () => {
+      const config = {
+        initialBalance: 8000,
+        targetBalance: 10000,
+        overflowRules: [{ accountId: "brokerage", sharePct: 100 }],
+      };
+      const cash = initializeCashState(config);
+      const accounts = makeAccounts();
+
+      sweepExcessCash(cash, accounts, config);
+
+      expect(cash.balance).toBe(8000);
+      expect(cash.swept).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  startContributionYear,
+  getBaseContributionLimit,
+  applyContributionLimit,
+  applyEmployerMatch,
+} from "../../src/internal/contributionLimits";
+import type { InvestmentAccountDTO, MemberDTO } from "../../src/types";
+
+const members: MemberDTO[] = [
+  { id: "m1", name: "Alex", birthDate: "1990-05-01" },
+  { id: "m2", name: "Sam", birthDate: "1970-02-01" },
+];
+
+function account(id: string, plan: InvestmentAccountDTO["plan"], memberId?: string): InvestmentAccountDTO {
+  return { id, name: id, type: "TRADITIONAL", expectedReturnPct: 7, holdings: [], plan, memberId };
+}
+
+describe("contributionLimits", () => {
+  describe("getBaseContributionLimit", () => {
+    it("returns the 2024 401(k) limit below catch-up age", () => {
+      expect(getBaseContributionLimit("401K", 34, "SINGLE")).toBe(23000);
+    });
+
+    it("adds catch-up contributions from age 50", () => {
+      expect(getBaseContributionLimit("401K", 50, "SINGLE")).toBe(30500);
+      expect(getBaseContributionLimit("IRA", 54, "SINGLE")).toBe(8000);
+    });
+
+    it("uses the family HSA limit for joint filers and catch-up from 55", () => {
+      expect(getBaseContributionLimit("HSA", 40, "SINGLE")).toBe(4150);
+      expect(getBaseContributionLimit("HSA", 40, "MFJ")).toBe(8300);
+      expect(getBaseContributionLimit("HSA", 55, "MFJ")).toBe(9300);
+    });
+  });
+
+  describe("applyContributionLimit", () => {
+    it("allows contributions up to the limit and caps the rest", () => {
+      const state = startContributionYear(2024, 1);
+      const acct = account("k1", "401K");
+
+      expect(applyContributionLimit(state, acct, members, "SINGLE", 20000)).toBe(20000);
+      expect(applyContributionLimit(state, acct, members, "SINGLE", 5000)).toBe(3000);
+      expect(applyContributionLimit(state, acct, members, "SINGLE", 1000)).toBe(0);
+      expect(state.capped.has("m1:401K")).toBe(true);
+    });
+
+    it("shares one limit across a member's accounts in the same plan", () => {
+      const state = startContributionYear(2024, 1);
+      applyContributionLimit(state, account("ira1", "IRA", "m1"), members, "SINGLE", 5000);
+
+      expect(
+        applyContributionLimit(state, account("ira2", "IRA", "m1"), members, "SINGLE", 5000)
+      ).toBe(2000);
+      expect(
+        applyContributionLimit(state, account("ira3", "IRA", "m2"), members, "SINGLE", 5000)
+      ).toBe(5000);
+    });
+
+    it("does not limit accounts without a plan", () => {
+      const state = startContributionYear(2024, 1);
+      expect(applyContributionLimit(state, account("b", undefined), members, "SINGLE", 1e6)).toBe(
+        1e6
+      );
+    });
+
+    it("indexes limits in $500 steps", () => {
+      const state = startContributionYear(2025, 1.03);
+      const acct = account("k1", "401K");
+      // 23000 * 1.03 = 23690, rounded down to 23500
+      expect(applyContributionLimit(state, acct, members, "SINGLE", 30000)).toBe(23500);
+    });
+  });
+
+  describe("applyEmployerMatch", () => {
+    it("matches a percentage of the contribution", () => {
+      const state = startContributionYear(2024, 1);
+      expect(applyEmployerMatch(state, 0, 1000, 50, undefined)).toBe(500);
+    });
+
+    it("stops matching at the annual limit", () => {
+      const state = startContributionYear(2024, 1);
+      expect(applyEmployerMatch(state, 0, 1000, 100, 2500)).toBe(1000);
+      expect(applyEmployerMatch(state, 0, 1000, 100, 2500)).toBe(1000);
+      expect(applyEmployerMatch(state, 0, 1000, 100, 2500)).toBe(500);
+      expect(applyEmployerMatch(state, 0, 1000, 100, 2500)).toBe(0);
+    });
+
+    it("returns 0 without a match percentage", () => {
+      const state = startContributionYear(2024, 1);
+      expect(applyEmployerMatch(state, 0, 1000, undefined, undefined)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import { applyIncomeEvents, applyScheduledEvents, type EventContext } from "../../src/internal/events";
+import { initializeRealAssetStates, updateRealAssets } from "../../src/internal/realAssets";
+import type { AmortizationRow } from "../../src/internal/loans";
+import type { IncomeDTO, InvestmentAccountDTO, RealAssetDTO } from "../../src/types";
+
+describe("events", () => {
+  const accountDefs: InvestmentAccountDTO[] = [
+    { id: "brokerage", name: "Brokerage", type: "TAXABLE", expectedReturnPct: 7, holdings: [] },
+    { id: "ira", name: "IRA", type: "TRADITIONAL", expectedReturnPct: 7, holdings: [] },
+    { id: "roth", name: "Roth", type: "ROTH", expectedReturnPct: 7, holdings: [] },
+  ];
+
+  const home: RealAssetDTO = {
+    id: "home",
+    type: "HOME",
+    name: "House",
+    value: 500000,
+    costBasis: 200000,
+    purchaseDate: "2010-01-01",
+    linkedLoanId: "mortgage",
+  };
+
+  function makeSchedule(): AmortizationRow[] {
+    return [
+      { month: "2024-01", payment: 1000, principal: 400, interest: 600, balance: 99600, draw: 0, ratePct: 7.2 },
+      { month: "2024-02", payment: 1000, principal: 402, interest: 598, balance: 99198, draw: 0, ratePct: 7.2 },
+      { month: "2024-03", payment: 1000, principal: 404, interest: 596, balance: 98794, draw: 0, ratePct: 7.2 },
+    ];
+  }
+
+  function makeContext(): EventContext {
+    const realAssets = initializeRealAssetStates([home]);
+    updateRealAssets(realAssets, [home], [], "2024-01-01", "2024-01-01", new Map());
+    return {
+      accounts: accountDefs.map((def) => ({
+        accountId: def.id,
+        balance: 50000,
+        contributions: 0,
+        employerMatch: 0,
+        returns: 0,
+        withdrawals: 0,
+        costBasis: 50000,
+      })),
+      accountDefs,
+      loanSchedules: new Map([["mortgage", makeSchedule()]]),
+      realAssets,
+      realAssetDefs: [home],
+      filingStatus: "SINGLE",
+    };
+  }
+
+  describe("applyIncomeEvents", () => {
+    const salary: IncomeDTO = {
+      id: "salary",
+      name: "Salary",
+      amount: 5000,
+      frequency: "MONTHLY",
+      startDate: "2024-01-01",
+      growthRule: "NONE",
+    };
+
+    it("ends a stopped income the month before the event", () => {
+      const [income] = applyIncomeEvents(
+        [salary],
+        [{ id: "e1", name: "Retire", date: "2030-07-01", type: "INCOME_CHANGE", incomeId: "salary", action: "STOP" }]
+      );
+      expect(income.endDate).toBe("2030-06-01");
+    });
+
+    it("starts an income in the event month", () => {
+      const [income] = applyIncomeEvents(
+        [salary],
+        [{ id: "e1", name: "New job", date: "2025-03-01", type: "INCOME_CHANGE", incomeId: "salary", action: "START" }]
+      );
+      expect(income.startDate).toBe("2025-03-01");
+    });
+  });
+
+  describe("applyScheduledEvents", () => {
+    it("ignores events in other months", () => {
+      const result = applyScheduledEvents(
+        [{ id: "e1", name: "Gift", date: "2024-05-01", type: "LUMP_SUM", amount: 10000 }],
+        "2024-01-01",
+        makeContext()
+      );
+      expect(result.applied).toEqual([]);
+      expect(result.cashflow).toBe(0);
+    });
+
+    it("adds lump sums to cash", () => {
+      const result = applyScheduledEvents(
+        [
+          { id: "e1", name: "Inheritance", date: "2024-02-01", type: "LUMP_SUM", amount: 10000 },
+          { id: "e2", name: "Boat", date: "2024-02-15", type: "LUMP_SUM", amount: -4000 },
+        ],
+        "2024-02-01",
+        makeContext()
+      );
+      expect(result.cashflow).toBe(6000);
+      expect(result.applied.map((e) => e.amount)).toEqual([10000, -4000]);
+    });
+
+    it("pays off a loan from an account and stops its payments", () => {
+      const context = makeContext();
+      const result = applyScheduledEvents(
+        [{ id: "e1", name: "Pay off", date: "2024-02-01", type: "LOAN_PAYOFF", loanId: "mortgage", fromAccountId: "ira" }],
+        "2024-02-01",
+        context
+      );
+
+      // Balance before February's payment, drawn from the IRA and taxed
+      expect(result.applied[0].amount).toBe(99600);
+      expect(result.traditional).toBe(50000);
+      expect(result.cashflow).toBe(-49600);
+      expect(context.loanSchedules.get("mortgage")![1].payment).toBe(0);
+      expect(context.loanSchedules.get("mortgage")![2].balance).toBe(0);
+    });
+
+    it("taxes transfers out of traditional accounts as conversions", () => {
+      const context = makeContext();
+      const result = applyScheduledEvents(
+        [
+          { id: "e1", name: "Convert", date: "2024-01-01", type: "ACCOUNT_TRANSFER", fromAccountId: "ira", toAccountId: "roth", amount: 20000 },
+          { id: "e2", name: "Rebalance", date: "2024-01-01", type: "ACCOUNT_TRANSFER", fromAccountId: "brokerage", toAccountId: "ira", amount: 5000 },
+        ],
+        "2024-01-01",
+        context
+      );
+
+      expect(result.traditional).toBe(20000);
+      expect(result.cashflow).toBe(0);
+      expect(context.accounts.find((a) => a.accountId === "roth")!.balance).toBe(70000);
+    });
+
+    it("moves money between accounts of the same type without a withdrawal", () => {
+      const context = makeContext();
+      context.accounts.push({ ...context.accounts[1], accountId: "ira2", balance: 0, costBasis: 0 });
+      context.accountDefs = [...accountDefs, { ...accountDefs[1], id: "ira2", name: "Rollover IRA" }];
+      const result = applyScheduledEvents(
+        [{ id: "e1", name: "Rollover", date: "2024-01-01", type: "ACCOUNT_TRANSFER", fromAccountId: "ira", toAccountId: "ira2", amount: 20000 }],
+        "2024-01-01",
+        context
+      );
+      const [ira, ira2] = ["ira", "ira2"].map((id) => context.accounts.find((a) => a.accountId === id)!);
+
+      expect(result.traditional).toBe(0);
+      expect(result.capitalGains).toBe(0);
+      expect(ira.withdrawals).toBe(0);
+      expect(ira2.balance).toBe(20000);
+    });
+
+    it("sells an asset, repays its loan and taxes the gain above the exclusion", () => {
+      const context = makeContext();
+      const result = applyScheduledEvents(
+        [{ id: "e1", name: "Sell home", date: "2024-02-01", type: "ASSET_SALE", assetId: "home", sellingCostPct: 6 }],
+        "2024-02-01",
+        context
+      );
+
+      // 470000 proceeds - 99600 loan; gain 270000 less the 250000 exclusion
+      expect(result.applied[0].amount).toBe(370400);
+      expect(result.cashflow).toBe(370400);
+      expect(result.capitalGains).toBe(20000);
+      expect(context.realAssets[0].owned).toBe(false);
+    });
+
+    it("deposits sale proceeds into the chosen account", () => {
+      const context = makeContext();
+      const result = applyScheduledEvents(
+        [{ id: "e1", name: "Sell home", date: "2024-02-01", type: "ASSET_SALE", assetId: "home", depositAccountId: "brokerage" }],
+        "2024-02-01",
+        context
+      );
+
+      expect(result.cashflow).toBe(0);
+      expect(context.accounts[0].balance).toBe(450400);
+    });
+  });
+});
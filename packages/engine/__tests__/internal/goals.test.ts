@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { isLinkedGoal, getEarmarkedBalance, withdrawForGoal } from "../../src/internal/goals";
+import type { AccountState } from "../../src/internal/accounts";
+import type { GoalDTO, InvestmentAccountDTO } from "../../src/types";
+
+const accountDefs: InvestmentAccountDTO[] = [
+  { id: "college", name: "529", type: "TAXABLE", expectedReturnPct: 0, holdings: [] },
+  { id: "ira", name: "IRA", type: "TRADITIONAL", expectedReturnPct: 0, holdings: [] },
+  { id: "other", name: "Other", type: "TAXABLE", expectedReturnPct: 0, holdings: [] },
+];
+
+function makeAccounts(): AccountState[] {
+  return [
+    { accountId: "college", balance: 30000, contributions: 0, employerMatch: 0, returns: 0, withdrawals: 0, costBasis: 0 },
+    { accountId: "ira", balance: 10000, contributions: 0, employerMatch: 0, returns: 0, withdrawals: 0, costBasis: 0 },
+    { accountId: "other", balance: 50000, contributions: 0, employerMatch: 0, returns: 0, withdrawals: 0, costBasis: 0 },
+  ];
+}
+
+const goal: GoalDTO = {
+  id: "goal1",
+  type: "COLLEGE",
+  name: "College",
+  targetAmountReal: 20000,
+  targetDate: "2030-09-01",
+  priority: 1,
+  linkedAccountIds: ["college", "ira"],
+};
+
+describe("goal funding", () => {
+  it("treats goals without linked accounts as unlinked", () => {
+    expect(isLinkedGoal({ ...goal, linkedAccountIds: [] })).toBe(false);
+    expect(isLinkedGoal(goal)).toBe(true);
+  });
+
+  it("sums only the earmarked share of linked balances", () => {
+    const accounts = makeAccounts();
+    expect(getEarmarkedBalance(goal, accounts)).toBe(40000);
+    expect(getEarmarkedBalance({ ...goal, earmarkPct: 25 }, accounts)).toBe(10000);
+  });
+
+  it("pays a goal pro-rata from linked accounts only", () => {
+    const accounts = makeAccounts();
+    const paid = withdrawForGoal(goal, accounts, accountDefs, 20000);
+
+    // The 529 holdings have no cost basis, so their whole draw is gain
+    expect(paid).toEqual({ total: 20000, traditional: 5000, realizedGains: 15000 });
+    expect(accounts[0].balance).toBe(15000);
+    expect(accounts[1].balance).toBe(5000);
+    expect(accounts[2].balance).toBe(50000);
+  });
+
+  it("caps the payout at the earmarked balance", () => {
+    const accounts = makeAccounts();
+    const paid = withdrawForGoal({ ...goal, earmarkPct: 25 }, accounts, accountDefs, 20000);
+
+    expect(paid.total).toBe(10000);
+  });
+});
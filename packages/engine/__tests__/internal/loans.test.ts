@@ -6,8 +6,10 @@ import {
   getTotalInterestPaid,
   getTotalPaymentsMade,
   getMonthlyPaymentAtDate,
+  getAdjustedRate,
+  payOffLoan,
 } from "../../src/internal/loans";
-import type { LoanDTO } from "../../src/types";
+import type { AdjustableRateDTO, LoanDTO } from "../../src/types";
 
 describe("loan utilities", () => {
   describe("calculateMonthlyPayment", () => {
@@ -214,6 +216,168 @@ describe("loan utilities", () => {
     });
   });
 
+  describe("getAdjustedRate", () => {
+    const arm: AdjustableRateDTO = {
+      initialFixedMonths: 60,
+      adjustmentIntervalMonths: 12,
+      marginPct: 2.75,
+      indexPath: [{ date: "2029-01-01", ratePct: 6 }],
+      initialCapPct: 2,
+      periodicCapPct: 1,
+      lifetimeCapPct: 5,
+    };
+
+    it("holds the initial rate during the fixed period", () => {
+      expect(getAdjustedRate(arm, 5, 5, 59, "2028-12")).toBe(5);
+    });
+
+    it("limits the first adjustment to the initial cap", () => {
+      // Index 6 + margin 2.75 = 8.75, capped at 5 + 2
+      expect(getAdjustedRate(arm, 5, 5, 60, "2029-01")).toBe(7);
+    });
+
+    it("only adjusts on the interval", () => {
+      expect(getAdjustedRate(arm, 5, 7, 66, "2029-07")).toBe(7);
+      expect(getAdjustedRate(arm, 5, 7, 72, "2030-01")).toBe(8);
+    });
+
+    it("never exceeds the lifetime cap or drops below the floor", () => {
+      const volatile: AdjustableRateDTO = {
+        ...arm,
+        indexPath: [
+          { date: "2029-01-01", ratePct: 15 },
+          { date: "2031-01-01", ratePct: 0 },
+        ],
+        periodicCapPct: undefined,
+        initialCapPct: undefined,
+      };
+      expect(getAdjustedRate(volatile, 5, 5, 60, "2029-01")).toBe(10);
+      expect(getAdjustedRate(volatile, 5, 10, 84, "2031-01")).toBe(2.75);
+    });
+
+    it("keeps the index flat before the rate path starts", () => {
+      expect(getAdjustedRate({ ...arm, indexPath: [] }, 5, 5, 60, "2029-01")).toBe(5);
+    });
+  });
+
+  describe("adjustable and interest-only loans", () => {
+    const mortgage: LoanDTO = {
+      id: "mortgage",
+      type: "MORTGAGE",
+      name: "5/1 ARM",
+      principal: 300000,
+      aprPct: 5,
+      termMonths: 360,
+      startDate: "2024-01-01",
+    };
+
+    it("recasts the payment when the rate resets", () => {
+      const schedule = generateAmortizationSchedule(
+        {
+          ...mortgage,
+          adjustableRate: {
+            initialFixedMonths: 60,
+            adjustmentIntervalMonths: 12,
+            marginPct: 2.75,
+            indexPath: [{ date: "2028-06-01", ratePct: 5.25 }],
+            periodicCapPct: 2,
+          },
+        },
+        "2024-01-01",
+        "2029-12-31"
+      );
+      const fixed = schedule.find((row) => row.month === "2028-12")!;
+      const adjusted = schedule.find((row) => row.month === "2029-01")!;
+
+      expect(fixed.ratePct).toBe(5);
+      expect(fixed.payment).toBeCloseTo(1610.46, 2);
+      expect(adjusted.ratePct).toBe(7);
+      expect(adjusted.payment).toBeGreaterThan(fixed.payment);
+      expect(adjusted.payment).toBeCloseTo(
+        calculateMonthlyPayment(fixed.balance, 0.07, 300),
+        2
+      );
+    });
+
+    it("pays only interest during the interest-only period, then amortizes the rest of the term", () => {
+      const schedule = generateAmortizationSchedule(
+        { ...mortgage, interestOnlyMonths: 120 },
+        "2024-01-01",
+        "2034-12-31"
+      );
+
+      expect(schedule[0].payment).toBe(1250);
+      expect(schedule[119].balance).toBe(300000);
+      expect(schedule[120].payment).toBeCloseTo(calculateMonthlyPayment(300000, 0.05, 240), 2);
+      expect(schedule[120].balance).toBeLessThan(300000);
+    });
+
+    it("applies extra payments only within their date range", () => {
+      const schedule = generateAmortizationSchedule(
+        {
+          ...mortgage,
+          extraPayments: [{ amountMonthly: 500, startDate: "2024-03-01", endDate: "2024-04-30" }],
+        },
+        "2024-01-01",
+        "2024-06-30"
+      );
+
+      expect(schedule.map((row) => round2(row.payment - schedule[0].payment))).toEqual([
+        0, 0, 500, 500, 0, 0,
+      ]);
+    });
+  });
+
+  describe("HELOC loans", () => {
+    const heloc: LoanDTO = {
+      id: "heloc",
+      type: "HELOC",
+      name: "Home Equity Line",
+      principal: 10000,
+      aprPct: 9,
+      termMonths: 240,
+      startDate: "2024-01-01",
+      heloc: {
+        drawPeriodMonths: 120,
+        creditLimit: 50000,
+        draws: [
+          { date: "2024-03-01", amount: 15000 },
+          { date: "2025-01-01", amount: 40000 },
+          { date: "2035-01-01", amount: 5000 },
+        ],
+      },
+    };
+
+    it("adds draws to the balance up to the credit limit, paying interest only", () => {
+      const schedule = generateAmortizationSchedule(heloc, "2024-01-01", "2025-12-31");
+      const march = schedule.find((row) => row.month === "2024-03")!;
+      const january = schedule.find((row) => row.month === "2025-01")!;
+
+      expect(schedule[0].payment).toBe(75);
+      expect(march.draw).toBe(15000);
+      expect(march.balance).toBe(25000);
+      expect(march.payment).toBe(187.5);
+      expect(january.draw).toBe(25000);
+      expect(january.balance).toBe(50000);
+    });
+
+    it("repays the balance over the rest of the term once the draw period ends", () => {
+      const schedule = generateAmortizationSchedule(heloc, "2033-12-01", "2034-01-31");
+
+      expect(schedule[0].principal).toBe(0);
+      expect(schedule[1].draw).toBe(0);
+      expect(schedule[1].payment).toBeCloseTo(calculateMonthlyPayment(50000, 0.09, 120), 2);
+      expect(schedule[1].balance).toBeLessThan(50000);
+    });
+
+    it("excludes the month's draw from the payoff amount", () => {
+      const schedule = generateAmortizationSchedule(heloc, "2024-01-01", "2024-12-31");
+
+      expect(payOffLoan(schedule, "2024-03-01")).toBe(10000);
+      expect(schedule[2].draw).toBe(0);
+    });
+  });
+
   describe("financial invariants", () => {
     it("balance decreases monotonically", () => {
       const loan: LoanDTO = {
@@ -253,3 +417,7 @@ describe("loan utilities", () => {
     });
   });
 });
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
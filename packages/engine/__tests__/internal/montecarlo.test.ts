@@ -239,6 +239,119 @@ describe("Monte Carlo simulation", () => {
     });
   });
 
+  describe("with a return model", () => {
+    it("is deterministic with the same seed", () => {
+      const config = {
+        simulations: 50,
+        volatilityPct: 15,
+        seed: 7,
+        returnModel: { step: "MONTH" as const, degreesOfFreedom: 5 },
+      };
+
+      const result1 = runMonteCarlo(baseInput, config);
+      const result2 = runMonteCarlo(baseInput, config);
+
+      expect(result1.medianFinalNetWorth).toBe(result2.medianFinalNetWorth);
+    });
+
+    it("narrows the spread for a bond allocation", () => {
+      const stocks = runMonteCarlo(baseInput, {
+        simulations: 100,
+        volatilityPct: 15,
+        seed: 42,
+        returnModel: { allocations: { account1: { STOCKS: 100 } } },
+      });
+      const bonds = runMonteCarlo(baseInput, {
+        simulations: 100,
+        volatilityPct: 15,
+        seed: 42,
+        returnModel: { allocations: { account1: { BONDS: 100 } } },
+      });
+
+      expect(bonds.p90FinalNetWorth - bonds.p10FinalNetWorth).toBeLessThan(
+        stocks.p90FinalNetWorth - stocks.p10FinalNetWorth
+      );
+    });
+
+    it("rejects an invalid correlation matrix", () => {
+      expect(() =>
+        runMonteCarlo(baseInput, {
+          simulations: 50,
+          volatilityPct: 15,
+          returnModel: {
+            correlation: [
+              [1, 0.9, -0.9],
+              [0.9, 1, 0.9],
+              [-0.9, 0.9, 1],
+            ],
+          },
+        })
+      ).toThrow("positive definite");
+    });
+  });
+
+  describe("with sampled longevity", () => {
+    // An 80-year-old spending down savings that last about five years
+    const retiree: ScenarioInputDTO = {
+      ...baseInput,
+      household: { ...baseInput.household, endDate: "2053-12-01" },
+      members: [{ id: "m1", name: "Pat", birthDate: "1944-01-01", sex: "MALE" }],
+      incomes: [],
+      expenses: [{ ...baseInput.expenses[0], amount: 3000 }],
+      accounts: [
+        {
+          ...baseInput.accounts[0],
+          expectedReturnPct: 0,
+          memberId: "m1",
+          holdings: [{ ticker: "VTI", shares: 1000, avgPrice: 200, lastPrice: 200 }],
+        },
+      ],
+    };
+
+    it("counts runs where the money outlasts the member as successes", () => {
+      const config = { simulations: 50, volatilityPct: 1, seed: 42 };
+      const fixed = runMonteCarlo(retiree, config);
+      const sampled = runMonteCarlo(retiree, { ...config, sampleLongevity: true });
+
+      expect(fixed.successRate).toBe(0);
+      expect(sampled.successRate).toBeGreaterThan(0);
+      expect(sampled.successRate).toBeLessThan(100);
+    });
+
+    it("keeps an explicit life expectancy", () => {
+      const result = runMonteCarlo(
+        { ...retiree, members: [{ ...retiree.members![0], lifeExpectancy: 82 }] },
+        { simulations: 50, volatilityPct: 1, seed: 42, sampleLongevity: true }
+      );
+
+      expect(result.successRate).toBe(100);
+    });
+  });
+
+  describe("in real dollars", () => {
+    const config = { simulations: 50, volatilityPct: 15, seed: 42 };
+
+    it("deflates bands and final net worths", () => {
+      const nominal = runMonteCarlo(baseInput, config);
+      const real = runMonteCarlo(baseInput, { ...config, dollars: "REAL" });
+
+      expect(nominal.dollars).toBe("NOMINAL");
+      expect(real.dollars).toBe("REAL");
+      expect(real.bands[0]).toEqual(nominal.bands[0]);
+      expect(real.medianFinalNetWorth).toBeLessThan(nominal.medianFinalNetWorth);
+      expect(real.successRate).toBe(nominal.successRate);
+    });
+
+    it("deflates each run by its sampled inflation path", () => {
+      const sampled = { ...config, returnModel: { inflation: { volatilityPct: 2 } } };
+      const nominal = runMonteCarlo(baseInput, sampled);
+      const real = runMonteCarlo(baseInput, { ...sampled, dollars: "REAL" });
+
+      expect(real.medianFinalNetWorth).not.toBe(nominal.medianFinalNetWorth);
+      expect(real.p10FinalNetWorth).toBeLessThanOrEqual(real.medianFinalNetWorth);
+    });
+  });
+
   describe("percentile ordering", () => {
     it("maintains correct ordering across all time points", () => {
       const result = runMonteCarlo(baseInput, {
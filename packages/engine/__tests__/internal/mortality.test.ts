@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import {
+  getDeathProbability,
+  getLifeExpectancy,
+  sampleAgeAtDeath,
+  resolveLifeExpectancy,
+  getMemberEndMonth,
+  getHouseholdEndMonth,
+  endIncomesAtDeath,
+  endContributionsAtDeath,
+  transferAccounts,
+  getFilingStatusForYear,
+  sampleLifetimes,
+} from "../../src/internal/mortality";
+import { createRNG } from "../../src/internal/random";
+import type { InvestmentAccountDTO, MemberDTO, TaxProfileDTO } from "../../src/types";
+
+describe("mortality", () => {
+  const members: MemberDTO[] = [
+    { id: "alex", name: "Alex", birthDate: "1960-03-15", lifeExpectancy: 80 },
+    { id: "sam", name: "Sam", birthDate: "1962-08-01" },
+  ];
+
+  const taxProfile: TaxProfileDTO = {
+    stateCode: "CA",
+    filingStatus: "MFJ",
+    taxYear: 2024,
+    includePayrollTaxes: true,
+    advancedOverridesEnabled: false,
+  };
+
+  describe("getDeathProbability", () => {
+    it("reads table ages directly", () => {
+      expect(getDeathProbability(65, "MALE")).toBeCloseTo(0.01604, 5);
+      expect(getDeathProbability(65, "FEMALE")).toBeCloseTo(0.01008, 5);
+    });
+
+    it("interpolates between table ages", () => {
+      const q = getDeathProbability(67, "MALE");
+      expect(q).toBeGreaterThan(0.01604);
+      expect(q).toBeLessThan(0.02345);
+    });
+
+    it("is certain at the oldest age", () => {
+      expect(getDeathProbability(119, "FEMALE")).toBe(1);
+    });
+  });
+
+  describe("getLifeExpectancy", () => {
+    it("matches the period life table", () => {
+      expect(getLifeExpectancy(65, "MALE")).toBeCloseTo(18, 0);
+      expect(getLifeExpectancy(65, "FEMALE")).toBeCloseTo(20.6, 0);
+    });
+
+    it("is longer for women than men", () => {
+      expect(getLifeExpectancy(40, "FEMALE")).toBeGreaterThan(getLifeExpectancy(40, "MALE"));
+    });
+  });
+
+  describe("sampleAgeAtDeath", () => {
+    it("averages close to the table's life expectancy", () => {
+      const rng = createRNG(7);
+      let total = 0;
+      for (let i = 0; i < 2000; i++) {
+        const age = sampleAgeAtDeath(65, "MALE", rng);
+        expect(age).toBeGreaterThanOrEqual(65);
+        total += age;
+      }
+      expect(total / 2000).toBeCloseTo(65 + getLifeExpectancy(65, "MALE"), 0);
+    });
+  });
+
+  describe("resolveLifeExpectancy", () => {
+    it("keeps an explicit life expectancy", () => {
+      expect(resolveLifeExpectancy(members[0], "2024-01-01").lifeExpectancy).toBe(80);
+    });
+
+    it("reads the life table when sex is set", () => {
+      const member = resolveLifeExpectancy({ ...members[1], sex: "FEMALE" }, "2024-01-01");
+      // Age 61 and 5 months
+      expect(member.lifeExpectancy).toBeGreaterThan(83);
+      expect(member.lifeExpectancy).toBeLessThan(86);
+    });
+
+    it("leaves members without a sex unbounded", () => {
+      expect(resolveLifeExpectancy(members[1], "2024-01-01").lifeExpectancy).toBeUndefined();
+    });
+  });
+
+  describe("getHouseholdEndMonth", () => {
+    it("is the last member's end month", () => {
+      expect(
+        getHouseholdEndMonth([members[0], { ...members[1], lifeExpectancy: 85 }])
+      ).toBe("2047-08");
+    });
+
+    it("is unbounded if any member is", () => {
+      expect(getHouseholdEndMonth(members)).toBeUndefined();
+    });
+  });
+
+  describe("endIncomesAtDeath", () => {
+    it("ends earned income in the member's last month and keeps benefits", () => {
+      const [salary, pension] = endIncomesAtDeath(
+        [
+          { id: "salary", name: "Salary", amount: 5000, frequency: "MONTHLY", startDate: "2024-01-01", growthRule: "NONE", memberId: "alex" },
+          { id: "pension", name: "Pension", amount: 2000, frequency: "MONTHLY", startDate: "2024-01-01", growthRule: "NONE", memberId: "alex", type: "PENSION" },
+        ],
+        members
+      );
+      expect(getMemberEndMonth(members[0])).toBe("2040-03");
+      expect(salary.endDate).toBe("2040-03-01");
+      expect(pension.endDate).toBeUndefined();
+    });
+  });
+
+  describe("accounts", () => {
+    const accounts: InvestmentAccountDTO[] = [
+      { id: "ira", name: "IRA", type: "TRADITIONAL", expectedReturnPct: 7, holdings: [], memberId: "alex" },
+      { id: "roth", name: "Roth", type: "ROTH", expectedReturnPct: 7, holdings: [], memberId: "sam" },
+    ];
+
+    it("ends contributions to a member's accounts at death", () => {
+      const [ira, roth] = endContributionsAtDeath(
+        [
+          { accountId: "ira", amountMonthly: 500, startDate: "2024-01-01" },
+          { accountId: "roth", amountMonthly: 500, startDate: "2024-01-01" },
+        ],
+        accounts,
+        members
+      );
+      expect(ira.endDate).toBe("2040-03-01");
+      expect(roth.endDate).toBeUndefined();
+    });
+
+    it("passes accounts to the survivor", () => {
+      expect(transferAccounts(accounts, members, "2040-03")).toEqual(accounts);
+      const transferred = transferAccounts(accounts, members, "2040-04");
+      expect(transferred.map((a) => a.memberId)).toEqual(["sam", "sam"]);
+    });
+  });
+
+  describe("getFilingStatusForYear", () => {
+    it("files jointly through the year of death, then single", () => {
+      expect(getFilingStatusForYear(taxProfile, members, 2040)).toBe("MFJ");
+      expect(getFilingStatusForYear(taxProfile, members, 2041)).toBe("SINGLE");
+    });
+
+    it("keeps joint rates for qualifying survivor years", () => {
+      const survivor = { ...taxProfile, qualifyingSurvivorYears: 2 };
+      expect(getFilingStatusForYear(survivor, members, 2042)).toBe("MFJ");
+      expect(getFilingStatusForYear(survivor, members, 2043)).toBe("SINGLE");
+    });
+
+    it("leaves other filing statuses alone", () => {
+      expect(getFilingStatusForYear({ ...taxProfile, filingStatus: "HOH" }, members, 2045)).toBe("HOH");
+    });
+  });
+
+  describe("sampleLifetimes", () => {
+    it("samples only members whose lifetime comes from the table", () => {
+      const sampled = sampleLifetimes(
+        [members[0], { ...members[1], sex: "MALE" }, members[1]],
+        "2024-01-01",
+        createRNG(3)
+      );
+      expect(sampled[0].lifeExpectancy).toBe(80);
+      expect(sampled[1].lifeExpectancy).toBeGreaterThanOrEqual(61);
+      expect(sampled[2].lifeExpectancy).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  initializeRealAssetStates,
+  updateRealAssets,
+  getTotalRealAssetValue,
+  snapshotRealAssetValues,
+} from "../../src/internal/realAssets";
+import type { LoanDTO, RealAssetDTO } from "../../src/types";
+
+describe("realAssets", () => {
+  const loans: LoanDTO[] = [
+    {
+      id: "mortgage",
+      type: "OTHER",
+      name: "Mortgage",
+      principal: 320000,
+      aprPct: 6.5,
+      termMonths: 360,
+      startDate: "2024-06-01",
+    },
+  ];
+
+  const home: RealAssetDTO = {
+    id: "home",
+    type: "HOME",
+    name: "House",
+    value: 400000,
+    purchaseDate: "2024-06-01",
+    appreciationPct: 3,
+    carryingCostMonthly: 500,
+    linkedLoanId: "mortgage",
+  };
+
+  const car: RealAssetDTO = {
+    id: "car",
+    type: "VEHICLE",
+    name: "Car",
+    value: 30000,
+    purchaseDate: "2020-03-01",
+    appreciationPct: -15,
+  };
+
+  const noInflation = new Map<string, number>();
+
+  describe("updateRealAssets", () => {
+    it("owns assets bought before the projection from the first month", () => {
+      const states = initializeRealAssetStates([car]);
+      const cashflow = updateRealAssets(states, [car], [], "2024-01-01", "2024-01-01", noInflation);
+
+      expect(states[0].owned).toBe(true);
+      expect(states[0].value).toBe(30000);
+      expect(cashflow.purchases).toBe(0);
+    });
+
+    it("pays the unfinanced part of a later purchase from cash", () => {
+      const states = initializeRealAssetStates([home]);
+      const before = updateRealAssets(states, [home], loans, "2024-05-01", "2024-01-01", noInflation);
+      expect(states[0].owned).toBe(false);
+      expect(before.carryingCosts).toBe(0);
+
+      const cashflow = updateRealAssets(states, [home], loans, "2024-06-01", "2024-01-01", noInflation);
+      expect(states[0].value).toBe(400000);
+      expect(cashflow.purchases).toBe(80000);
+      expect(cashflow.carryingCosts).toBe(500);
+    });
+
+    it("compounds appreciation and depreciation monthly", () => {
+      const states = initializeRealAssetStates([car]);
+      for (let month = 1; month <= 13; month++) {
+        const date = `${2024 + Math.floor((month - 1) / 12)}-${String(((month - 1) % 12) + 1).padStart(2, "0")}-01`;
+        updateRealAssets(states, [car], [], date, "2024-01-01", noInflation);
+      }
+
+      // Twelve months of 15% annual depreciation
+      expect(states[0].value).toBeCloseTo(25500, -1);
+    });
+
+    it("grows carrying costs with inflation", () => {
+      const states = initializeRealAssetStates([home]);
+      const inflation = new Map([["2024-06", 1.1]]);
+      const cashflow = updateRealAssets(states, [home], loans, "2024-06-01", "2024-06-01", inflation);
+
+      expect(cashflow.carryingCosts).toBe(550);
+    });
+  });
+
+  describe("getTotalRealAssetValue", () => {
+    it("counts only owned assets", () => {
+      const states = initializeRealAssetStates([home, car]);
+      updateRealAssets(states, [home, car], loans, "2024-01-01", "2024-01-01", noInflation);
+
+      expect(getTotalRealAssetValue(states)).toBe(30000);
+      expect(snapshotRealAssetValues(states)).toEqual({ home: 0, car: 30000 });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { deflateMonth, deflateTaxAnnualRow } from "../../src/internal/realDollars";
+import { runProjection } from "../../src/internal/projection";
+import { runEngine } from "../../src/contract";
+import { prepareInput } from "../../src/internal/normalize";
+import type { ScenarioInputDTO } from "../../src/types";
+
+describe("realDollars", () => {
+  const input: ScenarioInputDTO = {
+    scenarioId: "test",
+    household: {
+      currency: "USD",
+      anchorDate: "2024-01-01",
+      startDate: "2024-01-01",
+      endDate: "2025-12-01",
+    },
+    assumptions: {
+      inflationRatePct: 6,
+      taxableInterestYieldPct: 0,
+      taxableDividendYieldPct: 0,
+      realizedStGainPct: 0,
+      realizedLtGainPct: 0,
+    },
+    taxProfile: {
+      stateCode: "TX",
+      filingStatus: "SINGLE",
+      taxYear: 2024,
+      includePayrollTaxes: true,
+      advancedOverridesEnabled: false,
+    },
+    taxRules: { federal: null, state: null },
+    incomes: [
+      {
+        id: "salary",
+        name: "Salary",
+        amount: 6000,
+        frequency: "MONTHLY",
+        startDate: "2024-01-01",
+        growthRule: "NONE",
+      },
+    ],
+    expenses: [],
+    accounts: [
+      {
+        id: "brokerage",
+        name: "Brokerage",
+        type: "TAXABLE",
+        expectedReturnPct: 0,
+        holdings: [{ ticker: "VTI", shares: 100, avgPrice: 100, lastPrice: 100 }],
+      },
+    ],
+    contributions: [],
+    loans: [],
+    goals: [],
+  };
+  // One year of 6% inflation compounded monthly
+  const yearFactor = Math.pow(1 + 0.06 / 12, 12);
+  const index = new Map([
+    ["2024-01", 1],
+    ["2025-01", yearFactor],
+  ]);
+
+  describe("deflateMonth", () => {
+    it("divides every amount by the month's inflation factor", () => {
+      const { months } = runProjection(prepareInput(input));
+      const month = { ...months[12], date: "2025-01-01" };
+      const real = deflateMonth(month, index);
+
+      expect(real.income).toBeCloseTo(month.income / yearFactor, 2);
+      expect(real.netWorth).toBeCloseTo(month.netWorth / yearFactor, 2);
+      expect(real.accountBalances.brokerage).toBeCloseTo(
+        month.accountBalances.brokerage / yearFactor,
+        2
+      );
+      expect(real.date).toBe(month.date);
+    });
+  });
+
+  describe("deflateTaxAnnualRow", () => {
+    it("deflates amounts but keeps rates", () => {
+      const [, row] = runEngine(input).taxAnnual;
+      const real = deflateTaxAnnualRow(row, index);
+
+      expect(real.agi).toBeCloseTo(row.agi / yearFactor, 2);
+      expect(real.federalByBracket[0].rate).toBe(row.federalByBracket[0].rate);
+      expect(real.effectiveRate).toBe(row.effectiveRate);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect } from "vitest";
+import {
+  choleskyDecompose,
+  validateReturnModel,
+  generateReturnPaths,
+  DEFAULT_CORRELATION,
+} from "../../src/internal/returnModel";
+import { createRNG } from "../../src/internal/random";
+import type { InvestmentAccountDTO } from "../../src/types";
+
+const accounts: InvestmentAccountDTO[] = [
+  { id: "brokerage", name: "Brokerage", type: "TAXABLE", expectedReturnPct: 6, holdings: [] },
+  { id: "ira", name: "IRA", type: "TRADITIONAL", expectedReturnPct: 5, holdings: [] },
+];
+
+function monthKeys(startYear: number, years: number): string[] {
+  const keys: string[] = [];
+  for (let y = 0; y < years; y++) {
+    for (let m = 1; m <= 12; m++) {
+      keys.push(`${startYear + y}-${String(m).padStart(2, "0")}`);
+    }
+  }
+  return keys;
+}
+
+function stdDev(values: number[]): number {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+}
+
+describe("return model", () => {
+  describe("choleskyDecompose", () => {
+    it("reproduces the input matrix", () => {
+      const lower = choleskyDecompose(DEFAULT_CORRELATION);
+      for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) {
+          let product = 0;
+          for (let k = 0; k < 3; k++) product += lower[i][k] * lower[j][k];
+          expect(product).toBeCloseTo(DEFAULT_CORRELATION[i][j], 10);
+        }
+      }
+    });
+
+    it("throws for matrices that are not positive definite", () => {
+      expect(() =>
+        choleskyDecompose([
+          [1, 1],
+          [1, 1],
+        ])
+      ).toThrow("positive definite");
+    });
+  });
+
+  describe("validateReturnModel", () => {
+    it("accepts the defaults", () => {
+      expect(() => validateReturnModel({}, ["brokerage"])).not.toThrow();
+    });
+
+    it("rejects wrongly sized or asymmetric matrices", () => {
+      expect(() => validateReturnModel({ correlation: [[1]] }, [])).toThrow("3x3");
+      expect(() =>
+        validateReturnModel(
+          {
+            correlation: [
+              [1, 0.2, 0],
+              [0.1, 1, 0],
+              [0, 0, 1],
+            ],
+          },
+          []
+        )
+      ).toThrow("symmetric");
+    });
+
+    it("rejects low degrees of freedom", () => {
+      expect(() => validateReturnModel({ degreesOfFreedom: 2 }, [])).toThrow("greater than 2");
+    });
+
+    it("rejects allocations for unknown accounts or not summing to 100", () => {
+      expect(() =>
+        validateReturnModel({ allocations: { missing: { STOCKS: 100 } } }, ["brokerage"])
+      ).toThrow("non-existent account");
+      expect(() =>
+        validateReturnModel({ allocations: { brokerage: { STOCKS: 60 } } }, ["brokerage"])
+      ).toThrow("sum to 100%");
+    });
+  });
+
+  describe("generateReturnPaths", () => {
+    it("holds yearly draws constant within each calendar year", () => {
+      const paths = generateReturnPaths({}, accounts, monthKeys(2024, 3), 3, createRNG(1));
+      const path = paths.accountReturnPct.brokerage;
+
+      expect(path).toHaveLength(36);
+      expect(new Set(path.slice(0, 12)).size).toBe(1);
+      expect(path[12]).not.toBe(path[11]);
+    });
+
+    it("draws a new return every month with the MONTH step", () => {
+      const paths = generateReturnPaths(
+        { step: "MONTH" },
+        accounts,
+        monthKeys(2024, 1),
+        3,
+        createRNG(1)
+      );
+
+      expect(new Set(paths.accountReturnPct.brokerage).size).toBe(12);
+    });
+
+    it("centers unallocated accounts on their own expected return", () => {
+      const rng = createRNG(3);
+      const draws: number[] = [];
+      for (let i = 0; i < 2000; i++) {
+        draws.push(generateReturnPaths({}, accounts, ["2024-01"], 3, rng).accountReturnPct.ira[0]);
+      }
+      const mean = draws.reduce((a, b) => a + b, 0) / draws.length;
+
+      expect(mean).toBeCloseTo(5, 0);
+      expect(stdDev(draws)).toBeCloseTo(15, 0);
+    });
+
+    it("blends asset classes by allocation", () => {
+      const model = {
+        assetClasses: {
+          STOCKS: { meanPct: 8, volatilityPct: 0 },
+          BONDS: { meanPct: 4, volatilityPct: 0 },
+        },
+        allocations: { brokerage: { STOCKS: 60, BONDS: 40 } },
+      };
+      const paths = generateReturnPaths(model, accounts, ["2024-01"], 3, createRNG(1));
+
+      expect(paths.accountReturnPct.brokerage[0]).toBeCloseTo(6.4, 4);
+    });
+
+    it("moves perfectly correlated classes together", () => {
+      const model = {
+        correlation: [
+          [1, 0.999, 0],
+          [0.999, 1, 0],
+          [0, 0, 1],
+        ],
+        allocations: { brokerage: { STOCKS: 100 }, ira: { BONDS: 100 } },
+      };
+      const rng = createRNG(5);
+      for (let i = 0; i < 20; i++) {
+        const paths = generateReturnPaths(model, accounts, ["2024-01"], 3, rng);
+        const stockZ = (paths.accountReturnPct.brokerage[0] - 7) / 15;
+        const bondZ = (paths.accountReturnPct.ira[0] - 3) / 6;
+        expect(stockZ).toBeCloseTo(bondZ, 0);
+      }
+    });
+
+    it("produces fatter tails with Student-t draws", () => {
+      const count = 4000;
+      const extremes = (degreesOfFreedom?: number) => {
+        const rng = createRNG(11);
+        let beyond = 0;
+        for (let i = 0; i < count; i++) {
+          const pct = generateReturnPaths(
+            { degreesOfFreedom, allocations: { brokerage: { STOCKS: 100 } } },
+            accounts,
+            ["2024-01"],
+            3,
+            rng
+          ).accountReturnPct.brokerage[0];
+          if (Math.abs(pct - 7) > 3 * 15) beyond++;
+        }
+        return beyond;
+      };
+
+      expect(extremes(4)).toBeGreaterThan(extremes(undefined));
+    });
+
+    it("builds a stochastic inflation index only when configured", () => {
+      const keys = monthKeys(2024, 2);
+      const fixed = generateReturnPaths({}, accounts, keys, 3, createRNG(1));
+      expect(fixed.inflationIndex).toBeUndefined();
+
+      const paths = generateReturnPaths(
+        { inflation: { volatilityPct: 0 } },
+        accounts,
+        keys,
+        3,
+        createRNG(1)
+      );
+      expect(paths.inflationIndex!.get("2024-01")).toBe(1);
+      expect(paths.inflationIndex!.get("2025-01")).toBeCloseTo(Math.pow(1 + 0.03 / 12, 12), 5);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import {
+  getRmdStartAge,
+  getRmdDivisor,
+  calculateRequiredDistributions,
+  takeRequiredDistributions,
+  recordDistributionsTaken,
+} from "../../src/internal/rmd";
+import type { AccountState } from "../../src/internal/accounts";
+import type { InvestmentAccountDTO, MemberDTO } from "../../src/types";
+
+const members: MemberDTO[] = [
+  { id: "m1", name: "Pat", birthDate: "1950-06-15" },
+  { id: "m2", name: "Sam", birthDate: "1962-03-01" },
+];
+
+const accountDefs: InvestmentAccountDTO[] = [
+  { id: "ira1", name: "Pat IRA", type: "TRADITIONAL", expectedReturnPct: 5, holdings: [], memberId: "m1" },
+  { id: "ira2", name: "Sam IRA", type: "TRADITIONAL", expectedReturnPct: 5, holdings: [], memberId: "m2" },
+  { id: "roth", name: "Pat Roth", type: "ROTH", expectedReturnPct: 5, holdings: [], memberId: "m1" },
+];
+
+describe("required minimum distributions", () => {
+  describe("getRmdStartAge", () => {
+    it("uses 73 for those born before 1960 and 75 after", () => {
+      expect(getRmdStartAge(1955)).toBe(73);
+      expect(getRmdStartAge(1960)).toBe(75);
+    });
+  });
+
+  describe("getRmdDivisor", () => {
+    it("returns Uniform Lifetime Table periods", () => {
+      expect(getRmdDivisor(73)).toBe(26.5);
+      expect(getRmdDivisor(80)).toBe(20.2);
+      expect(getRmdDivisor(100)).toBe(6.4);
+    });
+
+    it("caps at the end of the table and is undefined below it", () => {
+      expect(getRmdDivisor(125)).toBe(2.0);
+      expect(getRmdDivisor(65)).toBeUndefined();
+    });
+  });
+
+  describe("calculateRequiredDistributions", () => {
+    it("requires distributions only from traditional accounts of members past the start age", () => {
+      const required = calculateRequiredDistributions(
+        2024,
+        { ira1: 255000, ira2: 300000, roth: 100000 },
+        accountDefs,
+        members
+      );
+
+      // Pat is 74 in 2024: 255,000 / 25.5
+      expect(required).toEqual({ ira1: 10000 });
+    });
+
+    it("attributes unowned accounts to the first member", () => {
+      const required = calculateRequiredDistributions(
+        2024,
+        { ira: 255000 },
+        [{ id: "ira", name: "IRA", type: "TRADITIONAL", expectedReturnPct: 5, holdings: [] }],
+        members
+      );
+      expect(required.ira).toBe(10000);
+    });
+
+    it("skips members without a birth date", () => {
+      const required = calculateRequiredDistributions(
+        2024,
+        { ira1: 255000 },
+        accountDefs,
+        [{ id: "m1", name: "Pat" }]
+      );
+      expect(required).toEqual({});
+    });
+  });
+
+  describe("takeRequiredDistributions", () => {
+    it("spreads the remaining requirement over the months left", () => {
+      const accounts: AccountState[] = [
+        { accountId: "ira1", balance: 50000, contributions: 0, employerMatch: 0, returns: 0, withdrawals: 0, costBasis: 0 },
+      ];
+      const taken = { ira1: 4000 };
+
+      const total = takeRequiredDistributions(accounts, { ira1: 10000 }, taken, 6);
+
+      expect(total).toBe(1000);
+      expect(accounts[0].balance).toBe(49000);
+      expect(accounts[0].withdrawals).toBe(1000);
+    });
+
+    it("takes nothing once the requirement is met", () => {
+      const accounts: AccountState[] = [
+        { accountId: "ira1", balance: 50000, contributions: 0, employerMatch: 0, returns: 0, withdrawals: 0, costBasis: 0 },
+      ];
+      expect(takeRequiredDistributions(accounts, { ira1: 10000 }, { ira1: 10000 }, 3)).toBe(0);
+    });
+  });
+
+  describe("recordDistributionsTaken", () => {
+    it("accumulates withdrawals for accounts with a requirement", () => {
+      const accounts: AccountState[] = [
+        { accountId: "ira1", balance: 0, contributions: 0, employerMatch: 0, returns: 0, withdrawals: 750, costBasis: 0 },
+        { accountId: "roth", balance: 0, contributions: 0, employerMatch: 0, returns: 0, withdrawals: 500, costBasis: 0 },
+      ];
+      const taken: Record<string, number> = { ira1: 250 };
+
+      recordDistributionsTaken(accounts, { ira1: 10000 }, taken);
+
+      expect(taken).toEqual({ ira1: 1000 });
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import { runSensitivityAnalysis, calculateYearsToFI } from "../../src/internal/sensitivity";
+import type { MonthState } from "../../src/internal/projection";
+import type { ScenarioInputDTO } from "../../src/types";
+
+describe("sensitivity", () => {
+  const input: ScenarioInputDTO = {
+    scenarioId: "test",
+    household: {
+      currency: "USD",
+      anchorDate: "2024-01-01",
+      startDate: "2024-01-01",
+      endDate: "2043-12-01",
+    },
+    assumptions: {
+      inflationRatePct: 3,
+      taxableInterestYieldPct: 0,
+      taxableDividendYieldPct: 0,
+      realizedStGainPct: 0,
+      realizedLtGainPct: 0,
+    },
+    taxProfile: {
+      stateCode: "TX",
+      filingStatus: "SINGLE",
+      taxYear: 2024,
+      includePayrollTaxes: true,
+      advancedOverridesEnabled: false,
+    },
+    taxRules: { federal: null, state: null },
+    incomes: [
+      {
+        id: "salary",
+        name: "Salary",
+        amount: 8000,
+        frequency: "MONTHLY",
+        startDate: "2024-01-01",
+        endDate: "2035-12-01",
+        growthRule: "TRACK_INFLATION",
+      },
+    ],
+    expenses: [
+      {
+        id: "living",
+        category: "Living",
+        name: "Living",
+        amount: 3500,
+        frequency: "MONTHLY",
+        startDate: "2024-01-01",
+        growthRule: "TRACK_INFLATION",
+      },
+    ],
+    accounts: [
+      {
+        id: "brokerage",
+        name: "Brokerage",
+        type: "TAXABLE",
+        expectedReturnPct: 6,
+        holdings: [{ ticker: "VTI", shares: 1000, avgPrice: 200, lastPrice: 200 }],
+      },
+    ],
+    contributions: [{ accountId: "brokerage", amountMonthly: 2000, startDate: "2024-01-01", endDate: "2035-12-01" }],
+    loans: [],
+    goals: [],
+  };
+
+  describe("calculateYearsToFI", () => {
+    const month = (expenses: number, balance: number, cashBalance = 0) =>
+      ({ expenses, cashBalance, accountBalances: { a: balance } }) as unknown as MonthState;
+
+    it("finds the first month assets cover a year of spending at the withdrawal rate", () => {
+      const months = [month(4000, 1000000), month(4000, 1100000), month(4000, 1200000)];
+      // 1.2M x 4% = 48000 = 12 x 4000
+      expect(calculateYearsToFI(months, 4)).toBe(0.2);
+    });
+
+    it("is null when never reached", () => {
+      expect(calculateYearsToFI([month(4000, 100000, 5000)], 4)).toBeNull();
+    });
+  });
+
+  describe("runSensitivityAnalysis", () => {
+    it("reports a bar per applicable assumption, largest swing first", () => {
+      const result = runSensitivityAnalysis(input);
+
+      expect(result.metrics).toEqual(["END_NET_WORTH", "YEARS_TO_FI"]);
+      expect(result.bars.map((bar) => bar.id).sort()).toEqual([
+        "ACCOUNT_RETURN:brokerage",
+        "EXPENSE_GROWTH",
+        "INCOME_GROWTH",
+        "INFLATION",
+        "RETIREMENT_DATE",
+      ]);
+      for (let i = 1; i < result.bars.length; i++) {
+        expect(result.bars[i - 1].swing).toBeGreaterThanOrEqual(result.bars[i].swing);
+      }
+    });
+
+    it("moves end net worth in the expected direction", () => {
+      const { baseline, bars } = runSensitivityAnalysis(input, { metrics: ["END_NET_WORTH"] });
+      const byId = new Map(bars.map((bar) => [bar.id, bar.outcomes.END_NET_WORTH!]));
+
+      expect(byId.get("ACCOUNT_RETURN:brokerage")!.highDelta).toBeGreaterThan(0);
+      expect(byId.get("ACCOUNT_RETURN:brokerage")!.lowDelta).toBeLessThan(0);
+      expect(byId.get("EXPENSE_GROWTH")!.highDelta).toBeLessThan(0);
+      expect(byId.get("RETIREMENT_DATE")!.highDelta).toBeGreaterThan(0);
+
+      const income = byId.get("INCOME_GROWTH")!;
+      expect(income.high! - baseline.END_NET_WORTH!).toBeCloseTo(income.highDelta!, 2);
+    });
+
+    it("shifts loan rates only when the scenario has loans", () => {
+      const result = runSensitivityAnalysis(
+        {
+          ...input,
+          loans: [
+            {
+              id: "car",
+              type: "AUTO",
+              name: "Car",
+              principal: 20000,
+              aprPct: 6,
+              termMonths: 60,
+              startDate: "2024-01-01",
+            },
+          ],
+        },
+        { metrics: ["END_NET_WORTH"] }
+      );
+      const loan = result.bars.find((bar) => bar.id === "LOAN_RATE")!;
+
+      expect(loan.outcomes.END_NET_WORTH!.highDelta).toBeLessThan(0);
+    });
+
+    it("measures Monte Carlo success", () => {
+      const result = runSensitivityAnalysis(input, {
+        metrics: ["SUCCESS_RATE"],
+        monteCarlo: { simulations: 50, volatilityPct: 15, seed: 42 },
+      });
+
+      expect(result.baseline.SUCCESS_RATE).toBeGreaterThanOrEqual(0);
+      expect(result.bars[0].outcomes.SUCCESS_RATE).toBeDefined();
+    });
+  });
+});
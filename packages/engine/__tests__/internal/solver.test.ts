@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import { solve, applySolveVariable } from "../../src/internal/solver";
+import { runEngine } from "../../src/contract";
+import type { ScenarioInputDTO } from "../../src/types";
+
+describe("solver", () => {
+  const input: ScenarioInputDTO = {
+    scenarioId: "test",
+    household: {
+      currency: "USD",
+      anchorDate: "2024-01-01",
+      startDate: "2024-01-01",
+      endDate: "2033-12-01",
+    },
+    assumptions: {
+      inflationRatePct: 0,
+      taxableInterestYieldPct: 0,
+      taxableDividendYieldPct: 0,
+      realizedStGainPct: 0,
+      realizedLtGainPct: 0,
+    },
+    taxProfile: {
+      stateCode: "TX",
+      filingStatus: "SINGLE",
+      taxYear: 2024,
+      includePayrollTaxes: true,
+      advancedOverridesEnabled: false,
+    },
+    taxRules: { federal: null, state: null },
+    incomes: [
+      {
+        id: "salary",
+        name: "Salary",
+        amount: 6000,
+        frequency: "MONTHLY",
+        startDate: "2024-01-01",
+        growthRule: "NONE",
+      },
+    ],
+    expenses: [
+      {
+        id: "rent",
+        category: "Housing",
+        name: "Rent",
+        amount: 3000,
+        frequency: "MONTHLY",
+        startDate: "2024-01-01",
+        growthRule: "NONE",
+      },
+    ],
+    accounts: [
+      {
+        id: "brokerage",
+        name: "Brokerage",
+        type: "TAXABLE",
+        expectedReturnPct: 0,
+        holdings: [{ ticker: "VTI", shares: 250, avgPrice: 200, lastPrice: 200 }],
+      },
+    ],
+    contributions: [],
+    loans: [],
+    goals: [],
+  };
+
+  const finalNetWorth = (scenario: ScenarioInputDTO) => {
+    const { series } = runEngine(scenario);
+    return series.netWorth[series.netWorth.length - 1].v;
+  };
+
+  describe("applySolveVariable", () => {
+    it("stops earned income the month before retirement", () => {
+      const [salary] = applySolveVariable(input, { type: "RETIREMENT_DATE" }, 30).incomes;
+      expect(salary.endDate).toBe("2026-06-01");
+    });
+
+    it("scales expenses to the annual spending", () => {
+      const [rent] = applySolveVariable(input, { type: "ANNUAL_SPENDING" }, 48000).expenses;
+      expect(rent.amount).toBe(4000);
+    });
+  });
+
+  describe("solve", () => {
+    it("finds the largest spending that keeps net worth positive", () => {
+      const result = solve(input, {
+        variable: { type: "ANNUAL_SPENDING" },
+        target: { type: "ENDING_NET_WORTH", minimum: 0 },
+      });
+
+      expect(result.value).not.toBeNull();
+      expect(result.value!).toBeGreaterThan(36000);
+      expect(result.metric).toBeGreaterThanOrEqual(0);
+      expect(
+        finalNetWorth(applySolveVariable(input, { type: "ANNUAL_SPENDING" }, result.value! + 1))
+      ).toBeLessThan(0);
+    });
+
+    it("finds the smallest extra savings that reaches a net worth", () => {
+      // Savings only add to net worth through returns on the invested cash
+      const growing = { ...input, accounts: [{ ...input.accounts[0], expectedReturnPct: 7 }] };
+      const variable = { type: "EXTRA_SAVINGS" as const, accountId: "brokerage" };
+      const minimum = finalNetWorth(growing) + 20000;
+      const result = solve(growing, {
+        variable,
+        target: { type: "ENDING_NET_WORTH", minimum },
+        max: 2000,
+      });
+
+      expect(result.value!).toBeGreaterThan(0);
+      expect(result.value!).toBeLessThan(2000);
+      expect(finalNetWorth(applySolveVariable(growing, variable, result.value! - 1))).toBeLessThan(
+        minimum
+      );
+    });
+
+    it("finds the earliest retirement date that funds a goal", () => {
+      const result = solve(
+        {
+          ...input,
+          goals: [
+            {
+              id: "goal1",
+              type: "RETIREMENT",
+              name: "Nest egg",
+              targetAmountReal: 200000,
+              targetDate: "2033-12-01",
+              priority: 1,
+            },
+          ],
+        },
+        {
+          variable: { type: "RETIREMENT_DATE" },
+          target: { type: "GOAL_FUNDED", goalId: "goal1" },
+        }
+      );
+
+      expect(result.value).toBeGreaterThan(0);
+      expect(result.value).toBeLessThan(120);
+      expect(result.retirementDate).toMatch(/^20\d\d-\d\d-01$/);
+      expect(result.metric).toBe(0);
+      expect(result.projection.series.netWorth[119].v).toBeGreaterThanOrEqual(200000);
+    });
+
+    it("returns no value when the target cannot be met within the bounds", () => {
+      const result = solve(input, {
+        variable: { type: "EXTRA_SAVINGS", accountId: "brokerage" },
+        target: { type: "ENDING_NET_WORTH", minimum: 10000000 },
+        max: 1000,
+      });
+
+      expect(result.value).toBeNull();
+      expect(result.metric).toBeLessThan(10000000);
+      expect(result.projection.monthly).toHaveLength(120);
+    });
+
+    it("searches against a Monte Carlo success rate", () => {
+      const result = solve(
+        { ...input, accounts: [{ ...input.accounts[0], expectedReturnPct: 5 }] },
+        {
+          variable: { type: "ANNUAL_SPENDING" },
+          target: {
+            type: "SUCCESS_RATE",
+            minimumPct: 90,
+            monteCarlo: { simulations: 50, volatilityPct: 15, seed: 42 },
+          },
+          tolerance: 500,
+        }
+      );
+
+      expect(result.value).not.toBeNull();
+      expect(result.monteCarlo!.successRate).toBeGreaterThanOrEqual(90);
+      expect(result.metric).toBe(result.monteCarlo!.successRate);
+    });
+
+    it("rejects a variable for an unknown account", () => {
+      expect(() =>
+        solve(input, {
+          variable: { type: "CONTRIBUTION", accountId: "missing" },
+          target: { type: "ENDING_NET_WORTH", minimum: 0 },
+        })
+      ).toThrow("non-existent account");
+    });
+  });
+});
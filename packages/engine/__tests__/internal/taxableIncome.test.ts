@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { accrueTaxableIncome, toInvestmentIncome } from "../../src/internal/taxableIncome";
+import { drawFromAccount } from "../../src/internal/withdrawals";
+import type { AccountState } from "../../src/internal/accounts";
+import type { InvestmentAccountDTO, ScenarioAssumptionsDTO } from "../../src/types";
+
+describe("taxableIncome", () => {
+  const accountDefs: InvestmentAccountDTO[] = [
+    { id: "brokerage", name: "Brokerage", type: "TAXABLE", expectedReturnPct: 7, holdings: [] },
+    { id: "ira", name: "IRA", type: "TRADITIONAL", expectedReturnPct: 7, holdings: [] },
+  ];
+
+  const assumptions: ScenarioAssumptionsDTO = {
+    inflationRatePct: 3,
+    taxableInterestYieldPct: 1.2,
+    taxableDividendYieldPct: 2.4,
+    realizedStGainPct: 12,
+    realizedLtGainPct: 24,
+  };
+
+  function makeAccounts(): AccountState[] {
+    return [
+      { accountId: "brokerage", balance: 100000, contributions: 0, employerMatch: 0, returns: 0, withdrawals: 0, costBasis: 60000 },
+      { accountId: "ira", balance: 100000, contributions: 0, employerMatch: 0, returns: 0, withdrawals: 0, costBasis: 60000 },
+    ];
+  }
+
+  describe("accrueTaxableIncome", () => {
+    it("generates monthly yields on taxable accounts only", () => {
+      const income = accrueTaxableIncome(makeAccounts(), accountDefs, assumptions);
+
+      expect(income.interest).toBe(100);
+      expect(income.qualifiedDividends).toBe(200);
+    });
+
+    it("taxes only the gain share of realized sales", () => {
+      const income = accrueTaxableIncome(makeAccounts(), accountDefs, assumptions);
+
+      // 1% / 2% of the balance sold this month, 40% of it gain
+      expect(income.shortTermGains).toBe(400);
+      expect(income.longTermGains).toBe(800);
+    });
+
+    it("adds reinvested income to cost basis", () => {
+      const accounts = makeAccounts();
+      accrueTaxableIncome(accounts, accountDefs, assumptions);
+
+      expect(accounts[0].costBasis).toBe(61500);
+      expect(accounts[0].balance).toBe(100000);
+      expect(accounts[1].costBasis).toBe(60000);
+    });
+
+    it("realizes no gains on accounts at a loss", () => {
+      const accounts = makeAccounts();
+      accounts[0].costBasis = 120000;
+      const income = accrueTaxableIncome(accounts, accountDefs, assumptions);
+
+      expect(income.shortTermGains).toBe(0);
+      expect(income.longTermGains).toBe(0);
+    });
+  });
+
+  describe("toInvestmentIncome", () => {
+    it("splits income into ordinary and preferential", () => {
+      expect(
+        toInvestmentIncome({
+          interest: 100,
+          qualifiedDividends: 200,
+          shortTermGains: 400,
+          longTermGains: 800,
+        })
+      ).toEqual({ ordinary: 500, preferential: 1000 });
+    });
+  });
+
+  describe("withdrawals", () => {
+    it("reduce cost basis pro rata", () => {
+      const accounts = makeAccounts();
+      drawFromAccount(accounts[0], 25000, "TAXABLE");
+
+      expect(accounts[0].balance).toBe(75000);
+      expect(accounts[0].costBasis).toBe(45000);
+    });
+
+    it("realize the gain share of a taxable sale", () => {
+      const accounts = makeAccounts();
+
+      expect(drawFromAccount(accounts[0], 25000, "TAXABLE")).toEqual({ drawn: 25000, realizedGain: 10000 });
+      expect(drawFromAccount(accounts[1], 25000, "TRADITIONAL")).toEqual({ drawn: 25000, realizedGain: 0 });
+    });
+
+    it("realize nothing when selling at a loss", () => {
+      const accounts = makeAccounts();
+      accounts[0].costBasis = 120000;
+
+      expect(drawFromAccount(accounts[0], 25000, "TAXABLE").realizedGain).toBe(0);
+      expect(accounts[0].costBasis).toBe(90000);
+    });
+  });
+});
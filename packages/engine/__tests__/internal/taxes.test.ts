@@ -8,6 +8,11 @@ import {
   calculateMonthlyTaxes,
   getMarginalRate,
   estimateTaxSavings,
+  getBracketCeiling,
+  calculateFederalTaxByBracket,
+  calculateTaxReturn,
+  calculateCapitalGainsTax,
+  calculateNIIT,
 } from "../../src/internal/taxes";
 import type { TaxProfileDTO } from "../../src/types";
 
@@ -18,6 +23,10 @@ describe("tax calculations", () => {
       expect(getStandardDeduction("MFJ")).toBe(29200);
       expect(getStandardDeduction("HOH")).toBe(21900);
     });
+
+    it("indexes the deduction by the inflation factor", () => {
+      expect(getStandardDeduction("SINGLE", 1.1)).toBe(16060);
+    });
   });
 
   describe("calculateFederalIncomeTax", () => {
@@ -26,6 +35,14 @@ describe("tax calculations", () => {
       expect(calculateFederalIncomeTax(-1000, "SINGLE")).toBe(0);
     });
 
+    it("taxes less under inflation-indexed brackets", () => {
+      const base = calculateFederalIncomeTax(80000, "SINGLE");
+      const indexed = calculateFederalIncomeTax(80000, "SINGLE", 1.1);
+      expect(indexed).toBeLessThan(base);
+      // Scaling income and brackets together scales the tax
+      expect(calculateFederalIncomeTax(88000, "SINGLE", 1.1)).toBeCloseTo(base * 1.1, 0);
+    });
+
     it("applies 10% bracket for low income", () => {
       // $11,000 taxable income for single filer
       const tax = calculateFederalIncomeTax(11000, "SINGLE");
@@ -131,6 +148,94 @@ describe("tax calculations", () => {
     });
   });
 
+  describe("getBracketCeiling", () => {
+    it("returns the top of the bracket with the given rate", () => {
+      expect(getBracketCeiling(12, "SINGLE")).toBe(47150);
+      expect(getBracketCeiling(22, "MFJ")).toBe(201050);
+    });
+
+    it("returns 0 for rates without a bracket", () => {
+      expect(getBracketCeiling(15, "SINGLE")).toBe(0);
+    });
+
+    it("indexes the ceiling by the inflation factor", () => {
+      expect(getBracketCeiling(12, "SINGLE", 1.1)).toBeCloseTo(51865, 0);
+    });
+  });
+
+  describe("calculateFederalTaxByBracket", () => {
+    it("splits tax across filled brackets", () => {
+      const rows = calculateFederalTaxByBracket(50000, "SINGLE");
+
+      expect(rows.map(r => r.rate)).toEqual([0.10, 0.12, 0.22]);
+      expect(rows[0]).toEqual({ rate: 0.10, taxableAmount: 11600, tax: 1160 });
+      expect(rows[2].taxableAmount).toBe(2850);
+    });
+
+    it("sums to the federal income tax", () => {
+      const rows = calculateFederalTaxByBracket(250000, "MFJ");
+      const total = rows.reduce((sum, r) => sum + r.tax, 0);
+      expect(total).toBeCloseTo(calculateFederalIncomeTax(250000, "MFJ"), 2);
+    });
+
+    it("returns no rows without taxable income", () => {
+      expect(calculateFederalTaxByBracket(0, "SINGLE")).toEqual([]);
+    });
+  });
+
+  describe("calculateTaxReturn", () => {
+    const profile: TaxProfileDTO = {
+      stateCode: "CA",
+      filingStatus: "SINGLE",
+      taxYear: 2024,
+      includePayrollTaxes: true,
+      advancedOverridesEnabled: false,
+    };
+
+    it("builds a consistent return", () => {
+      const row = calculateTaxReturn(2024, 80000, 20000, profile);
+
+      expect(row.year).toBe(2024);
+      expect(row.grossIncome).toEqual({
+        wages: 80000,
+        ordinaryDistributions: 20000,
+        investmentOrdinary: 0,
+        investmentPreferential: 0,
+        total: 100000,
+      });
+      expect(row.agi).toBe(100000);
+      expect(row.standardDeduction).toBe(14600);
+      expect(row.taxableIncome).toBe(85400);
+      expect(row.totalTax).toBeCloseTo(
+        row.federalTax + row.capitalGainsTax + row.niit + row.stateTax + row.fica.total,
+        2
+      );
+      expect(row.effectiveRate).toBeCloseTo(row.totalTax / 100000, 4);
+    });
+
+    it("reports preferential tax and NIIT separately", () => {
+      const row = calculateTaxReturn(2024, 250000, 0, profile, 1, 0, {
+        ordinary: 5000,
+        preferential: 20000,
+      });
+
+      expect(row.grossIncome.investmentPreferential).toBe(20000);
+      expect(row.capitalGainsTax).toBe(3000);
+      expect(row.niit).toBe(950);
+      expect(row.taxableIncome).toBe(275000 - 14600);
+    });
+
+    it("applies FICA to wages only", () => {
+      const row = calculateTaxReturn(2024, 80000, 20000, profile);
+      expect(row.fica).toEqual(calculateFICA(80000, "SINGLE"));
+    });
+
+    it("reports the combined marginal rate", () => {
+      const row = calculateTaxReturn(2024, 80000, 0, profile);
+      expect(row.marginalRate).toBe(getMarginalRate(row.taxableIncome, "SINGLE", "CA"));
+    });
+  });
+
   describe("calculateAnnualTaxes", () => {
     const profile: TaxProfileDTO = {
       stateCode: "CA",
@@ -166,6 +271,15 @@ describe("tax calculations", () => {
       expect(high.effectiveRate).toBeGreaterThan(low.effectiveRate);
     });
 
+    it("taxes other ordinary income without payroll taxes", () => {
+      const wagesOnly = calculateAnnualTaxes(60000, profile);
+      const withWithdrawals = calculateAnnualTaxes(60000, profile, 20000);
+
+      expect(withWithdrawals.fica).toBe(wagesOnly.fica);
+      expect(withWithdrawals.federal).toBeGreaterThan(wagesOnly.federal);
+      expect(withWithdrawals.state).toBeGreaterThan(wagesOnly.state);
+    });
+
     it("excludes FICA when disabled", () => {
       const withFICA = calculateAnnualTaxes(100000, profile);
       const withoutFICA = calculateAnnualTaxes(100000, {
@@ -177,6 +291,55 @@ describe("tax calculations", () => {
       expect(withoutFICA.fica).toBe(0);
       expect(withoutFICA.total).toBeLessThan(withFICA.total);
     });
+
+    it("taxes preferential investment income below ordinary rates", () => {
+      const base = calculateAnnualTaxes(100000, profile);
+      const ordinary = calculateAnnualTaxes(100000, profile, 0, 1, 0, {
+        ordinary: 10000,
+        preferential: 0,
+      });
+      const preferential = calculateAnnualTaxes(100000, profile, 0, 1, 0, {
+        ordinary: 0,
+        preferential: 10000,
+      });
+
+      expect(preferential.fica).toBe(base.fica);
+      // 15% federal vs the 22%/24% bracket
+      expect(preferential.federal - base.federal).toBeCloseTo(1500, 0);
+      expect(ordinary.federal).toBeGreaterThan(preferential.federal);
+      // States tax gains as ordinary income
+      expect(preferential.state).toBe(ordinary.state);
+    });
+  });
+
+  describe("calculateCapitalGainsTax", () => {
+    it("taxes gains that fit under the 0% ceiling at nothing", () => {
+      expect(calculateCapitalGainsTax(10000, 30000, "SINGLE")).toBe(0);
+    });
+
+    it("stacks gains on top of ordinary income across brackets", () => {
+      // 7,025 at 0%, 2,975 at 15%
+      expect(calculateCapitalGainsTax(10000, 40000, "SINGLE")).toBeCloseTo(446.25, 2);
+    });
+
+    it("applies 20% above the top threshold", () => {
+      expect(calculateCapitalGainsTax(10000, 600000, "SINGLE")).toBe(2000);
+    });
+
+    it("indexes thresholds by the inflation factor", () => {
+      expect(calculateCapitalGainsTax(10000, 40000, "SINGLE", 1.2)).toBe(0);
+    });
+  });
+
+  describe("calculateNIIT", () => {
+    it("is zero below the threshold", () => {
+      expect(calculateNIIT(20000, 150000, "SINGLE")).toBe(0);
+    });
+
+    it("taxes the lesser of investment income or excess MAGI", () => {
+      expect(calculateNIIT(20000, 210000, "SINGLE")).toBe(380);
+      expect(calculateNIIT(20000, 300000, "MFJ")).toBe(760);
+    });
   });
 
   describe("calculateMonthlyTaxes", () => {
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { withdrawFromAccounts } from "../../src/internal/withdrawals";
+import type { AccountState } from "../../src/internal/accounts";
+import type { InvestmentAccountDTO } from "../../src/types";
+
+const accountDefs: InvestmentAccountDTO[] = [
+  { id: "roth", name: "Roth IRA", type: "ROTH", expectedReturnPct: 7, holdings: [] },
+  { id: "trad", name: "401k", type: "TRADITIONAL", expectedReturnPct: 7, holdings: [] },
+  { id: "brokerage", name: "Brokerage", type: "TAXABLE", expectedReturnPct: 7, holdings: [] },
+];
+
+function makeAccounts(): AccountState[] {
+  return [
+    { accountId: "roth", balance: 2000, contributions: 0, employerMatch: 0, returns: 0, withdrawals: 0, costBasis: 0 },
+    { accountId: "trad", balance: 6000, contributions: 0, employerMatch: 0, returns: 0, withdrawals: 0, costBasis: 0 },
+    { accountId: "brokerage", balance: 2000, contributions: 0, employerMatch: 0, returns: 0, withdrawals: 0, costBasis: 0 },
+  ];
+}
+
+describe("withdrawal sequencing", () => {
+  it("returns nothing for non-positive amounts", () => {
+    const accounts = makeAccounts();
+    const result = withdrawFromAccounts(accounts, accountDefs, 0, { order: "TAXABLE_FIRST" });
+    expect(result).toEqual({ total: 0, traditional: 0, realizedGains: 0 });
+  });
+
+  describe("TAXABLE_FIRST", () => {
+    it("drains taxable, then traditional, then roth", () => {
+      const accounts = makeAccounts();
+      const result = withdrawFromAccounts(accounts, accountDefs, 9000, { order: "TAXABLE_FIRST" });
+
+      expect(result.total).toBe(9000);
+      expect(result.traditional).toBe(6000);
+      expect(accounts.find((a) => a.accountId === "brokerage")!.balance).toBe(0);
+      expect(accounts.find((a) => a.accountId === "trad")!.balance).toBe(0);
+      expect(accounts.find((a) => a.accountId === "roth")!.balance).toBe(1000);
+    });
+
+    it("stops at the total available balance", () => {
+      const accounts = makeAccounts();
+      const result = withdrawFromAccounts(accounts, accountDefs, 50000, { order: "TAXABLE_FIRST" });
+
+      expect(result.total).toBe(10000);
+      expect(accounts.every((a) => a.balance === 0)).toBe(true);
+    });
+
+    it("reports gains realized selling taxable holdings", () => {
+      const accounts = makeAccounts();
+      accounts.find((a) => a.accountId === "brokerage")!.costBasis = 1500;
+      const result = withdrawFromAccounts(accounts, accountDefs, 3000, { order: "TAXABLE_FIRST" });
+
+      // The whole brokerage balance is sold: 2000 proceeds on 1500 of basis
+      expect(result.realizedGains).toBe(500);
+      expect(result.traditional).toBe(1000);
+    });
+
+    it("tracks withdrawals on each account", () => {
+      const accounts = makeAccounts();
+      withdrawFromAccounts(accounts, accountDefs, 2500, { order: "TAXABLE_FIRST" });
+
+      expect(accounts.find((a) => a.accountId === "brokerage")!.withdrawals).toBe(2000);
+      expect(accounts.find((a) => a.accountId === "trad")!.withdrawals).toBe(500);
+    });
+  });
+
+  describe("PROPORTIONAL", () => {
+    it("draws pro-rata to balances", () => {
+      const accounts = makeAccounts();
+      const result = withdrawFromAccounts(accounts, accountDefs, 1000, { order: "PROPORTIONAL" });
+
+      expect(result.total).toBe(1000);
+      expect(result.traditional).toBe(600);
+      expect(accounts.find((a) => a.accountId === "roth")!.withdrawals).toBe(200);
+      expect(accounts.find((a) => a.accountId === "brokerage")!.withdrawals).toBe(200);
+    });
+  });
+
+  describe("BRACKET_FILLING", () => {
+    it("fills the bracket with traditional money before taxable", () => {
+      const accounts = makeAccounts();
+      const result = withdrawFromAccounts(
+        accounts,
+        accountDefs,
+        3000,
+        { order: "BRACKET_FILLING", fillBracketPct: 12 },
+        1500
+      );
+
+      expect(result.total).toBe(3000);
+      expect(result.traditional).toBe(1500);
+      expect(accounts.find((a) => a.accountId === "brokerage")!.withdrawals).toBe(1500);
+    });
+
+    it("returns to traditional once taxable is exhausted", () => {
+      const accounts = makeAccounts();
+      const result = withdrawFromAccounts(
+        accounts,
+        accountDefs,
+        5000,
+        { order: "BRACKET_FILLING", fillBracketPct: 12 },
+        1000
+      );
+
+      expect(result.traditional).toBe(3000);
+      expect(accounts.find((a) => a.accountId === "roth")!.withdrawals).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  getTaxIndexFactor,
+  startTaxYear,
+  calculateWithholding,
+  recordTaxMonth,
+  settleTaxYear,
+} from "../../src/internal/withholding";
+import { calculateAnnualTaxes, calculateMonthlyTaxes } from "../../src/internal/taxes";
+import type { TaxProfileDTO } from "../../src/types";
+
+const profile: TaxProfileDTO = {
+  stateCode: "TX",
+  filingStatus: "SINGLE",
+  taxYear: 2024,
+  includePayrollTaxes: true,
+  advancedOverridesEnabled: false,
+};
+
+describe("withholding", () => {
+  describe("getTaxIndexFactor", () => {
+    it("uses the January inflation index", () => {
+      const index = new Map([
+        ["2025-01", 1.03],
+        ["2025-06", 1.045],
+      ]);
+      expect(getTaxIndexFactor(2025, index)).toBe(1.03);
+    });
+
+    it("defaults to 1 when January is outside the index", () => {
+      expect(getTaxIndexFactor(2024, new Map([["2024-06", 1]]))).toBe(1);
+    });
+  });
+
+  describe("calculateWithholding", () => {
+    it("withholds at the annualized monthly rate", () => {
+      const taxYear = startTaxYear(2024, new Map());
+      expect(calculateWithholding(taxYear, profile, 5000)).toBe(
+        calculateMonthlyTaxes(5000, profile)
+      );
+    });
+
+    it("uses the tax year's indexed brackets", () => {
+      const base = startTaxYear(2024, new Map());
+      const indexed = startTaxYear(2030, new Map([["2030-01", 1.2]]));
+      expect(calculateWithholding(indexed, profile, 8000)).toBeLessThan(
+        calculateWithholding(base, profile, 8000)
+      );
+    });
+  });
+
+  describe("Social Security benefits", () => {
+    it("withholds only on the taxable part of benefits", () => {
+      const taxYear = startTaxYear(2024, new Map());
+      // $3,000/month benefits plus $2,000/month pension: provisional income $42,000
+      const withheld = calculateWithholding(taxYear, profile, 0, 2000, 0, undefined, 3000);
+      expect(withheld).toBe(calculateMonthlyTaxes(0, profile, 2000 + 11300 / 12));
+    });
+
+    it("settles on the year's taxable benefits", () => {
+      const taxYear = startTaxYear(2024, new Map());
+      recordTaxMonth(taxYear, 0, 24000, 0, 0, undefined, 36000);
+      expect(settleTaxYear(taxYear, profile)).toBe(
+        calculateAnnualTaxes(0, profile, 24000 + 11300).total
+      );
+    });
+  });
+
+  describe("settleTaxYear", () => {
+    it("owes nothing when income was steady all year", () => {
+      const taxYear = startTaxYear(2024, new Map());
+      for (let i = 0; i < 12; i++) {
+        recordTaxMonth(taxYear, 5000, 0, calculateWithholding(taxYear, profile, 5000));
+      }
+      expect(Math.abs(settleTaxYear(taxYear, profile))).toBeLessThan(1);
+    });
+
+    it("refunds over-withholding from a partial working year", () => {
+      const taxYear = startTaxYear(2024, new Map());
+      for (let i = 0; i < 6; i++) {
+        recordTaxMonth(taxYear, 10000, 0, calculateWithholding(taxYear, profile, 10000));
+      }
+
+      const liability = calculateAnnualTaxes(60000, profile).total;
+      expect(settleTaxYear(taxYear, profile)).toBeCloseTo(liability - taxYear.withheld, 2);
+      expect(settleTaxYear(taxYear, profile)).toBeLessThan(0);
+    });
+
+    it("charges for under-withholding on irregular income", () => {
+      const taxYear = startTaxYear(2024, new Map());
+      recordTaxMonth(taxYear, 0, 50000, 0);
+      expect(settleTaxYear(taxYear, profile)).toBeGreaterThan(0);
+    });
+  });
+});
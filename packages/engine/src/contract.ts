@@ -4,11 +4,14 @@
  */
 import type {
   ScenarioInputDTO,
+  EngineOptions,
+  DollarBasis,
   ProjectionResultDTO,
   ProjectionSeries,
   SeriesPoint,
   MonthlyBreakdownRow,
   AnnualSummaryRow,
+  TaxAnnualRow,
 } from "./types";
 import { ENGINE_VERSION } from "./version";
 import { prepareInput } from "./internal/normalize";
@@ -16,6 +19,11 @@ import { hashInput } from "./internal/hash";
 import { runProjection, generateAnnualSummary, type MonthState } from "./internal/projection";
 import { buildInflationIndex, realToNominal } from "./internal/growth";
 import { round } from "./internal/math";
+import { calculateTaxReturn, type InvestmentIncome } from "./internal/taxes";
+import { calculateTaxableSocialSecurity } from "./internal/benefits";
+import { getTaxProfileForYear } from "./internal/mortality";
+import { getTaxIndexFactor } from "./internal/withholding";
+import { deflateMonths, deflateTaxAnnualRow } from "./internal/realDollars";
 
 /**
  * Convert monthly states to projection series format.
@@ -23,7 +31,8 @@ import { round } from "./internal/math";
 function buildSeries(
   months: MonthState[],
   input: ScenarioInputDTO,
-  inflationIndex: Map<string, number>
+  inflationIndex: Map<string, number>,
+  dollars: DollarBasis
 ): ProjectionSeries {
   const netWorth: SeriesPoint[] = [];
   const assetsTotal: SeriesPoint[] = [];
@@ -32,6 +41,9 @@ function buildSeries(
   const expenseTotal: SeriesPoint[] = [];
   const taxesTotal: SeriesPoint[] = [];
   const cashflowNet: SeriesPoint[] = [];
+  const cashBalance: SeriesPoint[] = [];
+  const realAssets: SeriesPoint[] = [];
+  const realAssetValues: Record<string, SeriesPoint[]> = {};
   const accountBalances: Record<string, SeriesPoint[]> = {};
   const goalProgress: Record<string, { funded: SeriesPoint[]; targetNominal: SeriesPoint[] }> = {};
 
@@ -40,6 +52,11 @@ function buildSeries(
     accountBalances[account.id] = [];
   }
 
+  // Initialize real asset value series
+  for (const asset of input.realAssets ?? []) {
+    realAssetValues[asset.id] = [];
+  }
+
   // Initialize goal progress series
   for (const goal of input.goals) {
     goalProgress[goal.id] = {
@@ -57,8 +74,10 @@ function buildSeries(
     liabilitiesTotal.push({ t, v: month.totalLiabilities });
     incomeTotal.push({ t, v: month.income });
     expenseTotal.push({ t, v: month.expenses });
-    taxesTotal.push({ t, v: month.taxes });
+    taxesTotal.push({ t, v: round(month.taxes + month.taxTrueUp, 2) });
     cashflowNet.push({ t, v: month.netCashflow });
+    cashBalance.push({ t, v: month.cashBalance });
+    realAssets.push({ t, v: month.realAssetValue });
 
     // Account balances
     for (const accountId of Object.keys(month.accountBalances)) {
@@ -70,21 +89,24 @@ function buildSeries(
       }
     }
 
+    // Real asset values
+    for (const assetId of Object.keys(month.realAssetValues)) {
+      realAssetValues[assetId]?.push({ t, v: month.realAssetValues[assetId] });
+    }
+
     // Goal progress
     for (const goal of input.goals) {
-      // Funded amount - for now, use net worth as proxy
-      // In full implementation, would link to specific accounts
+      // Funded amount - earmarked linked balances, or net worth when unlinked
       goalProgress[goal.id].funded.push({
         t,
-        v: month.netWorth,
+        v: month.goalFunded[goal.id] ?? month.netWorth,
       });
 
-      // Target in nominal dollars
-      const targetNominal = realToNominal(
-        goal.targetAmountReal,
-        inflationIndex,
-        t
-      );
+      // Target in nominal dollars, or flat in today's dollars
+      const targetNominal =
+        dollars === "REAL"
+          ? goal.targetAmountReal
+          : realToNominal(goal.targetAmountReal, inflationIndex, t);
       goalProgress[goal.id].targetNominal.push({
         t,
         v: targetNominal,
@@ -100,6 +122,9 @@ function buildSeries(
     expenseTotal,
     taxesTotal,
     cashflowNet,
+    cashBalance,
+    realAssets,
+    realAssetValues,
     accountBalances,
     goalProgress,
   };
@@ -114,9 +139,24 @@ function buildMonthlyBreakdown(months: MonthState[]): MonthlyBreakdownRow[] {
     income: month.income,
     expenses: month.expenses,
     taxes: month.taxes,
+    taxTrueUp: month.taxTrueUp,
+    socialSecurityIncome: month.socialSecurityIncome,
+    pensionIncome: month.pensionIncome,
     loanPayments: month.loanPayments,
+    loanDraws: month.loanDraws,
     contributions: month.contributions,
     investmentReturns: month.investmentReturns,
+    withdrawals: month.withdrawals,
+    accountWithdrawals: month.accountWithdrawals,
+    goalWithdrawals: month.goalWithdrawals,
+    employerMatch: month.employerMatch,
+    taxableInvestmentIncome: round(
+      month.investmentIncome.ordinary + month.investmentIncome.preferential,
+      2
+    ),
+    realAssetPurchases: month.realAssetPurchases,
+    eventCashflow: month.eventCashflow,
+    events: month.events,
     netCashflow: month.netCashflow,
     assetsEnd: month.totalAssets,
     liabilitiesEnd: month.totalLiabilities,
@@ -130,13 +170,94 @@ function buildAnnualSummary(months: MonthState[]): AnnualSummaryRow[] {
   return generateAnnualSummary(months);
 }
 
+/**
+ * Build a tax return breakdown for each projection year.
+ * Traditional account withdrawals (including RMDs) and pensions count as
+ * ordinary income, as does the taxable part of Social Security benefits.
+ * Brackets and deductions are indexed by the inflation factor at each January,
+ * and a survivor files single once the joint years after a death run out.
+ */
+function buildTaxAnnual(
+  months: MonthState[],
+  input: ScenarioInputDTO,
+  inflationIndex: Map<string, number>
+): TaxAnnualRow[] {
+  const traditionalIds = new Set(
+    input.accounts.filter((a) => a.type === "TRADITIONAL").map((a) => a.id)
+  );
+  const yearMap = new Map<
+    number,
+    {
+      wages: number;
+      distributions: number;
+      socialSecurity: number;
+      preTax: number;
+      investment: InvestmentIncome;
+    }
+  >();
+
+  for (const month of months) {
+    const year = parseInt(month.date.slice(0, 4), 10);
+    const current = yearMap.get(year) ?? {
+      wages: 0,
+      distributions: 0,
+      socialSecurity: 0,
+      preTax: 0,
+      investment: { ordinary: 0, preferential: 0 },
+    };
+
+    current.wages += month.income - month.socialSecurityIncome - month.pensionIncome;
+    current.distributions += month.pensionIncome;
+    current.socialSecurity += month.socialSecurityIncome;
+    current.preTax += month.preTaxContributions;
+    current.investment.ordinary += month.investmentIncome.ordinary;
+    current.investment.preferential += month.investmentIncome.preferential;
+    for (const [accountId, amount] of Object.entries(month.accountWithdrawals)) {
+      if (traditionalIds.has(accountId)) {
+        current.distributions += amount;
+      }
+    }
+
+    yearMap.set(year, current);
+  }
+
+  return Array.from(yearMap.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([year, data]) => {
+      const taxProfile = getTaxProfileForYear(input.taxProfile, input.members ?? [], year);
+      return calculateTaxReturn(
+        year,
+        data.wages,
+        data.distributions +
+          calculateTaxableSocialSecurity(
+            data.socialSecurity,
+            data.wages -
+              data.preTax +
+              data.distributions +
+              data.investment.ordinary +
+              data.investment.preferential,
+            taxProfile.filingStatus
+          ),
+        taxProfile,
+        getTaxIndexFactor(year, inflationIndex),
+        data.preTax,
+        data.investment
+      );
+    });
+}
+
 /**
  * Run the financial projection engine.
  *
  * This is the main entry point for the engine. It takes a scenario input,
  * validates and normalizes it, runs the projection, and returns the results.
  *
+ * With `dollars: "REAL"`, every series, breakdown and summary is deflated
+ * by the inflation index to dollars of the projection start date. Warning
+ * messages keep their nominal amounts.
+ *
  * @param input - Complete scenario input with all financial data
+ * @param options - Output options (default nominal dollars)
  * @returns Projection results including series, breakdowns, and warnings
  * @throws Error if input validation fails
  *
@@ -155,7 +276,12 @@ function buildAnnualSummary(months: MonthState[]): AnnualSummaryRow[] {
  * console.log(result.warnings);
  * ```
  */
-export function runEngine(input: ScenarioInputDTO): ProjectionResultDTO {
+export function runEngine(
+  input: ScenarioInputDTO,
+  options: EngineOptions = {}
+): ProjectionResultDTO {
+  const dollars = options.dollars ?? "NOMINAL";
+
   // Validate and normalize input
   const normalizedInput = prepareInput(input);
 
@@ -172,18 +298,27 @@ export function runEngine(input: ScenarioInputDTO): ProjectionResultDTO {
   // Run the projection
   const { months, warnings } = runProjection(normalizedInput);
 
+  // Taxes are computed on nominal amounts before any deflation
+  const nominalTaxAnnual = buildTaxAnnual(months, normalizedInput, inflationIndex);
+  const reportMonths = dollars === "REAL" ? deflateMonths(months, inflationIndex) : months;
+
   // Build output structures
-  const series = buildSeries(months, normalizedInput, inflationIndex);
-  const monthly = buildMonthlyBreakdown(months);
-  const annual = buildAnnualSummary(months);
+  const series = buildSeries(reportMonths, normalizedInput, inflationIndex, dollars);
+  const monthly = buildMonthlyBreakdown(reportMonths);
+  const annual = buildAnnualSummary(reportMonths);
+  const taxAnnual =
+    dollars === "REAL"
+      ? nominalTaxAnnual.map((row) => deflateTaxAnnualRow(row, inflationIndex))
+      : nominalTaxAnnual;
 
   return {
     engineVersion: ENGINE_VERSION,
     inputHash,
+    dollars,
     series,
     monthly,
     annual,
-    taxAnnual: [], // Placeholder for detailed tax output
+    taxAnnual,
     warnings,
   };
 }
@@ -6,15 +6,47 @@ export {
   calculateFICA,
   calculateStateTax,
   calculateAnnualTaxes,
+  calculateFederalTaxByBracket,
+  calculateTaxReturn,
   calculateMonthlyTaxes,
   getMarginalRate,
   getStandardDeduction,
+  getBracketCeiling,
   estimateTaxSavings,
   CONTRIBUTION_LIMITS_2024,
 } from "./internal/taxes";
+export { calculateMonthlyPayment, generateAmortizationSchedule } from "./internal/loans";
+export { addMonths, formatISO, getMonthKey, parseISO } from "./internal/dates";
 export { runMonteCarlo } from "./internal/montecarlo";
 export type {
   MonteCarloConfig,
   MonteCarloResultDTO,
   PercentileBands,
 } from "./internal/montecarlo";
+export { solve } from "./internal/solver";
+export type {
+  SolveConfig,
+  SolveResultDTO,
+  SolveTarget,
+  SolveVariable,
+} from "./internal/solver";
+export { runSensitivityAnalysis } from "./internal/sensitivity";
+export type {
+  SensitivityAssumption,
+  SensitivityBar,
+  SensitivityConfig,
+  SensitivityMetric,
+  SensitivityMetricValues,
+  SensitivityOutcome,
+  SensitivityResultDTO,
+} from "./internal/sensitivity";
+export { runHistoricalBacktest } from "./internal/backtest";
+export type { BacktestConfig, BacktestResultDTO } from "./internal/backtest";
+export { HISTORICAL_RETURNS } from "./internal/historicalReturns";
+export type { HistoricalYear } from "./internal/historicalReturns";
+export { DEFAULT_ASSET_CLASSES, DEFAULT_CORRELATION } from "./internal/returnModel";
+export type {
+  AssetClass,
+  AssetClassAssumption,
+  ReturnModelConfig,
+} from "./internal/returnModel";
@@ -1,10 +1,20 @@
 /**
  * Investment account balance tracking and contribution processing.
  */
-import type { InvestmentAccountDTO, ContributionRuleDTO } from "../types";
+import type {
+  InvestmentAccountDTO,
+  ContributionRuleDTO,
+  FilingStatus,
+  MemberDTO,
+} from "../types";
 import { round, annualToMonthlyRate, compoundGrowth } from "./math";
 import { applyGrowth } from "./growth";
 import { isDateInPeriod, getMonthKeyFromDate } from "./schedules";
+import {
+  applyContributionLimit,
+  applyEmployerMatch,
+  type ContributionLimitState,
+} from "./contributionLimits";
 
 /**
  * Represents the current state of an investment account.
@@ -13,7 +23,10 @@ export interface AccountState {
   accountId: string;
   balance: number;
   contributions: number; // Cumulative contributions this period
+  employerMatch: number; // Cumulative employer match this period
   returns: number; // Cumulative returns this period
+  withdrawals: number; // Cumulative withdrawals this period
+  costBasis: number; // Amount invested, for gains on TAXABLE accounts
 }
 
 /**
@@ -30,40 +43,62 @@ export function initializeAccountStates(accounts: InvestmentAccountDTO[]): Accou
       return sum + holding.shares * price;
     }, 0);
 
+    const initialBasis = account.holdings.reduce(
+      (sum, holding) => sum + holding.shares * holding.avgPrice,
+      0
+    );
+
     return {
       accountId: account.id,
       balance: round(initialBalance, 2),
       contributions: 0,
+      employerMatch: 0,
       returns: 0,
+      withdrawals: 0,
+      costBasis: round(initialBasis, 2),
     };
   });
 }
 
+/**
+ * Household context needed to enforce annual contribution limits.
+ */
+export interface ContributionLimitContext {
+  state: ContributionLimitState;
+  accountDefs: InvestmentAccountDTO[];
+  members: MemberDTO[];
+  filingStatus: FilingStatus;
+}
+
 /**
  * Process monthly contributions to accounts.
+ * Employee contributions are capped at the annual IRS limit when a limit
+ * context is given, and any employer match is deposited alongside them.
  * Modifies account states in place.
  *
  * @param accounts - Array of account states to update
  * @param contributions - Contribution rules to apply
  * @param date - Current date (ISO format)
  * @param inflationIndex - Inflation index for escalation calculations
+ * @param limits - Contribution limit tracking (optional)
  */
 export function processMonthlyContributions(
   accounts: AccountState[],
   contributions: ContributionRuleDTO[],
   date: string,
-  inflationIndex: Map<string, number>
+  inflationIndex: Map<string, number>,
+  limits?: ContributionLimitContext
 ): void {
-  for (const rule of contributions) {
+  contributions.forEach((rule, ruleIndex) => {
     // Check if contribution is active for this date
     if (!isDateInPeriod(date, rule.startDate, rule.endDate)) {
-      continue;
+      return;
     }
 
     // Find the account
     const account = accounts.find((a) => a.accountId === rule.accountId);
     if (!account) {
-      continue;
+      return;
     }
 
     // Calculate contribution amount with optional escalation
@@ -80,10 +115,33 @@ export function processMonthlyContributions(
       );
     }
 
-    // Add contribution to account
-    account.balance = round(account.balance + amount, 2);
+    let match = 0;
+    if (limits) {
+      const def = limits.accountDefs.find((a) => a.id === rule.accountId);
+      if (def) {
+        amount = applyContributionLimit(
+          limits.state,
+          def,
+          limits.members,
+          limits.filingStatus,
+          amount
+        );
+      }
+      match = applyEmployerMatch(
+        limits.state,
+        ruleIndex,
+        amount,
+        rule.employerMatchPct,
+        rule.employerMatchLimitAnnual
+      );
+    }
+
+    // Add contribution and match to account
+    account.balance = round(account.balance + amount + match, 2);
+    account.costBasis = round(account.costBasis + amount + match, 2);
     account.contributions = round(account.contributions + amount, 2);
-  }
+    account.employerMatch = round(account.employerMatch + match, 2);
+  });
 }
 
 /**
@@ -92,10 +150,12 @@ export function processMonthlyContributions(
  *
  * @param accounts - Array of account states to update
  * @param accountDefs - Account definitions with expected returns
+ * @param returnPctOverrides - Annual return percent by account ID for this month (optional)
  */
 export function applyMonthlyReturns(
   accounts: AccountState[],
-  accountDefs: InvestmentAccountDTO[]
+  accountDefs: InvestmentAccountDTO[],
+  returnPctOverrides?: Record<string, number>
 ): void {
   for (const state of accounts) {
     // Find the account definition
@@ -105,7 +165,7 @@ export function applyMonthlyReturns(
     }
 
     // Calculate monthly return
-    const annualRate = def.expectedReturnPct / 100;
+    const annualRate = (returnPctOverrides?.[def.id] ?? def.expectedReturnPct) / 100;
     const monthlyRate = annualToMonthlyRate(annualRate);
 
     // Apply return to current balance
@@ -153,6 +213,19 @@ export function getTotalContributions(accounts: AccountState[]): number {
   );
 }
 
+/**
+ * Get total employer match across all accounts for the period.
+ *
+ * @param accounts - Array of account states
+ * @returns Sum of all employer match deposits
+ */
+export function getTotalEmployerMatch(accounts: AccountState[]): number {
+  return round(
+    accounts.reduce((sum, account) => sum + account.employerMatch, 0),
+    2
+  );
+}
+
 /**
  * Get total returns across all accounts for the period.
  *
@@ -167,7 +240,20 @@ export function getTotalReturns(accounts: AccountState[]): number {
 }
 
 /**
- * Reset period-specific counters (contributions and returns) for a new period.
+ * Get total withdrawals across all accounts for the period.
+ *
+ * @param accounts - Array of account states
+ * @returns Sum of all withdrawals
+ */
+export function getTotalWithdrawals(accounts: AccountState[]): number {
+  return round(
+    accounts.reduce((sum, account) => sum + account.withdrawals, 0),
+    2
+  );
+}
+
+/**
+ * Reset period-specific counters (contributions, match, returns, withdrawals) for a new period.
  * Keeps balances intact.
  *
  * @param accounts - Array of account states to reset
@@ -175,7 +261,9 @@ export function getTotalReturns(accounts: AccountState[]): number {
 export function resetPeriodCounters(accounts: AccountState[]): void {
   for (const account of accounts) {
     account.contributions = 0;
+    account.employerMatch = 0;
     account.returns = 0;
+    account.withdrawals = 0;
   }
 }
 
@@ -193,6 +281,23 @@ export function snapshotAccountBalances(accounts: AccountState[]): Record<string
   return snapshot;
 }
 
+/**
+ * Create a snapshot of this period's withdrawals.
+ * Only accounts that were drawn from are included.
+ *
+ * @param accounts - Array of account states
+ * @returns Record mapping account IDs to amounts withdrawn
+ */
+export function snapshotAccountWithdrawals(accounts: AccountState[]): Record<string, number> {
+  const snapshot: Record<string, number> = {};
+  for (const account of accounts) {
+    if (account.withdrawals > 0) {
+      snapshot[account.accountId] = account.withdrawals;
+    }
+  }
+  return snapshot;
+}
+
 /**
  * Calculate account value by type (for tax purposes).
  *
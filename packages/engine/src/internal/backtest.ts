@@ -0,0 +1,193 @@
+/**
+ * Historical backtesting engine.
+ * Replays the plan through every rolling window of actual US market history,
+ * FIRECalc-style, instead of sampling random returns.
+ */
+import type { ScenarioInputDTO } from "../types";
+import { prepareInput } from "./normalize";
+import { runProjection } from "./projection";
+import { round } from "./math";
+import { buildPercentileBands, percentile, type PercentileBands } from "./montecarlo";
+import {
+  validateAllocations,
+  validateAllocationTotal,
+  type AssetClass,
+  type ReturnPaths,
+} from "./returnModel";
+import { HISTORICAL_RETURNS, type HistoricalYear } from "./historicalReturns";
+
+/** Configuration for a historical backtest */
+export interface BacktestConfig {
+  /** Account allocations in percent by asset class (CASH earns T-bill returns) */
+  allocations?: Record<string, Partial<Record<AssetClass, number>>>;
+  /** Allocation for accounts not listed in allocations (default 60% stocks / 40% bonds) */
+  defaultAllocation?: Partial<Record<AssetClass, number>>;
+  /** Replay historical CPI as inflation (default true) */
+  historicalInflation?: boolean;
+  /** Market history to replay (default: embedded 1928-2023 dataset) */
+  data?: HistoricalYear[];
+}
+
+/** Complete historical backtest result */
+export interface BacktestResultDTO {
+  /** Net worth percentile bands over time, across all windows */
+  bands: PercentileBands[];
+  /** Percentage of windows where final net worth > 0 */
+  successRate: number;
+  /** Number of rolling windows replayed */
+  windows: number;
+  /** Length of each window in calendar years */
+  windowYears: number;
+  /** First historical year of each window replayed */
+  startYears: number[];
+  /** Start years whose window ended with net worth <= 0 */
+  failingStartYears: number[];
+  /** Median final net worth */
+  medianFinalNetWorth: number;
+  /** 10th percentile final net worth */
+  p10FinalNetWorth: number;
+  /** 90th percentile final net worth */
+  p90FinalNetWorth: number;
+}
+
+const DEFAULT_ALLOCATION: Partial<Record<AssetClass, number>> = { STOCKS: 60, BONDS: 40 };
+
+/**
+ * Convert an annual return to the annualized rate whose monthly share
+ * compounds back to the same annual return.
+ */
+function toCompoundingAnnualPct(annualPct: number): number {
+  return (Math.pow(1 + annualPct / 100, 1 / 12) - 1) * 12 * 100;
+}
+
+/**
+ * Blend a historical year's asset-class returns by allocation.
+ */
+function blendReturns(
+  history: HistoricalYear,
+  allocation: Partial<Record<AssetClass, number>>
+): number {
+  return (
+    ((allocation.STOCKS ?? 0) * history.stocksPct +
+      (allocation.BONDS ?? 0) * history.bondsPct +
+      (allocation.CASH ?? 0) * history.billsPct) /
+    100
+  );
+}
+
+/**
+ * Build return and inflation paths for one historical window.
+ * Projection calendar years map in order onto consecutive historical years.
+ */
+function buildWindowPaths(
+  input: ScenarioInputDTO,
+  monthKeys: string[],
+  window: HistoricalYear[],
+  config: BacktestConfig
+): ReturnPaths {
+  const firstYear = parseInt(monthKeys[0].slice(0, 4), 10);
+  const defaultAllocation = config.defaultAllocation ?? DEFAULT_ALLOCATION;
+
+  const accountReturnPct: Record<string, number[]> = {};
+  for (const account of input.accounts) {
+    const allocation = config.allocations?.[account.id] ?? defaultAllocation;
+    accountReturnPct[account.id] = monthKeys.map((monthKey) => {
+      const history = window[parseInt(monthKey.slice(0, 4), 10) - firstYear];
+      return round(toCompoundingAnnualPct(blendReturns(history, allocation)), 4);
+    });
+  }
+
+  if (config.historicalInflation === false) {
+    return { accountReturnPct };
+  }
+
+  const inflationIndex = new Map<string, number>();
+  let level = 1;
+  monthKeys.forEach((monthKey, i) => {
+    if (i > 0) {
+      const prior = window[parseInt(monthKeys[i - 1].slice(0, 4), 10) - firstYear];
+      level *= Math.pow(1 + prior.cpiPct / 100, 1 / 12);
+    }
+    inflationIndex.set(monthKey, round(level, 6));
+  });
+
+  return { accountReturnPct, inflationIndex };
+}
+
+/**
+ * Run a historical backtest.
+ *
+ * Replays the scenario through every rolling N-year window of market
+ * history, where N is the number of calendar years the projection spans.
+ * Each account earns its allocation's blended historical return, and
+ * inflation follows historical CPI.
+ *
+ * @param input - Scenario input (will be normalized internally)
+ * @param config - Backtest configuration
+ * @returns Percentile bands, success rate, and failing start years
+ * @throws Error if the projection is longer than the available history
+ */
+export function runHistoricalBacktest(
+  input: ScenarioInputDTO,
+  config: BacktestConfig = {}
+): BacktestResultDTO {
+  const normalizedInput = prepareInput(input);
+  const data = [...(config.data ?? HISTORICAL_RETURNS)].sort((a, b) => a.year - b.year);
+
+  validateAllocations(
+    config.allocations ?? {},
+    normalizedInput.accounts.map((a) => a.id)
+  );
+  if (config.defaultAllocation) {
+    validateAllocationTotal(config.defaultAllocation, "unlisted accounts");
+  }
+
+  // Run one baseline projection to get month count and dates
+  const { months: baseMonths } = runProjection(normalizedInput);
+  const dates = baseMonths.map((m) => m.date);
+  const monthKeys = dates.map((d) => d.slice(0, 7));
+
+  const windowYears = new Set(monthKeys.map((k) => k.slice(0, 4))).size;
+  const windowCount = data.length - windowYears + 1;
+  if (windowCount < 1) {
+    throw new Error(
+      `Projection spans ${windowYears} years but historical data covers only ${data.length}`
+    );
+  }
+
+  const allNetWorths: number[][] = dates.map(() => []);
+  const allFinalNetWorths: number[] = [];
+  const startYears: number[] = [];
+  const failingStartYears: number[] = [];
+
+  for (let start = 0; start < windowCount; start++) {
+    const window = data.slice(start, start + windowYears);
+    const paths = buildWindowPaths(normalizedInput, monthKeys, window, config);
+    const { months } = runProjection(normalizedInput, paths);
+
+    for (let m = 0; m < months.length; m++) {
+      allNetWorths[m].push(months[m].netWorth);
+    }
+
+    const finalNW = months[months.length - 1].netWorth;
+    allFinalNetWorths.push(finalNW);
+    startYears.push(window[0].year);
+    if (finalNW <= 0) {
+      failingStartYears.push(window[0].year);
+    }
+  }
+
+  const sortedFinal = [...allFinalNetWorths].sort((a, b) => a - b);
+
+  return {
+    bands: buildPercentileBands(dates, allNetWorths),
+    successRate: round(((windowCount - failingStartYears.length) / windowCount) * 100, 1),
+    windows: windowCount,
+    windowYears,
+    startYears,
+    failingStartYears,
+    medianFinalNetWorth: percentile(sortedFinal, 0.5),
+    p10FinalNetWorth: percentile(sortedFinal, 0.1),
+    p90FinalNetWorth: percentile(sortedFinal, 0.9),
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * Social Security and defined-benefit pension income.
+ * Benefits follow their member's age and lifetime: Social Security is
+ * adjusted for the claiming age and passes the larger benefit to a
+ * surviving member, and pensions continue at their survivor percentage.
+ */
+import type { FilingStatus, IncomeDTO, MemberDTO } from "../types";
+import { round } from "./math";
+import { addMonths, getMonthKey, parseISO } from "./dates";
+import { isMemberAlive } from "./mortality";
+import { applyGrowth } from "./growth";
+import { isDateInPeriod, normalizeToMonthly } from "./schedules";
+
+/**
+ * Provisional income thresholds above which 50% and then 85% of
+ * Social Security benefits are taxable. Set by statute and not indexed.
+ */
+export const SOCIAL_SECURITY_TAX_THRESHOLDS: Record<
+  FilingStatus,
+  { base: number; adjusted: number }
+> = {
+  SINGLE: { base: 25000, adjusted: 34000 },
+  MFJ: { base: 32000, adjusted: 44000 },
+  HOH: { base: 25000, adjusted: 34000 },
+};
+
+/**
+ * Smallest share of the deceased's primary insurance amount paid as a
+ * survivor benefit when the deceased claimed early.
+ */
+export const SURVIVOR_BENEFIT_FLOOR = 0.825;
+
+/**
+ * One month of benefit income.
+ */
+export interface MonthlyBenefits {
+  socialSecurity: number;
+  pension: number;
+}
+
+/**
+ * Get the full retirement age for a birth year.
+ *
+ * @param birthYear - Year of birth
+ * @returns Full retirement age in months
+ */
+export function getFullRetirementAgeMonths(birthYear: number): number {
+  if (birthYear <= 1937) return 65 * 12;
+  if (birthYear <= 1942) return 65 * 12 + (birthYear - 1937) * 2;
+  if (birthYear <= 1954) return 66 * 12;
+  if (birthYear <= 1959) return 66 * 12 + (birthYear - 1954) * 2;
+  return 67 * 12;
+}
+
+/**
+ * Get the share of the primary insurance amount paid for a claiming age.
+ * Early claims lose 5/9% a month for the first 36 months and 5/12% a month
+ * beyond; delayed claims earn 2/3% a month up to age 70.
+ *
+ * @param claimingAgeMonths - Claiming age in months
+ * @param fullRetirementAgeMonths - Full retirement age in months
+ * @returns Benefit multiplier (1 at full retirement age)
+ */
+export function getClaimingAdjustment(
+  claimingAgeMonths: number,
+  fullRetirementAgeMonths: number
+): number {
+  const monthsAfter = claimingAgeMonths - fullRetirementAgeMonths;
+  if (monthsAfter < 0) {
+    const monthsEarly = -monthsAfter;
+    return (
+      1 - (Math.min(monthsEarly, 36) * 5) / 900 - (Math.max(0, monthsEarly - 36) * 5) / 1200
+    );
+  }
+  const creditMonths = Math.min(monthsAfter, 70 * 12 - fullRetirementAgeMonths);
+  return 1 + (creditMonths * 2) / 300;
+}
+
+/**
+ * Calculate the taxable part of a year's Social Security benefits from
+ * provisional income (other income plus half the benefits).
+ *
+ * @param benefits - Annual Social Security benefits
+ * @param otherIncome - Annual income other than Social Security
+ * @param filingStatus - Filing status
+ * @returns Taxable benefits, at most 85% of benefits
+ */
+export function calculateTaxableSocialSecurity(
+  benefits: number,
+  otherIncome: number,
+  filingStatus: FilingStatus
+): number {
+  if (benefits <= 0) {
+    return 0;
+  }
+
+  const { base, adjusted } = SOCIAL_SECURITY_TAX_THRESHOLDS[filingStatus];
+  const provisional = otherIncome + benefits / 2;
+
+  if (provisional <= base) {
+    return 0;
+  }
+  if (provisional <= adjusted) {
+    return round(Math.min(benefits / 2, (provisional - base) / 2), 2);
+  }
+  return round(
+    Math.min(
+      benefits * 0.85,
+      0.85 * (provisional - adjusted) + Math.min(benefits / 2, (adjusted - base) / 2)
+    ),
+    2
+  );
+}
+
+/**
+ * Get a member's Social Security benefit in today's dollars, before any
+ * survivor substitution.
+ *
+ * @returns Monthly benefit and the month it is first paid
+ */
+function getOwnBenefit(
+  income: IncomeDTO,
+  member: MemberDTO
+): { monthly: number; claimMonth: string } {
+  const claimingAgeMonths = Math.round((income.socialSecurity?.claimingAge ?? 67) * 12);
+  const birthYear = parseInt(member.birthDate!.slice(0, 4), 10);
+  const adjustment = getClaimingAdjustment(
+    claimingAgeMonths,
+    getFullRetirementAgeMonths(birthYear)
+  );
+  return {
+    monthly: normalizeToMonthly(income.amount, income.frequency) * adjustment,
+    claimMonth: getMonthKey(addMonths(parseISO(member.birthDate!), claimingAgeMonths)),
+  };
+}
+
+/**
+ * Calculate a month's Social Security and pension income.
+ *
+ * Each living member receives their own Social Security once claimed, or
+ * the deceased member's benefit if larger (at least 82.5% of the deceased's
+ * primary insurance amount). Pensions stop with their member unless another
+ * member survives, who then receives the survivor percentage.
+ *
+ * @param incomes - Income definitions (earned incomes are ignored)
+ * @param members - Household members
+ * @param date - Current month (YYYY-MM-DD)
+ * @param inflationIndex - Inflation index for Social Security COLAs
+ * @returns Social Security and pension income for the month
+ */
+export function calculateMonthlyBenefits(
+  incomes: IncomeDTO[],
+  members: MemberDTO[],
+  date: string,
+  inflationIndex: Map<string, number>
+): MonthlyBenefits {
+  const monthKey = date.slice(0, 7);
+  const memberById = new Map(members.map((m) => [m.id, m]));
+  const isAlive = (memberId: string | undefined) => {
+    const member = memberId ? memberById.get(memberId) : undefined;
+    return !member || isMemberAlive(member, monthKey);
+  };
+
+  // Benefits of members no longer projected, available to survivors
+  const socialSecurityIncomes = incomes.filter(
+    (income) => income.type === "SOCIAL_SECURITY" && income.memberId
+  );
+  const survivorBenefits = socialSecurityIncomes
+    .filter((income) => !isAlive(income.memberId))
+    .map((income) => {
+      const pia = normalizeToMonthly(income.amount, income.frequency);
+      const own = getOwnBenefit(income, memberById.get(income.memberId!)!);
+      return Math.max(own.monthly, pia * SURVIVOR_BENEFIT_FLOOR);
+    });
+
+  let socialSecurity = 0;
+  for (const income of socialSecurityIncomes) {
+    if (!isAlive(income.memberId) || !isDateInPeriod(date, income.startDate, income.endDate)) {
+      continue;
+    }
+    const own = getOwnBenefit(income, memberById.get(income.memberId!)!);
+    if (monthKey < own.claimMonth) {
+      continue;
+    }
+    const benefit = Math.max(own.monthly, ...survivorBenefits);
+    socialSecurity += applyGrowth(benefit, "TRACK_INFLATION", undefined, inflationIndex, date);
+  }
+
+  let pension = 0;
+  for (const income of incomes) {
+    if (income.type !== "PENSION" || !isDateInPeriod(date, income.startDate, income.endDate)) {
+      continue;
+    }
+
+    let share = 1;
+    if (!isAlive(income.memberId)) {
+      const hasSurvivor = members.some(
+        (m) => m.id !== income.memberId && isMemberAlive(m, monthKey)
+      );
+      share = hasSurvivor ? (income.pension?.survivorPct ?? 0) / 100 : 0;
+    }
+
+    pension +=
+      share *
+      applyGrowth(
+        normalizeToMonthly(income.amount, income.frequency),
+        income.growthRule,
+        income.growthPct !== undefined ? income.growthPct / 100 : undefined,
+        inflationIndex,
+        date
+      );
+  }
+
+  return {
+    socialSecurity: round(socialSecurity, 2),
+    pension: round(pension, 2),
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Cash (checking) bucket tracking.
+ * Monthly surplus lands here, deficits draw it down, and anything above the
+ * target balance is swept into investment accounts by the overflow rules.
+ */
+import type { CashAccountDTO } from "../types";
+import { round } from "./math";
+import type { AccountState } from "./accounts";
+
+/**
+ * Represents the current state of the cash bucket.
+ */
+export interface CashState {
+  balance: number;
+  swept: number; // Amount swept to accounts this period
+}
+
+/**
+ * Initialize the cash bucket from its definition.
+ *
+ * @param cash - Cash account definition (optional)
+ * @returns Initialized cash state
+ */
+export function initializeCashState(cash: CashAccountDTO | undefined): CashState {
+  return {
+    balance: round(cash?.initialBalance ?? 0, 2),
+    swept: 0,
+  };
+}
+
+/**
+ * Apply a month's net cash movement to the bucket.
+ * Modifies cash state in place.
+ *
+ * @param cash - Cash state to update
+ * @param amount - Net inflow (positive) or outflow (negative)
+ */
+export function applyCashflow(cash: CashState, amount: number): void {
+  cash.balance = round(cash.balance + amount, 2);
+}
+
+/**
+ * Sweep cash above the target balance into investment accounts.
+ * Rules are applied in order, each taking its share of the excess
+ * (capped by maxMonthly). Modifies cash and account states in place.
+ *
+ * @param cash - Cash state to update
+ * @param accounts - Account states receiving the sweep
+ * @param config - Cash account definition with target and overflow rules
+ */
+export function sweepExcessCash(
+  cash: CashState,
+  accounts: AccountState[],
+  config: CashAccountDTO | undefined
+): void {
+  cash.swept = 0;
+
+  if (!config || config.targetBalance === undefined) {
+    return;
+  }
+
+  const excess = round(cash.balance - config.targetBalance, 2);
+  if (excess <= 0) {
+    return;
+  }
+
+  let remaining = excess;
+
+  for (const rule of config.overflowRules) {
+    if (remaining <= 0) {
+      break;
+    }
+
+    const account = accounts.find((a) => a.accountId === rule.accountId);
+    if (!account) {
+      continue;
+    }
+
+    let amount = round((excess * rule.sharePct) / 100, 2);
+    if (rule.maxMonthly !== undefined) {
+      amount = Math.min(amount, rule.maxMonthly);
+    }
+    amount = Math.min(amount, remaining);
+
+    if (amount <= 0) {
+      continue;
+    }
+
+    account.balance = round(account.balance + amount, 2);
+    account.costBasis = round(account.costBasis + amount, 2);
+    remaining = round(remaining - amount, 2);
+  }
+
+  cash.swept = round(excess - remaining, 2);
+  cash.balance = round(cash.balance - cash.swept, 2);
+}
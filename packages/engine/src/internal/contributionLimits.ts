@@ -0,0 +1,156 @@
+/**
+ * Annual IRS contribution limits and employer match tracking.
+ * Limits are shared per member across all accounts in the same plan type,
+ * indexed with the tax year's brackets, and reset each January.
+ */
+import type {
+  ContributionPlan,
+  FilingStatus,
+  InvestmentAccountDTO,
+  MemberDTO,
+} from "../types";
+import { round } from "./math";
+import { CONTRIBUTION_LIMITS_2024 } from "./taxes";
+
+/**
+ * Year-to-date contribution totals for a single calendar year.
+ */
+export interface ContributionLimitState {
+  year: number;
+  indexFactor: number; // Same multiplier used for the year's tax brackets
+  contributed: Record<string, number>; // Employee contributions by member and plan
+  matched: Record<number, number>; // Employer match by contribution rule index
+  capped: Set<string>; // Member/plan keys that hit their limit this year
+  warned: Set<string>; // Capped keys already reported this year
+}
+
+/**
+ * Start a new contribution year with empty accumulators.
+ *
+ * @param year - Calendar year
+ * @param indexFactor - Inflation multiplier for the year's limits
+ * @returns Fresh contribution limit state
+ */
+export function startContributionYear(year: number, indexFactor: number): ContributionLimitState {
+  return { year, indexFactor, contributed: {}, matched: {}, capped: new Set(), warned: new Set() };
+}
+
+/**
+ * Get a member's annual limit for a plan type in 2024 dollars.
+ * Catch-up amounts apply from age 50 (55 for HSAs); family HSA coverage
+ * is assumed for married couples filing jointly.
+ *
+ * @param plan - Plan type
+ * @param age - Age attained during the year (undefined if unknown)
+ * @param filingStatus - Household filing status
+ * @returns Base annual limit
+ */
+export function getBaseContributionLimit(
+  plan: ContributionPlan,
+  age: number | undefined,
+  filingStatus: FilingStatus
+): number {
+  const limits = CONTRIBUTION_LIMITS_2024;
+  switch (plan) {
+    case "401K":
+      return limits.traditional401k + (age !== undefined && age >= 50 ? limits.traditional401kCatchUp : 0);
+    case "IRA":
+      return limits.traditionalIRA + (age !== undefined && age >= 50 ? limits.traditionalIRACatchUp : 0);
+    case "HSA":
+      return (
+        (filingStatus === "MFJ" ? limits.hsa.family : limits.hsa.individual) +
+        (age !== undefined && age >= 55 ? limits.hsa.catchUp : 0)
+      );
+  }
+}
+
+/**
+ * Index a limit for inflation. The IRS adjusts limits in $500 steps,
+ * so the indexed amount is rounded down to the nearest step.
+ */
+function indexLimit(limit: number, indexFactor: number): number {
+  if (indexFactor === 1) {
+    return limit;
+  }
+  return Math.max(limit, Math.floor((limit * indexFactor) / 500) * 500);
+}
+
+/**
+ * Resolve the member an account's contributions count against.
+ */
+function getOwner(account: InvestmentAccountDTO, members: MemberDTO[]): MemberDTO | undefined {
+  return account.memberId ? members.find((m) => m.id === account.memberId) : members[0];
+}
+
+/**
+ * Cap an employee contribution at the remaining annual limit and record it.
+ * Accounts without a plan type are not limited. Modifies limit state in place.
+ *
+ * @param state - Current contribution year state
+ * @param account - Account receiving the contribution
+ * @param members - Household members with birth dates
+ * @param filingStatus - Household filing status
+ * @param amount - Requested contribution
+ * @returns Amount allowed under the limit
+ */
+export function applyContributionLimit(
+  state: ContributionLimitState,
+  account: InvestmentAccountDTO,
+  members: MemberDTO[],
+  filingStatus: FilingStatus,
+  amount: number
+): number {
+  if (!account.plan || amount <= 0) {
+    return amount;
+  }
+
+  const owner = getOwner(account, members);
+  const key = `${owner?.id ?? "household"}:${account.plan}`;
+  const age = owner?.birthDate
+    ? state.year - parseInt(owner.birthDate.slice(0, 4), 10)
+    : undefined;
+  const limit = indexLimit(
+    getBaseContributionLimit(account.plan, age, filingStatus),
+    state.indexFactor
+  );
+
+  const used = state.contributed[key] ?? 0;
+  const allowed = round(Math.max(0, Math.min(amount, limit - used)), 2);
+  if (allowed < amount) {
+    state.capped.add(key);
+  }
+  state.contributed[key] = round(used + allowed, 2);
+  return allowed;
+}
+
+/**
+ * Calculate the employer match on a contribution, capped at the rule's
+ * remaining annual match limit. Modifies limit state in place.
+ *
+ * @param state - Current contribution year state
+ * @param ruleIndex - Index of the contribution rule
+ * @param contribution - Employee contribution this month
+ * @param matchPct - Match as a percentage of the employee contribution
+ * @param limitAnnual - Maximum match per year (optional)
+ * @returns Employer match for this month
+ */
+export function applyEmployerMatch(
+  state: ContributionLimitState,
+  ruleIndex: number,
+  contribution: number,
+  matchPct: number | undefined,
+  limitAnnual: number | undefined
+): number {
+  if (!matchPct || contribution <= 0) {
+    return 0;
+  }
+
+  const used = state.matched[ruleIndex] ?? 0;
+  let match = contribution * (matchPct / 100);
+  if (limitAnnual !== undefined) {
+    match = Math.min(match, Math.max(0, limitAnnual - used));
+  }
+  match = round(match, 2);
+  state.matched[ruleIndex] = round(used + match, 2);
+  return match;
+}
@@ -0,0 +1,195 @@
+/**
+ * Scheduled one-off events.
+ * Windfalls, loan payoffs, account transfers, asset sales and income
+ * changes are applied in their month, and each is reported on the
+ * monthly breakdown with the money it moved.
+ */
+import type {
+  EventAnnotation,
+  FilingStatus,
+  IncomeDTO,
+  InvestmentAccountDTO,
+  RealAssetDTO,
+  ScenarioEventDTO,
+} from "../types";
+import { round } from "./math";
+import { addMonths, formatISO, parseISO, startOfMonth } from "./dates";
+import type { AccountState } from "./accounts";
+import { payOffLoan, type AmortizationRow } from "./loans";
+import { drawFromAccount, transferBetweenAccounts } from "./withdrawals";
+import { sellRealAsset, type RealAssetState } from "./realAssets";
+
+/**
+ * State an event can act on.
+ */
+export interface EventContext {
+  accounts: AccountState[];
+  accountDefs: InvestmentAccountDTO[];
+  loanSchedules: Map<string, AmortizationRow[]>;
+  realAssets: RealAssetState[];
+  realAssetDefs: RealAssetDTO[];
+  filingStatus: FilingStatus;
+}
+
+/**
+ * Combined effect of a month's events.
+ */
+export interface EventMonthResult {
+  cashflow: number; // Net cash in (positive) or out (negative)
+  traditional: number; // TRADITIONAL draws and conversions, taxed as ordinary income
+  capitalGains: number; // Taxable gains on asset sales and TAXABLE account draws
+  applied: EventAnnotation[];
+}
+
+/**
+ * Apply INCOME_CHANGE events to income periods. A stopped income is last
+ * paid the month before the event; a started income is first paid in the
+ * event month.
+ *
+ * @param incomes - Income definitions
+ * @param events - Scheduled events
+ * @returns Incomes with adjusted start and end dates
+ */
+export function applyIncomeEvents(
+  incomes: IncomeDTO[],
+  events: ScenarioEventDTO[]
+): IncomeDTO[] {
+  return incomes.map((income) => {
+    let adjusted = income;
+    for (const event of events) {
+      if (event.type !== "INCOME_CHANGE" || event.incomeId !== income.id) {
+        continue;
+      }
+      if (event.action === "STOP") {
+        const endDate = formatISO(addMonths(startOfMonth(parseISO(event.date)), -1));
+        adjusted = { ...adjusted, endDate };
+      } else {
+        adjusted = { ...adjusted, startDate: event.date };
+      }
+    }
+    return adjusted;
+  });
+}
+
+/**
+ * Deposit into an account as new money (added to cost basis).
+ */
+function depositToAccount(account: AccountState, amount: number): void {
+  account.balance = round(account.balance + amount, 2);
+  account.costBasis = round(account.costBasis + amount, 2);
+}
+
+/**
+ * Apply this month's scheduled events. Loan payoffs draw from the chosen
+ * account, with any shortfall paid from cash; asset sales repay the linked
+ * loan out of the proceeds. Modifies account, loan and real asset state
+ * in place.
+ *
+ * @param events - Scheduled events
+ * @param date - Current month (YYYY-MM-DD)
+ * @param context - Accounts, loans and real assets the events act on
+ * @returns Cash, taxable income and annotations for the month
+ */
+export function applyScheduledEvents(
+  events: ScenarioEventDTO[],
+  date: string,
+  context: EventContext
+): EventMonthResult {
+  const monthKey = date.slice(0, 7);
+  const typeById = new Map(context.accountDefs.map((a) => [a.id, a.type]));
+  const findAccount = (id: string | undefined) =>
+    context.accounts.find((a) => a.accountId === id);
+
+  let cashflow = 0;
+  let traditional = 0;
+  let capitalGains = 0;
+  const applied: EventAnnotation[] = [];
+
+  for (const event of events) {
+    if (event.date.slice(0, 7) !== monthKey) {
+      continue;
+    }
+
+    let amount = 0;
+
+    switch (event.type) {
+      case "LUMP_SUM":
+        amount = event.amount;
+        cashflow += amount;
+        break;
+
+      case "LOAN_PAYOFF": {
+        const schedule = context.loanSchedules.get(event.loanId);
+        amount = schedule ? payOffLoan(schedule, date) : 0;
+        const account = findAccount(event.fromAccountId);
+        const type = account ? typeById.get(account.accountId)! : undefined;
+        const draw = account && type ? drawFromAccount(account, amount, type) : null;
+        const drawn = draw?.drawn ?? 0;
+        if (type === "TRADITIONAL") {
+          traditional += drawn;
+        }
+        capitalGains += draw?.realizedGain ?? 0;
+        cashflow -= amount - drawn;
+        break;
+      }
+
+      case "ACCOUNT_TRANSFER": {
+        const from = findAccount(event.fromAccountId);
+        const to = findAccount(event.toAccountId);
+        if (!from || !to) {
+          break;
+        }
+        const fromType = typeById.get(from.accountId)!;
+        if (fromType === typeById.get(to.accountId)) {
+          // Rollovers and in-kind transfers are not withdrawals
+          amount = transferBetweenAccounts(from, to, event.amount);
+          break;
+        }
+        const draw = drawFromAccount(from, event.amount, fromType);
+        amount = draw.drawn;
+        capitalGains += draw.realizedGain;
+        depositToAccount(to, amount);
+        if (fromType === "TRADITIONAL") {
+          traditional += amount;
+        }
+        break;
+      }
+
+      case "ASSET_SALE": {
+        const state = context.realAssets.find((a) => a.assetId === event.assetId);
+        const asset = context.realAssetDefs.find((a) => a.id === event.assetId);
+        if (!state || !asset) {
+          break;
+        }
+        const sale = sellRealAsset(state, asset, event.sellingCostPct ?? 0, context.filingStatus);
+        const schedule = asset.linkedLoanId
+          ? context.loanSchedules.get(asset.linkedLoanId)
+          : undefined;
+        const loanRepaid = schedule && sale.proceeds > 0 ? payOffLoan(schedule, date) : 0;
+        amount = round(sale.proceeds - loanRepaid, 2);
+        capitalGains += sale.taxableGain;
+
+        const deposit = findAccount(event.depositAccountId);
+        if (deposit && amount > 0) {
+          depositToAccount(deposit, amount);
+        } else {
+          cashflow += amount;
+        }
+        break;
+      }
+
+      case "INCOME_CHANGE":
+        // Applied to income periods up front by applyIncomeEvents
+        break;
+    }
+
+    applied.push({ id: event.id, name: event.name, type: event.type, amount: round(amount, 2) });
+  }
+
+  return {
+    cashflow: round(cashflow, 2),
+    traditional: round(traditional, 2),
+    capitalGains: round(capitalGains, 2),
+    applied,
+  };
+}
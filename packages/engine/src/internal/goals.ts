@@ -0,0 +1,92 @@
+/**
+ * Goal funding from linked accounts.
+ * A goal with linked accounts is funded by its earmarked share of those
+ * balances and is paid out of them at its target date.
+ */
+import type { GoalDTO, InvestmentAccountDTO } from "../types";
+import { round } from "./math";
+import type { AccountState } from "./accounts";
+import { drawFromAccount, type WithdrawalResult } from "./withdrawals";
+
+/**
+ * Check whether a goal is funded by specific accounts.
+ */
+export function isLinkedGoal(goal: GoalDTO): boolean {
+  return (goal.linkedAccountIds ?? []).length > 0;
+}
+
+/**
+ * Check whether a projection met a goal: linked goals must be fully paid at
+ * their target date, others need final net worth of at least the target.
+ *
+ * @param goal - Goal to check
+ * @param goalShortfalls - Unpaid amount of each linked goal at its target date
+ * @param finalNetWorth - Net worth in the last projected month
+ */
+export function isGoalMet(
+  goal: GoalDTO,
+  goalShortfalls: Record<string, number>,
+  finalNetWorth: number
+): boolean {
+  return isLinkedGoal(goal)
+    ? (goalShortfalls[goal.id] ?? 0) <= 0
+    : finalNetWorth >= goal.targetAmountReal;
+}
+
+/**
+ * Get the earmarked balance of a goal's linked accounts.
+ *
+ * @param goal - Goal with linked accounts
+ * @param accounts - Current account states
+ * @returns Linked balances times the earmark share
+ */
+export function getEarmarkedBalance(goal: GoalDTO, accounts: AccountState[]): number {
+  const linked = goal.linkedAccountIds ?? [];
+  const balance = accounts
+    .filter((a) => linked.includes(a.accountId))
+    .reduce((sum, a) => sum + Math.max(0, a.balance), 0);
+  return round((balance * (goal.earmarkPct ?? 100)) / 100, 2);
+}
+
+/**
+ * Pay a goal out of its linked accounts, pro-rata to their balances and
+ * capped at the earmarked balance. Modifies account states in place.
+ *
+ * @param goal - Goal with linked accounts
+ * @param accounts - Account states to draw from
+ * @param accountDefs - Account definitions (for account types)
+ * @param amount - Amount the goal needs
+ * @returns Total paid, the traditional (ordinary income) portion and gains
+ *   realized on TAXABLE sales
+ */
+export function withdrawForGoal(
+  goal: GoalDTO,
+  accounts: AccountState[],
+  accountDefs: InvestmentAccountDTO[],
+  amount: number
+): WithdrawalResult {
+  const linked = accounts.filter((a) => (goal.linkedAccountIds ?? []).includes(a.accountId));
+  const available = linked.reduce((sum, a) => sum + Math.max(0, a.balance), 0);
+  const target = Math.min(amount, getEarmarkedBalance(goal, accounts));
+  if (target <= 0 || available <= 0) {
+    return { total: 0, traditional: 0, realizedGains: 0 };
+  }
+
+  const typeById = new Map(accountDefs.map((a) => [a.id, a.type]));
+  let total = 0;
+  let traditional = 0;
+  let realizedGains = 0;
+
+  for (const account of linked) {
+    const type = typeById.get(account.accountId)!;
+    const share = round((target * Math.max(0, account.balance)) / available, 2);
+    const { drawn, realizedGain } = drawFromAccount(account, Math.min(share, round(target - total, 2)), type);
+    total = round(total + drawn, 2);
+    realizedGains = round(realizedGains + realizedGain, 2);
+    if (type === "TRADITIONAL") {
+      traditional = round(traditional + drawn, 2);
+    }
+  }
+
+  return { total, traditional, realizedGains };
+}
@@ -1,8 +1,10 @@
 /**
  * Loan amortization calculations.
+ * Fixed and adjustable rates, interest-only periods, HELOC draw and
+ * repayment periods, and extra payments by date range.
  */
-import type { LoanDTO } from "../types";
-import { parseISO, addMonths, formatISO, isBefore, isAfter, getMonthKey, startOfMonth } from "./dates";
+import type { AdjustableRateDTO, HelocDTO, LoanDTO, RatePathPointDTO } from "../types";
+import { parseISO, addMonths, isBefore, isAfter, getMonthKey, startOfMonth } from "./dates";
 import { round, calculatePMT, annualToMonthlyRate } from "./math";
 
 /**
@@ -14,6 +16,8 @@ export interface AmortizationRow {
   principal: number;
   interest: number;
   balance: number;
+  draw: number; // HELOC draw added to the balance this month
+  ratePct: number; // Annual rate in effect this month
 }
 
 /**
@@ -32,9 +36,103 @@ export function calculateMonthlyPayment(
   return calculatePMT(principal, annualRate, termMonths);
 }
 
+/**
+ * Months from loan start during which only interest is due. HELOC draw
+ * periods are always interest-only.
+ */
+function getInterestOnlyMonths(loan: LoanDTO): number {
+  return Math.max(loan.interestOnlyMonths ?? 0, loan.heloc?.drawPeriodMonths ?? 0);
+}
+
+/**
+ * Get the index rate in effect for a month from a rate path.
+ *
+ * @returns Latest index rate on or before the month, or undefined if the path starts later
+ */
+function getIndexRate(path: RatePathPointDTO[], monthKey: string): number | undefined {
+  let latest: RatePathPointDTO | undefined;
+  for (const point of path) {
+    const pointKey = point.date.slice(0, 7);
+    if (pointKey <= monthKey && (!latest || pointKey >= latest.date.slice(0, 7))) {
+      latest = point;
+    }
+  }
+  return latest?.ratePct;
+}
+
+/**
+ * Get an adjustable loan's rate for a month. The rate resets to index plus
+ * margin at the end of the fixed period and every interval after, limited
+ * by the periodic and lifetime caps and the floor.
+ *
+ * @param arm - Rate adjustment terms
+ * @param initialRatePct - Rate during the fixed period
+ * @param currentRatePct - Rate in effect last month
+ * @param monthIndex - Months since loan start
+ * @param monthKey - Current month (YYYY-MM)
+ * @returns Annual rate in effect this month (percent)
+ */
+export function getAdjustedRate(
+  arm: AdjustableRateDTO,
+  initialRatePct: number,
+  currentRatePct: number,
+  monthIndex: number,
+  monthKey: string
+): number {
+  const sinceFirstReset = monthIndex - arm.initialFixedMonths;
+  if (sinceFirstReset < 0 || sinceFirstReset % Math.max(1, arm.adjustmentIntervalMonths) !== 0) {
+    return currentRatePct;
+  }
+
+  const indexRate = getIndexRate(arm.indexPath, monthKey) ?? initialRatePct - arm.marginPct;
+  let rate = indexRate + arm.marginPct;
+
+  const cap = sinceFirstReset === 0 ? (arm.initialCapPct ?? arm.periodicCapPct) : arm.periodicCapPct;
+  if (cap !== undefined) {
+    rate = Math.min(Math.max(rate, currentRatePct - cap), currentRatePct + cap);
+  }
+  if (arm.lifetimeCapPct !== undefined) {
+    rate = Math.min(rate, initialRatePct + arm.lifetimeCapPct);
+  }
+  rate = Math.max(rate, arm.floorPct ?? arm.marginPct);
+
+  return round(rate, 3);
+}
+
+/**
+ * Get the extra principal scheduled for a month.
+ */
+function getExtraPayment(loan: LoanDTO, monthKey: string): number {
+  let extra = loan.extraPaymentMonthly ?? 0;
+  for (const scheduled of loan.extraPayments ?? []) {
+    if (
+      scheduled.startDate.slice(0, 7) <= monthKey &&
+      (!scheduled.endDate || scheduled.endDate.slice(0, 7) >= monthKey)
+    ) {
+      extra += scheduled.amountMonthly;
+    }
+  }
+  return extra;
+}
+
+/**
+ * Get a HELOC's draws for a month, capped at the unused credit limit.
+ */
+function getHelocDraw(heloc: HelocDTO, monthKey: string, balance: number): number {
+  const requested = (heloc.draws ?? [])
+    .filter((draw) => draw.date.slice(0, 7) === monthKey)
+    .reduce((sum, draw) => sum + draw.amount, 0);
+  return round(Math.max(0, Math.min(requested, heloc.creditLimit - balance)), 2);
+}
+
 /**
  * Generate a full amortization schedule for a loan.
  *
+ * Interest-only months (including a HELOC's draw period) pay just the
+ * interest plus any extra. Afterwards the payment amortizes the balance
+ * over the rest of the term, and is recast whenever an adjustable rate
+ * resets. A payment override replaces the first amortizing payment.
+ *
  * @param loan - Loan definition
  * @param startDate - Projection start date (may be after loan start)
  * @param endDate - Projection end date
@@ -47,36 +145,47 @@ export function generateAmortizationSchedule(
 ): AmortizationRow[] {
   const schedule: AmortizationRow[] = [];
 
-  const loanStart = parseISO(loan.startDate);
   const projStart = parseISO(startDate);
   const projEnd = parseISO(endDate);
+  const interestOnlyMonths = getInterestOnlyMonths(loan);
 
-  const annualRate = loan.aprPct / 100;
-  const monthlyRate = annualToMonthlyRate(annualRate);
+  let ratePct = loan.aprPct;
+  let balance = loan.principal;
+  let standardPayment =
+    interestOnlyMonths === 0 && loan.paymentOverrideMonthly
+      ? loan.paymentOverrideMonthly
+      : calculateMonthlyPayment(loan.principal, ratePct / 100, loan.termMonths);
 
-  // Calculate standard monthly payment
-  const standardPayment = loan.paymentOverrideMonthly
-    ? loan.paymentOverrideMonthly
-    : calculateMonthlyPayment(loan.principal, annualRate, loan.termMonths);
+  // Walk from loan start, recording rows once the projection begins
+  let currentDate = startOfMonth(parseISO(loan.startDate));
+  for (let monthIndex = 0; !isAfter(currentDate, projEnd); monthIndex++) {
+    const monthKey = getMonthKey(currentDate);
+    const inDrawPeriod = !!loan.heloc && monthIndex < loan.heloc.drawPeriodMonths;
+    if (balance <= 0 && !inDrawPeriod) {
+      break;
+    }
 
-  const extraPayment = loan.extraPaymentMonthly ?? 0;
-  const totalPayment = standardPayment + extraPayment;
+    const draw = inDrawPeriod ? getHelocDraw(loan.heloc!, monthKey, balance) : 0;
+    balance = round(balance + draw, 2);
 
-  // Track balance - start with principal
-  let balance = loan.principal;
-  let currentDate = startOfMonth(loanStart);
+    const previousRatePct = ratePct;
+    if (loan.adjustableRate) {
+      ratePct = getAdjustedRate(loan.adjustableRate, loan.aprPct, ratePct, monthIndex, monthKey);
+    }
 
-  // Fast-forward to projection start, calculating balance along the way
-  while (isBefore(currentDate, projStart) && balance > 0) {
-    const interestCharge = round(balance * monthlyRate, 2);
-    const principalPayment = round(Math.min(totalPayment - interestCharge, balance), 2);
-    balance = round(Math.max(0, balance - principalPayment), 2);
-    currentDate = addMonths(currentDate, 1);
-  }
+    // Recast when amortization begins after an interest-only period, and on rate resets
+    const remainingMonths = Math.max(1, loan.termMonths - monthIndex);
+    if (monthIndex === interestOnlyMonths && monthIndex > 0) {
+      standardPayment =
+        loan.paymentOverrideMonthly ??
+        calculateMonthlyPayment(balance, ratePct / 100, remainingMonths);
+    } else if (ratePct !== previousRatePct && monthIndex > interestOnlyMonths) {
+      standardPayment = calculateMonthlyPayment(balance, ratePct / 100, remainingMonths);
+    }
 
-  // Generate schedule for projection period
-  while (!isAfter(currentDate, projEnd) && balance > 0) {
-    const interestCharge = round(balance * monthlyRate, 2);
+    const interestCharge = round(balance * annualToMonthlyRate(ratePct / 100), 2);
+    const duePayment = monthIndex < interestOnlyMonths ? interestCharge : standardPayment;
+    const totalPayment = duePayment + getExtraPayment(loan, monthKey);
 
     // Calculate principal portion
     let principalPayment: number;
@@ -97,13 +206,17 @@ export function generateAmortizationSchedule(
     // Update balance
     balance = round(Math.max(0, balance - principalPayment), 2);
 
-    schedule.push({
-      month: getMonthKey(currentDate),
-      payment: actualPayment,
-      principal: principalPayment,
-      interest: interestCharge,
-      balance: balance,
-    });
+    if (!isBefore(currentDate, projStart)) {
+      schedule.push({
+        month: monthKey,
+        payment: actualPayment,
+        principal: principalPayment,
+        interest: interestCharge,
+        balance: balance,
+        draw,
+        ratePct,
+      });
+    }
 
     currentDate = addMonths(currentDate, 1);
   }
@@ -159,6 +272,34 @@ export function getLoanBalanceAtDate(schedule: AmortizationRow[], date: string):
   return 0;
 }
 
+/**
+ * Pay off a loan in the given month. The balance outstanding before that
+ * month's payment is repaid and no further payments or draws are due.
+ * Modifies the schedule in place.
+ *
+ * @param schedule - Amortization schedule
+ * @param date - Payoff month (ISO format)
+ * @returns Amount repaid, or 0 if nothing is owed that month
+ */
+export function payOffLoan(schedule: AmortizationRow[], date: string): number {
+  const monthKey = getMonthKey(parseISO(date));
+  const index = schedule.findIndex((r) => r.month === monthKey);
+  if (index < 0) {
+    return 0;
+  }
+
+  const current = schedule[index];
+  const payoff = round(current.balance + current.principal - current.draw, 2);
+  for (const row of schedule.slice(index)) {
+    row.payment = 0;
+    row.principal = 0;
+    row.interest = 0;
+    row.balance = 0;
+    row.draw = 0;
+  }
+  return payoff;
+}
+
 /**
  * Calculate total interest paid over the life of a loan.
  *
@@ -3,11 +3,19 @@
  * Runs multiple projections with randomized investment returns
  * to produce probabilistic outcome distributions.
  */
-import type { ScenarioInputDTO } from "../types";
+import type { DollarBasis, MemberDTO, ScenarioInputDTO } from "../types";
 import { prepareInput } from "./normalize";
 import { runProjection } from "./projection";
+import { isGoalMet } from "./goals";
 import { createRNG, normalRandom } from "./random";
 import { round } from "./math";
+import { buildInflationIndex, nominalToReal } from "./growth";
+import { getHouseholdEndMonth, sampleLifetimes } from "./mortality";
+import {
+  validateReturnModel,
+  generateReturnPaths,
+  type ReturnModelConfig,
+} from "./returnModel";
 
 /** Configuration for Monte Carlo simulation */
 export interface MonteCarloConfig {
@@ -17,6 +25,21 @@ export interface MonteCarloConfig {
   volatilityPct: number;
   /** Random seed for reproducibility (default 42) */
   seed?: number;
+  /**
+   * Multi-asset return model drawing a fresh return path each year or month.
+   * When omitted, each account draws one return held for the whole horizon.
+   */
+  returnModel?: ReturnModelConfig;
+  /**
+   * Sample each member's lifetime from the life table instead of using their
+   * life expectancy. Members with an explicit life expectancy keep it.
+   */
+  sampleLongevity?: boolean;
+  /**
+   * State bands and final net worths in nominal or today's dollars (default
+   * NOMINAL). Each run is deflated by its own sampled inflation path.
+   */
+  dollars?: DollarBasis;
 }
 
 /** Percentile bands for a single time point */
@@ -33,12 +56,17 @@ export interface PercentileBands {
 export interface MonteCarloResultDTO {
   /** Net worth percentile bands over time */
   bands: PercentileBands[];
-  /** Percentage of simulations where final net worth > 0 */
+  /**
+   * Percentage of simulations where final net worth > 0. With sampled
+   * longevity, net worth is checked when the last member's plan ends.
+   */
   successRate: number;
   /** Percentage of simulations meeting each goal */
   goalSuccessRates: Record<string, number>;
   /** Number of simulations actually run */
   simulations: number;
+  /** Dollars the bands and final net worths are stated in */
+  dollars: DollarBasis;
   /** Median final net worth */
   medianFinalNetWorth: number;
   /** 10th percentile final net worth (worst-case) */
@@ -55,6 +83,13 @@ export interface MonteCarloResultDTO {
  * specified volatility as standard deviation. Then runs the full projection
  * and collects net worth at each month.
  *
+ * With a returnModel, each simulation instead samples correlated asset-class
+ * returns per period (and optionally inflation), so results reflect
+ * sequence-of-returns risk.
+ *
+ * With sampleLongevity, each simulation also draws member lifetimes from the
+ * life table, so success reflects the chance of outliving the money.
+ *
  * @param input - Scenario input (will be normalized internally)
  * @param config - Monte Carlo configuration
  * @returns Percentile bands, success rates, and summary statistics
@@ -66,18 +101,34 @@ export function runMonteCarlo(
   const simCount = Math.min(Math.max(config.simulations || 500, 50), 2000);
   const volatility = Math.min(Math.max(config.volatilityPct || 15, 1), 50);
   const seed = config.seed ?? 42;
+  const dollars = config.dollars ?? "NOMINAL";
   const rng = createRNG(seed);
 
   const normalizedInput = prepareInput(input);
+  const baseInflationIndex = buildInflationIndex(
+    normalizedInput.household.startDate,
+    normalizedInput.household.endDate,
+    normalizedInput.assumptions.inflationRatePct / 100
+  );
 
   // Run one baseline projection to get month count and dates
   const { months: baseMonths } = runProjection(normalizedInput);
   const monthCount = baseMonths.length;
   const dates = baseMonths.map((m) => m.date);
+  const monthKeys = dates.map((d) => d.slice(0, 7));
+
+  const returnModel = config.returnModel;
+  if (returnModel) {
+    validateReturnModel(
+      returnModel,
+      normalizedInput.accounts.map((a) => a.id)
+    );
+  }
 
   // Storage for net worth values: [monthIndex][simIndex]
   const allNetWorths: number[][] = Array.from({ length: monthCount }, () => []);
   const allFinalNetWorths: number[] = [];
+  const planEndNetWorths: number[] = [];
 
   // Goal success tracking
   const goalSuccessCounts: Record<string, number> = {};
@@ -85,51 +136,81 @@ export function runMonteCarlo(
     goalSuccessCounts[goal.id] = 0;
   }
 
+  // Normalization fills in period-table lifetimes; clear those so they are
+  // sampled, keeping only lifetimes the input set explicitly
+  const samplableMembers: MemberDTO[] = (normalizedInput.members ?? []).map((member, i) =>
+    input.members?.[i]?.lifeExpectancy === undefined ? { ...member, lifeExpectancy: undefined } : member
+  );
+
   for (let sim = 0; sim < simCount; sim++) {
-    // Clone input with randomized account returns
-    const simInput: ScenarioInputDTO = {
-      ...normalizedInput,
-      accounts: normalizedInput.accounts.map((account) => {
-        const randomReturn = normalRandom(account.expectedReturnPct, volatility, rng);
-        return {
-          ...account,
-          expectedReturnPct: randomReturn,
-        };
-      }),
-    };
+    // Sample this simulation's lifetimes
+    const members: MemberDTO[] = config.sampleLongevity
+      ? sampleLifetimes(samplableMembers, normalizedInput.household.startDate, rng)
+      : normalizedInput.members ?? [];
+    const baseInput: ScenarioInputDTO = config.sampleLongevity
+      ? { ...normalizedInput, members }
+      : normalizedInput;
+
+    let projection: ReturnType<typeof runProjection>;
+    let inflationIndex = baseInflationIndex;
+    if (returnModel) {
+      // Sample this simulation's return and inflation paths
+      const paths = generateReturnPaths(
+        returnModel,
+        normalizedInput.accounts,
+        monthKeys,
+        normalizedInput.assumptions.inflationRatePct,
+        rng
+      );
+      projection = runProjection(baseInput, paths);
+      inflationIndex = paths.inflationIndex ?? baseInflationIndex;
+    } else {
+      // Clone input with randomized account returns
+      const simInput: ScenarioInputDTO = {
+        ...baseInput,
+        accounts: baseInput.accounts.map((account) => {
+          const randomReturn = normalRandom(account.expectedReturnPct, volatility, rng);
+          return {
+            ...account,
+            expectedReturnPct: randomReturn,
+          };
+        }),
+      };
+      projection = runProjection(simInput);
+    }
+    const { months, goalShortfalls } = projection;
 
-    const { months } = runProjection(simInput);
+    const reportNetWorth = (m: number) =>
+      dollars === "REAL"
+        ? nominalToReal(months[m].netWorth, inflationIndex, months[m].date)
+        : months[m].netWorth;
 
     for (let m = 0; m < months.length; m++) {
-      allNetWorths[m].push(months[m].netWorth);
+      allNetWorths[m].push(reportNetWorth(m));
     }
 
+    // Success and goals are judged in nominal dollars; deflation keeps the sign
     const finalNW = months[months.length - 1].netWorth;
-    allFinalNetWorths.push(finalNW);
+    allFinalNetWorths.push(reportNetWorth(months.length - 1));
+    planEndNetWorths.push(
+      config.sampleLongevity
+        ? months[getPlanEndIndex(monthKeys, members)].netWorth
+        : finalNW
+    );
 
-    // Check each goal
+    // Check each goal: linked goals must be fully paid at their target date
     for (const goal of normalizedInput.goals) {
-      if (finalNW >= goal.targetAmountReal) {
+      if (isGoalMet(goal, goalShortfalls, finalNW)) {
         goalSuccessCounts[goal.id]++;
       }
     }
   }
 
   // Compute percentile bands for each month
-  const bands: PercentileBands[] = dates.map((t, i) => {
-    const sorted = [...allNetWorths[i]].sort((a, b) => a - b);
-    return {
-      t,
-      p10: percentile(sorted, 0.1),
-      p25: percentile(sorted, 0.25),
-      p50: percentile(sorted, 0.5),
-      p75: percentile(sorted, 0.75),
-      p90: percentile(sorted, 0.9),
-    };
-  });
+  const bands = buildPercentileBands(dates, allNetWorths);
 
   const sortedFinal = [...allFinalNetWorths].sort((a, b) => a - b);
-  const successCount = allFinalNetWorths.filter((nw) => nw > 0).length;
+  const successCount = planEndNetWorths.filter((nw) => nw > 0).length;
 
   const goalSuccessRates: Record<string, number> = {};
   for (const goal of normalizedInput.goals) {
@@ -141,16 +222,54 @@ export function runMonteCarlo(
     successRate: round((successCount / simCount) * 100, 1),
     goalSuccessRates,
     simulations: simCount,
+    dollars,
     medianFinalNetWorth: percentile(sortedFinal, 0.5),
     p10FinalNetWorth: percentile(sortedFinal, 0.1),
     p90FinalNetWorth: percentile(sortedFinal, 0.9),
   };
 }
 
+/**
+ * Get the index of the last month any member is projected, or of the final
+ * month if the household outlives the projection.
+ */
+function getPlanEndIndex(monthKeys: string[], members: MemberDTO[]): number {
+  const endMonth = getHouseholdEndMonth(members);
+  if (!endMonth) {
+    return monthKeys.length - 1;
+  }
+  const index = monthKeys.findIndex((monthKey) => monthKey > endMonth);
+  return index === -1 ? monthKeys.length - 1 : Math.max(0, index - 1);
+}
+
+/**
+ * Compute percentile bands for each month across simulation runs.
+ *
+ * @param dates - Month dates
+ * @param valuesByMonth - Values per month: [monthIndex][runIndex]
+ * @returns One band per month
+ */
+export function buildPercentileBands(
+  dates: string[],
+  valuesByMonth: number[][]
+): PercentileBands[] {
+  return dates.map((t, i) => {
+    const sorted = [...valuesByMonth[i]].sort((a, b) => a - b);
+    return {
+      t,
+      p10: percentile(sorted, 0.1),
+      p25: percentile(sorted, 0.25),
+      p50: percentile(sorted, 0.5),
+      p75: percentile(sorted, 0.75),
+      p90: percentile(sorted, 0.9),
+    };
+  });
+}
+
 /**
  * Compute percentile from a sorted array using linear interpolation.
  */
-function percentile(sorted: number[], p: number): number {
+export function percentile(sorted: number[], p: number): number {
   if (sorted.length === 0) return 0;
   const idx = p * (sorted.length - 1);
   const lower = Math.floor(idx);
@@ -0,0 +1,315 @@
+/**
+ * Member lifetimes and survivor transitions.
+ * Each member is projected through an explicit life expectancy or one
+ * read from an SSA period life table. At a member's death their earned
+ * income and contributions stop, their accounts pass to the survivor and
+ * a joint return becomes a single one after the allowed years.
+ */
+import type {
+  ContributionRuleDTO,
+  FilingStatus,
+  IncomeDTO,
+  InvestmentAccountDTO,
+  MemberDTO,
+  Sex,
+  TaxProfileDTO,
+} from "../types";
+import { round } from "./math";
+import { addMonths, diffMonths, getMonthKey, parseISO } from "./dates";
+
+/**
+ * Oldest age in the life table; nobody is projected past it.
+ */
+export const MAX_AGE = 119;
+
+/**
+ * Ages at which the life table lists death probabilities.
+ */
+const LIFE_TABLE_AGES = [
+  0, 5, 10, 15, 20, 25, 30, 35, 40, 45, 50, 55, 60, 65, 70, 75, 80, 85, 90, 95, 100, 105,
+  110, 115,
+];
+
+/**
+ * Probability of dying within a year at each table age, from the SSA
+ * period life table. Ages in between are interpolated geometrically.
+ */
+const DEATH_PROBABILITIES: Record<Sex, number[]> = {
+  MALE: [
+    0.00597, 0.00013, 0.0001, 0.00047, 0.00134, 0.00164, 0.00186, 0.00217, 0.00262, 0.00349,
+    0.00519, 0.00796, 0.01156, 0.01604, 0.02345, 0.03628, 0.05803, 0.09836, 0.16254, 0.25442,
+    0.35808, 0.4579, 0.56977, 0.7,
+  ],
+  FEMALE: [
+    0.00504, 0.0001, 0.00009, 0.00022, 0.00049, 0.00067, 0.00089, 0.00119, 0.00162, 0.00231,
+    0.00331, 0.00479, 0.00697, 0.01008, 0.0158, 0.02515, 0.04083, 0.07116, 0.12636, 0.21046,
+    0.31608, 0.4263, 0.5474, 0.68,
+  ],
+};
+
+/**
+ * Get the probability of dying within a year at an age.
+ *
+ * @param age - Age in whole years
+ * @param sex - Sex the table is read for
+ * @returns Annual death probability (1 from the table's last age)
+ */
+export function getDeathProbability(age: number, sex: Sex): number {
+  if (age >= MAX_AGE) {
+    return 1;
+  }
+
+  const table = DEATH_PROBABILITIES[sex];
+  const lastIndex = LIFE_TABLE_AGES.length - 1;
+  const index = Math.min(Math.floor(Math.max(0, age) / 5), lastIndex);
+  const lowerAge = LIFE_TABLE_AGES[index];
+  const lower = table[index];
+  const upperAge = index < lastIndex ? LIFE_TABLE_AGES[index + 1] : MAX_AGE;
+  const upper = index < lastIndex ? table[index + 1] : 1;
+
+  const weight = (Math.max(0, age) - lowerAge) / (upperAge - lowerAge);
+  return lower * Math.pow(upper / lower, weight);
+}
+
+/**
+ * Get the expected remaining years of life at an age.
+ *
+ * @param age - Current age in years
+ * @param sex - Sex the table is read for
+ * @returns Expected remaining years (deaths assumed mid-year)
+ */
+export function getLifeExpectancy(age: number, sex: Sex): number {
+  let survival = 1;
+  let years = 0;
+  for (let a = Math.floor(age); a < MAX_AGE; a++) {
+    survival *= 1 - getDeathProbability(a, sex);
+    years += survival;
+  }
+  return round(years + 0.5, 2);
+}
+
+/**
+ * Sample the age at which a member dies, given they are alive now.
+ *
+ * @param age - Current age in years
+ * @param sex - Sex the table is read for
+ * @param rng - Random number generator
+ * @returns Age at death in years
+ */
+export function sampleAgeAtDeath(age: number, sex: Sex, rng: () => number): number {
+  for (let a = Math.floor(age); a < MAX_AGE; a++) {
+    if (rng() < getDeathProbability(a, sex)) {
+      return round(Math.max(age, a + rng()), 2);
+    }
+  }
+  return MAX_AGE;
+}
+
+/**
+ * Get a member's age in years on a date.
+ */
+export function getAgeOnDate(member: MemberDTO, date: string): number {
+  return diffMonths(parseISO(member.birthDate!), parseISO(date)) / 12;
+}
+
+/**
+ * Fill in a member's life expectancy from the life table when it is not
+ * set explicitly. Members without a sex or birth date keep no set lifetime.
+ *
+ * @param member - Household member
+ * @param startDate - Projection start (YYYY-MM-DD)
+ * @returns Member with lifeExpectancy as an age
+ */
+export function resolveLifeExpectancy(member: MemberDTO, startDate: string): MemberDTO {
+  if (member.lifeExpectancy !== undefined || !member.birthDate || !member.sex) {
+    return member;
+  }
+  const age = getAgeOnDate(member, startDate);
+  return { ...member, lifeExpectancy: round(age + getLifeExpectancy(age, member.sex), 2) };
+}
+
+/**
+ * Get the last month a member is projected.
+ *
+ * @returns Month key (YYYY-MM), or undefined if the member has no set lifetime
+ */
+export function getMemberEndMonth(member: MemberDTO): string | undefined {
+  if (!member.birthDate || member.lifeExpectancy === undefined) {
+    return undefined;
+  }
+  return getMonthKey(addMonths(parseISO(member.birthDate), Math.round(member.lifeExpectancy * 12)));
+}
+
+/**
+ * Check whether a member is still projected in a month.
+ */
+export function isMemberAlive(member: MemberDTO, monthKey: string): boolean {
+  const endMonth = getMemberEndMonth(member);
+  return !endMonth || monthKey <= endMonth;
+}
+
+/**
+ * Get the last month anyone in the household is projected.
+ *
+ * @returns Month key (YYYY-MM), or undefined if any member has no set lifetime
+ */
+export function getHouseholdEndMonth(members: MemberDTO[]): string | undefined {
+  let last: string | undefined;
+  for (const member of members) {
+    const endMonth = getMemberEndMonth(member);
+    if (!endMonth) {
+      return undefined;
+    }
+    if (!last || endMonth > last) {
+      last = endMonth;
+    }
+  }
+  return last;
+}
+
+/**
+ * End each member's earned incomes in the month of their death. Social
+ * Security and pensions are left to pass to survivors.
+ *
+ * @param incomes - Income definitions
+ * @param members - Household members
+ * @returns Incomes with end dates capped at their member's last month
+ */
+export function endIncomesAtDeath(incomes: IncomeDTO[], members: MemberDTO[]): IncomeDTO[] {
+  return incomes.map((income) => {
+    const member = members.find((m) => m.id === income.memberId);
+    const endMonth = member ? getMemberEndMonth(member) : undefined;
+    if ((income.type ?? "EARNED") !== "EARNED" || !endMonth) {
+      return income;
+    }
+    const endDate = endMonth + "-01";
+    return !income.endDate || income.endDate > endDate ? { ...income, endDate } : income;
+  });
+}
+
+/**
+ * Get the member who owns an account: its member, or the first member.
+ */
+function getAccountOwner(
+  account: InvestmentAccountDTO,
+  members: MemberDTO[]
+): MemberDTO | undefined {
+  return account.memberId ? members.find((m) => m.id === account.memberId) : members[0];
+}
+
+/**
+ * End contributions into a member's accounts in the month of their death.
+ *
+ * @param contributions - Contribution rules
+ * @param accounts - Account definitions
+ * @param members - Household members
+ * @returns Contribution rules with end dates capped at the owner's last month
+ */
+export function endContributionsAtDeath(
+  contributions: ContributionRuleDTO[],
+  accounts: InvestmentAccountDTO[],
+  members: MemberDTO[]
+): ContributionRuleDTO[] {
+  return contributions.map((rule) => {
+    const account = accounts.find((a) => a.id === rule.accountId);
+    const owner = account ? getAccountOwner(account, members) : undefined;
+    const endMonth = owner ? getMemberEndMonth(owner) : undefined;
+    if (!endMonth) {
+      return rule;
+    }
+    const endDate = endMonth + "-01";
+    return !rule.endDate || rule.endDate > endDate ? { ...rule, endDate } : rule;
+  });
+}
+
+/**
+ * Pass the accounts of members no longer projected to the first living
+ * member, who then owns them for contributions and required distributions.
+ *
+ * @param accounts - Account definitions
+ * @param members - Household members
+ * @param monthKey - Current month (YYYY-MM)
+ * @returns Accounts with their new owners
+ */
+export function transferAccounts(
+  accounts: InvestmentAccountDTO[],
+  members: MemberDTO[],
+  monthKey: string
+): InvestmentAccountDTO[] {
+  const survivor = members.find((m) => isMemberAlive(m, monthKey));
+  if (!survivor) {
+    return accounts;
+  }
+  return accounts.map((account) => {
+    const owner = getAccountOwner(account, members);
+    return owner && !isMemberAlive(owner, monthKey)
+      ? { ...account, memberId: survivor.id }
+      : account;
+  });
+}
+
+/**
+ * Get the filing status for a tax year. A joint return is kept for the
+ * year of the first member's death and any qualifying survivor years
+ * after it; the survivor files single from then on.
+ *
+ * @param taxProfile - Tax profile
+ * @param members - Household members
+ * @param year - Tax year
+ * @returns Filing status for the year
+ */
+export function getFilingStatusForYear(
+  taxProfile: TaxProfileDTO,
+  members: MemberDTO[],
+  year: number
+): FilingStatus {
+  if (taxProfile.filingStatus !== "MFJ" || members.length < 2) {
+    return taxProfile.filingStatus;
+  }
+
+  const deathYears = members
+    .map(getMemberEndMonth)
+    .filter((endMonth): endMonth is string => !!endMonth)
+    .map((endMonth) => parseInt(endMonth.slice(0, 4), 10));
+  if (deathYears.length === 0) {
+    return taxProfile.filingStatus;
+  }
+
+  const jointThrough = Math.min(...deathYears) + (taxProfile.qualifyingSurvivorYears ?? 0);
+  return year > jointThrough ? "SINGLE" : taxProfile.filingStatus;
+}
+
+/**
+ * Get the tax profile in effect for a tax year.
+ */
+export function getTaxProfileForYear(
+  taxProfile: TaxProfileDTO,
+  members: MemberDTO[],
+  year: number
+): TaxProfileDTO {
+  const filingStatus = getFilingStatusForYear(taxProfile, members, year);
+  return filingStatus === taxProfile.filingStatus ? taxProfile : { ...taxProfile, filingStatus };
+}
+
+/**
+ * Sample a lifetime for each member whose life expectancy comes from the
+ * life table. Members with an explicit life expectancy keep it.
+ *
+ * @param members - Household members as given (before normalization)
+ * @param startDate - Projection start (YYYY-MM-DD)
+ * @param rng - Random number generator
+ * @returns Members with sampled life expectancies
+ */
+export function sampleLifetimes(
+  members: MemberDTO[],
+  startDate: string,
+  rng: () => number
+): MemberDTO[] {
+  return members.map((member) => {
+    if (member.lifeExpectancy !== undefined || !member.birthDate || !member.sex) {
+      return member;
+    }
+    const age = getAgeOnDate(member, startDate);
+    return { ...member, lifeExpectancy: sampleAgeAtDeath(age, member.sex, rng) };
+  });
+}
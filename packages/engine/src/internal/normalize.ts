@@ -2,7 +2,17 @@
  * Input normalization utilities.
  * Ensures all input data is in a consistent format for processing.
  */
-import type { ScenarioInputDTO, IncomeDTO, ExpenseDTO, LoanDTO, GoalDTO } from "../types";
+import type {
+  ScenarioInputDTO,
+  IncomeDTO,
+  ExpenseDTO,
+  LoanDTO,
+  GoalDTO,
+  RealAssetDTO,
+} from "../types";
+import { getBracketCeiling } from "./taxes";
+import { DEFAULT_APPRECIATION_PCT } from "./realAssets";
+import { MAX_AGE, resolveLifeExpectancy } from "./mortality";
 
 /**
  * Normalize all input data to ensure consistency.
@@ -18,6 +28,8 @@ export function normalizeInput(input: ScenarioInputDTO): ScenarioInputDTO {
     expenses: input.expenses.map(normalizeExpense),
     loans: input.loans.map(normalizeLoan),
     goals: input.goals.map(normalizeGoal),
+    realAssets: (input.realAssets ?? []).map(normalizeRealAsset),
+    events: input.events ?? [],
     accounts: input.accounts.map((account) => ({
       ...account,
       holdings: account.holdings.map((holding) => ({
@@ -29,6 +41,17 @@ export function normalizeInput(input: ScenarioInputDTO): ScenarioInputDTO {
       ...c,
       escalationPct: c.escalationPct ?? 0,
     })),
+    cash: input.cash
+      ? {
+          ...input.cash,
+          initialBalance: input.cash.initialBalance ?? 0,
+          overflowRules: input.cash.overflowRules ?? [],
+        }
+      : undefined,
+    withdrawalStrategy: input.withdrawalStrategy ?? { order: "TAXABLE_FIRST" },
+    members: (input.members ?? []).map((member) =>
+      resolveLifeExpectancy(member, input.household.startDate)
+    ),
     assumptions: {
       ...input.assumptions,
       // Ensure percentages are properly formatted
@@ -47,7 +70,9 @@ export function normalizeInput(input: ScenarioInputDTO): ScenarioInputDTO {
 function normalizeIncome(income: IncomeDTO): IncomeDTO {
   return {
     ...income,
-    growthRule: income.growthRule ?? "NONE",
+    type: income.type ?? "EARNED",
+    // Social Security COLAs track inflation
+    growthRule: income.type === "SOCIAL_SECURITY" ? "TRACK_INFLATION" : (income.growthRule ?? "NONE"),
     growthPct: income.growthPct ?? 0,
     memberName: income.memberName ?? "Primary",
   };
@@ -83,6 +108,19 @@ function normalizeGoal(goal: GoalDTO): GoalDTO {
   return {
     ...goal,
     priority: goal.priority ?? 2,
+    linkedAccountIds: goal.linkedAccountIds ?? [],
+    earmarkPct: goal.earmarkPct ?? 100,
+  };
+}
+
+/**
+ * Normalize a real asset entry.
+ */
+function normalizeRealAsset(asset: RealAssetDTO): RealAssetDTO {
+  return {
+    ...asset,
+    appreciationPct: asset.appreciationPct ?? DEFAULT_APPRECIATION_PCT[asset.type],
+    carryingCostMonthly: asset.carryingCostMonthly ?? 0,
   };
 }
 
@@ -112,6 +150,18 @@ export function validateInput(input: ScenarioInputDTO): void {
     throw new Error("Missing required field: scenarioId");
   }
 
+  // Validate member lifetimes
+  for (const member of input.members ?? []) {
+    const lifeExpectancy = member.lifeExpectancy;
+    if (lifeExpectancy !== undefined && (lifeExpectancy <= 0 || lifeExpectancy > MAX_AGE)) {
+      throw new Error(`Member ${member.id} has invalid life expectancy`);
+    }
+  }
+  const survivorYears = input.taxProfile.qualifyingSurvivorYears ?? 0;
+  if (survivorYears < 0 || survivorYears > 2) {
+    throw new Error("taxProfile.qualifyingSurvivorYears must be between 0 and 2");
+  }
+
   // Validate income entries
   for (const income of input.incomes) {
     if (!income.id) {
@@ -123,6 +173,23 @@ export function validateInput(input: ScenarioInputDTO): void {
     if (!income.startDate) {
       throw new Error(`Income ${income.id} missing required field: startDate`);
     }
+    const member = (input.members ?? []).find((m) => m.id === income.memberId);
+    if (income.memberId && !member) {
+      throw new Error(`Income ${income.id} references non-existent member: ${income.memberId}`);
+    }
+    if (income.type === "SOCIAL_SECURITY") {
+      if (!member?.birthDate) {
+        throw new Error(`Social Security income ${income.id} requires a member with a birth date`);
+      }
+      const claimingAge = income.socialSecurity?.claimingAge;
+      if (claimingAge === undefined || claimingAge < 62 || claimingAge > 70) {
+        throw new Error(`Social Security income ${income.id} has invalid claiming age`);
+      }
+    }
+    const survivorPct = income.pension?.survivorPct ?? 0;
+    if (survivorPct < 0 || survivorPct > 100) {
+      throw new Error(`Pension income ${income.id} has invalid survivor percentage`);
+    }
   }
 
   // Validate expense entries
@@ -143,6 +210,9 @@ export function validateInput(input: ScenarioInputDTO): void {
     if (account.expectedReturnPct < -100) {
       throw new Error(`Account ${account.id} has unrealistic expected return`);
     }
+    if (account.memberId && !(input.members ?? []).some((m) => m.id === account.memberId)) {
+      throw new Error(`Account ${account.id} references non-existent member: ${account.memberId}`);
+    }
   }
 
   // Validate loan entries
@@ -156,6 +226,97 @@ export function validateInput(input: ScenarioInputDTO): void {
     if (loan.termMonths <= 0) {
       throw new Error(`Loan ${loan.id} has invalid term`);
     }
+    if ((loan.interestOnlyMonths ?? 0) < 0 || (loan.interestOnlyMonths ?? 0) >= loan.termMonths) {
+      throw new Error(`Loan ${loan.id} has invalid interest-only period`);
+    }
+    if (loan.adjustableRate) {
+      if (loan.adjustableRate.initialFixedMonths < 0 || loan.adjustableRate.adjustmentIntervalMonths <= 0) {
+        throw new Error(`Loan ${loan.id} has invalid rate adjustment schedule`);
+      }
+    }
+    if (loan.heloc) {
+      if (loan.heloc.drawPeriodMonths < 0 || loan.heloc.drawPeriodMonths >= loan.termMonths) {
+        throw new Error(`Loan ${loan.id} has invalid draw period`);
+      }
+      if (loan.heloc.creditLimit < loan.principal) {
+        throw new Error(`Loan ${loan.id} balance exceeds its credit limit`);
+      }
+      if (loan.heloc.draws?.some((draw) => draw.amount < 0)) {
+        throw new Error(`Loan ${loan.id} has a negative draw`);
+      }
+    }
+  }
+
+  // Validate real assets
+  for (const asset of input.realAssets ?? []) {
+    if (!asset.id) {
+      throw new Error("Real asset entry missing required field: id");
+    }
+    if (asset.value < 0) {
+      throw new Error(`Real asset ${asset.id} has negative value`);
+    }
+    if (!asset.purchaseDate) {
+      throw new Error(`Real asset ${asset.id} missing required field: purchaseDate`);
+    }
+    if (asset.appreciationPct !== undefined && asset.appreciationPct <= -100) {
+      throw new Error(`Real asset ${asset.id} has unrealistic appreciation`);
+    }
+    if (asset.carryingCostMonthly !== undefined && asset.carryingCostMonthly < 0) {
+      throw new Error(`Real asset ${asset.id} has negative carrying cost`);
+    }
+    if (asset.linkedLoanId && !input.loans.some((l) => l.id === asset.linkedLoanId)) {
+      throw new Error(`Real asset ${asset.id} references non-existent loan: ${asset.linkedLoanId}`);
+    }
+  }
+
+  // Validate scheduled events
+  const hasAccount = (id: string) => input.accounts.some((a) => a.id === id);
+  for (const event of input.events ?? []) {
+    if (!event.id) {
+      throw new Error("Event entry missing required field: id");
+    }
+    if (!event.date) {
+      throw new Error(`Event ${event.id} missing required field: date`);
+    }
+    switch (event.type) {
+      case "LOAN_PAYOFF":
+        if (!input.loans.some((l) => l.id === event.loanId)) {
+          throw new Error(`Event ${event.id} references non-existent loan: ${event.loanId}`);
+        }
+        if (event.fromAccountId && !hasAccount(event.fromAccountId)) {
+          throw new Error(`Event ${event.id} references non-existent account: ${event.fromAccountId}`);
+        }
+        break;
+      case "ACCOUNT_TRANSFER":
+        for (const accountId of [event.fromAccountId, event.toAccountId]) {
+          if (!hasAccount(accountId)) {
+            throw new Error(`Event ${event.id} references non-existent account: ${accountId}`);
+          }
+        }
+        if (event.amount < 0) {
+          throw new Error(`Event ${event.id} has negative transfer amount`);
+        }
+        break;
+      case "ASSET_SALE":
+        if (!(input.realAssets ?? []).some((a) => a.id === event.assetId)) {
+          throw new Error(`Event ${event.id} references non-existent real asset: ${event.assetId}`);
+        }
+        if (event.depositAccountId && !hasAccount(event.depositAccountId)) {
+          throw new Error(`Event ${event.id} references non-existent account: ${event.depositAccountId}`);
+        }
+        if (
+          event.sellingCostPct !== undefined &&
+          (event.sellingCostPct < 0 || event.sellingCostPct > 100)
+        ) {
+          throw new Error(`Event ${event.id} selling costs must be between 0 and 100`);
+        }
+        break;
+      case "INCOME_CHANGE":
+        if (!input.incomes.some((i) => i.id === event.incomeId)) {
+          throw new Error(`Event ${event.id} references non-existent income: ${event.incomeId}`);
+        }
+        break;
+    }
   }
 
   // Validate contribution rules
@@ -168,6 +329,39 @@ export function validateInput(input: ScenarioInputDTO): void {
     if (!accountExists) {
       throw new Error(`Contribution references non-existent account: ${contribution.accountId}`);
     }
+    if (contribution.employerMatchPct !== undefined && contribution.employerMatchPct < 0) {
+      throw new Error("Employer match percentage cannot be negative");
+    }
+    if (
+      contribution.employerMatchLimitAnnual !== undefined &&
+      contribution.employerMatchLimitAnnual < 0
+    ) {
+      throw new Error("Employer match limit cannot be negative");
+    }
+  }
+
+  // Validate cash overflow rules
+  if (input.cash) {
+    if (input.cash.targetBalance !== undefined && input.cash.targetBalance < 0) {
+      throw new Error("Cash target balance cannot be negative");
+    }
+    for (const rule of input.cash.overflowRules) {
+      const accountExists = input.accounts.some((a) => a.id === rule.accountId);
+      if (!accountExists) {
+        throw new Error(`Cash overflow rule references non-existent account: ${rule.accountId}`);
+      }
+      if (rule.sharePct < 0 || rule.sharePct > 100) {
+        throw new Error(`Cash overflow rule for ${rule.accountId} has invalid share`);
+      }
+    }
+  }
+
+  // Validate withdrawal strategy
+  const strategy = input.withdrawalStrategy;
+  if (strategy?.order === "BRACKET_FILLING" && strategy.fillBracketPct !== undefined) {
+    if (getBracketCeiling(strategy.fillBracketPct, input.taxProfile.filingStatus) <= 0) {
+      throw new Error(`Withdrawal strategy has unknown fill bracket: ${strategy.fillBracketPct}%`);
+    }
   }
 
   // Validate goals
@@ -178,6 +372,14 @@ export function validateInput(input: ScenarioInputDTO): void {
     if (goal.targetAmountReal < 0) {
       throw new Error(`Goal ${goal.id} has negative target amount`);
     }
+    for (const accountId of goal.linkedAccountIds ?? []) {
+      if (!input.accounts.some((a) => a.id === accountId)) {
+        throw new Error(`Goal ${goal.id} references non-existent account: ${accountId}`);
+      }
+    }
+    if (goal.earmarkPct !== undefined && (goal.earmarkPct <= 0 || goal.earmarkPct > 100)) {
+      throw new Error(`Goal ${goal.id} earmark must be between 0 and 100`);
+    }
   }
 }
 
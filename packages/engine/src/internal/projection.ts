@@ -4,8 +4,11 @@
  */
 import type {
   ScenarioInputDTO,
+  TaxProfileDTO,
   IncomeDTO,
   ExpenseDTO,
+  InvestmentAccountDTO,
+  EventAnnotation,
   Warning,
 } from "../types";
 import { round, sum } from "./math";
@@ -32,11 +35,58 @@ import {
   snapshotAccountBalances,
   getTotalAccountBalance,
   getTotalContributions,
+  getTotalEmployerMatch,
   getTotalReturns,
+  getTotalWithdrawals,
+  snapshotAccountWithdrawals,
   resetPeriodCounters,
+  getBalanceByType,
   type AccountState,
 } from "./accounts";
-import { calculateMonthlyTaxes as calculateTaxesWithBrackets } from "./taxes";
+import { getBracketCeiling, getStandardDeduction, getMarginalRate } from "./taxes";
+import {
+  startTaxYear,
+  calculateWithholding,
+  recordTaxMonth,
+  settleTaxYear,
+  calculateInvestmentTaxDrag,
+} from "./withholding";
+import { withdrawFromAccounts } from "./withdrawals";
+import {
+  calculateRequiredDistributions,
+  takeRequiredDistributions,
+  recordDistributionsTaken,
+} from "./rmd";
+import {
+  initializeCashState,
+  applyCashflow,
+  sweepExcessCash,
+  type CashState,
+} from "./cash";
+import type { ReturnPaths } from "./returnModel";
+import { isLinkedGoal, getEarmarkedBalance, withdrawForGoal } from "./goals";
+import { startContributionYear, type ContributionLimitState } from "./contributionLimits";
+import {
+  accrueTaxableIncome,
+  toInvestmentIncome,
+  HIGH_TAX_DRAG_THRESHOLD_PCT,
+} from "./taxableIncome";
+import type { InvestmentIncome } from "./taxes";
+import {
+  initializeRealAssetStates,
+  updateRealAssets,
+  getTotalRealAssetValue,
+  snapshotRealAssetValues,
+} from "./realAssets";
+import { applyIncomeEvents, applyScheduledEvents } from "./events";
+import { calculateMonthlyBenefits, calculateTaxableSocialSecurity } from "./benefits";
+import {
+  endContributionsAtDeath,
+  endIncomesAtDeath,
+  getTaxProfileForYear,
+  isMemberAlive,
+  transferAccounts,
+} from "./mortality";
 
 /**
  * State for a single month in the projection.
@@ -44,16 +94,34 @@ import { calculateMonthlyTaxes as calculateTaxesWithBrackets } from "./taxes";
 export interface MonthState {
   date: string; // YYYY-MM-DD format (first of month)
   income: number;
+  socialSecurityIncome: number; // Included in income
+  pensionIncome: number; // Included in income
   expenses: number;
   taxes: number;
+  taxTrueUp: number; // Prior-year settlement: positive owed, negative refund
   loanPayments: number;
+  loanDraws: number; // HELOC draws paid out to cash
   contributions: number;
+  preTaxContributions: number; // Employee contributions to TRADITIONAL accounts
+  employerMatch: number;
+  investmentIncome: InvestmentIncome; // Taxable-account distributions and realized gains
   investmentReturns: number;
+  realAssetPurchases: number; // Down payments paid from cash
+  eventCashflow: number; // Net cash from scheduled events
+  events: EventAnnotation[];
+  withdrawals: number;
+  accountWithdrawals: Record<string, number>;
+  goalWithdrawals: number;
+  goalFunded: Record<string, number>; // Earmarked balance per linked goal
+  rmd: number;
   netCashflow: number;
+  cashBalance: number;
+  realAssetValue: number;
   totalAssets: number;
   totalLiabilities: number;
   netWorth: number;
   accountBalances: Record<string, number>;
+  realAssetValues: Record<string, number>;
 }
 
 /**
@@ -61,6 +129,7 @@ export interface MonthState {
  */
 interface ProjectionState {
   accounts: AccountState[];
+  cash: CashState;
   loanSchedules: Map<string, AmortizationRow[]>;
   inflationIndex: Map<string, number>;
   warnings: Warning[];
@@ -150,6 +219,23 @@ function calculateMonthlyLoanPayments(
   return round(total, 2);
 }
 
+/**
+ * Calculate total HELOC draws for a month.
+ */
+function calculateMonthlyLoanDraws(
+  loanSchedules: Map<string, AmortizationRow[]>,
+  date: string
+): number {
+  const monthKey = date.slice(0, 7);
+  let total = 0;
+
+  for (const [, schedule] of loanSchedules) {
+    total += schedule.find((row) => row.month === monthKey)?.draw ?? 0;
+  }
+
+  return round(total, 2);
+}
+
 /**
  * Calculate total loan balances (liabilities).
  */
@@ -167,32 +253,160 @@ function calculateTotalLiabilities(
 }
 
 /**
- * Calculate monthly taxes using bracket-based calculation.
- * Uses 2024 federal brackets with inflation adjustment for future years.
+ * Maximum withdraw-then-retax passes per month. Each pass covers the tax
+ * created by the previous pass's traditional withdrawals.
  */
-function calculateMonthlyTaxes(
-  income: number,
+const MAX_WITHDRAWAL_PASSES = 10;
+
+/**
+ * Monthly ordinary income that still fits below the top of the fill bracket.
+ */
+function getMonthlyBracketRoom(
   input: ScenarioInputDTO,
-  inflationIndex: Map<string, number>,
-  date: string
+  taxProfile: TaxProfileDTO,
+  ordinaryIncome: number,
+  indexFactor: number
 ): number {
-  // Use the new bracket-based tax calculation
-  const baseTaxes = calculateTaxesWithBrackets(income, input.taxProfile);
-
-  // Apply inflation adjustment to tax brackets for future projections
-  // The tax code typically indexes brackets for inflation
-  const inflationFactor = inflationIndex.get(date.slice(0, 7)) ?? 1;
-
-  // If we're in a future year, effective taxes may be slightly lower
-  // due to bracket creep working in taxpayer's favor
-  if (inflationFactor > 1) {
-    // Adjust taxes down slightly to account for indexed brackets
-    // This is a simplification - real brackets update annually
-    const adjustmentFactor = 1 / Math.sqrt(inflationFactor);
-    return round(baseTaxes * adjustmentFactor, 2);
+  const strategy = input.withdrawalStrategy;
+  if (!strategy || strategy.order !== "BRACKET_FILLING" || !strategy.fillBracketPct) {
+    return 0;
   }
 
-  return baseTaxes;
+  const { filingStatus } = taxProfile;
+  const ceiling = getBracketCeiling(strategy.fillBracketPct, filingStatus, indexFactor);
+  const annualRoom = ceiling + getStandardDeduction(filingStatus, indexFactor);
+  return round(Math.max(0, annualRoom / 12 - ordinaryIncome), 2);
+}
+
+/**
+ * This month's ordinary income, annualized, built the way the tax return
+ * builds it: wages less pre-tax contributions, other ordinary income,
+ * taxable-account ordinary income and the taxable part of Social Security.
+ */
+function getAnnualizedOrdinaryIncome(
+  filingStatus: TaxProfileDTO["filingStatus"],
+  wages: number,
+  otherOrdinaryIncome: number,
+  preTaxContributions: number,
+  investmentIncome: InvestmentIncome,
+  socialSecurity: number
+): number {
+  const ordinary = wages - preTaxContributions + otherOrdinaryIncome + investmentIncome.ordinary;
+  const taxableSocialSecurity = calculateTaxableSocialSecurity(
+    socialSecurity * 12,
+    (ordinary + investmentIncome.preferential) * 12,
+    filingStatus
+  );
+  return ordinary * 12 + taxableSocialSecurity;
+}
+
+/**
+ * Check whether adding a required distribution raises the federal marginal bracket.
+ */
+function rmdRaisesBracket(
+  taxProfile: TaxProfileDTO,
+  wages: number,
+  otherOrdinaryIncome: number,
+  preTaxContributions: number,
+  investmentIncome: InvestmentIncome,
+  socialSecurity: number,
+  monthlyRmd: number,
+  indexFactor: number
+): boolean {
+  const { filingStatus, stateCode } = taxProfile;
+  const deduction = getStandardDeduction(filingStatus, indexFactor);
+  const ordinaryIncome = (rmd: number) =>
+    getAnnualizedOrdinaryIncome(
+      filingStatus,
+      wages,
+      otherOrdinaryIncome + rmd,
+      preTaxContributions,
+      investmentIncome,
+      socialSecurity
+    );
+  const before = getMarginalRate(ordinaryIncome(0) - deduction, filingStatus, stateCode, indexFactor);
+  const after = getMarginalRate(ordinaryIncome(monthlyRmd) - deduction, filingStatus, stateCode, indexFactor);
+  return after > before;
+}
+
+/**
+ * Look up each account's sampled annual return for a projection month.
+ */
+function getPathReturns(paths: ReturnPaths, monthPosition: number): Record<string, number> {
+  const returns: Record<string, number> = {};
+  for (const [accountId, path] of Object.entries(paths.accountReturnPct)) {
+    if (path[monthPosition] !== undefined) {
+      returns[accountId] = path[monthPosition];
+    }
+  }
+  return returns;
+}
+
+/**
+ * Sum this month's employee contributions into TRADITIONAL accounts,
+ * which are deducted from taxable wages.
+ */
+function getPreTaxContributions(
+  accounts: AccountState[],
+  accountDefs: InvestmentAccountDTO[]
+): number {
+  return round(
+    accounts.reduce((sum, state) => {
+      const def = accountDefs.find((a) => a.id === state.accountId);
+      return def?.type === "TRADITIONAL" ? sum + state.contributions : sum;
+    }, 0),
+    2
+  );
+}
+
+/**
+ * Warn once per year for each member and plan whose contributions
+ * were capped at the annual limit.
+ */
+function warnContributionLimits(
+  state: ContributionLimitState,
+  date: string,
+  warnings: Warning[]
+): void {
+  for (const key of state.capped) {
+    if (state.warned.has(key)) {
+      continue;
+    }
+    const [memberId, plan] = key.split(":");
+    const owner = memberId === "household" ? "household" : `member ${memberId}`;
+    warnings.push({
+      code: "CONTRIBUTION_LIMIT_EXCEEDED",
+      severity: "warn",
+      message: `${plan} contributions for ${owner} exceed the ${state.year} limit; excess was not contributed`,
+      at: date,
+    });
+    state.warned.add(key);
+  }
+}
+
+/**
+ * Warn when a year's tax on taxable-account income is a large share
+ * of the taxable balance.
+ */
+function warnHighTaxDrag(
+  dragTax: number,
+  taxableBalance: number,
+  year: number,
+  date: string,
+  warnings: Warning[]
+): void {
+  if (taxableBalance <= 0) {
+    return;
+  }
+  const dragPct = (dragTax / taxableBalance) * 100;
+  if (dragPct > HIGH_TAX_DRAG_THRESHOLD_PCT) {
+    warnings.push({
+      code: "HIGH_TAX_DRAG",
+      severity: "info",
+      message: `Taxes on taxable-account income cost ${dragPct.toFixed(2)}% of taxable balances in ${year}; consider tax-advantaged accounts or tax-efficient funds`,
+      at: date,
+    });
+  }
 }
 
 /**
@@ -219,26 +433,68 @@ function initializeLoanSchedules(
  * Run the main projection loop.
  *
  * @param input - Normalized scenario input
+ * @param paths - Sampled return/inflation paths for a Monte Carlo run (optional)
  * @returns Array of monthly states and warnings
  */
-export function runProjection(input: ScenarioInputDTO): {
+export function runProjection(
+  input: ScenarioInputDTO,
+  paths?: ReturnPaths
+): {
   months: MonthState[];
   warnings: Warning[];
+  goalShortfalls: Record<string, number>;
 } {
   const warnings: Warning[] = [];
 
   // Build inflation index for the projection period
-  const inflationIndex = buildInflationIndex(
-    input.household.startDate,
-    input.household.endDate,
-    input.assumptions.inflationRatePct / 100
-  );
+  const inflationIndex =
+    paths?.inflationIndex ??
+    buildInflationIndex(
+      input.household.startDate,
+      input.household.endDate,
+      input.assumptions.inflationRatePct / 100
+    );
 
   // Initialize loan schedules
   const loanSchedules = initializeLoanSchedules(input);
 
-  // Initialize account states
+  // Initialize account states; owners change as members' plans end
   const accounts = initializeAccountStates(input.accounts);
+  const members = input.members ?? [];
+  let accountDefs = input.accounts;
+  const endedMembers = new Set<string>();
+
+  // Initialize cash bucket
+  const cash = initializeCashState(input.cash);
+
+  // Homes, vehicles and other real assets
+  const realAssetDefs = input.realAssets ?? [];
+  const realAssets = initializeRealAssetStates(realAssetDefs);
+
+  // Scheduled events; income changes adjust income periods up front
+  const events = input.events ?? [];
+  const incomes = endIncomesAtDeath(applyIncomeEvents(input.incomes, events), members);
+  const earnedIncomes = incomes.filter((income) => (income.type ?? "EARNED") === "EARNED");
+  const contributionRules = endContributionsAtDeath(input.contributions, input.accounts, members);
+
+  // RMD tracking; the first year uses opening balances as its prior year-end
+  let priorYearEndBalances = snapshotAccountBalances(accounts);
+  let rmdRequired: Record<string, number> = {};
+  let rmdTaken: Record<string, number> = {};
+  let rmdYear = 0;
+  let rmdBracketWarned = false;
+
+  // Goals paid from linked accounts, with any shortfall at their target date
+  const linkedGoals = input.goals.filter(isLinkedGoal);
+  const goalShortfalls: Record<string, number> = {};
+
+  // Year-to-date tax accounting; each closed year is settled the following April
+  let taxYear = startTaxYear(parseInt(input.household.startDate.slice(0, 4), 10), inflationIndex);
+  let taxProfile = getTaxProfileForYear(input.taxProfile, members, taxYear.year);
+  const pendingTrueUps = new Map<number, number>();
+
+  // Annual contribution limits, indexed alongside the tax brackets
+  let contributionYear = startContributionYear(taxYear.year, taxYear.indexFactor);
 
   // Generate month range
   const monthRange = generateMonthRange(
@@ -264,35 +520,292 @@ export function runProjection(input: ScenarioInputDTO): {
 
     // Current date is first of month
     const date = monthKey + "-01";
+    const year = parseInt(monthKey.slice(0, 4), 10);
+    const monthIndex = parseInt(monthKey.slice(5, 7), 10) - 1;
+
+    // Pass the accounts of members whose plan ended last month to a survivor
+    for (const member of members) {
+      if (endedMembers.has(member.id) || isMemberAlive(member, monthKey)) {
+        continue;
+      }
+      endedMembers.add(member.id);
+      accountDefs = transferAccounts(accountDefs, members, monthKey);
+      const survivor = members.find((m) => isMemberAlive(m, monthKey));
+      warnings.push({
+        code: "MEMBER_PLAN_END",
+        severity: "info",
+        message: survivor
+          ? `${member.name}'s plan ends; accounts pass to ${survivor.name}`
+          : `${member.name}'s plan ends`,
+        at: date,
+      });
+    }
+
+    // Determine the year's required distributions
+    if (year !== rmdYear) {
+      rmdYear = year;
+      rmdRequired = calculateRequiredDistributions(
+        year,
+        priorYearEndBalances,
+        accountDefs,
+        members
+      );
+      rmdTaken = {};
+      rmdBracketWarned = false;
+    }
 
-    // Calculate income
-    const income = calculateMonthlyIncome(input.incomes, date, inflationIndex);
+    // Brackets and deductions reset each January
+    if (year !== taxYear.year) {
+      taxYear = startTaxYear(year, inflationIndex);
+      taxProfile = getTaxProfileForYear(input.taxProfile, members, year);
+      contributionYear = startContributionYear(year, taxYear.indexFactor);
+    }
+
+    // Calculate income; Social Security and pensions are not wages for payroll taxes
+    const wages = calculateMonthlyIncome(earnedIncomes, date, inflationIndex);
+    const benefits = calculateMonthlyBenefits(incomes, members, date, inflationIndex);
+    const income = round(wages + benefits.socialSecurity + benefits.pension, 2);
+
+    // Acquire and revalue real assets; carrying costs count as expenses
+    const realAssetCashflow = updateRealAssets(
+      realAssets,
+      realAssetDefs,
+      input.loans,
+      date,
+      input.household.startDate,
+      inflationIndex
+    );
+    const realAssetPurchases = realAssetCashflow.purchases;
 
     // Calculate expenses
-    const expenses = calculateMonthlyExpenses(input.expenses, date, inflationIndex);
+    const expenses = round(
+      calculateMonthlyExpenses(input.expenses, date, inflationIndex) +
+        realAssetCashflow.carryingCosts,
+      2
+    );
 
-    // Calculate taxes
-    const taxes = calculateMonthlyTaxes(income, input, inflationIndex, date);
+    // Force this month's share of required distributions
+    const rmd = takeRequiredDistributions(accounts, rmdRequired, rmdTaken, 12 - monthIndex);
 
-    // Calculate loan payments
-    const loanPayments = calculateMonthlyLoanPayments(loanSchedules, date);
+    // Pay goals due this month out of their linked accounts
+    let goalWithdrawals = 0;
+    let goalTraditional = 0;
+    let goalGains = 0;
+    for (const goal of linkedGoals) {
+      if (goal.targetDate.slice(0, 7) !== monthKey) {
+        continue;
+      }
+      const target = applyGrowth(
+        goal.targetAmountReal,
+        "TRACK_INFLATION",
+        undefined,
+        inflationIndex,
+        date
+      );
+      const paid = withdrawForGoal(goal, accounts, accountDefs, target);
+      goalWithdrawals = round(goalWithdrawals + paid.total, 2);
+      goalTraditional = round(goalTraditional + paid.traditional, 2);
+      goalGains = round(goalGains + paid.realizedGains, 2);
+      goalShortfalls[goal.id] = round(Math.max(0, target - paid.total), 2);
+    }
 
-    // Process contributions (modifies accounts in place)
-    processMonthlyContributions(accounts, input.contributions, date, inflationIndex);
+    // Process payroll contributions (modifies accounts in place)
+    processMonthlyContributions(accounts, contributionRules, date, inflationIndex, {
+      state: contributionYear,
+      accountDefs,
+      members,
+      filingStatus: taxProfile.filingStatus,
+    });
     const contributions = getTotalContributions(accounts);
+    const employerMatch = getTotalEmployerMatch(accounts);
+    const preTaxContributions = getPreTaxContributions(accounts, accountDefs);
+    warnContributionLimits(contributionYear, date, warnings);
+
+    // Windfalls, loan payoffs, transfers and asset sales due this month
+    const eventResult = applyScheduledEvents(events, date, {
+      accounts,
+      accountDefs,
+      loanSchedules,
+      realAssets,
+      realAssetDefs,
+      filingStatus: taxProfile.filingStatus,
+    });
+    const eventCashflow = eventResult.cashflow;
+
+    // Interest, dividends and realized gains on taxable accounts (reinvested),
+    // plus any taxable gain on assets and TAXABLE holdings sold this month
+    const accruedIncome = toInvestmentIncome(
+      accrueTaxableIncome(accounts, accountDefs, input.assumptions)
+    );
+    const investmentIncome: InvestmentIncome = {
+      ordinary: accruedIncome.ordinary,
+      preferential: round(accruedIncome.preferential + eventResult.capitalGains + goalGains, 2),
+    };
+
+    if (
+      rmd > 0 &&
+      !rmdBracketWarned &&
+      rmdRaisesBracket(
+        taxProfile,
+        wages,
+        benefits.pension + goalTraditional + eventResult.traditional,
+        preTaxContributions,
+        investmentIncome,
+        benefits.socialSecurity,
+        rmd,
+        taxYear.indexFactor
+      )
+    ) {
+      rmdBracketWarned = true;
+      warnings.push({
+        code: "RMD_BRACKET_JUMP",
+        severity: "warn",
+        message: `Required minimum distributions push ${year} income into a higher tax bracket`,
+        at: date,
+      });
+    }
+
+    // Withhold at the annualized rate (recomputed below if traditional withdrawals are taken)
+    let taxes = calculateWithholding(
+      taxYear,
+      taxProfile,
+      wages,
+      benefits.pension + rmd + goalTraditional + eventResult.traditional,
+      preTaxContributions,
+      investmentIncome,
+      benefits.socialSecurity
+    );
+
+    // Settle last year's return in April
+    let taxTrueUp = 0;
+    if (monthIndex === 3) {
+      taxTrueUp = pendingTrueUps.get(year - 1) ?? 0;
+      pendingTrueUps.delete(year - 1);
+    }
+
+    // Calculate loan payments and HELOC draws
+    const loanPayments = calculateMonthlyLoanPayments(loanSchedules, date);
+    const loanDraws = calculateMonthlyLoanDraws(loanSchedules, date);
 
     // Apply investment returns (modifies accounts in place)
-    applyMonthlyReturns(accounts, input.accounts);
+    applyMonthlyReturns(
+      accounts,
+      accountDefs,
+      paths ? getPathReturns(paths, months.length) : undefined
+    );
     const investmentReturns = getTotalReturns(accounts);
 
+    // Surplus lands in cash, deficits draw it down
+    const wasCashPositive = cash.balance >= 0;
+    applyCashflow(
+      cash,
+      income +
+        rmd -
+        expenses -
+        taxes -
+        taxTrueUp -
+        loanPayments +
+        loanDraws -
+        contributions -
+        realAssetPurchases +
+        eventCashflow
+    );
+
+    // Cover any deficit from investment accounts, paying the extra tax
+    // on traditional withdrawals and realized gains as it arises
+    let traditionalIncome = round(rmd + goalTraditional + eventResult.traditional, 2);
+    if (input.withdrawalStrategy) {
+      for (let pass = 0; pass < MAX_WITHDRAWAL_PASSES && cash.balance < 0; pass++) {
+        const drawn = withdrawFromAccounts(
+          accounts,
+          accountDefs,
+          -cash.balance,
+          input.withdrawalStrategy,
+          getMonthlyBracketRoom(
+            input,
+            taxProfile,
+            wages + benefits.pension - preTaxContributions + traditionalIncome,
+            taxYear.indexFactor
+          )
+        );
+        if (drawn.total <= 0) break;
+
+        applyCashflow(cash, drawn.total);
+        // Selling brokerage holdings realizes gains taxed at preferential rates
+        investmentIncome.preferential = round(investmentIncome.preferential + drawn.realizedGains, 2);
+        if (drawn.traditional > 0 || drawn.realizedGains > 0) {
+          traditionalIncome = round(traditionalIncome + drawn.traditional, 2);
+          const grossedUp = calculateWithholding(
+            taxYear,
+            taxProfile,
+            wages,
+            benefits.pension + traditionalIncome,
+            preTaxContributions,
+            investmentIncome,
+            benefits.socialSecurity
+          );
+          applyCashflow(cash, -(grossedUp - taxes));
+          taxes = grossedUp;
+        }
+      }
+    }
+    const withdrawals = getTotalWithdrawals(accounts);
+    recordDistributionsTaken(accounts, rmdRequired, rmdTaken);
+
+    // Accumulate the year's actual income and close it out in December
+    recordTaxMonth(
+      taxYear,
+      wages,
+      benefits.pension + traditionalIncome,
+      taxes,
+      preTaxContributions,
+      investmentIncome,
+      benefits.socialSecurity
+    );
+    if (monthIndex === 11) {
+      pendingTrueUps.set(year, settleTaxYear(taxYear, taxProfile));
+      warnHighTaxDrag(
+        calculateInvestmentTaxDrag(taxYear, taxProfile),
+        getBalanceByType(accounts, accountDefs, "TAXABLE"),
+        year,
+        date,
+        warnings
+      );
+    }
+
+    // Sweep anything above the target balance
+    sweepExcessCash(cash, accounts, input.cash);
+
     // Calculate net cashflow
     const netCashflow = round(
-      income - expenses - taxes - loanPayments - contributions + investmentReturns,
+      income -
+        expenses -
+        taxes -
+        taxTrueUp -
+        loanPayments +
+        loanDraws -
+        contributions -
+        realAssetPurchases +
+        eventCashflow +
+        investmentReturns,
       2
     );
 
+    if (wasCashPositive && cash.balance < 0) {
+      warnings.push({
+        code: "CASH_EXHAUSTED",
+        severity: "error",
+        message: `Cash reserves exhausted in ${monthKey}; shortfall of $${Math.abs(cash.balance).toFixed(2)}`,
+        at: date,
+      });
+    }
+
     // Calculate totals
-    const totalAssets = getTotalAccountBalance(accounts);
+    const realAssetValue = getTotalRealAssetValue(realAssets);
+    const totalAssets = round(
+      getTotalAccountBalance(accounts) + cash.balance + realAssetValue,
+      2
+    );
     const totalLiabilities = calculateTotalLiabilities(loanSchedules, date);
     const netWorth = round(totalAssets - totalLiabilities, 2);
 
@@ -308,39 +821,65 @@ export function runProjection(input: ScenarioInputDTO): {
 
     // Snapshot account balances
     const accountBalances = snapshotAccountBalances(accounts);
+    if (monthIndex === 11) {
+      priorYearEndBalances = accountBalances;
+    }
 
     months.push({
       date,
       income,
+      socialSecurityIncome: benefits.socialSecurity,
+      pensionIncome: benefits.pension,
       expenses,
       taxes,
+      taxTrueUp,
       loanPayments,
+      loanDraws,
       contributions,
+      preTaxContributions,
+      employerMatch,
+      investmentIncome,
       investmentReturns,
+      realAssetPurchases,
+      eventCashflow,
+      events: eventResult.applied,
+      withdrawals,
+      accountWithdrawals: snapshotAccountWithdrawals(accounts),
+      goalWithdrawals,
+      goalFunded: Object.fromEntries(
+        linkedGoals.map((goal) => [goal.id, getEarmarkedBalance(goal, accounts)])
+      ),
+      rmd,
       netCashflow,
+      cashBalance: cash.balance,
+      realAssetValue,
       totalAssets,
       totalLiabilities,
       netWorth,
       accountBalances,
+      realAssetValues: snapshotRealAssetValues(realAssets),
     });
   }
 
-  // Check goal progress at end of projection
+  // Check goal progress: linked goals were settled at their target date;
+  // the rest compare net worth to the target at the end of projection
   const lastMonth = months[months.length - 1];
   if (lastMonth) {
     for (const goal of input.goals) {
-      // Simple goal check - compare net worth to target
-      // In full implementation, would link goals to specific accounts
-      const targetNominal = applyGrowth(
-        goal.targetAmountReal,
-        "TRACK_INFLATION",
-        undefined,
-        inflationIndex,
-        lastMonth.date
-      );
+      if (goalShortfalls[goal.id] === undefined) {
+        const targetNominal = applyGrowth(
+          goal.targetAmountReal,
+          "TRACK_INFLATION",
+          undefined,
+          inflationIndex,
+          lastMonth.date
+        );
+        const funded = isLinkedGoal(goal) ? lastMonth.goalFunded[goal.id] : lastMonth.netWorth;
+        goalShortfalls[goal.id] = round(Math.max(0, targetNominal - funded), 2);
+      }
 
-      if (lastMonth.netWorth < targetNominal) {
-        const shortfall = round(targetNominal - lastMonth.netWorth, 2);
+      const shortfall = goalShortfalls[goal.id];
+      if (shortfall > 0) {
         warnings.push({
           code: "GOAL_SHORTFALL",
           severity: goal.priority === 1 ? "error" : "warn",
@@ -351,7 +890,7 @@ export function runProjection(input: ScenarioInputDTO): {
     }
   }
 
-  return { months, warnings };
+  return { months, warnings, goalShortfalls };
 }
 
 /**
@@ -364,6 +903,7 @@ export function generateAnnualSummary(months: MonthState[]): {
   taxes: number;
   netSavings: number;
   endNetWorth: number;
+  rmd: number;
 }[] {
   const yearMap = new Map<
     number,
@@ -373,6 +913,7 @@ export function generateAnnualSummary(months: MonthState[]): {
       taxes: number;
       netSavings: number;
       endNetWorth: number;
+      rmd: number;
     }
   >();
 
@@ -384,13 +925,15 @@ export function generateAnnualSummary(months: MonthState[]): {
       taxes: 0,
       netSavings: 0,
       endNetWorth: 0,
+      rmd: 0,
     };
 
     current.income += month.income;
     current.expenses += month.expenses;
-    current.taxes += month.taxes;
+    current.taxes += month.taxes + month.taxTrueUp;
     current.netSavings += month.netCashflow;
     current.endNetWorth = month.netWorth; // Last month of year
+    current.rmd += month.rmd;
 
     yearMap.set(year, current);
   }
@@ -404,5 +947,6 @@ export function generateAnnualSummary(months: MonthState[]): {
       taxes: round(data.taxes, 2),
       netSavings: round(data.netSavings, 2),
       endNetWorth: round(data.endNetWorth, 2),
+      rmd: round(data.rmd, 2),
     }));
 }
@@ -36,3 +36,45 @@ export function normalRandom(mean: number, stdDev: number, rng: () => number): n
   const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
   return mean + stdDev * z;
 }
+
+/**
+ * Generate a gamma-distributed random number using Marsaglia-Tsang.
+ *
+ * @param shape - Shape parameter (k > 0)
+ * @param rng - Random number generator returning values in [0, 1)
+ * @returns Gamma(shape, 1) random number
+ */
+export function gammaRandom(shape: number, rng: () => number): number {
+  if (shape < 1) {
+    // Boost to shape + 1 and scale back down
+    let u = rng();
+    while (u === 0) u = rng();
+    return gammaRandom(shape + 1, rng) * Math.pow(u, 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = normalRandom(0, 1, rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = rng();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (u > 0 && Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+/**
+ * Generate a chi-square distributed random number.
+ *
+ * @param degreesOfFreedom - Degrees of freedom (> 0)
+ * @param rng - Random number generator returning values in [0, 1)
+ * @returns Chi-square random number
+ */
+export function chiSquareRandom(degreesOfFreedom: number, rng: () => number): number {
+  return 2 * gammaRandom(degreesOfFreedom / 2, rng);
+}
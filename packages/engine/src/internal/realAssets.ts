@@ -0,0 +1,193 @@
+/**
+ * Real (non-financial) asset tracking.
+ * Homes, vehicles and collectibles appreciate or depreciate monthly,
+ * cost money to carry, and count toward total assets while owned.
+ * Assets bought after the projection starts pay their down payment from
+ * cash; the rest is financed by the linked loan.
+ */
+import type { FilingStatus, LoanDTO, RealAssetDTO, RealAssetType } from "../types";
+import { round } from "./math";
+import { applyGrowth } from "./growth";
+
+/**
+ * Annual appreciation used when an asset does not specify one (percent).
+ */
+export const DEFAULT_APPRECIATION_PCT: Record<RealAssetType, number> = {
+  HOME: 3,
+  VEHICLE: -15,
+  COLLECTIBLE: 0,
+};
+
+/**
+ * Gain on the sale of a main home excluded from tax (IRC Section 121).
+ */
+export const HOME_SALE_EXCLUSION: Record<FilingStatus, number> = {
+  SINGLE: 250000,
+  MFJ: 500000,
+  HOH: 250000,
+};
+
+/**
+ * Represents the current state of a real asset.
+ */
+export interface RealAssetState {
+  assetId: string;
+  value: number;
+  owned: boolean;
+  sold: boolean;
+}
+
+/**
+ * Result of selling a real asset.
+ */
+export interface RealAssetSale {
+  proceeds: number; // Sale price less selling costs, before repaying any loan
+  taxableGain: number;
+}
+
+/**
+ * One month of real-asset cash movements.
+ */
+export interface RealAssetCashflow {
+  purchases: number; // Down payments paid from cash
+  carryingCosts: number;
+}
+
+/**
+ * Initialize real asset states. Assets are acquired by updateRealAssets
+ * in their purchase month (or the first month, if bought earlier).
+ *
+ * @param assets - Real asset definitions
+ * @returns Initialized states, not yet owned
+ */
+export function initializeRealAssetStates(assets: RealAssetDTO[]): RealAssetState[] {
+  return assets.map((asset) => ({
+    assetId: asset.id,
+    value: 0,
+    owned: false,
+    sold: false,
+  }));
+}
+
+/**
+ * Acquire assets bought this month and apply a month of appreciation to
+ * the rest. Assets bought before the projection starts are already owned
+ * at their stated value; later purchases pay whatever the linked loan does
+ * not finance. Carrying costs grow with inflation and are due from the
+ * purchase month on.
+ * Modifies real asset states in place.
+ *
+ * @param states - Real asset states to update
+ * @param assets - Real asset definitions
+ * @param loans - Loans that may finance a purchase
+ * @param date - Current month (YYYY-MM-DD)
+ * @param startDate - Projection start date
+ * @param inflationIndex - Inflation index for carrying costs
+ * @returns Down payments and carrying costs due this month
+ */
+export function updateRealAssets(
+  states: RealAssetState[],
+  assets: RealAssetDTO[],
+  loans: LoanDTO[],
+  date: string,
+  startDate: string,
+  inflationIndex: Map<string, number>
+): RealAssetCashflow {
+  const monthKey = date.slice(0, 7);
+  const startKey = startDate.slice(0, 7);
+  let purchases = 0;
+  let carryingCosts = 0;
+
+  for (const state of states) {
+    const asset = assets.find((a) => a.id === state.assetId);
+    if (!asset || state.sold) {
+      continue;
+    }
+
+    const purchaseKey = asset.purchaseDate.slice(0, 7);
+    if (!state.owned) {
+      if (purchaseKey > monthKey) {
+        continue;
+      }
+      state.owned = true;
+      state.value = round(asset.value, 2);
+
+      if (purchaseKey > startKey) {
+        const loan = loans.find((l) => l.id === asset.linkedLoanId);
+        purchases += Math.max(0, asset.value - (loan?.principal ?? 0));
+      }
+    } else {
+      const monthlyRate = Math.pow(1 + (asset.appreciationPct ?? 0) / 100, 1 / 12) - 1;
+      state.value = round(Math.max(0, state.value * (1 + monthlyRate)), 2);
+    }
+
+    carryingCosts += applyGrowth(
+      asset.carryingCostMonthly ?? 0,
+      "TRACK_INFLATION",
+      undefined,
+      inflationIndex,
+      date
+    );
+  }
+
+  return {
+    purchases: round(purchases, 2),
+    carryingCosts: round(carryingCosts, 2),
+  };
+}
+
+/**
+ * Sell an owned real asset at its current value. Gains above cost basis
+ * are taxable, except the home sale exclusion; losses on personal-use
+ * assets are not deductible. Modifies the real asset state in place.
+ *
+ * @param state - Real asset state to update
+ * @param asset - Real asset definition
+ * @param sellingCostPct - Selling costs as a percentage of the price
+ * @param filingStatus - Filing status for the home sale exclusion
+ * @returns Net proceeds and taxable gain (zero if the asset is not owned)
+ */
+export function sellRealAsset(
+  state: RealAssetState,
+  asset: RealAssetDTO,
+  sellingCostPct: number,
+  filingStatus: FilingStatus
+): RealAssetSale {
+  if (!state.owned) {
+    return { proceeds: 0, taxableGain: 0 };
+  }
+
+  const proceeds = round(state.value * (1 - sellingCostPct / 100), 2);
+  const gain = proceeds - (asset.costBasis ?? asset.value);
+  const exclusion = asset.type === "HOME" ? HOME_SALE_EXCLUSION[filingStatus] : 0;
+
+  state.owned = false;
+  state.sold = true;
+  state.value = 0;
+
+  return {
+    proceeds,
+    taxableGain: round(Math.max(0, gain - exclusion), 2),
+  };
+}
+
+/**
+ * Get the total value of owned real assets.
+ */
+export function getTotalRealAssetValue(states: RealAssetState[]): number {
+  return round(
+    states.reduce((sum, state) => (state.owned ? sum + state.value : sum), 0),
+    2
+  );
+}
+
+/**
+ * Create a snapshot of real asset values.
+ */
+export function snapshotRealAssetValues(states: RealAssetState[]): Record<string, number> {
+  const snapshot: Record<string, number> = {};
+  for (const state of states) {
+    snapshot[state.assetId] = state.owned ? state.value : 0;
+  }
+  return snapshot;
+}
@@ -0,0 +1,132 @@
+/**
+ * Real (today's) dollar conversion.
+ * Deflates projected months and tax years by the inflation index so every
+ * amount is stated in dollars of the projection start date.
+ */
+import type { EventAnnotation, TaxAnnualRow } from "../types";
+import type { MonthState } from "./projection";
+import { getInflationFactor } from "./growth";
+import { getTaxIndexFactor } from "./withholding";
+import { round } from "./math";
+
+/**
+ * Divide every amount in a record by an inflation factor.
+ */
+function deflateRecord(values: Record<string, number>, factor: number): Record<string, number> {
+  const deflated: Record<string, number> = {};
+  for (const [key, value] of Object.entries(values)) {
+    deflated[key] = round(value / factor, 2);
+  }
+  return deflated;
+}
+
+/**
+ * Convert one projected month to start-date dollars.
+ *
+ * @param month - Month in nominal dollars
+ * @param inflationIndex - Inflation index the month was projected with
+ * @returns Month with every amount deflated to the projection start
+ */
+export function deflateMonth(month: MonthState, inflationIndex: Map<string, number>): MonthState {
+  const factor = getInflationFactor(inflationIndex, month.date);
+  const deflate = (value: number) => round(value / factor, 2);
+
+  return {
+    ...month,
+    income: deflate(month.income),
+    socialSecurityIncome: deflate(month.socialSecurityIncome),
+    pensionIncome: deflate(month.pensionIncome),
+    expenses: deflate(month.expenses),
+    taxes: deflate(month.taxes),
+    taxTrueUp: deflate(month.taxTrueUp),
+    loanPayments: deflate(month.loanPayments),
+    loanDraws: deflate(month.loanDraws),
+    contributions: deflate(month.contributions),
+    preTaxContributions: deflate(month.preTaxContributions),
+    employerMatch: deflate(month.employerMatch),
+    investmentIncome: {
+      ordinary: deflate(month.investmentIncome.ordinary),
+      preferential: deflate(month.investmentIncome.preferential),
+    },
+    investmentReturns: deflate(month.investmentReturns),
+    realAssetPurchases: deflate(month.realAssetPurchases),
+    eventCashflow: deflate(month.eventCashflow),
+    events: month.events.map(
+      (event): EventAnnotation => ({ ...event, amount: deflate(event.amount) })
+    ),
+    withdrawals: deflate(month.withdrawals),
+    accountWithdrawals: deflateRecord(month.accountWithdrawals, factor),
+    goalWithdrawals: deflate(month.goalWithdrawals),
+    goalFunded: deflateRecord(month.goalFunded, factor),
+    rmd: deflate(month.rmd),
+    netCashflow: deflate(month.netCashflow),
+    cashBalance: deflate(month.cashBalance),
+    realAssetValue: deflate(month.realAssetValue),
+    totalAssets: deflate(month.totalAssets),
+    totalLiabilities: deflate(month.totalLiabilities),
+    netWorth: deflate(month.netWorth),
+    accountBalances: deflateRecord(month.accountBalances, factor),
+    realAssetValues: deflateRecord(month.realAssetValues, factor),
+  };
+}
+
+/**
+ * Convert projected months to start-date dollars.
+ *
+ * @param months - Months in nominal dollars
+ * @param inflationIndex - Inflation index the months were projected with
+ * @returns Deflated months
+ */
+export function deflateMonths(
+  months: MonthState[],
+  inflationIndex: Map<string, number>
+): MonthState[] {
+  return months.map((month) => deflateMonth(month, inflationIndex));
+}
+
+/**
+ * Convert a tax year to start-date dollars. Each year is deflated by the
+ * factor its brackets and deductions were indexed with, so bracket amounts
+ * read as today's thresholds; rates are unchanged.
+ *
+ * @param row - Tax year in nominal dollars
+ * @param inflationIndex - Inflation index the year was projected with
+ * @returns Tax year with every amount deflated
+ */
+export function deflateTaxAnnualRow(
+  row: TaxAnnualRow,
+  inflationIndex: Map<string, number>
+): TaxAnnualRow {
+  const factor = getTaxIndexFactor(row.year, inflationIndex);
+  const deflate = (value: number) => round(value / factor, 2);
+
+  return {
+    ...row,
+    grossIncome: {
+      wages: deflate(row.grossIncome.wages),
+      ordinaryDistributions: deflate(row.grossIncome.ordinaryDistributions),
+      investmentOrdinary: deflate(row.grossIncome.investmentOrdinary),
+      investmentPreferential: deflate(row.grossIncome.investmentPreferential),
+      total: deflate(row.grossIncome.total),
+    },
+    preTaxContributions: deflate(row.preTaxContributions),
+    agi: deflate(row.agi),
+    standardDeduction: deflate(row.standardDeduction),
+    taxableIncome: deflate(row.taxableIncome),
+    federalTax: deflate(row.federalTax),
+    federalByBracket: row.federalByBracket.map((bracket) => ({
+      rate: bracket.rate,
+      taxableAmount: deflate(bracket.taxableAmount),
+      tax: deflate(bracket.tax),
+    })),
+    capitalGainsTax: deflate(row.capitalGainsTax),
+    niit: deflate(row.niit),
+    fica: {
+      socialSecurity: deflate(row.fica.socialSecurity),
+      medicare: deflate(row.fica.medicare),
+      total: deflate(row.fica.total),
+    },
+    stateTax: deflate(row.stateTax),
+    totalTax: deflate(row.totalTax),
+  };
+}
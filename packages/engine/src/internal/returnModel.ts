@@ -0,0 +1,287 @@
+/**
+ * Stochastic asset-class return model for Monte Carlo simulation.
+ * Draws correlated stock/bond/cash returns each year (or month), optionally
+ * with Student-t fat tails, and an optional stochastic inflation path.
+ */
+import type { InvestmentAccountDTO } from "../types";
+import { round } from "./math";
+import { normalRandom, chiSquareRandom } from "./random";
+
+/** Asset classes modeled by the return model */
+export type AssetClass = "STOCKS" | "BONDS" | "CASH";
+
+/** Order used by correlation matrices */
+export const ASSET_CLASSES: AssetClass[] = ["STOCKS", "BONDS", "CASH"];
+
+/** Annual return assumptions for one asset class */
+export interface AssetClassAssumption {
+  /** Mean annual return as percentage */
+  meanPct: number;
+  /** Annual return standard deviation as percentage */
+  volatilityPct: number;
+}
+
+/** Configuration for the multi-asset return model */
+export interface ReturnModelConfig {
+  /** Draw a new return each YEAR (default) or each MONTH */
+  step?: "YEAR" | "MONTH";
+  /** Per-class assumptions; missing classes use DEFAULT_ASSET_CLASSES */
+  assetClasses?: Partial<Record<AssetClass, AssetClassAssumption>>;
+  /** Correlation matrix in ASSET_CLASSES order (default DEFAULT_CORRELATION) */
+  correlation?: number[][];
+  /**
+   * Account allocations in percent by asset class. Accounts without an
+   * allocation keep their own expected return and move with stocks.
+   */
+  allocations?: Record<string, Partial<Record<AssetClass, number>>>;
+  /** Student-t degrees of freedom (> 2) for fat tails; omit for normal returns */
+  degreesOfFreedom?: number;
+  /** Stochastic inflation; omit to use the scenario's fixed inflation rate */
+  inflation?: {
+    /** Mean annual inflation as percentage (default scenario inflation rate) */
+    meanPct?: number;
+    /** Annual inflation standard deviation as percentage */
+    volatilityPct: number;
+  };
+}
+
+/** One simulation's sampled paths, indexed by projection month */
+export interface ReturnPaths {
+  /** Annualized return percent per account for each month */
+  accountReturnPct: Record<string, number[]>;
+  /** Inflation index replacing the deterministic one (if inflation is stochastic) */
+  inflationIndex?: Map<string, number>;
+}
+
+/** Default long-run nominal assumptions */
+export const DEFAULT_ASSET_CLASSES: Record<AssetClass, AssetClassAssumption> = {
+  STOCKS: { meanPct: 7, volatilityPct: 15 },
+  BONDS: { meanPct: 3, volatilityPct: 6 },
+  CASH: { meanPct: 2, volatilityPct: 1 },
+};
+
+/** Default correlations between stocks, bonds and cash */
+export const DEFAULT_CORRELATION: number[][] = [
+  [1, 0.1, 0],
+  [0.1, 1, 0.3],
+  [0, 0.3, 1],
+];
+
+/**
+ * Compute the lower-triangular Cholesky factor of a symmetric matrix.
+ *
+ * @param matrix - Symmetric positive-definite matrix
+ * @returns Lower-triangular L where L * L^T = matrix
+ * @throws Error if the matrix is not positive definite
+ */
+export function choleskyDecompose(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower: number[][] = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= lower[i][k] * lower[j][k];
+      }
+
+      if (i === j) {
+        if (sum <= 0) {
+          throw new Error("Correlation matrix must be positive definite");
+        }
+        lower[i][j] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+
+  return lower;
+}
+
+/**
+ * Validate a return model configuration.
+ *
+ * @param model - Return model configuration
+ * @param accountIds - IDs of the scenario's accounts
+ * @throws Error describing the first problem found
+ */
+export function validateReturnModel(model: ReturnModelConfig, accountIds: string[]): void {
+  const correlation = model.correlation ?? DEFAULT_CORRELATION;
+  const n = ASSET_CLASSES.length;
+
+  if (correlation.length !== n || correlation.some((row) => row.length !== n)) {
+    throw new Error(`Correlation matrix must be ${n}x${n} (stocks, bonds, cash)`);
+  }
+  for (let i = 0; i < n; i++) {
+    if (correlation[i][i] !== 1) {
+      throw new Error("Correlation matrix diagonal must be 1");
+    }
+    for (let j = 0; j < n; j++) {
+      if (correlation[i][j] !== correlation[j][i] || Math.abs(correlation[i][j]) > 1) {
+        throw new Error("Correlation matrix must be symmetric with values between -1 and 1");
+      }
+    }
+  }
+  choleskyDecompose(correlation);
+
+  for (const assumption of Object.values(model.assetClasses ?? {})) {
+    if (assumption && assumption.volatilityPct < 0) {
+      throw new Error("Asset class volatility cannot be negative");
+    }
+  }
+
+  if (model.degreesOfFreedom !== undefined && model.degreesOfFreedom <= 2) {
+    throw new Error("Student-t degrees of freedom must be greater than 2");
+  }
+
+  if (model.inflation && model.inflation.volatilityPct < 0) {
+    throw new Error("Inflation volatility cannot be negative");
+  }
+
+  validateAllocations(model.allocations ?? {}, accountIds);
+}
+
+/**
+ * Validate per-account asset-class allocations.
+ *
+ * @param allocations - Allocation percentages by account ID
+ * @param accountIds - IDs of the scenario's accounts
+ * @throws Error if an allocation names an unknown account or does not sum to 100%
+ */
+export function validateAllocations(
+  allocations: Record<string, Partial<Record<AssetClass, number>>>,
+  accountIds: string[]
+): void {
+  for (const [accountId, allocation] of Object.entries(allocations)) {
+    if (!accountIds.includes(accountId)) {
+      throw new Error(`Allocation references non-existent account: ${accountId}`);
+    }
+    validateAllocationTotal(allocation, `account ${accountId}`);
+  }
+}
+
+/**
+ * Check that an allocation sums to 100%.
+ */
+export function validateAllocationTotal(
+  allocation: Partial<Record<AssetClass, number>>,
+  label: string
+): void {
+  const total = Object.values(allocation).reduce((sum, pct) => sum + (pct ?? 0), 0);
+  if (Math.abs(total - 100) > 0.01) {
+    throw new Error(`Allocation for ${label} must sum to 100%`);
+  }
+}
+
+/**
+ * Draw one period's annualized asset-class returns.
+ * Monthly draws are scaled so the projection's annual/12 conversion
+ * recovers a monthly return with the class's annual mean and volatility.
+ */
+function drawAssetClassReturns(
+  classes: Record<AssetClass, AssetClassAssumption>,
+  cholesky: number[][],
+  periodsPerYear: number,
+  degreesOfFreedom: number | undefined,
+  rng: () => number
+): number[] {
+  const z = ASSET_CLASSES.map(() => normalRandom(0, 1, rng));
+
+  // Shared scale turns correlated normals into a unit-variance multivariate t
+  const tailScale = degreesOfFreedom
+    ? Math.sqrt((degreesOfFreedom - 2) / chiSquareRandom(degreesOfFreedom, rng))
+    : 1;
+
+  return ASSET_CLASSES.map((cls, i) => {
+    let shock = 0;
+    for (let j = 0; j <= i; j++) {
+      shock += cholesky[i][j] * z[j];
+    }
+    const { meanPct, volatilityPct } = classes[cls];
+    return meanPct + volatilityPct * Math.sqrt(periodsPerYear) * shock * tailScale;
+  });
+}
+
+/**
+ * Sample one simulation's return and inflation paths.
+ *
+ * @param model - Validated return model configuration
+ * @param accounts - Account definitions
+ * @param monthKeys - Projection months (YYYY-MM)
+ * @param baseInflationPct - Scenario inflation rate used as the default mean
+ * @param rng - Random number generator
+ * @returns Per-account annualized returns and optional inflation index by month
+ */
+export function generateReturnPaths(
+  model: ReturnModelConfig,
+  accounts: InvestmentAccountDTO[],
+  monthKeys: string[],
+  baseInflationPct: number,
+  rng: () => number
+): ReturnPaths {
+  const classes = { ...DEFAULT_ASSET_CLASSES, ...model.assetClasses } as Record<
+    AssetClass,
+    AssetClassAssumption
+  >;
+  const cholesky = choleskyDecompose(model.correlation ?? DEFAULT_CORRELATION);
+  const monthly = model.step === "MONTH";
+  const periodsPerYear = monthly ? 12 : 1;
+  const stocksIndex = ASSET_CLASSES.indexOf("STOCKS");
+
+  const accountReturnPct: Record<string, number[]> = {};
+  for (const account of accounts) {
+    accountReturnPct[account.id] = [];
+  }
+  const inflationRates: number[] = [];
+
+  let draws: number[] = [];
+  let inflationDraw = baseInflationPct;
+  let currentPeriod = "";
+
+  for (const monthKey of monthKeys) {
+    const period = monthly ? monthKey : monthKey.slice(0, 4);
+    if (period !== currentPeriod) {
+      currentPeriod = period;
+      draws = drawAssetClassReturns(
+        classes,
+        cholesky,
+        periodsPerYear,
+        model.degreesOfFreedom,
+        rng
+      );
+      if (model.inflation) {
+        inflationDraw = normalRandom(
+          model.inflation.meanPct ?? baseInflationPct,
+          model.inflation.volatilityPct * Math.sqrt(periodsPerYear),
+          rng
+        );
+      }
+    }
+
+    for (const account of accounts) {
+      const allocation = model.allocations?.[account.id];
+      const pct = allocation
+        ? ASSET_CLASSES.reduce((sum, cls, i) => sum + ((allocation[cls] ?? 0) / 100) * draws[i], 0)
+        : account.expectedReturnPct + draws[stocksIndex] - classes.STOCKS.meanPct;
+      accountReturnPct[account.id].push(round(pct, 4));
+    }
+    inflationRates.push(inflationDraw);
+  }
+
+  if (!model.inflation) {
+    return { accountReturnPct };
+  }
+
+  // Compound each month's inflation into the index, starting at 1
+  const inflationIndex = new Map<string, number>();
+  let level = 1;
+  monthKeys.forEach((monthKey, i) => {
+    if (i > 0) {
+      level *= 1 + inflationRates[i - 1] / 100 / 12;
+    }
+    inflationIndex.set(monthKey, round(level, 6));
+  });
+
+  return { accountReturnPct, inflationIndex };
+}
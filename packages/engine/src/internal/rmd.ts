@@ -0,0 +1,146 @@
+/**
+ * Required Minimum Distributions for TRADITIONAL accounts.
+ * Uses the IRS Uniform Lifetime Table (effective 2022) and SECURE 2.0 start ages.
+ */
+import type { InvestmentAccountDTO, MemberDTO } from "../types";
+import { round } from "./math";
+import type { AccountState } from "./accounts";
+import { drawFromAccount } from "./withdrawals";
+
+/**
+ * IRS Uniform Lifetime Table distribution periods by age.
+ */
+const UNIFORM_LIFETIME_TABLE: Record<number, number> = {
+  72: 27.4, 73: 26.5, 74: 25.5, 75: 24.6, 76: 23.7, 77: 22.9, 78: 22.0, 79: 21.1,
+  80: 20.2, 81: 19.4, 82: 18.5, 83: 17.7, 84: 16.8, 85: 16.0, 86: 15.2, 87: 14.4,
+  88: 13.7, 89: 12.9, 90: 12.2, 91: 11.5, 92: 10.8, 93: 10.1, 94: 9.5, 95: 8.9,
+  96: 8.4, 97: 7.8, 98: 7.3, 99: 6.8, 100: 6.4, 101: 6.0, 102: 5.6, 103: 5.2,
+  104: 4.9, 105: 4.6, 106: 4.3, 107: 4.1, 108: 3.9, 109: 3.7, 110: 3.5, 111: 3.4,
+  112: 3.3, 113: 3.1, 114: 3.0, 115: 2.9, 116: 2.8, 117: 2.7, 118: 2.5, 119: 2.3,
+  120: 2.0,
+};
+
+/**
+ * Get the age at which RMDs begin (SECURE 2.0: 73, or 75 for those born 1960 or later).
+ *
+ * @param birthYear - Member's year of birth
+ * @returns First age that requires a distribution
+ */
+export function getRmdStartAge(birthYear: number): number {
+  return birthYear >= 1960 ? 75 : 73;
+}
+
+/**
+ * Get the Uniform Lifetime Table distribution period for an age.
+ *
+ * @param age - Age attained during the distribution year
+ * @returns Distribution period, or undefined below the table
+ */
+export function getRmdDivisor(age: number): number | undefined {
+  if (age < 72) {
+    return undefined;
+  }
+  return UNIFORM_LIFETIME_TABLE[Math.min(age, 120)];
+}
+
+/**
+ * Calculate each TRADITIONAL account's required distribution for a year.
+ *
+ * @param year - Distribution year
+ * @param priorYearEndBalances - Account balances at the end of the prior year
+ * @param accountDefs - Account definitions (types and owners)
+ * @param members - Household members with birth dates
+ * @returns Record mapping account IDs to the year's required amount
+ */
+export function calculateRequiredDistributions(
+  year: number,
+  priorYearEndBalances: Record<string, number>,
+  accountDefs: InvestmentAccountDTO[],
+  members: MemberDTO[]
+): Record<string, number> {
+  const required: Record<string, number> = {};
+
+  for (const account of accountDefs) {
+    if (account.type !== "TRADITIONAL") {
+      continue;
+    }
+
+    const owner = account.memberId
+      ? members.find((m) => m.id === account.memberId)
+      : members[0];
+    if (!owner?.birthDate) {
+      continue;
+    }
+
+    const birthYear = parseInt(owner.birthDate.slice(0, 4), 10);
+    const age = year - birthYear;
+    if (age < getRmdStartAge(birthYear)) {
+      continue;
+    }
+
+    const divisor = getRmdDivisor(age);
+    const balance = priorYearEndBalances[account.id] ?? 0;
+    if (divisor === undefined || balance <= 0) {
+      continue;
+    }
+
+    required[account.id] = round(balance / divisor, 2);
+  }
+
+  return required;
+}
+
+/**
+ * Force this month's share of each outstanding required distribution.
+ * Spreads what remains of the annual requirement over the months left in
+ * the year. Modifies account states in place.
+ *
+ * @param accounts - Account states to draw from
+ * @param required - Required amount per account for the year
+ * @param takenYtd - Amount already withdrawn per account this year
+ * @param monthsLeft - Months remaining in the year, including this one
+ * @returns Total distributed this month
+ */
+export function takeRequiredDistributions(
+  accounts: AccountState[],
+  required: Record<string, number>,
+  takenYtd: Record<string, number>,
+  monthsLeft: number
+): number {
+  let total = 0;
+
+  for (const [accountId, amount] of Object.entries(required)) {
+    const account = accounts.find((a) => a.accountId === accountId);
+    const due = round((amount - (takenYtd[accountId] ?? 0)) / Math.max(1, monthsLeft), 2);
+    if (!account || due <= 0) {
+      continue;
+    }
+    total += drawFromAccount(account, due, "TRADITIONAL").drawn;
+  }
+
+  return round(total, 2);
+}
+
+/**
+ * Count this period's withdrawals toward each account's annual requirement.
+ * Any withdrawal from a TRADITIONAL account satisfies its RMD.
+ *
+ * @param accounts - Account states with this period's withdrawals
+ * @param required - Required amount per account for the year
+ * @param takenYtd - Running total per account, updated in place
+ */
+export function recordDistributionsTaken(
+  accounts: AccountState[],
+  required: Record<string, number>,
+  takenYtd: Record<string, number>
+): void {
+  for (const account of accounts) {
+    if (required[account.accountId] === undefined) {
+      continue;
+    }
+    takenYtd[account.accountId] = round(
+      (takenYtd[account.accountId] ?? 0) + account.withdrawals,
+      2
+    );
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * Sensitivity (tornado) analysis.
+ * Shifts each key assumption down and up in turn, re-runs the projection
+ * and reports how far each outcome metric moves from the baseline, so the
+ * assumptions that matter most for a household can be ranked.
+ */
+import type { ExpenseDTO, IncomeDTO, ScenarioInputDTO } from "../types";
+import { round } from "./math";
+import { addMonths, formatISO, parseISO } from "./dates";
+import { prepareInput } from "./normalize";
+import { runProjection, type MonthState } from "./projection";
+import { runMonteCarlo, type MonteCarloConfig } from "./montecarlo";
+
+/** Assumption shifted for one bar of the tornado */
+export type SensitivityAssumption =
+  | "INFLATION"
+  | "ACCOUNT_RETURN"
+  | "INCOME_GROWTH"
+  | "EXPENSE_GROWTH"
+  | "RETIREMENT_DATE"
+  | "LOAN_RATE";
+
+/** Outcome metric measured for each shift */
+export type SensitivityMetric = "END_NET_WORTH" | "YEARS_TO_FI" | "SUCCESS_RATE";
+
+/** Metric values for one run; null where a metric is never reached */
+export type SensitivityMetricValues = Partial<Record<SensitivityMetric, number | null>>;
+
+/** Configuration for a sensitivity analysis */
+export interface SensitivityConfig {
+  /** Metrics to measure (default END_NET_WORTH and YEARS_TO_FI); the first orders the bars */
+  metrics?: SensitivityMetric[];
+  /** Percentage points each rate moves down and up (default 1) */
+  rateShiftPct?: number;
+  /** Months retirement moves earlier and later (default 24) */
+  retirementShiftMonths?: number;
+  /** Withdrawal rate defining financial independence (default 4) */
+  fiWithdrawalRatePct?: number;
+  /** Simulation settings for SUCCESS_RATE (default 200 runs at 15% volatility) */
+  monteCarlo?: MonteCarloConfig;
+}
+
+/** How far one metric moves when an assumption shifts down and up */
+export interface SensitivityOutcome {
+  low: number | null;
+  high: number | null;
+  lowDelta: number | null;
+  highDelta: number | null;
+}
+
+/** One bar of the tornado chart */
+export interface SensitivityBar {
+  id: string;
+  assumption: SensitivityAssumption;
+  label: string;
+  /** Size of the shift each way, in percentage points (months for retirement) */
+  shift: number;
+  outcomes: Partial<Record<SensitivityMetric, SensitivityOutcome>>;
+  /** Spread between the low and high values of the first metric */
+  swing: number;
+}
+
+/** Complete sensitivity result */
+export interface SensitivityResultDTO {
+  metrics: SensitivityMetric[];
+  baseline: SensitivityMetricValues;
+  /** Bars ordered by swing, largest first */
+  bars: SensitivityBar[];
+}
+
+/** Default simulation settings for SUCCESS_RATE */
+const DEFAULT_MONTE_CARLO: MonteCarloConfig = { simulations: 200, volatilityPct: 15, seed: 42 };
+
+/**
+ * A shifted copy of the input for each direction.
+ */
+interface Perturbation {
+  id: string;
+  assumption: SensitivityAssumption;
+  label: string;
+  shift: number;
+  apply: (input: ScenarioInputDTO, direction: -1 | 1) => ScenarioInputDTO;
+}
+
+/**
+ * Shift an income or expense's growth rate, turning a fixed amount or one
+ * that tracks inflation into an explicit growth percentage.
+ */
+function shiftGrowth<T extends IncomeDTO | ExpenseDTO>(
+  item: T,
+  shiftPct: number,
+  inflationRatePct: number
+): T {
+  let basePct = 0;
+  if (item.growthRule === "TRACK_INFLATION") {
+    basePct = inflationRatePct;
+  } else if (item.growthRule === "CUSTOM_PERCENT") {
+    basePct = item.growthPct ?? 0;
+  }
+  return { ...item, growthRule: "CUSTOM_PERCENT", growthPct: round(basePct + shiftPct, 4) };
+}
+
+/**
+ * Check whether an earned income ends within the projection, marking a
+ * retirement date that can be moved.
+ */
+function isRetiringIncome(income: IncomeDTO, input: ScenarioInputDTO): boolean {
+  return (
+    (income.type ?? "EARNED") === "EARNED" &&
+    !!income.endDate &&
+    income.endDate < input.household.endDate
+  );
+}
+
+/**
+ * Build the perturbations that apply to a scenario. Assumptions the
+ * scenario does not use (no loans, no retirement date) are left out.
+ */
+function buildPerturbations(
+  input: ScenarioInputDTO,
+  rateShiftPct: number,
+  retirementShiftMonths: number
+): Perturbation[] {
+  const perturbations: Perturbation[] = [
+    {
+      id: "INFLATION",
+      assumption: "INFLATION",
+      label: "Inflation",
+      shift: rateShiftPct,
+      apply: (scenario, direction) => ({
+        ...scenario,
+        assumptions: {
+          ...scenario.assumptions,
+          inflationRatePct: scenario.assumptions.inflationRatePct + direction * rateShiftPct,
+        },
+      }),
+    },
+  ];
+
+  for (const account of input.accounts) {
+    perturbations.push({
+      id: `ACCOUNT_RETURN:${account.id}`,
+      assumption: "ACCOUNT_RETURN",
+      label: `Return: ${account.name}`,
+      shift: rateShiftPct,
+      apply: (scenario, direction) => ({
+        ...scenario,
+        accounts: scenario.accounts.map((a) =>
+          a.id === account.id
+            ? { ...a, expectedReturnPct: a.expectedReturnPct + direction * rateShiftPct }
+            : a
+        ),
+      }),
+    });
+  }
+
+  if (input.incomes.some((income) => (income.type ?? "EARNED") === "EARNED")) {
+    perturbations.push({
+      id: "INCOME_GROWTH",
+      assumption: "INCOME_GROWTH",
+      label: "Income growth",
+      shift: rateShiftPct,
+      apply: (scenario, direction) => ({
+        ...scenario,
+        incomes: scenario.incomes.map((income) =>
+          (income.type ?? "EARNED") === "EARNED"
+            ? shiftGrowth(income, direction * rateShiftPct, scenario.assumptions.inflationRatePct)
+            : income
+        ),
+      }),
+    });
+  }
+
+  if (input.expenses.length > 0) {
+    perturbations.push({
+      id: "EXPENSE_GROWTH",
+      assumption: "EXPENSE_GROWTH",
+      label: "Expense growth",
+      shift: rateShiftPct,
+      apply: (scenario, direction) => ({
+        ...scenario,
+        expenses: scenario.expenses.map((expense) =>
+          shiftGrowth(expense, direction * rateShiftPct, scenario.assumptions.inflationRatePct)
+        ),
+      }),
+    });
+  }
+
+  if (input.incomes.some((income) => isRetiringIncome(income, input))) {
+    perturbations.push({
+      id: "RETIREMENT_DATE",
+      assumption: "RETIREMENT_DATE",
+      label: "Retirement date",
+      shift: retirementShiftMonths,
+      apply: (scenario, direction) => ({
+        ...scenario,
+        incomes: scenario.incomes.map((income) =>
+          isRetiringIncome(income, scenario)
+            ? {
+                ...income,
+                endDate: formatISO(
+                  addMonths(parseISO(income.endDate!), direction * retirementShiftMonths)
+                ),
+              }
+            : income
+        ),
+      }),
+    });
+  }
+
+  if (input.loans.length > 0) {
+    perturbations.push({
+      id: "LOAN_RATE",
+      assumption: "LOAN_RATE",
+      label: "Loan rates",
+      shift: rateShiftPct,
+      apply: (scenario, direction) => ({
+        ...scenario,
+        loans: scenario.loans.map((loan) => ({
+          ...loan,
+          aprPct: Math.max(0, loan.aprPct + direction * rateShiftPct),
+        })),
+      }),
+    });
+  }
+
+  return perturbations;
+}
+
+/**
+ * Get the years until investable assets (accounts and cash) first cover a
+ * year of that month's expenses at the withdrawal rate.
+ *
+ * @param months - Projected months
+ * @param withdrawalRatePct - Safe withdrawal rate
+ * @returns Years from the start, or null if never reached
+ */
+export function calculateYearsToFI(months: MonthState[], withdrawalRatePct: number): number | null {
+  for (let i = 0; i < months.length; i++) {
+    const month = months[i];
+    const investable =
+      Object.values(month.accountBalances).reduce((total, balance) => total + balance, 0) +
+      month.cashBalance;
+    if ((investable * withdrawalRatePct) / 100 >= month.expenses * 12) {
+      return round(i / 12, 1);
+    }
+  }
+  return null;
+}
+
+/**
+ * Measure the chosen metrics for one input.
+ */
+function evaluateMetrics(
+  input: ScenarioInputDTO,
+  metrics: SensitivityMetric[],
+  fiWithdrawalRatePct: number,
+  monteCarlo: MonteCarloConfig
+): SensitivityMetricValues {
+  const values: SensitivityMetricValues = {};
+
+  if (metrics.includes("END_NET_WORTH") || metrics.includes("YEARS_TO_FI")) {
+    const { months } = runProjection(prepareInput(input));
+    if (metrics.includes("END_NET_WORTH")) {
+      values.END_NET_WORTH = months[months.length - 1].netWorth;
+    }
+    if (metrics.includes("YEARS_TO_FI")) {
+      values.YEARS_TO_FI = calculateYearsToFI(months, fiWithdrawalRatePct);
+    }
+  }
+
+  if (metrics.includes("SUCCESS_RATE")) {
+    values.SUCCESS_RATE = runMonteCarlo(input, monteCarlo).successRate;
+  }
+
+  return values;
+}
+
+/**
+ * Get the change from a baseline value, if both exist.
+ */
+function getDelta(value: number | null | undefined, baseline: number | null | undefined): number | null {
+  return value === null || value === undefined || baseline === null || baseline === undefined
+    ? null
+    : round(value - baseline, 2);
+}
+
+/**
+ * Run a sensitivity analysis: shift inflation, each account's return,
+ * income and expense growth, the retirement date and loan rates down and
+ * up, and measure each metric against the baseline.
+ *
+ * @param input - Scenario input (will be normalized internally)
+ * @param config - Metrics and shift sizes
+ * @returns Baseline metrics and one bar per assumption, largest swing first
+ * @throws Error if input validation fails
+ */
+export function runSensitivityAnalysis(
+  input: ScenarioInputDTO,
+  config: SensitivityConfig = {}
+): SensitivityResultDTO {
+  const metrics: SensitivityMetric[] = config.metrics?.length
+    ? config.metrics
+    : ["END_NET_WORTH", "YEARS_TO_FI"];
+  const rateShiftPct = config.rateShiftPct ?? 1;
+  const retirementShiftMonths = config.retirementShiftMonths ?? 24;
+  const fiWithdrawalRatePct = config.fiWithdrawalRatePct ?? 4;
+  const monteCarlo = config.monteCarlo ?? DEFAULT_MONTE_CARLO;
+
+  // Normalize once so every shift starts from the same defaults
+  const normalized = prepareInput(input);
+  const evaluate = (scenario: ScenarioInputDTO) =>
+    evaluateMetrics(scenario, metrics, fiWithdrawalRatePct, monteCarlo);
+
+  const baseline = evaluate(normalized);
+
+  const bars = buildPerturbations(normalized, rateShiftPct, retirementShiftMonths).map(
+    (perturbation): SensitivityBar => {
+      const low = evaluate(perturbation.apply(normalized, -1));
+      const high = evaluate(perturbation.apply(normalized, 1));
+
+      const outcomes: SensitivityBar["outcomes"] = {};
+      for (const metric of metrics) {
+        outcomes[metric] = {
+          low: low[metric] ?? null,
+          high: high[metric] ?? null,
+          lowDelta: getDelta(low[metric], baseline[metric]),
+          highDelta: getDelta(high[metric], baseline[metric]),
+        };
+      }
+
+      const primary = outcomes[metrics[0]]!;
+      return {
+        id: perturbation.id,
+        assumption: perturbation.assumption,
+        label: perturbation.label,
+        shift: perturbation.shift,
+        outcomes,
+        swing: round(Math.abs((primary.highDelta ?? 0) - (primary.lowDelta ?? 0)), 2),
+      };
+    }
+  );
+
+  bars.sort((a, b) => b.swing - a.swing);
+
+  return { metrics, baseline, bars };
+}
@@ -0,0 +1,342 @@
+/**
+ * Goal-seeking solver.
+ * Binary-searches one decision variable - retirement date, extra savings,
+ * annual spending or a contribution amount - for the value that just meets
+ * a target: an ending net worth, a Monte Carlo success rate or a funded goal.
+ */
+import type { ISODate, ProjectionResultDTO, ScenarioInputDTO } from "../types";
+import { runEngine } from "../contract";
+import { round } from "./math";
+import { addMonths, formatISO, parseISO, startOfMonth } from "./dates";
+import { generateMonthRange, normalizeToMonthly } from "./schedules";
+import { prepareInput } from "./normalize";
+import { runProjection } from "./projection";
+import { isGoalMet } from "./goals";
+import { runMonteCarlo, type MonteCarloConfig, type MonteCarloResultDTO } from "./montecarlo";
+
+/** Decision variable the solver searches */
+export type SolveVariable =
+  | {
+      /** First month without earned income; earlier is harder to meet */
+      type: "RETIREMENT_DATE";
+      /** Earned incomes that stop at retirement (default all) */
+      incomeIds?: string[];
+    }
+  | {
+      /** Extra monthly savings into an account from the projection start */
+      type: "EXTRA_SAVINGS";
+      accountId: string;
+    }
+  | {
+      /** Annual spending across the chosen expenses, in today's dollars */
+      type: "ANNUAL_SPENDING";
+      /** Expenses scaled to the solved total (default all) */
+      expenseIds?: string[];
+    }
+  | {
+      /** Monthly amount of an account's contribution rules */
+      type: "CONTRIBUTION";
+      accountId: string;
+    };
+
+/** Metric the solved value must meet */
+export type SolveTarget =
+  | { type: "ENDING_NET_WORTH"; minimum: number }
+  | { type: "SUCCESS_RATE"; minimumPct: number; monteCarlo: MonteCarloConfig }
+  | { type: "GOAL_FUNDED"; goalId: string };
+
+/** Configuration for a solve */
+export interface SolveConfig {
+  variable: SolveVariable;
+  target: SolveTarget;
+  /** Lower search bound (default 0) */
+  min?: number;
+  /**
+   * Upper search bound (default: the horizon for retirement, $50,000 a
+   * month for savings and contributions, 10x current spending)
+   */
+  max?: number;
+  /** Search stops once the bounds are this close (default 1; months for retirement) */
+  tolerance?: number;
+}
+
+/** Solver result */
+export interface SolveResultDTO {
+  /**
+   * Solved value: months from the start for retirement, a monthly amount
+   * for savings and contributions, an annual amount for spending. Null if
+   * no value within the bounds meets the target.
+   */
+  value: number | null;
+  /** First month without earned income, for RETIREMENT_DATE */
+  retirementDate?: ISODate;
+  /** Target metric at the solved value (or the best bound if not feasible) */
+  metric: number;
+  /** Number of projections run while searching */
+  iterations: number;
+  /** Projection at the solved value (or the best bound if not feasible) */
+  projection: ProjectionResultDTO;
+  /** Monte Carlo result at the solved value, for SUCCESS_RATE targets */
+  monteCarlo?: MonteCarloResultDTO;
+}
+
+/** Upper bound on search steps */
+const MAX_ITERATIONS = 40;
+
+/** Default upper bound for monthly savings and contribution amounts */
+const DEFAULT_MAX_MONTHLY_AMOUNT = 50000;
+
+/** Default upper bound for spending, as a multiple of current spending */
+const DEFAULT_MAX_SPENDING_MULTIPLE = 10;
+
+/**
+ * Outcome of one evaluation of the target.
+ */
+interface Evaluation {
+  met: boolean;
+  metric: number;
+  monteCarlo?: MonteCarloResultDTO;
+}
+
+/**
+ * Whether raising the variable makes the target easier to meet. Spending
+ * is the only variable searched for its largest passing value.
+ */
+function isIncreasingBetter(variable: SolveVariable): boolean {
+  return variable.type !== "ANNUAL_SPENDING";
+}
+
+/**
+ * Get the current annual spending across the chosen expenses.
+ */
+function getAnnualSpending(input: ScenarioInputDTO, expenseIds?: string[]): number {
+  return round(
+    input.expenses
+      .filter((expense) => !expenseIds || expenseIds.includes(expense.id))
+      .reduce((total, expense) => total + normalizeToMonthly(expense.amount, expense.frequency) * 12, 0),
+    2
+  );
+}
+
+/**
+ * Get the first day of the month a number of months after the start.
+ */
+function getMonthDate(input: ScenarioInputDTO, months: number): ISODate {
+  return formatISO(addMonths(startOfMonth(parseISO(input.household.startDate)), months));
+}
+
+/**
+ * Apply a value of the decision variable to the input.
+ *
+ * @param input - Scenario input
+ * @param variable - Decision variable
+ * @param value - Value to apply
+ * @returns Input with the variable set
+ */
+export function applySolveVariable(
+  input: ScenarioInputDTO,
+  variable: SolveVariable,
+  value: number
+): ScenarioInputDTO {
+  switch (variable.type) {
+    case "RETIREMENT_DATE": {
+      // Earned income is last paid the month before retirement
+      const endDate = getMonthDate(input, Math.round(value) - 1);
+      return {
+        ...input,
+        incomes: input.incomes.map((income) => {
+          const stops =
+            (income.type ?? "EARNED") === "EARNED" &&
+            (!variable.incomeIds || variable.incomeIds.includes(income.id));
+          return stops && (!income.endDate || income.endDate > endDate)
+            ? { ...income, endDate }
+            : income;
+        }),
+      };
+    }
+
+    case "EXTRA_SAVINGS":
+      return {
+        ...input,
+        contributions: [
+          ...input.contributions,
+          { accountId: variable.accountId, amountMonthly: value, startDate: input.household.startDate },
+        ],
+      };
+
+    case "ANNUAL_SPENDING": {
+      const factor = value / getAnnualSpending(input, variable.expenseIds);
+      return {
+        ...input,
+        expenses: input.expenses.map((expense) =>
+          !variable.expenseIds || variable.expenseIds.includes(expense.id)
+            ? { ...expense, amount: round(expense.amount * factor, 2) }
+            : expense
+        ),
+      };
+    }
+
+    case "CONTRIBUTION":
+      return {
+        ...input,
+        contributions: input.contributions.map((rule) =>
+          rule.accountId === variable.accountId ? { ...rule, amountMonthly: value } : rule
+        ),
+      };
+  }
+}
+
+/**
+ * Evaluate the target for an input.
+ */
+function evaluateTarget(input: ScenarioInputDTO, target: SolveTarget): Evaluation {
+  if (target.type === "SUCCESS_RATE") {
+    const monteCarlo = runMonteCarlo(input, target.monteCarlo);
+    return {
+      met: monteCarlo.successRate >= target.minimumPct,
+      metric: monteCarlo.successRate,
+      monteCarlo,
+    };
+  }
+
+  const prepared = prepareInput(input);
+  const { months, goalShortfalls } = runProjection(prepared);
+  const finalNetWorth = months[months.length - 1].netWorth;
+
+  if (target.type === "ENDING_NET_WORTH") {
+    return { met: finalNetWorth >= target.minimum, metric: finalNetWorth };
+  }
+
+  const goal = prepared.goals.find((g) => g.id === target.goalId)!;
+  const met = isGoalMet(goal, goalShortfalls, finalNetWorth);
+  const shortfall =
+    goal.id in goalShortfalls
+      ? goalShortfalls[goal.id]
+      : Math.max(0, goal.targetAmountReal - finalNetWorth);
+  return { met, metric: met ? 0 : round(shortfall, 2) };
+}
+
+/**
+ * Check that the variable and target refer to records in the input.
+ *
+ * @throws Error if a referenced record is missing
+ */
+function validateSolveConfig(input: ScenarioInputDTO, config: SolveConfig): void {
+  const { variable, target } = config;
+
+  if (
+    (variable.type === "EXTRA_SAVINGS" || variable.type === "CONTRIBUTION") &&
+    !input.accounts.some((a) => a.id === variable.accountId)
+  ) {
+    throw new Error(`Solve variable references non-existent account: ${variable.accountId}`);
+  }
+  if (
+    variable.type === "CONTRIBUTION" &&
+    !input.contributions.some((c) => c.accountId === variable.accountId)
+  ) {
+    throw new Error(`Account ${variable.accountId} has no contribution rule to solve`);
+  }
+  if (
+    variable.type === "ANNUAL_SPENDING" &&
+    getAnnualSpending(input, variable.expenseIds) <= 0
+  ) {
+    throw new Error("Annual spending solve requires expenses to scale");
+  }
+  if (target.type === "GOAL_FUNDED" && !input.goals.some((g) => g.id === target.goalId)) {
+    throw new Error(`Solve target references non-existent goal: ${target.goalId}`);
+  }
+  if (config.min !== undefined && config.max !== undefined && config.min > config.max) {
+    throw new Error("Solve bounds must have min below max");
+  }
+}
+
+/**
+ * Solve for the value of one decision variable that just meets a target.
+ *
+ * Values that make the target easier - later retirement, more savings or
+ * contributions, less spending - are assumed to keep meeting it, so the
+ * search returns the earliest retirement, the smallest savings or
+ * contribution, or the largest spending that passes.
+ *
+ * @param input - Scenario input (will be normalized internally)
+ * @param config - Variable, target and search bounds
+ * @returns Solved value with the projection at that value
+ * @throws Error if the input or configuration is invalid
+ *
+ * @example
+ * ```typescript
+ * const result = solve(input, {
+ *   variable: { type: "ANNUAL_SPENDING" },
+ *   target: { type: "SUCCESS_RATE", minimumPct: 90, monteCarlo: { simulations: 500, volatilityPct: 15 } },
+ * });
+ * ```
+ */
+export function solve(input: ScenarioInputDTO, config: SolveConfig): SolveResultDTO {
+  // Fail fast on an invalid scenario before searching
+  prepareInput(input);
+  validateSolveConfig(input, config);
+
+  const { variable, target } = config;
+  const isRetirement = variable.type === "RETIREMENT_DATE";
+  const monthCount = generateMonthRange(input.household.startDate, input.household.endDate).length;
+
+  let defaultMax = DEFAULT_MAX_MONTHLY_AMOUNT;
+  if (isRetirement) {
+    defaultMax = monthCount;
+  } else if (variable.type === "ANNUAL_SPENDING") {
+    defaultMax = getAnnualSpending(input, variable.expenseIds) * DEFAULT_MAX_SPENDING_MULTIPLE;
+  }
+  const tolerance = Math.max(config.tolerance ?? 1, isRetirement ? 1 : 0.01);
+  const increasing = isIncreasingBetter(variable);
+
+  let iterations = 0;
+  const evaluate = (value: number): Evaluation => {
+    iterations++;
+    return evaluateTarget(applySolveVariable(input, variable, value), target);
+  };
+
+  // Bounds where the target is hardest and easiest to meet
+  const worst = increasing ? (config.min ?? 0) : (config.max ?? defaultMax);
+  const best = increasing ? (config.max ?? defaultMax) : (config.min ?? 0);
+
+  let value: number | null;
+  let atBest = evaluate(best);
+  if (!atBest.met) {
+    value = null;
+  } else {
+    const atWorst = evaluate(worst);
+    if (atWorst.met) {
+      value = worst;
+      atBest = atWorst;
+    } else {
+      // Narrow the gap between the passing and failing values
+      let pass = best;
+      let fail = worst;
+      while (Math.abs(pass - fail) > tolerance && iterations < MAX_ITERATIONS) {
+        const mid = isRetirement ? Math.floor((pass + fail) / 2) : round((pass + fail) / 2, 2);
+        if (mid === pass || mid === fail) {
+          break;
+        }
+        const result = evaluate(mid);
+        if (result.met) {
+          pass = mid;
+          atBest = result;
+        } else {
+          fail = mid;
+        }
+      }
+      value = pass;
+    }
+  }
+
+  const solvedValue = value ?? best;
+  return {
+    value,
+    retirementDate:
+      isRetirement && value !== null ? getMonthDate(input, Math.round(value)) : undefined,
+    metric: atBest.metric,
+    iterations,
+    projection: runEngine(applySolveVariable(input, variable, solvedValue)),
+    monteCarlo: atBest.monteCarlo,
+  };
+}
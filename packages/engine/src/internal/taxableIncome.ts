@@ -0,0 +1,93 @@
+/**
+ * Taxable-account distributions and realized gains.
+ * TAXABLE accounts pay out interest and qualified dividends and realize
+ * short/long-term gains each month; everything is reinvested, so the
+ * balance is unchanged but the cost basis rises and the income is taxed.
+ */
+import type { InvestmentAccountDTO, ScenarioAssumptionsDTO } from "../types";
+import { round } from "./math";
+import type { AccountState } from "./accounts";
+import type { InvestmentIncome } from "./taxes";
+
+/**
+ * One month of taxable-account income, by kind.
+ */
+export interface TaxableAccountIncome {
+  interest: number;
+  qualifiedDividends: number;
+  shortTermGains: number;
+  longTermGains: number;
+}
+
+/**
+ * Annual tax drag above which HIGH_TAX_DRAG is raised,
+ * as a percentage of year-end taxable balances.
+ */
+export const HIGH_TAX_DRAG_THRESHOLD_PCT = 1;
+
+/**
+ * Generate this month's interest, dividends and realized gains on
+ * TAXABLE accounts. Yields apply to the balance; realization rates are
+ * the share of the balance sold each year, of which only the unrealized
+ * gain is taxable. Reinvested amounts are added to cost basis.
+ * Modifies account states in place.
+ *
+ * @param accounts - Account states to update
+ * @param accountDefs - Account definitions (types)
+ * @param assumptions - Yield and realization assumptions (annual percentages)
+ * @returns Income generated this month across all TAXABLE accounts
+ */
+export function accrueTaxableIncome(
+  accounts: AccountState[],
+  accountDefs: InvestmentAccountDTO[],
+  assumptions: ScenarioAssumptionsDTO
+): TaxableAccountIncome {
+  const total: TaxableAccountIncome = {
+    interest: 0,
+    qualifiedDividends: 0,
+    shortTermGains: 0,
+    longTermGains: 0,
+  };
+
+  for (const state of accounts) {
+    const def = accountDefs.find((a) => a.id === state.accountId);
+    if (def?.type !== "TAXABLE" || state.balance <= 0) {
+      continue;
+    }
+
+    const gainShare = Math.max(0, state.balance - state.costBasis) / state.balance;
+    const interest = round((state.balance * assumptions.taxableInterestYieldPct) / 1200, 2);
+    const dividends = round((state.balance * assumptions.taxableDividendYieldPct) / 1200, 2);
+    const shortTerm = round(
+      ((state.balance * assumptions.realizedStGainPct) / 1200) * gainShare,
+      2
+    );
+    const longTerm = round(
+      ((state.balance * assumptions.realizedLtGainPct) / 1200) * gainShare,
+      2
+    );
+
+    state.costBasis = round(state.costBasis + interest + dividends + shortTerm + longTerm, 2);
+
+    total.interest = round(total.interest + interest, 2);
+    total.qualifiedDividends = round(total.qualifiedDividends + dividends, 2);
+    total.shortTermGains = round(total.shortTermGains + shortTerm, 2);
+    total.longTermGains = round(total.longTermGains + longTerm, 2);
+  }
+
+  return total;
+}
+
+/**
+ * Group taxable-account income by how it is taxed.
+ *
+ * @param income - Taxable-account income by kind
+ * @returns Ordinary (interest, short-term gains) and preferential
+ *   (qualified dividends, long-term gains) amounts
+ */
+export function toInvestmentIncome(income: TaxableAccountIncome): InvestmentIncome {
+  return {
+    ordinary: round(income.interest + income.shortTermGains, 2),
+    preferential: round(income.qualifiedDividends + income.longTermGains, 2),
+  };
+}
@@ -2,7 +2,7 @@
  * Tax Engine - Federal and state tax calculations.
  * Implements 2024 federal tax brackets with FICA and state taxes.
  */
-import type { TaxProfileDTO, FilingStatus } from "../types";
+import type { TaxProfileDTO, FilingStatus, TaxAnnualRow, TaxBracketRow } from "../types";
 import { round } from "./math";
 
 /**
@@ -71,6 +71,50 @@ const FICA = {
   } as Record<FilingStatus, number>,
 };
 
+/**
+ * 2024 long-term capital gains brackets by filing status: taxable income
+ * (ordinary plus preferential) up to each ceiling is taxed at that rate.
+ */
+const CAPITAL_GAINS_BRACKETS_2024: Record<FilingStatus, TaxBracket[]> = {
+  SINGLE: [
+    { min: 0, max: 47025, rate: 0 },
+    { min: 47025, max: 518900, rate: 0.15 },
+    { min: 518900, max: Infinity, rate: 0.2 },
+  ],
+  MFJ: [
+    { min: 0, max: 94050, rate: 0 },
+    { min: 94050, max: 583750, rate: 0.15 },
+    { min: 583750, max: Infinity, rate: 0.2 },
+  ],
+  HOH: [
+    { min: 0, max: 63000, rate: 0 },
+    { min: 63000, max: 551350, rate: 0.15 },
+    { min: 551350, max: Infinity, rate: 0.2 },
+  ],
+};
+
+/**
+ * Net Investment Income Tax. Thresholds are set by statute and not indexed.
+ */
+const NIIT = {
+  rate: 0.038,
+  threshold: {
+    SINGLE: 200000,
+    MFJ: 250000,
+    HOH: 200000,
+  } as Record<FilingStatus, number>,
+};
+
+/**
+ * Investment income from taxable accounts, split by how it is taxed.
+ */
+export interface InvestmentIncome {
+  ordinary: number; // Interest and short-term gains
+  preferential: number; // Qualified dividends and long-term gains
+}
+
+const NO_INVESTMENT_INCOME: InvestmentIncome = { ordinary: 0, preferential: 0 };
+
 /**
  * State income tax rates (simplified flat or effective rates).
  * For states with progressive taxes, this is an approximation.
@@ -134,16 +178,32 @@ const STATE_TAX_RATES: Record<string, number> = {
   DC: 0.105,
 };
 
+/**
+ * Get 2024 federal brackets scaled by an inflation index factor.
+ * Tax years after 2024 pass the inflation multiplier for their January.
+ */
+function getIndexedBrackets(filingStatus: FilingStatus, indexFactor: number): TaxBracket[] {
+  const brackets = FEDERAL_BRACKETS_2024[filingStatus];
+  if (indexFactor === 1) return brackets;
+
+  return brackets.map((bracket) => ({
+    min: round(bracket.min * indexFactor, 2),
+    max: bracket.max === Infinity ? Infinity : round(bracket.max * indexFactor, 2),
+    rate: bracket.rate,
+  }));
+}
+
 /**
  * Calculate federal income tax using progressive brackets.
  */
 export function calculateFederalIncomeTax(
   taxableIncome: number,
-  filingStatus: FilingStatus
+  filingStatus: FilingStatus,
+  indexFactor: number = 1
 ): number {
   if (taxableIncome <= 0) return 0;
 
-  const brackets = FEDERAL_BRACKETS_2024[filingStatus];
+  const brackets = getIndexedBrackets(filingStatus, indexFactor);
   let tax = 0;
 
   for (const bracket of brackets) {
@@ -156,6 +216,85 @@ export function calculateFederalIncomeTax(
   return round(tax, 2);
 }
 
+/**
+ * Break federal income tax down by bracket.
+ * Only brackets that receive income are returned.
+ */
+export function calculateFederalTaxByBracket(
+  taxableIncome: number,
+  filingStatus: FilingStatus,
+  indexFactor: number = 1
+): TaxBracketRow[] {
+  const rows: TaxBracketRow[] = [];
+  if (taxableIncome <= 0) return rows;
+
+  for (const bracket of getIndexedBrackets(filingStatus, indexFactor)) {
+    if (taxableIncome <= bracket.min) break;
+
+    const taxableAmount = Math.min(taxableIncome, bracket.max) - bracket.min;
+    rows.push({
+      rate: bracket.rate,
+      taxableAmount: round(taxableAmount, 2),
+      tax: round(taxableAmount * bracket.rate, 2),
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Calculate tax on qualified dividends and long-term gains.
+ * Preferential income is stacked on top of ordinary taxable income,
+ * so it fills whatever room is left in the 0% and 15% brackets.
+ *
+ * @param preferentialIncome - Taxable qualified dividends and long-term gains
+ * @param ordinaryTaxableIncome - Taxable income excluding preferential income
+ * @param filingStatus - Filing status
+ * @param indexFactor - Inflation multiplier for bracket thresholds
+ * @returns Federal tax on the preferential income
+ */
+export function calculateCapitalGainsTax(
+  preferentialIncome: number,
+  ordinaryTaxableIncome: number,
+  filingStatus: FilingStatus,
+  indexFactor: number = 1
+): number {
+  if (preferentialIncome <= 0) return 0;
+
+  const bottom = Math.max(0, ordinaryTaxableIncome);
+  const top = bottom + preferentialIncome;
+  let tax = 0;
+
+  for (const bracket of CAPITAL_GAINS_BRACKETS_2024[filingStatus]) {
+    const min = round(bracket.min * indexFactor, 2);
+    const max = bracket.max === Infinity ? Infinity : round(bracket.max * indexFactor, 2);
+    const overlap = Math.min(top, max) - Math.max(bottom, min);
+    if (overlap > 0) {
+      tax += overlap * bracket.rate;
+    }
+  }
+
+  return round(tax, 2);
+}
+
+/**
+ * Calculate the 3.8% Net Investment Income Tax.
+ *
+ * @param netInvestmentIncome - Interest, dividends and realized gains
+ * @param modifiedAgi - Modified adjusted gross income
+ * @param filingStatus - Filing status
+ * @returns NIIT on the lesser of investment income or MAGI above the threshold
+ */
+export function calculateNIIT(
+  netInvestmentIncome: number,
+  modifiedAgi: number,
+  filingStatus: FilingStatus
+): number {
+  const excess = modifiedAgi - NIIT.threshold[filingStatus];
+  if (netInvestmentIncome <= 0 || excess <= 0) return 0;
+  return round(Math.min(netInvestmentIncome, excess) * NIIT.rate, 2);
+}
+
 /**
  * Calculate FICA taxes (Social Security + Medicare).
  */
@@ -196,16 +335,62 @@ export function calculateStateTax(
 /**
  * Get standard deduction for filing status.
  */
-export function getStandardDeduction(filingStatus: FilingStatus): number {
-  return STANDARD_DEDUCTIONS_2024[filingStatus];
+export function getStandardDeduction(filingStatus: FilingStatus, indexFactor: number = 1): number {
+  return round(STANDARD_DEDUCTIONS_2024[filingStatus] * indexFactor, 2);
+}
+
+/**
+ * Get the top of the federal bracket taxed at the given rate.
+ * Returns taxable income, so add the standard deduction for gross room.
+ *
+ * @param ratePct - Bracket rate as a percentage (e.g. 12)
+ * @param filingStatus - Filing status
+ * @returns Upper bound of the bracket, or 0 if no bracket has that rate
+ */
+export function getBracketCeiling(
+  ratePct: number,
+  filingStatus: FilingStatus,
+  indexFactor: number = 1
+): number {
+  const bracket = getIndexedBrackets(filingStatus, indexFactor).find(
+    (b) => Math.abs(b.rate * 100 - ratePct) < 1e-9
+  );
+  return bracket ? bracket.max : 0;
+}
+
+/**
+ * Split a standard deduction between ordinary and preferential income.
+ * The deduction offsets ordinary income first; any excess shelters
+ * preferential income.
+ */
+function applyStandardDeduction(
+  ordinaryIncome: number,
+  preferentialIncome: number,
+  standardDeduction: number
+): { ordinaryTaxable: number; preferentialTaxable: number } {
+  const ordinaryTaxable = Math.max(0, ordinaryIncome - standardDeduction);
+  const unusedDeduction = Math.max(0, standardDeduction - ordinaryIncome);
+  return {
+    ordinaryTaxable,
+    preferentialTaxable: Math.max(0, preferentialIncome - unusedDeduction),
+  };
 }
 
 /**
  * Calculate total annual taxes for a given gross income.
+ * Other ordinary income (e.g. traditional account withdrawals) is subject
+ * to income tax but not payroll taxes. Pre-tax deductions (traditional
+ * retirement contributions) reduce income tax but not payroll taxes.
+ * Investment income from taxable accounts is taxed at ordinary or
+ * preferential rates, plus NIIT, and is exempt from payroll taxes.
  */
 export function calculateAnnualTaxes(
   grossIncome: number,
-  profile: TaxProfileDTO
+  profile: TaxProfileDTO,
+  otherOrdinaryIncome: number = 0,
+  indexFactor: number = 1,
+  preTaxDeductions: number = 0,
+  investmentIncome: InvestmentIncome = NO_INVESTMENT_INCOME
 ): {
   federal: number;
   state: number;
@@ -214,14 +399,34 @@ export function calculateAnnualTaxes(
   effectiveRate: number;
 } {
   // Calculate taxable income (gross - standard deduction)
-  const standardDeduction = getStandardDeduction(profile.filingStatus);
-  const taxableIncome = Math.max(0, grossIncome - standardDeduction);
+  const standardDeduction = getStandardDeduction(profile.filingStatus, indexFactor);
+  const ordinaryIncome =
+    grossIncome + otherOrdinaryIncome + investmentIncome.ordinary - preTaxDeductions;
+  const { ordinaryTaxable, preferentialTaxable } = applyStandardDeduction(
+    ordinaryIncome,
+    investmentIncome.preferential,
+    standardDeduction
+  );
 
-  // Federal income tax
-  const federal = calculateFederalIncomeTax(taxableIncome, profile.filingStatus);
+  // Federal income tax, with preferential income stacked on top
+  const federal = round(
+    calculateFederalIncomeTax(ordinaryTaxable, profile.filingStatus, indexFactor) +
+      calculateCapitalGainsTax(
+        preferentialTaxable,
+        ordinaryTaxable,
+        profile.filingStatus,
+        indexFactor
+      ) +
+      calculateNIIT(
+        investmentIncome.ordinary + investmentIncome.preferential,
+        ordinaryIncome + investmentIncome.preferential,
+        profile.filingStatus
+      ),
+    2
+  );
 
-  // State income tax
-  const state = calculateStateTax(taxableIncome, profile.stateCode);
+  // State income tax (no preferential rate)
+  const state = calculateStateTax(ordinaryTaxable + preferentialTaxable, profile.stateCode);
 
   // FICA (on gross wages, not reduced by deductions)
   const ficaResult = profile.includePayrollTaxes
@@ -229,7 +434,9 @@ export function calculateAnnualTaxes(
     : { total: 0 };
 
   const total = round(federal + state + ficaResult.total, 2);
-  const effectiveRate = grossIncome > 0 ? round(total / grossIncome, 4) : 0;
+  const totalIncome =
+    grossIncome + otherOrdinaryIncome + investmentIncome.ordinary + investmentIncome.preferential;
+  const effectiveRate = totalIncome > 0 ? round(total / totalIncome, 4) : 0;
 
   return {
     federal,
@@ -240,19 +447,113 @@ export function calculateAnnualTaxes(
   };
 }
 
+/**
+ * Build a full annual tax return breakdown.
+ * Wages are subject to payroll taxes; other ordinary income is not.
+ */
+export function calculateTaxReturn(
+  year: number,
+  wages: number,
+  otherOrdinaryIncome: number,
+  profile: TaxProfileDTO,
+  indexFactor: number = 1,
+  preTaxContributions: number = 0,
+  investmentIncome: InvestmentIncome = NO_INVESTMENT_INCOME
+): TaxAnnualRow {
+  const totalIncome = round(
+    wages + otherOrdinaryIncome + investmentIncome.ordinary + investmentIncome.preferential,
+    2
+  );
+  const agi = round(Math.max(0, totalIncome - preTaxContributions), 2);
+  const standardDeduction = getStandardDeduction(profile.filingStatus, indexFactor);
+  const { ordinaryTaxable, preferentialTaxable } = applyStandardDeduction(
+    wages + otherOrdinaryIncome + investmentIncome.ordinary - preTaxContributions,
+    investmentIncome.preferential,
+    standardDeduction
+  );
+  const taxableIncome = round(ordinaryTaxable + preferentialTaxable, 2);
+
+  const federalByBracket = calculateFederalTaxByBracket(
+    ordinaryTaxable,
+    profile.filingStatus,
+    indexFactor
+  );
+  const federalTax = calculateFederalIncomeTax(ordinaryTaxable, profile.filingStatus, indexFactor);
+  const capitalGainsTax = calculateCapitalGainsTax(
+    preferentialTaxable,
+    ordinaryTaxable,
+    profile.filingStatus,
+    indexFactor
+  );
+  const niit = calculateNIIT(
+    investmentIncome.ordinary + investmentIncome.preferential,
+    agi,
+    profile.filingStatus
+  );
+  const stateTax = calculateStateTax(taxableIncome, profile.stateCode);
+  const fica = profile.includePayrollTaxes
+    ? calculateFICA(wages, profile.filingStatus)
+    : { socialSecurity: 0, medicare: 0, total: 0 };
+
+  const totalTax = round(federalTax + capitalGainsTax + niit + stateTax + fica.total, 2);
+
+  return {
+    year,
+    grossIncome: {
+      wages: round(wages, 2),
+      ordinaryDistributions: round(otherOrdinaryIncome, 2),
+      investmentOrdinary: round(investmentIncome.ordinary, 2),
+      investmentPreferential: round(investmentIncome.preferential, 2),
+      total: totalIncome,
+    },
+    preTaxContributions: round(preTaxContributions, 2),
+    agi,
+    standardDeduction,
+    taxableIncome,
+    federalTax,
+    federalByBracket,
+    capitalGainsTax,
+    niit,
+    fica,
+    stateTax,
+    totalTax,
+    effectiveRate: totalIncome > 0 ? round(totalTax / totalIncome, 4) : 0,
+    marginalRate: getMarginalRate(
+      ordinaryTaxable,
+      profile.filingStatus,
+      profile.stateCode,
+      indexFactor
+    ),
+  };
+}
+
 /**
  * Calculate monthly tax withholding (estimated).
  * Assumes even distribution across the year.
  */
 export function calculateMonthlyTaxes(
   monthlyGrossIncome: number,
-  profile: TaxProfileDTO
+  profile: TaxProfileDTO,
+  monthlyOtherOrdinaryIncome: number = 0,
+  indexFactor: number = 1,
+  monthlyPreTaxDeductions: number = 0,
+  monthlyInvestmentIncome: InvestmentIncome = NO_INVESTMENT_INCOME
 ): number {
   // Annualize the income for bracket calculation
   const annualizedIncome = monthlyGrossIncome * 12;
 
   // Calculate annual taxes
-  const annual = calculateAnnualTaxes(annualizedIncome, profile);
+  const annual = calculateAnnualTaxes(
+    annualizedIncome,
+    profile,
+    monthlyOtherOrdinaryIncome * 12,
+    indexFactor,
+    monthlyPreTaxDeductions * 12,
+    {
+      ordinary: monthlyInvestmentIncome.ordinary * 12,
+      preferential: monthlyInvestmentIncome.preferential * 12,
+    }
+  );
 
   // Return monthly portion
   return round(annual.total / 12, 2);
@@ -265,9 +566,10 @@ export function calculateMonthlyTaxes(
 export function getMarginalRate(
   taxableIncome: number,
   filingStatus: FilingStatus,
-  stateCode: string
+  stateCode: string,
+  indexFactor: number = 1
 ): number {
-  const brackets = FEDERAL_BRACKETS_2024[filingStatus];
+  const brackets = getIndexedBrackets(filingStatus, indexFactor);
   let federalMarginal = 0;
 
   for (const bracket of brackets) {
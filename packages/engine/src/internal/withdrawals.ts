@@ -0,0 +1,218 @@
+/**
+ * Withdrawal sequencing across TAXABLE, TRADITIONAL and ROTH accounts.
+ * Used to cover cash deficits once surplus income no longer pays the bills.
+ */
+import type { AccountType, InvestmentAccountDTO, WithdrawalStrategyDTO } from "../types";
+import { round } from "./math";
+import type { AccountState } from "./accounts";
+
+/**
+ * Result of a single withdrawal pass.
+ */
+export interface WithdrawalResult {
+  total: number;
+  traditional: number; // Portion taxed as ordinary income
+  realizedGains: number; // Gains realized selling TAXABLE holdings, taxed at preferential rates
+}
+
+/**
+ * Result of drawing from a single account.
+ */
+export interface AccountDraw {
+  drawn: number;
+  realizedGain: number; // Gain over cost basis on the amount sold (TAXABLE accounts only)
+}
+
+/**
+ * Account type draw order for the TAXABLE_FIRST strategy.
+ */
+const TAXABLE_FIRST_ORDER: AccountType[] = ["TAXABLE", "TRADITIONAL", "ROTH"];
+
+/**
+ * Withdraw up to the given amount from a single account.
+ * Modifies account state in place.
+ *
+ * @param account - Account state to draw from
+ * @param amount - Amount wanted
+ * @param type - Account type; selling TAXABLE holdings realizes their gain
+ * @returns Amount actually withdrawn and the gain realized (losses are not deducted)
+ */
+export function drawFromAccount(
+  account: AccountState,
+  amount: number,
+  type: AccountType
+): AccountDraw {
+  const drawn = round(Math.min(amount, Math.max(0, account.balance)), 2);
+  if (drawn <= 0) {
+    return { drawn: 0, realizedGain: 0 };
+  }
+  // Sold lots take a pro-rata share of the cost basis with them
+  const basisSold = round((account.costBasis * drawn) / account.balance, 2);
+  account.costBasis = round(account.costBasis - basisSold, 2);
+  account.balance = round(account.balance - drawn, 2);
+  account.withdrawals = round(account.withdrawals + drawn, 2);
+  return {
+    drawn,
+    realizedGain: type === "TAXABLE" ? round(Math.max(0, drawn - basisSold), 2) : 0,
+  };
+}
+
+/**
+ * Move money between two accounts of the same type, such as a 401(k) to
+ * IRA rollover or an in-kind brokerage transfer. Nothing is sold or
+ * distributed: the cost basis moves with the money and neither account
+ * records a withdrawal, so the move is untaxed and does not count toward
+ * required distributions. Modifies account states in place.
+ *
+ * @returns Amount actually moved
+ */
+export function transferBetweenAccounts(
+  from: AccountState,
+  to: AccountState,
+  amount: number
+): number {
+  const moved = round(Math.min(amount, Math.max(0, from.balance)), 2);
+  if (moved <= 0) {
+    return 0;
+  }
+  const basisMoved = round((from.costBasis * moved) / from.balance, 2);
+  from.costBasis = round(from.costBasis - basisMoved, 2);
+  from.balance = round(from.balance - moved, 2);
+  to.costBasis = round(to.costBasis + basisMoved, 2);
+  to.balance = round(to.balance + moved, 2);
+  return moved;
+}
+
+/**
+ * Withdraw from accounts of the given type in definition order.
+ *
+ * @returns Amount actually withdrawn and the gains realized
+ */
+function drawFromType(
+  accounts: AccountState[],
+  typeById: Map<string, AccountType>,
+  type: AccountType,
+  amount: number
+): AccountDraw {
+  let remaining = amount;
+  let realizedGain = 0;
+  for (const account of accounts) {
+    if (remaining <= 0) break;
+    if (typeById.get(account.accountId) !== type) continue;
+    const draw = drawFromAccount(account, remaining, type);
+    remaining = round(remaining - draw.drawn, 2);
+    realizedGain = round(realizedGain + draw.realizedGain, 2);
+  }
+  return { drawn: round(amount - remaining, 2), realizedGain };
+}
+
+/**
+ * Withdraw pro-rata to each account's balance.
+ *
+ * @returns Amount actually withdrawn and the gains realized
+ */
+function drawProportionally(
+  accounts: AccountState[],
+  typeById: Map<string, AccountType>,
+  amount: number
+): AccountDraw {
+  const available = accounts.reduce((sum, a) => sum + Math.max(0, a.balance), 0);
+  if (available <= 0) {
+    return { drawn: 0, realizedGain: 0 };
+  }
+
+  const target = Math.min(amount, available);
+  let remaining = round(target, 2);
+  let realizedGain = 0;
+  const draw = (account: AccountState, want: number) => {
+    const result = drawFromAccount(account, want, typeById.get(account.accountId)!);
+    remaining = round(remaining - result.drawn, 2);
+    realizedGain = round(realizedGain + result.realizedGain, 2);
+  };
+
+  for (const account of accounts) {
+    if (remaining <= 0) break;
+    const share = round((target * Math.max(0, account.balance)) / available, 2);
+    draw(account, Math.min(share, remaining));
+  }
+
+  // Mop up rounding residue from whichever accounts still have balance
+  for (const account of accounts) {
+    if (remaining <= 0) break;
+    draw(account, remaining);
+  }
+
+  return { drawn: round(target - remaining, 2), realizedGain };
+}
+
+/**
+ * Withdraw the requested amount from accounts according to the strategy.
+ * Modifies account states in place.
+ *
+ * @param accounts - Account states to draw from
+ * @param accountDefs - Account definitions (for account types)
+ * @param amount - Amount needed
+ * @param strategy - Withdrawal order configuration
+ * @param bracketRoom - Ordinary income that still fits in the fill bracket this month
+ * @returns Total withdrawn, the traditional (ordinary income) portion and
+ *   gains realized on TAXABLE sales
+ */
+export function withdrawFromAccounts(
+  accounts: AccountState[],
+  accountDefs: InvestmentAccountDTO[],
+  amount: number,
+  strategy: WithdrawalStrategyDTO,
+  bracketRoom: number = 0
+): WithdrawalResult {
+  if (amount <= 0) {
+    return { total: 0, traditional: 0, realizedGains: 0 };
+  }
+
+  const typeById = new Map(accountDefs.map((a) => [a.id, a.type]));
+  const traditionalBefore = sumTraditionalWithdrawals(accounts, typeById);
+  let remaining = round(amount, 2);
+  let realizedGains = 0;
+
+  if (strategy.order === "PROPORTIONAL") {
+    const draw = drawProportionally(accounts, typeById, remaining);
+    remaining = round(remaining - draw.drawn, 2);
+    realizedGains = draw.realizedGain;
+  } else {
+    const steps: Array<{ type: AccountType; cap?: number }> =
+      strategy.order === "BRACKET_FILLING"
+        ? [
+            { type: "TRADITIONAL", cap: Math.max(0, bracketRoom) },
+            { type: "TAXABLE" },
+            { type: "TRADITIONAL" },
+            { type: "ROTH" },
+          ]
+        : TAXABLE_FIRST_ORDER.map((type) => ({ type }));
+
+    for (const step of steps) {
+      if (remaining <= 0) break;
+      const want = step.cap !== undefined ? Math.min(step.cap, remaining) : remaining;
+      const draw = drawFromType(accounts, typeById, step.type, want);
+      remaining = round(remaining - draw.drawn, 2);
+      realizedGains = round(realizedGains + draw.realizedGain, 2);
+    }
+  }
+
+  return {
+    total: round(amount - remaining, 2),
+    traditional: round(sumTraditionalWithdrawals(accounts, typeById) - traditionalBefore, 2),
+    realizedGains,
+  };
+}
+
+/**
+ * Sum this period's withdrawals from TRADITIONAL accounts.
+ */
+function sumTraditionalWithdrawals(
+  accounts: AccountState[],
+  typeById: Map<string, AccountType>
+): number {
+  return accounts.reduce(
+    (sum, a) => (typeById.get(a.accountId) === "TRADITIONAL" ? sum + a.withdrawals : sum),
+    0
+  );
+}
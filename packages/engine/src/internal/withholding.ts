@@ -0,0 +1,204 @@
+/**
+ * Year-to-date tax accounting.
+ * Withholds each month at the annualized rate, accumulates the year's actual
+ * income, and computes the true-up owed (or refunded) once the year closes.
+ */
+import type { TaxProfileDTO } from "../types";
+import { round } from "./math";
+import { calculateAnnualTaxes, calculateMonthlyTaxes, type InvestmentIncome } from "./taxes";
+import { calculateTaxableSocialSecurity } from "./benefits";
+
+/**
+ * Running totals for a single tax year.
+ */
+export interface TaxYearState {
+  year: number;
+  indexFactor: number; // Bracket/deduction inflation multiplier for the year
+  wages: number;
+  otherOrdinaryIncome: number;
+  preTaxDeductions: number; // Traditional payroll contributions
+  investmentIncome: InvestmentIncome; // Taxable-account distributions and gains
+  socialSecurity: number; // Benefits received; the taxable part is found at settlement
+  withheld: number;
+}
+
+/**
+ * Get the bracket indexing factor for a tax year.
+ * Brackets are reset each January from the inflation index; a projection
+ * that starts mid-year keeps unindexed brackets for that first year.
+ *
+ * @param year - Tax year
+ * @param inflationIndex - Pre-computed inflation index
+ * @returns Inflation multiplier to apply to brackets and deductions
+ */
+export function getTaxIndexFactor(year: number, inflationIndex: Map<string, number>): number {
+  return inflationIndex.get(`${year}-01`) ?? 1;
+}
+
+/**
+ * Start a new tax year with empty accumulators.
+ *
+ * @param year - Tax year
+ * @param inflationIndex - Pre-computed inflation index
+ * @returns Fresh tax year state
+ */
+export function startTaxYear(year: number, inflationIndex: Map<string, number>): TaxYearState {
+  return {
+    year,
+    indexFactor: getTaxIndexFactor(year, inflationIndex),
+    wages: 0,
+    otherOrdinaryIncome: 0,
+    preTaxDeductions: 0,
+    investmentIncome: { ordinary: 0, preferential: 0 },
+    socialSecurity: 0,
+    withheld: 0,
+  };
+}
+
+/**
+ * Income counted toward provisional income, besides half the benefits.
+ */
+function getIncomeBesidesSocialSecurity(
+  wages: number,
+  otherOrdinaryIncome: number,
+  preTaxDeductions: number,
+  investmentIncome?: InvestmentIncome
+): number {
+  return (
+    wages -
+    preTaxDeductions +
+    otherOrdinaryIncome +
+    (investmentIncome?.ordinary ?? 0) +
+    (investmentIncome?.preferential ?? 0)
+  );
+}
+
+/**
+ * Other ordinary income for a closed year, including taxable benefits.
+ */
+function getAnnualOrdinaryIncome(
+  taxYear: TaxYearState,
+  profile: TaxProfileDTO,
+  investmentIncome?: InvestmentIncome
+): number {
+  const otherIncome = getIncomeBesidesSocialSecurity(
+    taxYear.wages,
+    taxYear.otherOrdinaryIncome,
+    taxYear.preTaxDeductions,
+    investmentIncome
+  );
+  return (
+    taxYear.otherOrdinaryIncome +
+    calculateTaxableSocialSecurity(taxYear.socialSecurity, otherIncome, profile.filingStatus)
+  );
+}
+
+/**
+ * Calculate this month's withholding at the annualized rate,
+ * using the tax year's indexed brackets.
+ *
+ * @param taxYear - Current tax year state
+ * @param profile - Tax profile
+ * @param wages - This month's wages
+ * @param otherOrdinaryIncome - This month's other ordinary income
+ * @param preTaxDeductions - This month's pre-tax payroll contributions
+ * @param investmentIncome - This month's taxable-account income (paid as estimated tax)
+ * @param socialSecurity - This month's Social Security benefits
+ * @returns Amount withheld this month
+ */
+export function calculateWithholding(
+  taxYear: TaxYearState,
+  profile: TaxProfileDTO,
+  wages: number,
+  otherOrdinaryIncome: number = 0,
+  preTaxDeductions: number = 0,
+  investmentIncome?: InvestmentIncome,
+  socialSecurity: number = 0
+): number {
+  // Taxable benefits depend on the year's income, so annualize the month
+  const taxableSocialSecurity =
+    calculateTaxableSocialSecurity(
+      socialSecurity * 12,
+      getIncomeBesidesSocialSecurity(wages, otherOrdinaryIncome, preTaxDeductions, investmentIncome) * 12,
+      profile.filingStatus
+    ) / 12;
+  return calculateMonthlyTaxes(
+    wages,
+    profile,
+    otherOrdinaryIncome + taxableSocialSecurity,
+    taxYear.indexFactor,
+    preTaxDeductions,
+    investmentIncome
+  );
+}
+
+/**
+ * Add a month's income and withholding to the year-to-date totals.
+ * Modifies tax year state in place.
+ */
+export function recordTaxMonth(
+  taxYear: TaxYearState,
+  wages: number,
+  otherOrdinaryIncome: number,
+  withheld: number,
+  preTaxDeductions: number = 0,
+  investmentIncome?: InvestmentIncome,
+  socialSecurity: number = 0
+): void {
+  taxYear.wages = round(taxYear.wages + wages, 2);
+  taxYear.otherOrdinaryIncome = round(taxYear.otherOrdinaryIncome + otherOrdinaryIncome, 2);
+  taxYear.preTaxDeductions = round(taxYear.preTaxDeductions + preTaxDeductions, 2);
+  if (investmentIncome) {
+    taxYear.investmentIncome = {
+      ordinary: round(taxYear.investmentIncome.ordinary + investmentIncome.ordinary, 2),
+      preferential: round(taxYear.investmentIncome.preferential + investmentIncome.preferential, 2),
+    };
+  }
+  taxYear.socialSecurity = round(taxYear.socialSecurity + socialSecurity, 2);
+  taxYear.withheld = round(taxYear.withheld + withheld, 2);
+}
+
+/**
+ * Close out a tax year.
+ *
+ * @param taxYear - Completed tax year state
+ * @param profile - Tax profile
+ * @returns True-up due: positive is owed, negative is a refund
+ */
+export function settleTaxYear(taxYear: TaxYearState, profile: TaxProfileDTO): number {
+  const liability = calculateAnnualTaxes(
+    taxYear.wages,
+    profile,
+    getAnnualOrdinaryIncome(taxYear, profile, taxYear.investmentIncome),
+    taxYear.indexFactor,
+    taxYear.preTaxDeductions,
+    taxYear.investmentIncome
+  );
+  return round(liability.total - taxYear.withheld, 2);
+}
+
+/**
+ * Calculate the tax a year's taxable-account income added to the bill.
+ *
+ * @param taxYear - Completed tax year state
+ * @param profile - Tax profile
+ * @returns Liability with investment income minus liability without it
+ */
+export function calculateInvestmentTaxDrag(taxYear: TaxYearState, profile: TaxProfileDTO): number {
+  const withInvestment = calculateAnnualTaxes(
+    taxYear.wages,
+    profile,
+    getAnnualOrdinaryIncome(taxYear, profile, taxYear.investmentIncome),
+    taxYear.indexFactor,
+    taxYear.preTaxDeductions,
+    taxYear.investmentIncome
+  );
+  const withoutInvestment = calculateAnnualTaxes(
+    taxYear.wages,
+    profile,
+    getAnnualOrdinaryIncome(taxYear, profile),
+    taxYear.indexFactor,
+    taxYear.preTaxDeductions
+  );
+  return round(withInvestment.total - withoutInvestment.total, 2);
+}
@@ -6,8 +6,17 @@ export type FilingStatus = "SINGLE" | "MFJ" | "HOH";
 export type AccountType = "TAXABLE" | "TRADITIONAL" | "ROTH";
 export type Frequency = "MONTHLY" | "BIWEEKLY" | "WEEKLY" | "ANNUAL" | "ONE_TIME";
 export type GrowthRule = "NONE" | "TRACK_INFLATION" | "CUSTOM_PERCENT";
-export type LoanType = "AUTO" | "STUDENT" | "PERSONAL" | "OTHER";
+export type IncomeType = "EARNED" | "SOCIAL_SECURITY" | "PENSION";
+export type LoanType = "MORTGAGE" | "HELOC" | "AUTO" | "STUDENT" | "PERSONAL" | "OTHER";
+export type WithdrawalOrder = "TAXABLE_FIRST" | "PROPORTIONAL" | "BRACKET_FILLING";
 export type GoalType = "COLLEGE" | "HOME_PURCHASE" | "RETIREMENT";
+export type RealAssetType = "HOME" | "VEHICLE" | "COLLECTIBLE";
+export type ScenarioEventType =
+  | "LUMP_SUM"
+  | "LOAN_PAYOFF"
+  | "ACCOUNT_TRANSFER"
+  | "ASSET_SALE"
+  | "INCOME_CHANGE";
 
 // Data Transfer Objects
 export interface HouseholdDTO {
@@ -17,6 +26,22 @@ export interface HouseholdDTO {
   endDate: ISODate;
 }
 
+export type Sex = "MALE" | "FEMALE";
+
+export interface MemberDTO {
+  id: string;
+  name: string;
+  birthDate?: ISODate;
+  /** Sex for life table lookups */
+  sex?: Sex;
+  /**
+   * Age through which the member is projected; defaults from the life table
+   * when sex and birth date are set. Incomes stop and accounts pass to
+   * survivors after.
+   */
+  lifeExpectancy?: number;
+}
+
 export interface ScenarioAssumptionsDTO {
   inflationRatePct: number;
   taxableInterestYieldPct: number;
@@ -35,6 +60,30 @@ export interface IncomeDTO {
   endDate?: ISODate;
   growthRule: GrowthRule;
   growthPct?: number;
+  /** Defaults to EARNED; benefits are not subject to payroll taxes */
+  type?: IncomeType;
+  /** Member whose age and lifetime the income follows */
+  memberId?: string;
+  socialSecurity?: SocialSecurityDTO;
+  pension?: PensionDTO;
+}
+
+/**
+ * Social Security terms. The income's amount is the primary insurance
+ * amount (the benefit at full retirement age) in today's dollars; benefits
+ * get a cost-of-living adjustment tracking inflation.
+ */
+export interface SocialSecurityDTO {
+  /** Age benefits are claimed (62-70); earlier claims are reduced, later ones earn credits */
+  claimingAge: number;
+}
+
+/**
+ * Defined-benefit pension terms. The income's growth rule is its COLA.
+ */
+export interface PensionDTO {
+  /** Share of the benefit paid to a surviving member (0-100, defaults to 0) */
+  survivorPct?: number;
 }
 
 export interface ExpenseDTO {
@@ -64,14 +113,45 @@ export interface InvestmentAccountDTO {
   type: AccountType;
   expectedReturnPct: number;
   holdings: HoldingDTO[];
+  /** Owning member; unowned accounts are attributed to the first member */
+  memberId?: string;
+  /** Plan whose IRS contribution limit applies (omit for no limit) */
+  plan?: ContributionPlan;
 }
 
+/** Plan types that share an annual IRS contribution limit per member */
+export type ContributionPlan = "401K" | "IRA" | "HSA";
+
 export interface ContributionRuleDTO {
   accountId: string;
   amountMonthly: number;
   startDate: ISODate;
   endDate?: ISODate;
   escalationPct?: number;
+  /** Employer match as a percentage of the employee contribution */
+  employerMatchPct?: number;
+  /** Maximum employer match per calendar year */
+  employerMatchLimitAnnual?: number;
+}
+
+export interface CashOverflowRuleDTO {
+  accountId: string;
+  /** Share of the excess above target swept to this account each month (0-100) */
+  sharePct: number;
+  maxMonthly?: number;
+}
+
+export interface CashAccountDTO {
+  initialBalance: number;
+  /** Balance to keep on hand; anything above is swept by the overflow rules */
+  targetBalance?: number;
+  overflowRules: CashOverflowRuleDTO[];
+}
+
+export interface WithdrawalStrategyDTO {
+  order: WithdrawalOrder;
+  /** Federal bracket rate (e.g. 12) to fill with traditional withdrawals under BRACKET_FILLING */
+  fillBracketPct?: number;
 }
 
 export interface LoanDTO {
@@ -84,8 +164,129 @@ export interface LoanDTO {
   startDate: ISODate;
   paymentOverrideMonthly?: number;
   extraPaymentMonthly?: number;
+  /** Extra principal paid only between the given dates */
+  extraPayments?: ScheduledExtraPaymentDTO[];
+  /** Months from loan start during which only interest is due */
+  interestOnlyMonths?: number;
+  /** Rate adjustment terms; aprPct is the initial rate */
+  adjustableRate?: AdjustableRateDTO;
+  /** Draw period terms for HELOC loans; principal is the balance drawn at start */
+  heloc?: HelocDTO;
+}
+
+export interface ScheduledExtraPaymentDTO {
+  amountMonthly: number;
+  startDate: ISODate;
+  /** Last month the extra is paid (open-ended if omitted) */
+  endDate?: ISODate;
+}
+
+export interface RatePathPointDTO {
+  /** Index rate from this date until the next point (percent) */
+  date: ISODate;
+  ratePct: number;
+}
+
+export interface AdjustableRateDTO {
+  /** Months at the initial rate before the first adjustment */
+  initialFixedMonths: number;
+  /** Months between adjustments after the first */
+  adjustmentIntervalMonths: number;
+  /** Added to the index rate at each adjustment (percent) */
+  marginPct: number;
+  /** Index rate path; the index holds at the initial rate less margin before the first point */
+  indexPath: RatePathPointDTO[];
+  /** Largest change at the first adjustment (defaults to periodicCapPct) */
+  initialCapPct?: number;
+  /** Largest change at each later adjustment */
+  periodicCapPct?: number;
+  /** Largest rise above the initial rate over the life of the loan */
+  lifetimeCapPct?: number;
+  /** Lowest rate the loan can adjust to (defaults to marginPct) */
+  floorPct?: number;
+}
+
+export interface HelocDrawDTO {
+  date: ISODate;
+  amount: number;
+}
+
+export interface HelocDTO {
+  /** Months from loan start during which draws are allowed and payments are interest-only; the rest of termMonths repays the balance */
+  drawPeriodMonths: number;
+  creditLimit: number;
+  /** Draws paid out to cash; capped at the unused credit limit */
+  draws?: HelocDrawDTO[];
+}
+
+export interface RealAssetDTO {
+  id: string;
+  type: RealAssetType;
+  name: string;
+  /** Purchase price, or current value for assets bought before the projection starts */
+  value: number;
+  purchaseDate: ISODate;
+  /** Original cost for gains on sale (defaults to value) */
+  costBasis?: number;
+  /** Annual appreciation; negative depreciates (defaults by asset type) */
+  appreciationPct?: number;
+  /** Property tax, insurance, maintenance etc. in today's dollars */
+  carryingCostMonthly?: number;
+  /** Loan financing the purchase; the remainder is paid from cash */
+  linkedLoanId?: string;
+}
+
+export interface ScenarioEventBase {
+  id: string;
+  name: string;
+  date: ISODate;
+}
+
+/** Untaxed cash in (positive: inheritance, gift) or out (negative: purchase) */
+export interface LumpSumEventDTO extends ScenarioEventBase {
+  type: "LUMP_SUM";
+  amount: number;
+}
+
+/** Pay off a loan's remaining balance, from an account or else from cash */
+export interface LoanPayoffEventDTO extends ScenarioEventBase {
+  type: "LOAN_PAYOFF";
+  loanId: string;
+  fromAccountId?: string;
+}
+
+/** Move money between accounts; TRADITIONAL to non-TRADITIONAL is taxed as a conversion */
+export interface AccountTransferEventDTO extends ScenarioEventBase {
+  type: "ACCOUNT_TRANSFER";
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+}
+
+/** Sell a real asset, repaying its linked loan and taxing any gain */
+export interface AssetSaleEventDTO extends ScenarioEventBase {
+  type: "ASSET_SALE";
+  assetId: string;
+  /** Agent fees and closing costs as a percentage of the sale price */
+  sellingCostPct?: number;
+  /** Account receiving the net proceeds; omit for cash */
+  depositAccountId?: string;
+}
+
+/** Stop an income from this month, or start it this month */
+export interface IncomeChangeEventDTO extends ScenarioEventBase {
+  type: "INCOME_CHANGE";
+  incomeId: string;
+  action: "STOP" | "START";
 }
 
+export type ScenarioEventDTO =
+  | LumpSumEventDTO
+  | LoanPayoffEventDTO
+  | AccountTransferEventDTO
+  | AssetSaleEventDTO
+  | IncomeChangeEventDTO;
+
 export interface GoalDTO {
   id: string;
   type: GoalType;
@@ -93,6 +294,8 @@ export interface GoalDTO {
   targetAmountReal: number;
   targetDate: ISODate;
   priority: 1 | 2 | 3;
+  linkedAccountIds?: string[]; // Accounts funding the goal; empty falls back to net worth
+  earmarkPct?: number; // Share of linked balances reserved for the goal (default 100)
 }
 
 // Tax types (simplified for MVP)
@@ -102,6 +305,8 @@ export interface TaxProfileDTO {
   taxYear: number;
   includePayrollTaxes: boolean;
   advancedOverridesEnabled: boolean;
+  /** Years after the year of a spouse's death that a joint return is kept (default 0) */
+  qualifyingSurvivorYears?: number;
 }
 
 export interface TaxRulesDTO {
@@ -113,6 +318,7 @@ export interface TaxRulesDTO {
 export interface ScenarioInputDTO {
   scenarioId: string;
   household: HouseholdDTO;
+  members?: MemberDTO[];
   assumptions: ScenarioAssumptionsDTO;
   taxProfile: TaxProfileDTO;
   taxRules: TaxRulesDTO;
@@ -122,6 +328,10 @@ export interface ScenarioInputDTO {
   contributions: ContributionRuleDTO[];
   loans: LoanDTO[];
   goals: GoalDTO[];
+  realAssets?: RealAssetDTO[];
+  events?: ScenarioEventDTO[];
+  cash?: CashAccountDTO;
+  withdrawalStrategy?: WithdrawalStrategyDTO;
 }
 
 // Output types
@@ -138,8 +348,18 @@ export interface ProjectionSeries {
   expenseTotal: SeriesPoint[];
   taxesTotal: SeriesPoint[];
   cashflowNet: SeriesPoint[];
+  cashBalance: SeriesPoint[];
+  realAssets: SeriesPoint[];
+  realAssetValues: Record<string, SeriesPoint[]>;
   accountBalances: Record<string, SeriesPoint[]>;
-  goalProgress: Record<string, { funded: SeriesPoint[]; targetNominal: SeriesPoint[] }>;
+  goalProgress: Record<string, { funded: SeriesPoint[]; targetNominal: SeriesPoint[] }>; // Target in the result's dollars
+}
+
+export interface EventAnnotation {
+  id: string;
+  name: string;
+  type: ScenarioEventType;
+  amount: number; // Cash moved, loan balance repaid or net sale proceeds
 }
 
 export interface MonthlyBreakdownRow {
@@ -147,9 +367,21 @@ export interface MonthlyBreakdownRow {
   income: number;
   expenses: number;
   taxes: number;
+  taxTrueUp: number; // Prior-year settlement in April: positive owed, negative refund
+  socialSecurityIncome: number; // Included in income
+  pensionIncome: number; // Included in income
   loanPayments: number;
+  loanDraws: number; // HELOC draws paid out to cash
   contributions: number;
   investmentReturns: number;
+  withdrawals: number;
+  accountWithdrawals: Record<string, number>;
+  goalWithdrawals: number; // Paid out of linked accounts at goal target dates
+  employerMatch: number; // Deposited by employers on top of contributions
+  taxableInvestmentIncome: number; // Reinvested interest, dividends and realized gains
+  realAssetPurchases: number; // Down payments on real assets bought this month
+  eventCashflow: number; // Net cash from scheduled events
+  events: EventAnnotation[]; // Scheduled events applied this month
   netCashflow: number;
   assetsEnd: number;
   liabilitiesEnd: number;
@@ -162,21 +394,74 @@ export interface AnnualSummaryRow {
   taxes: number;
   netSavings: number;
   endNetWorth: number;
+  rmd: number;
+}
+
+export interface TaxBracketRow {
+  rate: number;
+  taxableAmount: number;
+  tax: number;
+}
+
+export interface TaxAnnualRow {
+  year: number;
+  grossIncome: {
+    wages: number;
+    ordinaryDistributions: number; // Traditional withdrawals, RMDs, pensions and taxable Social Security
+    investmentOrdinary: number; // Taxable-account interest and short-term gains
+    investmentPreferential: number; // Qualified dividends and long-term gains
+    total: number;
+  };
+  preTaxContributions: number; // Payroll deductions into TRADITIONAL accounts
+  agi: number;
+  standardDeduction: number;
+  taxableIncome: number;
+  federalTax: number;
+  federalByBracket: TaxBracketRow[]; // Ordinary income only
+  capitalGainsTax: number; // Preferential 0/15/20% rates
+  niit: number; // 3.8% Net Investment Income Tax
+  fica: {
+    socialSecurity: number;
+    medicare: number;
+    total: number;
+  };
+  stateTax: number;
+  totalTax: number;
+  effectiveRate: number;
+  marginalRate: number;
 }
 
 export interface Warning {
-  code: "DEFICIT_MONTH" | "GOAL_SHORTFALL" | "HIGH_TAX_DRAG" | "TAX_RULES_MISSING";
+  code:
+    | "DEFICIT_MONTH"
+    | "GOAL_SHORTFALL"
+    | "HIGH_TAX_DRAG"
+    | "TAX_RULES_MISSING"
+    | "CASH_EXHAUSTED"
+    | "RMD_BRACKET_JUMP"
+    | "CONTRIBUTION_LIMIT_EXCEEDED"
+    | "MEMBER_PLAN_END";
   severity: "info" | "warn" | "error";
   message: string;
   at?: ISODate;
 }
 
+/** Dollars engine amounts are stated in: future (nominal) or start-date (real) */
+export type DollarBasis = "NOMINAL" | "REAL";
+
+/** Output options for runEngine */
+export interface EngineOptions {
+  /** State every series and summary in nominal or today's dollars (default NOMINAL) */
+  dollars?: DollarBasis;
+}
+
 export interface ProjectionResultDTO {
   engineVersion: string;
   inputHash: string;
+  dollars: DollarBasis;
   series: ProjectionSeries;
   monthly: MonthlyBreakdownRow[];
   annual: AnnualSummaryRow[];
-  taxAnnual: unknown[];
+  taxAnnual: TaxAnnualRow[];
   warnings: Warning[];
 }
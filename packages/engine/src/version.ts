@@ -1 +1,6 @@
-export const ENGINE_VERSION = "0.1.0";
+/**
+ * Version of the engine's projection logic. Cached results are only served
+ * while their stored version matches, so any change to engine output must
+ * bump it.
+ */
+export const ENGINE_VERSION = "0.2.0";